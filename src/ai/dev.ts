@@ -1,2 +1,4 @@
 import { config } from 'dotenv';
 config();
+
+import '@/ai/flows/analyze-retirement-scenarios';
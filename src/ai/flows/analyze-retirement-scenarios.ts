@@ -0,0 +1,20 @@
+'use server';
+
+/**
+ * @fileOverview Server action that reviews retirement expense scenarios with the LLM.
+ *
+ * - analyzeRetirementScenarios - Returns typed scenario recommendations for a projection.
+ */
+
+import { ai } from '@/ai/genkit';
+import {
+  defineRetirementScenarioFlow,
+  type RetirementScenarioInput,
+  type RetirementScenarioOutput,
+} from '@/ai/flows/retirement-scenario-flow';
+
+const retirementScenarioFlow = defineRetirementScenarioFlow(ai);
+
+export async function analyzeRetirementScenarios(input: RetirementScenarioInput): Promise<RetirementScenarioOutput> {
+  return retirementScenarioFlow(input);
+}
@@ -0,0 +1,81 @@
+/**
+ * @fileOverview Schemas and flow definition for reviewing retirement expense scenarios.
+ *
+ * The flow is defined against a Genkit instance passed in by the caller, so it can be
+ * registered on the app's `ai` instance or on one configured with a stub model.
+ *
+ * - defineRetirementScenarioFlow - Registers the flow on a Genkit instance.
+ * - RetirementScenarioInput - The input type for the flow.
+ * - RetirementScenarioOutput - The return type for the flow.
+ */
+
+import { z, type Genkit } from 'genkit';
+
+export const RetirementScenarioInputSchema = z.object({
+  projection: z.object({
+    currentAge: z.number().describe('The user\'s current age.'),
+    retirementAge: z.number().describe('The age at which the user plans to retire.'),
+    lifeExpectancy: z.number().describe('The age the plan needs to last until.'),
+    nestEgg: z.number().describe('Projected savings at retirement, in future dollars.'),
+    nestEggToday: z.number().describe('Projected savings at retirement, in today\'s dollars.'),
+    withdrawalRate: z.number().describe('Initial annual withdrawal rate, as a percentage of savings.'),
+    inflationRate: z.number().describe('Assumed annual inflation rate, as a percentage.'),
+    monthlyIncomeToday: z.number().describe('Sustainable monthly retirement income, in today\'s dollars.'),
+    depletionAge: z.number().nullable().describe('Age at which savings run out, or null if they last.'),
+  }),
+  expenses: z.array(z.object({
+    category: z.string().describe('Expense category, e.g. Housing.'),
+    monthlyAmount: z.number().describe('Planned monthly spending in today\'s dollars.'),
+  })).describe('The retirement expenses the user entered.'),
+});
+export type RetirementScenarioInput = z.infer<typeof RetirementScenarioInputSchema>;
+
+export const RetirementScenarioOutputSchema = z.object({
+  summary: z.string().describe('A short overall assessment of the user\'s retirement plan.'),
+  scenarios: z.array(z.object({
+    name: z.string().describe('Short name for the scenario, e.g. "Current plan" or "Downsized housing".'),
+    monthlyBudget: z.number().describe('Total monthly spending for this scenario, in today\'s dollars.'),
+    feasibility: z.enum(['comfortable', 'feasible', 'stretch', 'unrealistic']).describe('How reasonable the scenario is given the projection.'),
+    rationale: z.string().describe('Why the scenario received this feasibility rating.'),
+    adjustments: z.array(z.string()).describe('Concrete expense changes that define or improve the scenario.'),
+  })),
+});
+export type RetirementScenarioOutput = z.infer<typeof RetirementScenarioOutputSchema>;
+
+export function defineRetirementScenarioFlow(ai: Genkit) {
+  const prompt = ai.definePrompt({
+    name: 'retirementScenarioPrompt',
+    input: { schema: RetirementScenarioInputSchema },
+    output: { schema: RetirementScenarioOutputSchema },
+    prompt: `You are a careful retirement planning assistant. Review the user's retirement projection and planned monthly expenses, and suggest which spending scenarios they can reasonably consider given their present circumstances.
+
+Projection (all "today's dollars" figures are inflation-adjusted):
+- Current age: {{{projection.currentAge}}}
+- Retirement age: {{{projection.retirementAge}}}
+- Plan must last until age: {{{projection.lifeExpectancy}}}
+- Savings at retirement: {{{projection.nestEgg}}} ({{{projection.nestEggToday}}} in today's dollars)
+- Withdrawal rate: {{{projection.withdrawalRate}}}%
+- Inflation: {{{projection.inflationRate}}}%
+- Sustainable monthly income: {{{projection.monthlyIncomeToday}}} in today's dollars
+{{#if projection.depletionAge}}- Savings run out at age: {{{projection.depletionAge}}}{{else}}- Savings last for the whole plan.{{/if}}
+
+Planned monthly expenses:
+{{#each expenses}}- {{{category}}}: {{{monthlyAmount}}}
+{{/each}}
+
+Propose between two and four scenarios, starting with the user's current plan. Compare each scenario's monthly budget to the sustainable income and rate its feasibility. Base every recommendation on the numbers above, name specific expense categories to adjust, and do not give investment product advice.`,
+  });
+
+  return ai.defineFlow(
+    {
+      name: 'retirementScenarioFlow',
+      inputSchema: RetirementScenarioInputSchema,
+      outputSchema: RetirementScenarioOutputSchema,
+    },
+    async (input) => {
+      const { output } = await prompt(input);
+      if (!output) throw new Error('The model did not return any retirement scenarios.');
+      return output;
+    }
+  );
+}
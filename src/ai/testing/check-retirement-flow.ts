@@ -0,0 +1,73 @@
+/**
+ * @fileOverview Runs the retirement scenario flow end to end against the stub model.
+ *
+ *   npm run genkit:check
+ *
+ * Checks that the prompt renders the projection, that a well-formed model answer
+ * comes back typed, and that an answer which does not match the output schema is
+ * rejected. Exits non-zero on the first failed check; needs no API key or network.
+ */
+
+import assert from 'node:assert/strict';
+import { genkit } from 'genkit';
+import { defineRetirementScenarioFlow, type RetirementScenarioInput, type RetirementScenarioOutput } from '@/ai/flows/retirement-scenario-flow';
+import { STUB_MODEL, stubModelPlugin } from '@/ai/testing/stub-model';
+
+const input: RetirementScenarioInput = {
+  projection: {
+    currentAge: 40,
+    retirementAge: 65,
+    lifeExpectancy: 90,
+    nestEgg: 1_500_000,
+    nestEggToday: 800_000,
+    withdrawalRate: 4,
+    inflationRate: 2.5,
+    monthlyIncomeToday: 2_667,
+    depletionAge: null,
+  },
+  expenses: [
+    { category: 'Housing', monthlyAmount: 1_800 },
+    { category: 'Travel', monthlyAmount: 900 },
+  ],
+};
+
+const answer: RetirementScenarioOutput = {
+  summary: 'Planned spending is slightly above the sustainable income.',
+  scenarios: [
+    { name: 'Current plan', monthlyBudget: 2_700, feasibility: 'stretch', rationale: 'Spending exceeds income by $33 a month.', adjustments: [] },
+    { name: 'Less travel', monthlyBudget: 2_400, feasibility: 'feasible', rationale: 'Fits within the sustainable income.', adjustments: ['Cut travel to $600 a month.'] },
+  ],
+};
+
+function flowAnswering(response: unknown, onRequest?: (request: unknown) => void) {
+  const ai = genkit({
+    plugins: [stubModelPlugin((request: unknown) => {
+      onRequest?.(request);
+      return response;
+    })],
+    model: STUB_MODEL,
+  });
+  return defineRetirementScenarioFlow(ai);
+}
+
+async function main() {
+  let prompt = '';
+  const output = await flowAnswering(answer, (request) => {
+    prompt = JSON.stringify(request);
+  })(input);
+  assert.deepEqual(output, answer, 'the flow returns the model answer as typed output');
+  assert.match(prompt, /Housing: 1800/, 'the prompt lists the planned expenses');
+  assert.match(prompt, /Savings last for the whole plan/, 'the prompt reflects a plan that does not run out');
+  console.log('ok - well-formed answer is returned');
+
+  await assert.rejects(
+    flowAnswering({ summary: 'Missing scenarios.' })(input),
+    'an answer without scenarios is rejected'
+  );
+  console.log('ok - malformed answer is rejected');
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,30 @@
+/**
+ * @fileOverview A Genkit plugin providing a canned-response model, for running flows without network access.
+ *
+ * - stubModelPlugin - Creates a plugin registering `stub/model`, which answers every request with `response`.
+ */
+
+import { genkitPlugin } from 'genkit/plugin';
+
+export const STUB_MODEL = 'stub/model';
+
+export function stubModelPlugin(response: unknown | ((request: unknown) => unknown)) {
+  return genkitPlugin('stub', async (ai) => {
+    ai.defineModel(
+      {
+        name: STUB_MODEL,
+        supports: { multiturn: true, systemRole: true, output: ['text', 'json'] },
+      },
+      async (request) => {
+        const body = typeof response === 'function' ? response(request) : response;
+        return {
+          message: {
+            role: 'model',
+            content: [{ text: typeof body === 'string' ? body : JSON.stringify(body) }],
+          },
+          finishReason: 'stop',
+        };
+      }
+    );
+  });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { getCalculatorEndpoint } from '@/lib/calculator-api';
+
+function errorResponse(status: number, code: string, message: string, issues?: { path: string; message: string }[]) {
+  return NextResponse.json({ ok: false, error: { code, message, ...(issues && { issues }) } }, { status });
+}
+
+export async function POST(request: Request, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const endpoint = getCalculatorEndpoint(slug);
+  if (!endpoint) {
+    return errorResponse(404, 'not_found', `Unknown calculator: "${slug}"`);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'invalid_json', 'The request body must be valid JSON.');
+  }
+
+  const parsed = endpoint.schema.safeParse(body);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+    return errorResponse(400, 'validation_error', 'The input does not match the schema.', issues);
+  }
+
+  // A calculator failure means the input was well formed but has no answer, e.g. a zero denominator.
+  try {
+    const result = endpoint.run(parsed.data);
+    return NextResponse.json(result, { status: result.ok ? 200 : 422 });
+  } catch (error) {
+    console.error(`Calculator "${slug}" failed:`, error);
+    return errorResponse(500, 'internal_error', 'The calculation failed unexpectedly.');
+  }
+}
@@ -0,0 +1,11 @@
+import { getCalculatorMetadata } from '@/lib/calculator-registry';
+
+export const metadata = getCalculatorMetadata('absolute-value-equation-calculator');
+
+export default function Layout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return children;
+}
@@ -5,103 +5,109 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { solveAbsoluteValueEquation } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
-import Link from 'next/link';
 import { HelpCircle, Sigma, Lightbulb } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-
-const formSchema = z.object({
-  a: z.coerce.number().refine(n => n !== 0, { message: 'Coefficient "a" cannot be zero.' }),
-  b: z.coerce.number(),
-  c: z.coerce.number().min(0, 'Value "c" must be non-negative.'),
-});
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { formatInequalitySolution } from '@/lib/format';
+import { absoluteValueEquationSchema as formSchema } from '@/lib/calculator-schemas';
 
 type FormValues = z.infer<typeof formSchema>;
 
 export default function AbsoluteValueEquationCalculator() {
+  const formatter = useFormatter();
   const [result, setResult] = useState<ReturnType<typeof solveAbsoluteValueEquation> | null>(null);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
-    defaultValues: { a: 1, b: 0, c: 4 },
+    defaultValues: { equation: '|2x - 3| + 4 = 11' },
   });
 
   const onSubmit = (data: FormValues) => {
-    const res = solveAbsoluteValueEquation(data.a, data.b, data.c);
+    const res = solveAbsoluteValueEquation(data.equation);
+    if (!res.ok) form.setError('root.serverError', { type: 'custom', message: res.error.message });
     setResult(res);
   };
 
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('absolute-value-equation-calculator', form, result);
+
   return (
     <div className="space-y-8">
-      <Card>
+      <PrintReportHeader slug="absolute-value-equation-calculator" form={form} result={result} />
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Absolute Value Equation Calculator</CardTitle>
-          <CardDescription>Solve absolute value equations of the form |ax + b| = c.</CardDescription>
+          <CardDescription>Solve equations with absolute values, such as |2x - 3| + 4 = 11 or |x + 1| = |2x - 3|.</CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <div className="flex items-center gap-4">
-                <span className="text-2xl font-bold">|</span>
-                <FormField control={form.control} name="a" render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>a</FormLabel>
-                    <FormControl><Input type="number" {...field} className="w-20" /></FormControl>
-                  </FormItem>
-                )} />
-                <span className="text-2xl font-bold">x +</span>
-                <FormField control={form.control} name="b" render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>b</FormLabel>
-                    <FormControl><Input type="number" {...field} className="w-20" /></FormControl>
-                  </FormItem>
-                )} />
-                <span className="text-2xl font-bold">| =</span>
-                <FormField control={form.control} name="c" render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>c</FormLabel>
-                    <FormControl><Input type="number" {...field} className="w-20" /></FormControl>
-                  </FormItem>
-                )} />
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
+              <FormField control={form.control} name="equation" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Equation</FormLabel>
+                  <FormControl><Input placeholder="e.g., |2x - 3| + 4 = 11" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              {form.formState.errors.root?.serverError && <FormMessage>{form.formState.errors.root.serverError.message}</FormMessage>}
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Solve</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="absolute-value-equation-calculator" form={form} />
+                <ScenarioComparison slug="absolute-value-equation-calculator" form={form} />
               </div>
-               <FormMessage>{form.formState.errors.a?.message || form.formState.errors.c?.message}</FormMessage>
-              <Button type="submit">Solve for x</Button>
             </form>
           </Form>
         </CardContent>
       </Card>
 
-      {result && (
+      {result?.ok && (
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
             <CardTitle>Solution</CardTitle>
+            <ExportMenu slug="absolute-value-equation-calculator" form={form} result={result} />
           </CardHeader>
           <CardContent className="text-center">
             <div className="p-6 bg-primary/10 rounded-lg">
-              <p className="text-sm text-muted-foreground">The solutions for x are:</p>
-              <p className="text-4xl font-bold text-primary">{result.solutions.join(' and ')}</p>
+              <p className="text-sm text-muted-foreground">The solutions of {result.data.equation} are:</p>
+              <p className="text-4xl font-bold text-primary">{formatInequalitySolution(result.data.solution, formatter, result.data.variable)}</p>
+            </div>
+            <p className="text-muted-foreground mt-4">{result.data.explanation}</p>
+            <div className="text-left mt-6">
+              <h3 className="font-semibold text-lg">Steps:</h3>
+              <div className="p-4 bg-muted/50 rounded-lg space-y-2 mt-2 text-sm text-muted-foreground">
+                {result.data.steps.map((step, index) => <p key={index} className="font-mono">{step}</p>)}
+              </div>
             </div>
-             <p className="text-muted-foreground mt-4">{result.explanation}</p>
           </CardContent>
         </Card>
       )}
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Inputs</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
           <div>
-            <h3 className="font-semibold text-lg">Equation Form: |ax + b| = c</h3>
-            <p className="text-muted-foreground">This calculator solves equations where an absolute value expression is equal to a constant.</p>
+            <h3 className="font-semibold text-lg">Equation</h3>
+            <p className="text-muted-foreground">Type the equation as you would write it, with one "=" sign and a single variable. Absolute values can appear on either side, more than once, and inside each other.</p>
             <ul className="list-disc pl-5 mt-2 space-y-1 text-muted-foreground">
-              <li><b>a</b>: The coefficient of x inside the absolute value. It cannot be zero.</li>
-              <li><b>b</b>: The constant term inside the absolute value.</li>
-              <li><b>c</b>: The constant on the other side of the equation. It must be zero or positive, because the result of an absolute value cannot be negative.</li>
+              <li><b>Absolute values</b>: Wrap an expression in vertical bars, e.g. `|2x - 3|`. A number in front multiplies it, so `3|x + 1|` is three times `|x + 1|`.</li>
+              <li><b>Operators</b>: Use `+`, `-`, `*` and `/`. Multiplication can be implied, as in `2x` or `2(x + 1)`.</li>
+              <li><b>Linear only</b>: Apart from the absolute values, the equation must be linear in the variable. Powers such as `x^2` or products such as `x|x|` are reported with the column where they appear.</li>
             </ul>
           </div>
         </CardContent>
@@ -113,21 +119,23 @@ export default function AbsoluteValueEquationCalculator() {
         </CardHeader>
         <CardContent>
           <p>The core principle of solving an absolute value equation is to recognize that the expression inside the absolute value bars can be either positive or negative. The absolute value of a number represents its distance from zero on the number line, which is always a non-negative value.</p>
-          <p className="mt-2">An equation of the form `|X| = c`, where `c ≥ 0`, splits into two separate linear equations:</p>
+          <p className="mt-2">The calculator moves everything to one side, giving `f(x) = 0`, and finds every point where the expression inside an absolute value is zero. Between those points no absolute value changes sign, so `f` is an ordinary linear expression there:</p>
           <div className="p-4 bg-muted/50 rounded-lg space-y-2 mt-4 text-center">
-            <p className="font-mono text-sm md:text-base font-bold text-primary">1. X = c</p>
-            <p className="font-mono text-sm md:text-base font-bold text-primary">2. X = -c</p>
+            <p className="font-mono text-sm md:text-base"><b>|X| = X</b> where X ≥ 0</p>
+            <p className="font-mono text-sm md:text-base"><b>|X| = -X</b> where X &lt; 0</p>
           </div>
-          <p className="mt-2">For the equation `|ax + b| = c`, we substitute `X` with `ax + b` to get our two cases:</p>
+          <p className="mt-2">For `|2x - 3| + 4 = 11`, the bars change sign at x = 1.5, which gives two cases:</p>
           <div className="p-4 bg-muted/50 rounded-lg space-y-2 mt-4 text-center">
-            <p className="font-mono text-sm md:text-base"><b>Case 1:</b> ax + b = c  =&gt;  ax = c - b  =&gt;  x = (c - b) / a</p>
-            <p className="font-mono text-sm md:text-base"><b>Case 2:</b> ax + b = -c =&gt;  ax = -c - b =&gt;  x = (-c - b) / a</p>
+            <p className="font-mono text-sm md:text-base"><b>x &lt; 1.5:</b> -(2x - 3) + 4 - 11 = 0  =&gt;  -2x - 4 = 0  =&gt;  x = -2</p>
+            <p className="font-mono text-sm md:text-base"><b>x ≥ 1.5:</b> (2x - 3) + 4 - 11 = 0  =&gt;  2x - 10 = 0  =&gt;  x = 5</p>
           </div>
-          <p className="mt-2 text-muted-foreground">The calculator solves for `x` in both of these equations to find the two possible solutions.</p>
+          <p className="mt-2 text-muted-foreground">A solution is kept only if it lies in its own case, which rules out extraneous solutions automatically. The arithmetic is exact, so fractions such as 10/3 are not rounded until they are displayed. If a case simplifies to `0 = 0`, every value in that case is a solution and the answer is an interval.</p>
         </CardContent>
       </Card>
 
-      <Card>
+      <RelatedCalculators slug="absolute-value-equation-calculator" />
+
+      <Card className="print:hidden">
         <CardHeader>
             <CardTitle className="flex items-center gap-2"><Lightbulb className="h-5 w-5" />In-Depth Guide to Absolute Value Equations</CardTitle>
         </CardHeader>
@@ -211,7 +219,7 @@ export default function AbsoluteValueEquationCalculator() {
         </CardContent>
       </Card>
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Frequently Asked Questions</CardTitle>
         </CardHeader>
@@ -238,7 +246,7 @@ export default function AbsoluteValueEquationCalculator() {
             <AccordionItem value="item-4">
               <AccordionTrigger>What if there is a variable outside the absolute value bars?</AccordionTrigger>
               <AccordionContent>
-                <p>This calculator is not designed for equations like `|x + 2| = 3x - 4`. These are more complex because the right side of the equation can be positive or negative depending on the value of `x`. While you still split the equation into two cases, you must check your final solutions to ensure they don't make the non-absolute side of the original equation negative. These invalid solutions are called "extraneous solutions."</p>
+                <p>Equations like `|x + 2| = 3x - 4` are supported. The right side can be positive or negative depending on the value of `x`, so the calculator solves each case on its own range of `x` and drops any answer that falls outside it. Solving `x + 2 = 3x - 4` gives x = 3, which is in the case x ≥ -2; solving `-(x + 2) = 3x - 4` gives x = 0.5, which is not less than -2, so it is an "extraneous solution" and is discarded.</p>
               </AccordionContent>
             </AccordionItem>
              <AccordionItem value="item-5">
@@ -251,12 +259,12 @@ export default function AbsoluteValueEquationCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Summary</CardTitle>
         </CardHeader>
         <CardContent>
-          <p className="text-muted-foreground">The Absolute Value Equation Calculator is a tool designed to solve equations of the form `|ax + b| = c`. The core methodology involves isolating the absolute value expression and splitting the problem into two separate linear equations, reflecting the positive and negative possibilities of the expression inside the bars. This calculator provides a quick way to find both potential solutions and highlights special cases, such as when there is one unique solution (`c=0`) or no solution at all (`c&lt;0`), making it a useful resource for students and educators in algebra.</p>
+          <p className="text-muted-foreground">The Absolute Value Equation Calculator solves any equation that is linear apart from its absolute values, such as `|2x - 3| + 4 = 11` or `|x| = |2x - 3|`. It splits the number line at the points where each absolute value changes sign, solves the linear equation in each case exactly, keeps only the solutions that belong to their case and checks them in the original equation. It also handles the special cases of a single solution, no solution at all, or a whole interval of solutions, making it a useful resource for students and educators in algebra.</p>
         </CardContent>
       </Card>
     </div>
@@ -6,127 +6,110 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { solveAbsoluteValueInequality } from '@/lib/calculators';
+import { formatInequalitySolution, formatIntervalNotation } from '@/lib/format';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { HelpCircle, Sigma, Lightbulb } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-
-const formSchema = z.object({
-  a: z.coerce.number().refine(n => n !== 0, { message: 'Coefficient "a" cannot be zero.' }),
-  b: z.coerce.number(),
-  inequality: z.enum(['<', '<=', '>', '>=']),
-  c: z.coerce.number(),
-}).refine(data => {
-    if (data.c < 0 && (data.inequality === '<' || data.inequality === '<=')) {
-        return false;
-    }
-    return true;
-}, {
-    message: "An absolute value cannot be less than a negative number. This inequality has no solution.",
-    path: ['c'],
-});
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { absoluteValueInequalitiesSchema as formSchema } from '@/lib/calculator-schemas';
 
 
 type FormValues = z.infer<typeof formSchema>;
 
 export default function AbsoluteValueInequalityCalculator() {
+  const formatter = useFormatter();
   const [result, setResult] = useState<ReturnType<typeof solveAbsoluteValueInequality> | null>(null);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
-    defaultValues: { a: 1, b: 0, inequality: '<', c: 5 },
+    defaultValues: { inequality: '|2x - 3| <= x + 3' },
   });
 
   const onSubmit = (data: FormValues) => {
-    const res = solveAbsoluteValueInequality(data.a, data.b, data.inequality, data.c);
+    const res = solveAbsoluteValueInequality(data.inequality);
+    if (!res.ok) form.setError('root.serverError', { type: 'custom', message: res.error.message });
     setResult(res);
   };
-  
-  const c = form.watch('c');
+
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('absolute-value-inequalities-calculator', form, result);
 
   return (
     <div className="space-y-8">
-      <Card>
+      <PrintReportHeader slug="absolute-value-inequalities-calculator" form={form} result={result} />
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Absolute Value Inequality Calculator</CardTitle>
-          <CardDescription>Solve inequalities of the form |ax + b| &lt; c or |ax + b| &gt; c.</CardDescription>
+          <CardDescription>Solve inequalities with absolute values, such as |2x - 3| &le; 5 or |x + 1| &ge; 2x - 4.</CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <div className="flex items-center gap-4">
-                <span className="text-2xl font-bold">|</span>
-                <FormField control={form.control} name="a" render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>a</FormLabel>
-                    <FormControl><Input type="number" {...field} className="w-20" /></FormControl>
-                  </FormItem>
-                )} />
-                <span className="text-2xl font-bold">x +</span>
-                <FormField control={form.control} name="b" render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>b</FormLabel>
-                    <FormControl><Input type="number" {...field} className="w-20" /></FormControl>
-                  </FormItem>
-                )} />
-                <span className="text-2xl font-bold">|</span>
-                 <FormField control={form.control} name="inequality" render={({ field }) => (
-                    <FormItem>
-                        <FormLabel>Inequality</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
-                            <FormControl><SelectTrigger className="w-20"><SelectValue /></SelectTrigger></FormControl>
-                            <SelectContent>
-                                <SelectItem value="<">&lt;</SelectItem>
-                                <SelectItem value="<=">&le;</SelectItem>
-                                <SelectItem value=">">&gt;</SelectItem>
-                                <SelectItem value=">=">&ge;</SelectItem>
-                            </SelectContent>
-                        </Select>
-                    </FormItem>
-                 )} />
-                <FormField control={form.control} name="c" render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>c</FormLabel>
-                    <FormControl><Input type="number" {...field} className="w-20" /></FormControl>
-                  </FormItem>
-                )} />
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
+              <FormField control={form.control} name="inequality" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Inequality</FormLabel>
+                  <FormControl><Input placeholder="e.g., |2x - 3| <= x + 3" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              {form.formState.errors.root?.serverError && <FormMessage>{form.formState.errors.root.serverError.message}</FormMessage>}
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Solve</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="absolute-value-inequalities-calculator" form={form} />
+                <ScenarioComparison slug="absolute-value-inequalities-calculator" form={form} />
               </div>
-              <FormMessage>{form.formState.errors.a?.message || form.formState.errors.c?.message}</FormMessage>
-              <Button type="submit">Solve for x</Button>
             </form>
           </Form>
         </CardContent>
       </Card>
 
-      {result && (
+      {result?.ok && (
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
             <CardTitle>Solution</CardTitle>
+            <ExportMenu slug="absolute-value-inequalities-calculator" form={form} result={result} />
           </CardHeader>
           <CardContent className="text-center">
             <div className="p-6 bg-primary/10 rounded-lg">
-              <p className="text-sm text-muted-foreground">The solution set for x is:</p>
-              <p className="text-4xl font-bold text-primary" dangerouslySetInnerHTML={{ __html: result.solution.replace(/</g, '&lt;').replace(/>/g, '&gt;') }} />
+              <p className="text-sm text-muted-foreground">The solution set of {result.data.inequality} is:</p>
+              <p className="text-4xl font-bold text-primary">{formatInequalitySolution(result.data.solution, formatter, result.data.variable)}</p>
+            </div>
+            <p className="text-muted-foreground mt-4">{result.data.explanation} Interval Notation: {formatIntervalNotation(result.data.solution, formatter)}</p>
+            <div className="text-left mt-6">
+              <h3 className="font-semibold text-lg">Steps:</h3>
+              <div className="p-4 bg-muted/50 rounded-lg space-y-2 mt-2 text-sm text-muted-foreground">
+                {result.data.steps.map((step, index) => <p key={index} className="font-mono">{step}</p>)}
+              </div>
             </div>
-             <p className="text-muted-foreground mt-4">{result.explanation}</p>
           </CardContent>
         </Card>
       )}
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Inputs</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
           <div>
-            <h3 className="font-semibold text-lg">Inequality Form: |ax + b| [operator] c</h3>
+            <h3 className="font-semibold text-lg">Inequality</h3>
+            <p className="text-muted-foreground">Type the inequality as you would write it, with a single variable. Absolute values can appear on either side, more than once, and inside each other.</p>
             <ul className="list-disc pl-5 mt-2 space-y-1 text-muted-foreground">
-              <li><b>a, b, c</b>: The coefficients and constant of your inequality.</li>
-              <li><b>Inequality Operator</b>: Choose from &lt; (less than), &le; (less than or equal to), &gt; (greater than), or &ge; (greater than or equal to).</li>
+              <li><b>Inequality Operator</b>: Use exactly one of &lt; (less than), &lt;= or &le; (less than or equal to), &gt; (greater than), or &gt;= or &ge; (greater than or equal to).</li>
+              <li><b>Absolute values</b>: Wrap an expression in vertical bars, e.g. `|2x - 3|`. A number in front multiplies it, so `3|x + 1|` is three times `|x + 1|`.</li>
+              <li><b>Linear only</b>: Apart from the absolute values, both sides must be linear in the variable, so `x^2` or `x|x|` are not accepted.</li>
             </ul>
           </div>
         </CardContent>
@@ -151,11 +134,15 @@ export default function AbsoluteValueInequalityCalculator() {
             <p className="font-mono text-sm md:text-base font-bold text-primary">X &gt; c   OR   X &lt; -c</p>
           </div>
           <p className="mt-2">This is an "OR" statement, representing two unbounded intervals going in opposite directions from the endpoints.</p>
-          <p className="mt-2 text-muted-foreground">The calculator applies these rules by substituting `X` with `ax + b` and solving the resulting linear inequality (or inequalities) for `x`.</p>
+          <h3 className="font-semibold text-lg mt-4">General Case: Splitting at Sign Changes</h3>
+          <p>When the variable also appears outside the bars, or there is more than one absolute value, the calculator moves everything to one side to get `f(x) &lt; 0` (or another sign) and splits the number line at every point where an expression inside bars is zero. On each piece every `|X|` is either `X` or `-X`, so the inequality is linear there and can be solved directly, flipping the sign when dividing by a negative number.</p>
+          <p className="mt-2 text-muted-foreground">Each piece's answer is limited to that piece, and the pieces are then joined into the final solution set. The arithmetic is exact, and the steps list every case.</p>
         </CardContent>
       </Card>
 
-      <Card>
+      <RelatedCalculators slug="absolute-value-inequalities-calculator" />
+
+      <Card className="print:hidden">
         <CardHeader>
             <CardTitle className="flex items-center gap-2"><Lightbulb className="h-5 w-5" />In-Depth Guide to Absolute Value Inequalities</CardTitle>
         </CardHeader>
@@ -228,7 +215,7 @@ export default function AbsoluteValueInequalityCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Frequently Asked Questions</CardTitle>
         </CardHeader>
@@ -237,7 +224,7 @@ export default function AbsoluteValueInequalityCalculator() {
             <AccordionItem value="item-1">
               <AccordionTrigger>What happens if I have to multiply or divide by a negative number to solve for `x`?</AccordionTrigger>
               <AccordionContent>
-                <p>This is a critical rule in all inequalities. When you multiply or divide all parts of an inequality by a negative number, you **must flip the direction of the inequality sign(s)**. For example, if you have `-2x &lt; 6`, dividing by -2 gives `x &gt; -3`. The calculator handles this automatically based on the sign of `a`.</p>
+                <p>This is a critical rule in all inequalities. When you multiply or divide all parts of an inequality by a negative number, you **must flip the direction of the inequality sign(s)**. For example, if you have `-2x &lt; 6`, dividing by -2 gives `x &gt; -3`. The calculator handles this automatically in every case it solves.</p>
               </AccordionContent>
             </AccordionItem>
             <AccordionItem value="item-2">
@@ -273,7 +260,7 @@ export default function AbsoluteValueInequalityCalculator() {
           <CardTitle>Summary</CardTitle>
         </CardHeader>
         <CardContent>
-          <p className="text-muted-foreground">The Absolute Value Inequality Calculator solves inequalities by leveraging a core principle: "less than" inequalities become bounded "AND" statements, while "greater than" inequalities split into unbounded "OR" statements. By isolating the absolute value expression and applying the correct rule based on the inequality symbol, the calculator can determine the solution set for `x`. It also correctly handles special cases involving negative constants, providing a reliable and educational tool for mastering this key algebra concept.</p>
+          <p className="text-muted-foreground">The Absolute Value Inequality Calculator solves inequalities by leveraging a core principle: "less than" inequalities become bounded "AND" statements, while "greater than" inequalities split into unbounded "OR" statements. For inequalities with the variable outside the bars or with several absolute values, it splits the number line where each absolute value changes sign, solves the linear inequality on each piece and joins the results into one solution set. It also correctly handles special cases involving negative constants, providing a reliable and educational tool for mastering this key algebra concept.</p>
         </CardContent>
       </Card>
 
@@ -0,0 +1,11 @@
+import { getCalculatorMetadata } from '@/lib/calculator-registry';
+
+export const metadata = getCalculatorMetadata('adding-and-subtracting-polynomials-calculator');
+
+export default function Layout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return children;
+}
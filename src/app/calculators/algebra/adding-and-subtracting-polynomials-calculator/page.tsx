@@ -5,6 +5,12 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { addSubtractPolynomials } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
@@ -12,12 +18,9 @@ import { Button } from '@/components/ui/button';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { HelpCircle, Sigma, Lightbulb } from 'lucide-react';
-
-const formSchema = z.object({
-  poly1: z.string().min(1, 'Please enter the first polynomial.'),
-  poly2: z.string().min(1, 'Please enter the second polynomial.'),
-  operation: z.enum(['add', 'subtract']),
-});
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { addingAndSubtractingPolynomialsSchema as formSchema } from '@/lib/calculator-schemas';
 
 type FormValues = z.infer<typeof formSchema>;
 
@@ -30,26 +33,25 @@ export default function PolynomialCalculator() {
   });
 
   const onSubmit = (data: FormValues) => {
-    try {
-        const res = addSubtractPolynomials(data.poly1, data.poly2, data.operation);
-        setResult(res);
-        form.clearErrors();
-    } catch (error: any) {
-        form.setError('root.serverError', { type: 'custom', message: error.message });
-        setResult(null);
-    }
+    const res = addSubtractPolynomials(data.poly1, data.poly2, data.operation);
+    if (!res.ok) form.setError('root.serverError', { type: 'custom', message: res.error.message });
+    setResult(res);
   };
 
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('adding-and-subtracting-polynomials-calculator', form, result);
+
   return (
     <div className="space-y-8">
-      <Card>
+      <PrintReportHeader slug="adding-and-subtracting-polynomials-calculator" form={form} result={result} />
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Adding and Subtracting Polynomials Calculator</CardTitle>
           <CardDescription>Perform addition and subtraction on two polynomials.</CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
               <FormField control={form.control} name="poly1" render={({ field }) => (
                 <FormItem>
                   <FormLabel>First Polynomial</FormLabel>
@@ -62,7 +64,7 @@ export default function PolynomialCalculator() {
                 <FormItem className="space-y-3">
                   <FormLabel>Operation</FormLabel>
                   <FormControl>
-                    <RadioGroup onValueChange={field.onChange} defaultValue={field.value} className="flex flex-row space-x-4">
+                    <RadioGroup onValueChange={field.onChange} value={field.value} className="flex flex-row space-x-4">
                       <FormItem className="flex items-center space-x-2"><FormControl><RadioGroupItem value="add" /></FormControl><FormLabel className="font-normal">Add (+)</FormLabel></FormItem>
                       <FormItem className="flex items-center space-x-2"><FormControl><RadioGroupItem value="subtract" /></FormControl><FormLabel className="font-normal">Subtract (-)</FormLabel></FormItem>
                     </RadioGroup>
@@ -78,27 +80,33 @@ export default function PolynomialCalculator() {
                 </FormItem>
               )} />
               {form.formState.errors.root?.serverError && <FormMessage>{form.formState.errors.root.serverError.message}</FormMessage>}
-              <Button type="submit">Calculate</Button>
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Calculate</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="adding-and-subtracting-polynomials-calculator" form={form} />
+                <ScenarioComparison slug="adding-and-subtracting-polynomials-calculator" form={form} />
+              </div>
             </form>
           </Form>
         </CardContent>
       </Card>
 
-      {result && (
+      {result?.ok && (
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
             <CardTitle>Result</CardTitle>
+            <ExportMenu slug="adding-and-subtracting-polynomials-calculator" form={form} result={result} />
           </CardHeader>
           <CardContent className="text-center">
             <div className="p-6 bg-primary/10 rounded-lg">
               <p className="text-sm text-muted-foreground">The resulting polynomial is:</p>
-              <p className="text-3xl font-bold text-primary">{result.result}</p>
+              <p className="text-3xl font-bold text-primary">{result.data.result}</p>
             </div>
-            {result.steps && (
+            {result.data.steps && (
                 <div className="mt-4 text-left">
                     <h3 className="font-semibold text-lg">Steps:</h3>
                     <div className="p-4 bg-muted/50 rounded-lg space-y-2 mt-2 text-sm text-muted-foreground">
-                        {result.steps.map((step, index) => <p key={index} className="font-mono">{step}</p>)}
+                        {result.data.steps.map((step, index) => <p key={index} className="font-mono">{step}</p>)}
                     </div>
                 </div>
             )}
@@ -106,18 +114,19 @@ export default function PolynomialCalculator() {
         </Card>
       )}
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Input Format</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
             <p className="text-muted-foreground">Enter polynomials using standard algebraic notation:</p>
             <ul className="list-disc pl-5 space-y-1 text-muted-foreground">
-                <li>Use `x` as the variable. Other variables are not supported.</li>
-                <li>Use `^` to denote exponents (e.g., `x^2` for x-squared).</li>
+                <li>Any single letter is a variable, and letters written together are multiplied, so `3a^2b` is 3 × a² × b.</li>
+                <li>Use `^` to denote exponents (e.g., `x^2` for x-squared). Exponents must be whole numbers.</li>
                 <li>Terms should be separated by `+` or `-`.</li>
-                <li>Coefficients come before the variable (e.g., `3x`). A variable with no coefficient is assumed to have a coefficient of 1 (e.g., `x` is `1x`, `-x` is `-1x`).</li>
-                <li>Constants are just numbers (e.g., `5`, `-10`).</li>
+                <li>Coefficients come before the variables (e.g., `3x`). A variable with no coefficient is assumed to have a coefficient of 1 (e.g., `x` is `1x`, `-x` is `-1x`).</li>
+                <li>Coefficients can be decimals or fractions, e.g. `0.5x` or `x/3`. Fractions stay exact in the answer.</li>
+                <li>Parentheses and `*` are allowed, e.g. `2(x + 1)^2` or `2*x*y`.</li>
                 <li>Spaces are optional. `3x^2+2x-1` is the same as `3x^2 + 2x - 1`.</li>
             </ul>
         </CardContent>
@@ -133,11 +142,13 @@ export default function PolynomialCalculator() {
           <p>To add polynomials, you simply identify the like terms from each polynomial and add their coefficients. For example, to add `(3x^2 + 4x)` and `(2x^2 - x)`, you would add the coefficients of the `x^2` terms `(3+2)` and the `x` terms `(4-1)` separately to get `5x^2 + 3x`.</p>
           <h3 className="font-semibold text-lg mt-4">Subtraction</h3>
           <p>To subtract one polynomial from another, you first distribute the negative sign to every term in the second polynomial. This flips the sign of each term. After this, the process is identical to addition: combine the like terms. For example, `(3x^2) - (2x^2 - x)` becomes `3x^2 - 2x^2 + x`, which simplifies to `x^2 + x`.</p>
-           <p className="mt-2 text-muted-foreground">The calculator automates this by parsing the input strings, creating a map of exponents and their coefficients for each polynomial, performing the chosen operation on the coefficients of like terms, and then formatting the resulting map back into a standard polynomial string.</p>
+           <p className="mt-2 text-muted-foreground">The calculator automates this by parsing each input into a list of terms with exact fractional coefficients, expanding any parentheses, combining terms whose variables and exponents match, and writing the result in standard form: highest degree first, with ties ordered alphabetically.</p>
         </CardContent>
       </Card>
       
-      <Card>
+      <RelatedCalculators slug="adding-and-subtracting-polynomials-calculator" />
+
+      <Card className="print:hidden">
         <CardHeader>
             <CardTitle className="flex items-center gap-2"><Lightbulb className="h-5 w-5" />In-Depth Guide to Polynomial Operations</CardTitle>
         </CardHeader>
@@ -220,7 +231,7 @@ export default function PolynomialCalculator() {
         </CardContent>
       </Card>
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Frequently Asked Questions</CardTitle>
         </CardHeader>
@@ -260,7 +271,7 @@ export default function PolynomialCalculator() {
         </CardContent>
       </Card>
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
             <CardTitle>Summary</CardTitle>
         </CardHeader>
@@ -5,7 +5,13 @@ import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { calculateBesselJ, calculateBesselY } from '@/lib/calculators';
+import { calculateBessel, calculateBesselJ, calculateBesselY } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
@@ -14,11 +20,10 @@ import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/
 import { HelpCircle, Sigma, Lightbulb, FunctionSquare } from 'lucide-react';
 import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from 'recharts';
-
-const formSchema = z.object({
-  order: z.coerce.number().int().min(0, "Order must be a non-negative integer.").max(10, "Order must be 10 or less for stability."),
-  xValue: z.coerce.number(),
-});
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { besselFunctionSchema as formSchema } from '@/lib/calculator-schemas';
 
 type FormValues = z.infer<typeof formSchema>;
 
@@ -28,7 +33,8 @@ const chartConfig = {
 } satisfies ChartConfig;
 
 export default function BesselFunctionCalculator() {
-  const [result, setResult] = useState<{ j: number; y: number | string } | null>(null);
+  const formatter = useFormatter();
+  const [result, setResult] = useState<ReturnType<typeof calculateBessel> | null>(null);
   const [chartData, setChartData] = useState<any[]>([]);
 
   const form = useForm<FormValues>({
@@ -37,9 +43,9 @@ export default function BesselFunctionCalculator() {
   });
 
   const onSubmit = (data: FormValues) => {
-    const j_val = calculateBesselJ(data.order, data.xValue);
-    const y_val = calculateBesselY(data.order, data.xValue);
-    setResult({ j: j_val, y: y_val });
+    const res = calculateBessel(data.order, data.xValue);
+    if (!res.ok) form.setError('root.serverError', { type: 'custom', message: res.error.message });
+    setResult(res);
     
     // Generate chart data
     const points = 100;
@@ -50,24 +56,28 @@ export default function BesselFunctionCalculator() {
         const y_j = calculateBesselJ(data.order, x);
         const y_y = calculateBesselY(data.order, x);
         newChartData.push({
-            x: x.toFixed(2),
+            x: parseFloat(x.toFixed(2)),
             j: y_j,
-            y: typeof y_y === 'number' && isFinite(y_y) ? y_y : null, // Handle infinity and NaN
+            y: isFinite(y_y) ? y_y : null, // Handle infinity and NaN
         });
     }
     setChartData(newChartData);
   };
 
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('bessel-function-calculator', form, result);
+
   return (
     <div className="space-y-8">
-      <Card>
+      <PrintReportHeader slug="bessel-function-calculator" form={form} result={result} />
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Bessel Function Calculator</CardTitle>
           <CardDescription>Calculate Bessel functions of the first (Jₙ) and second (Yₙ) kind for an integer order.</CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField control={form.control} name="order" render={({ field }) => (
                   <FormItem>
@@ -84,25 +94,32 @@ export default function BesselFunctionCalculator() {
                   </FormItem>
                 )} />
               </div>
-              <Button type="submit">Calculate</Button>
+              {form.formState.errors.root?.serverError && <FormMessage>{form.formState.errors.root.serverError.message}</FormMessage>}
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Calculate</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="bessel-function-calculator" form={form} />
+                <ScenarioComparison slug="bessel-function-calculator" form={form} />
+              </div>
             </form>
           </Form>
         </CardContent>
       </Card>
 
-      {result && (
+      {result?.ok && (
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
             <CardTitle>Result</CardTitle>
+            <ExportMenu slug="bessel-function-calculator" form={form} result={result} />
           </CardHeader>
           <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4 text-center">
              <div className="p-6 bg-primary/10 rounded-lg">
                 <p className="text-sm text-muted-foreground">J_n(x)</p>
-                <p className="text-3xl font-bold text-primary">{result.j.toPrecision(6)}</p>
+                <p className="text-3xl font-bold text-primary">{formatter.number(result.data.j, 6)}</p>
             </div>
              <div className="p-6 bg-destructive/10 rounded-lg">
                 <p className="text-sm text-muted-foreground">Y_n(x)</p>
-                <p className="text-3xl font-bold text-destructive">{typeof result.y === 'number' ? result.y.toPrecision(6) : result.y}</p>
+                <p className="text-3xl font-bold text-destructive">{formatter.number(result.data.y, 6)}</p>
             </div>
           </CardContent>
         </Card>
@@ -118,9 +135,9 @@ export default function BesselFunctionCalculator() {
             <ChartContainer config={chartConfig} className="min-h-[300px] w-full">
               <LineChart data={chartData}>
                 <CartesianGrid vertical={false} />
-                <XAxis dataKey="x" type="number" domain={['dataMin', 'dataMax']} allowDuplicatedCategory={false} />
-                <YAxis domain={[-1.1, 1.1]} />
-                <ChartTooltip content={<ChartTooltipContent />} />
+                <XAxis dataKey="x" type="number" domain={['dataMin', 'dataMax']} allowDuplicatedCategory={false} tickFormatter={(value) => formatter.number(value, 1)} />
+                <YAxis domain={[-1.1, 1.1]} tickFormatter={(value) => formatter.number(value, 1)} />
+                <ChartTooltip content={<ChartTooltipContent valueFormatter={(value) => formatter.number(value, 4)} />} />
                 <Line dataKey="j" type="monotone" stroke="var(--color-j)" strokeWidth={2} dot={false} name="Jₙ(x)" />
                 <Line dataKey="y" type="monotone" stroke="var(--color-y)" strokeWidth={2} dot={false} name="Yₙ(x)" connectNulls={false} />
               </LineChart>
@@ -129,7 +146,7 @@ export default function BesselFunctionCalculator() {
         </Card>
       )}
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Inputs</CardTitle>
         </CardHeader>
@@ -162,6 +179,8 @@ export default function BesselFunctionCalculator() {
         </CardContent>
       </Card>
       
+      <RelatedCalculators slug="bessel-function-calculator" />
+
        <Card>
         <CardHeader>
             <CardTitle className="flex items-center gap-2"><Lightbulb className="h-5 w-5" />In-Depth Guide to Bessel Functions</CardTitle>
@@ -211,7 +230,7 @@ export default function BesselFunctionCalculator() {
         </CardContent>
       </Card>
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Frequently Asked Questions</CardTitle>
         </CardHeader>
@@ -257,7 +276,7 @@ export default function BesselFunctionCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
             <CardTitle>Summary</CardTitle>
         </CardHeader>
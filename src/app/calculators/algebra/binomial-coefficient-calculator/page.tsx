@@ -5,24 +5,27 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { calculateBinomialCoefficient } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { HelpCircle, Sigma, Lightbulb } from 'lucide-react';
-
-const formSchema = z.object({
-  n: z.coerce.number().int().min(0, "n must be a non-negative integer."),
-  k: z.coerce.number().int().min(0, "k must be a non-negative integer."),
-}).refine(data => data.k <= data.n, {
-  message: "k cannot be greater than n.",
-  path: ['k'],
-});
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { binomialCoefficientSchema as formSchema } from '@/lib/calculator-schemas';
 
 type FormValues = z.infer<typeof formSchema>;
 
 export default function BinomialCoefficientCalculator() {
+  const formatter = useFormatter();
   const [result, setResult] = useState<ReturnType<typeof calculateBinomialCoefficient> | null>(null);
 
   const form = useForm<FormValues>({
@@ -32,19 +35,24 @@ export default function BinomialCoefficientCalculator() {
 
   const onSubmit = (data: FormValues) => {
     const res = calculateBinomialCoefficient(data.n, data.k);
+    if (!res.ok) form.setError('root.serverError', { type: 'custom', message: res.error.message });
     setResult(res);
   };
 
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('binomial-coefficient-calculator', form, result);
+
   return (
     <div className="space-y-8">
-      <Card>
+      <PrintReportHeader slug="binomial-coefficient-calculator" form={form} result={result} />
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Binomial Coefficient Calculator</CardTitle>
           <CardDescription>Calculate "n choose k", the number of ways to choose k items from a set of n.</CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
               <div className="flex items-center justify-center gap-4">
                  <p className="text-4xl font-bold">(</p>
                  <div className="flex flex-col items-center">
@@ -67,29 +75,36 @@ export default function BinomialCoefficientCalculator() {
                 <FormMessage>{form.formState.errors.n?.message || form.formState.errors.k?.message}</FormMessage>
               </div>
               <div className="text-center">
-                <Button type="submit">Calculate C(n, k)</Button>
+                {form.formState.errors.root?.serverError && <FormMessage>{form.formState.errors.root.serverError.message}</FormMessage>}
+                <div className="flex flex-wrap gap-2">
+                  <Button type="submit">Calculate C(n, k)</Button>
+                  <CopyLinkButton onClick={shareable.copyLink} />
+                  <BatchPanel slug="binomial-coefficient-calculator" form={form} />
+                  <ScenarioComparison slug="binomial-coefficient-calculator" form={form} />
+                </div>
               </div>
             </form>
           </Form>
         </CardContent>
       </Card>
 
-      {result && (
+      {result?.ok && (
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
             <CardTitle>Result</CardTitle>
+            <ExportMenu slug="binomial-coefficient-calculator" form={form} result={result} />
           </CardHeader>
           <CardContent className="text-center">
             <div className="p-6 bg-primary/10 rounded-lg">
               <p className="text-sm text-muted-foreground">"n choose k" is</p>
-              <p className="text-4xl font-bold text-primary">{result.result.toLocaleString()}</p>
+              <p className="text-4xl font-bold text-primary">{formatter.integer(result.data.result)}</p>
             </div>
-             <p className="text-muted-foreground mt-4">{result.explanation}</p>
+             <p className="text-muted-foreground mt-4">{result.data.explanation}</p>
           </CardContent>
         </Card>
       )}
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Inputs</CardTitle>
         </CardHeader>
@@ -119,7 +134,9 @@ export default function BinomialCoefficientCalculator() {
         </CardContent>
       </Card>
       
-      <Card>
+      <RelatedCalculators slug="binomial-coefficient-calculator" />
+
+      <Card className="print:hidden">
         <CardHeader>
             <CardTitle className="flex items-center gap-2"><Lightbulb className="h-5 w-5" />In-Depth Guide to Binomial Coefficients</CardTitle>
         </CardHeader>
@@ -179,7 +196,7 @@ export default function BinomialCoefficientCalculator() {
         </CardContent>
       </Card>
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Frequently Asked Questions</CardTitle>
         </CardHeader>
@@ -225,7 +242,7 @@ export default function BinomialCoefficientCalculator() {
         </CardContent>
       </Card>
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
             <CardTitle>Summary</CardTitle>
         </CardHeader>
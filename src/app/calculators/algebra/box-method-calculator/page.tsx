@@ -1,124 +1,208 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { multiplyPolynomialsBox } from '@/lib/calculators';
+import { factorQuadraticBox, multiplyPolynomialsBox } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
-import { HelpCircle, Sigma, Lightbulb, X } from 'lucide-react';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { HelpCircle, Sigma, Lightbulb, X, Pause, Play, SkipBack, SkipForward } from 'lucide-react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-
-const formSchema = z.object({
-  poly1: z.string().min(1, 'Please enter the first polynomial.'),
-  poly2: z.string().min(1, 'Please enter the second polynomial.'),
-});
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { boxMethodSchema as formSchema } from '@/lib/calculator-schemas';
 
 type FormValues = z.infer<typeof formSchema>;
+type BoxResult = ReturnType<typeof multiplyPolynomialsBox> | ReturnType<typeof factorQuadraticBox>;
+
+// Time each reverse box step stays on screen while playing.
+const STEP_DURATION_MS = 1800;
 
 export default function BoxMethodCalculator() {
-  const [result, setResult] = useState<ReturnType<typeof multiplyPolynomialsBox> | null>(null);
+  const [result, setResult] = useState<BoxResult | null>(null);
+  const [stage, setStage] = useState(0);
+  const [playing, setPlaying] = useState(false);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
-    defaultValues: { poly1: 'x + 2', poly2: 'x^2 - 3x + 5' },
+    defaultValues: { mode: 'multiply', poly1: 'x + 2', poly2: 'x^2 - 3x + 5', quadratic: '2x^2 + 7x + 3' },
   });
 
+  const mode = form.watch('mode');
+
   const onSubmit = (data: FormValues) => {
-    try {
-        const res = multiplyPolynomialsBox(data.poly1, data.poly2);
-        setResult(res);
-        form.clearErrors();
-    } catch (error: any) {
-        form.setError('root.serverError', { type: 'custom', message: error.message });
-        setResult(null);
-    }
+    const res = data.mode === 'factor' ? factorQuadraticBox(data.quadratic) : multiplyPolynomialsBox(data.poly1, data.poly2);
+    if (!res.ok) form.setError('root.serverError', { type: 'custom', message: res.error.message });
+    setResult(res);
+    setStage(0);
+    setPlaying(res.ok && data.mode === 'factor');
   };
 
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('box-method-calculator', form, result);
+
+  // Only the reverse box is built up step by step; the forward box is shown whole.
+  const reveal = result?.ok && 'reveal' in result.data ? result.data.reveal : null;
+  const lastStage = result?.ok ? result.data.steps.length - 1 : 0;
+  const shown = (at: number) => !reveal || at <= stage;
+
+  useEffect(() => {
+    if (!playing) return;
+    if (stage >= lastStage) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStage(stage + 1), STEP_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [playing, stage, lastStage]);
+
+  const boxEntry = (value: string, at: number) =>
+    shown(at) ? (
+      <span key="value" className="inline-block motion-safe:animate-in motion-safe:fade-in motion-safe:zoom-in-50 duration-500">{value}</span>
+    ) : (
+      <>
+        <span className="text-muted-foreground/50 print:hidden">?</span>
+        <span className="hidden print:inline">{value}</span>
+      </>
+    );
+
   return (
     <div className="space-y-8">
-      <Card>
+      <PrintReportHeader slug="box-method-calculator" form={form} result={result} />
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Box Method Multiplication Calculator</CardTitle>
-          <CardDescription>Multiply two polynomials using the visual Box (or Area) Method.</CardDescription>
+          <CardDescription>Multiply two polynomials using the visual Box (or Area) Method, or run it in reverse to factor a quadratic.</CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <div className="flex items-center gap-4">
-                <span className="text-2xl font-bold">(</span>
-                <FormField control={form.control} name="poly1" render={({ field }) => (
-                  <FormItem className="flex-1">
-                    <FormLabel>First Polynomial</FormLabel>
-                    <FormControl><Input placeholder="e.g., x + 2" {...field} /></FormControl>
-                  </FormItem>
-                )} />
-                <span className="text-2xl font-bold">) (</span>
-                <FormField control={form.control} name="poly2" render={({ field }) => (
-                  <FormItem className="flex-1">
-                    <FormLabel>Second Polynomial</FormLabel>
-                    <FormControl><Input placeholder="e.g., x^2 - 3x + 5" {...field} /></FormControl>
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
+              <FormField control={form.control} name="mode" render={({ field }) => (
+                <FormItem className="space-y-3">
+                  <FormLabel>Mode</FormLabel>
+                  <FormControl>
+                    <RadioGroup onValueChange={field.onChange} value={field.value} className="flex flex-row space-x-4">
+                      <FormItem className="flex items-center space-x-2"><FormControl><RadioGroupItem value="multiply" /></FormControl><FormLabel className="font-normal">Multiply polynomials</FormLabel></FormItem>
+                      <FormItem className="flex items-center space-x-2"><FormControl><RadioGroupItem value="factor" /></FormControl><FormLabel className="font-normal">Factor a quadratic (reverse)</FormLabel></FormItem>
+                    </RadioGroup>
+                  </FormControl>
+                </FormItem>
+              )} />
+              {mode === 'multiply' ? (
+                <div className="flex items-center gap-4">
+                  <span className="text-2xl font-bold">(</span>
+                  <FormField control={form.control} name="poly1" render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormLabel>First Polynomial</FormLabel>
+                      <FormControl><Input placeholder="e.g., x + 2" {...field} /></FormControl>
+                    </FormItem>
+                  )} />
+                  <span className="text-2xl font-bold">) (</span>
+                  <FormField control={form.control} name="poly2" render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormLabel>Second Polynomial</FormLabel>
+                      <FormControl><Input placeholder="e.g., x^2 - 3x + 5" {...field} /></FormControl>
+                    </FormItem>
+                  )} />
+                  <span className="text-2xl font-bold">)</span>
+                </div>
+              ) : (
+                <FormField control={form.control} name="quadratic" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Quadratic</FormLabel>
+                    <FormControl><Input placeholder="e.g., 2x^2 + 7x + 3" {...field} /></FormControl>
                   </FormItem>
                 )} />
-                <span className="text-2xl font-bold">)</span>
+              )}
+              <FormMessage>{form.formState.errors.poly1?.message || form.formState.errors.poly2?.message || form.formState.errors.quadratic?.message || form.formState.errors.root?.serverError?.message}</FormMessage>
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">{mode === 'factor' ? 'Factor' : 'Multiply'}</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="box-method-calculator" form={form} />
+                <ScenarioComparison slug="box-method-calculator" form={form} />
               </div>
-              <FormMessage>{form.formState.errors.poly1?.message || form.formState.errors.poly2?.message || form.formState.errors.root?.serverError?.message}</FormMessage>
-              <Button type="submit">Multiply</Button>
             </form>
           </Form>
         </CardContent>
       </Card>
 
-      {result && result.box && (
+      {result?.ok && (
         <Card>
-          <CardHeader>
-            <CardTitle>Box Method Visualization</CardTitle>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <CardTitle>{reveal ? 'Reverse Box Method' : 'Box Method Visualization'}</CardTitle>
+            <ExportMenu slug="box-method-calculator" form={form} result={result} />
           </CardHeader>
           <CardContent>
              <Table>
                 <TableHeader>
                     <TableRow>
                         <TableHead><X className="h-5 w-5" /></TableHead>
-                        {result.box.colHeaders.map((header, index) => (
-                            <TableHead key={index} className="text-center font-bold text-lg">{header}</TableHead>
+                        {result.data.box.colHeaders.map((header, index) => (
+                            <TableHead key={index} className="text-center font-bold text-lg">{boxEntry(header, reveal?.colHeaders[index] ?? 0)}</TableHead>
                         ))}
                     </TableRow>
                 </TableHeader>
                 <TableBody>
-                    {result.box.rows.map((row, rowIndex) => (
+                    {result.data.box.rows.map((row, rowIndex) => (
                         <TableRow key={rowIndex}>
-                            <TableHead className="text-center font-bold text-lg">{result.box.rowHeaders[rowIndex]}</TableHead>
+                            <TableHead className="text-center font-bold text-lg">{boxEntry(result.data.box.rowHeaders[rowIndex], reveal?.rowHeaders[rowIndex] ?? 0)}</TableHead>
                             {row.map((cell, cellIndex) => (
-                                <TableCell key={cellIndex} className={`text-center ${cell.isDiagonal ? 'bg-primary/20' : ''}`}>{cell.value}</TableCell>
+                                <TableCell key={cellIndex} className={`text-center ${cell.isDiagonal ? 'bg-primary/20' : ''}`}>{boxEntry(cell.value, reveal?.cells[rowIndex][cellIndex] ?? 0)}</TableCell>
                             ))}
                         </TableRow>
                     ))}
                 </TableBody>
              </Table>
+             {reveal && (
+                <div className="flex flex-wrap items-center justify-center gap-2 mt-4 print:hidden">
+                    <Button type="button" variant="outline" size="icon" onClick={() => { setPlaying(false); setStage(Math.max(stage - 1, 0)); }} disabled={stage === 0} aria-label="Previous step">
+                        <SkipBack className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="outline" onClick={() => { if (stage >= lastStage) setStage(0); setPlaying(!playing); }}>
+                        {playing ? <Pause className="h-4 w-4 mr-2" /> : <Play className="h-4 w-4 mr-2" />}
+                        {playing ? 'Pause' : stage >= lastStage ? 'Replay' : 'Play'}
+                    </Button>
+                    <Button type="button" variant="outline" size="icon" onClick={() => { setPlaying(false); setStage(Math.min(stage + 1, lastStage)); }} disabled={stage >= lastStage} aria-label="Next step">
+                        <SkipForward className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" onClick={() => { setPlaying(false); setStage(lastStage); }} disabled={stage >= lastStage}>Show all</Button>
+                    <span className="text-sm text-muted-foreground">Step {stage + 1} of {lastStage + 1}</span>
+                </div>
+             )}
              <div className="mt-6">
                 <h3 className="font-semibold text-lg">Steps:</h3>
                 <div className="p-4 bg-muted/50 rounded-lg space-y-2 mt-2 text-sm text-muted-foreground">
-                    {result.steps.map((step, index) => <p key={index} className="font-mono">{step}</p>)}
+                    {result.data.steps.map((step, index) => (
+                        <p key={index} className={`font-mono ${!shown(index) ? 'hidden print:block' : reveal && index === stage ? 'text-foreground motion-safe:animate-in motion-safe:fade-in duration-500' : ''}`}>{step}</p>
+                    ))}
                 </div>
              </div>
-             <div className="mt-6 text-center">
+             <div className={`mt-6 text-center ${shown(lastStage) ? '' : 'invisible print:visible'}`}>
                  <p className="text-sm text-muted-foreground">Final Answer:</p>
-                 <p className="text-3xl font-bold text-primary">{result.finalAnswer}</p>
+                 <p className="text-3xl font-bold text-primary">{result.data.finalAnswer}</p>
              </div>
           </CardContent>
         </Card>
       )}
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Input Format</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-            <p className="text-muted-foreground">Enter polynomials using standard algebraic notation. Refer to the `Adding and Subtracting Polynomials Calculator` for a detailed format guide. The variable must be `x`.</p>
+            <p className="text-muted-foreground">Enter polynomials using standard algebraic notation. Refer to the `Adding and Subtracting Polynomials Calculator` for a detailed format guide. Any single letter can be a variable, so `(3a^2b - 2ab + 1)(a + b)` works too.</p>
+            <p className="text-muted-foreground">In reverse mode, enter a quadratic in one variable such as `6x^2 - x - 2`. A common factor, including fractions or a negative leading coefficient, is taken out first, and the constant term must not be zero.</p>
         </CardContent>
       </Card>
       
@@ -135,9 +219,19 @@ export default function BoxMethodCalculator() {
             <li><strong>Final Polynomial:</strong> The combined terms are written in standard form (from highest to lowest degree) to produce the final, simplified polynomial product.</li>
           </ol>
           <p className="mt-2">This method ensures that every term in the first polynomial is multiplied by every term in the second, which is essential for a correct expansion.</p>
+          <h3 className="font-semibold text-lg mt-4">Reverse Box Method (Factoring)</h3>
+          <ol className="list-decimal list-inside mt-2 space-y-2 text-muted-foreground">
+            <li><strong>Product Pair:</strong> For `ax^2 + bx + c`, find two integers `m` and `n` with `m × n = a·c` and `m + n = b`.</li>
+            <li><strong>Fill the Box:</strong> `ax^2` goes in the top-left cell and `c` in the bottom-right. The middle term is split into `mx` and `nx`, which fill the other two cells.</li>
+            <li><strong>Extract the GCFs:</strong> The GCF of the top row is its row header. Dividing the top cells by it gives the column headers, and dividing the bottom-left cell by its column header gives the second row header, the bottom row's GCF with the sign the columns need.</li>
+            <li><strong>Read the Factors:</strong> The row headers form one factor and the column headers the other, since multiplying them back fills the same box.</li>
+          </ol>
+          <p className="mt-2">If no integer pair exists, the quadratic does not factor over the integers.</p>
         </CardContent>
       </Card>
       
+      <RelatedCalculators slug="box-method-calculator" />
+
        <Card>
         <CardHeader>
             <CardTitle className="flex items-center gap-2"><Lightbulb className="h-5 w-5" />In-Depth Guide to the Box Method</CardTitle>
@@ -186,7 +280,7 @@ export default function BoxMethodCalculator() {
         </CardContent>
       </Card>
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Frequently Asked Questions</CardTitle>
         </CardHeader>
@@ -228,16 +322,22 @@ export default function BoxMethodCalculator() {
                 <p>If both polynomials are written in standard form before you label the box, the like terms will almost always align neatly along the diagonals. This provides a great visual check to make sure you are combining the correct terms. If the terms are not in standard form, the like terms will still be in the box but might be scattered in different cells.</p>
               </AccordionContent>
             </AccordionItem>
+            <AccordionItem value="item-7">
+              <AccordionTrigger>Why does the reverse box method work?</AccordionTrigger>
+              <AccordionContent>
+                <p>Multiplying two binomials with the box always puts the squared term and the constant in opposite corners, and the two middle cells multiply to the same value as the corners do (both products equal `a·c·x²`). Splitting `bx` into two terms whose coefficients multiply to `a·c` recreates that box, so its headers must be the original factors.</p>
+              </AccordionContent>
+            </AccordionItem>
           </Accordion>
         </CardContent>
       </Card>
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
             <CardTitle>Summary</CardTitle>
         </CardHeader>
         <CardContent>
-          <p className="text-muted-foreground">The Box Method Calculator provides a visual and methodical approach to polynomial multiplication, serving as a powerful alternative to the limited FOIL method. By organizing the multiplication of each term into a grid, it minimizes errors and clearly illustrates how the distributive property works. The calculator not only provides the final answer but also visualizes the grid and the process of combining like terms, making it an effective learning tool for students mastering polynomial operations.</p>
+          <p className="text-muted-foreground">The Box Method Calculator provides a visual and methodical approach to polynomial multiplication, serving as a powerful alternative to the limited FOIL method. By organizing the multiplication of each term into a grid, it minimizes errors and clearly illustrates how the distributive property works. The calculator not only provides the final answer but also visualizes the grid and the process of combining like terms, making it an effective learning tool for students mastering polynomial operations. In reverse mode it factors a quadratic by building the box one step at a time, from the product pair to the row and column GCFs.</p>
         </CardContent>
       </Card>
       
@@ -0,0 +1,298 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { dividePolynomials } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { HelpCircle, Sigma, Lightbulb } from 'lucide-react';
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { polynomialDivisionSchema as formSchema } from '@/lib/calculator-schemas';
+
+type FormValues = z.infer<typeof formSchema>;
+type Division = Extract<ReturnType<typeof dividePolynomials>, { ok: true }>['data'];
+
+function LongDivisionLayout({ layout }: { layout: NonNullable<Division['longDivision']> }) {
+  const row = (cells: (string | null)[], className = '') =>
+    cells.map((cell, index) => <td key={index} className={`px-2 py-1 text-right whitespace-nowrap ${className}`}>{cell}</td>);
+
+  return (
+    <div className="w-full overflow-x-auto">
+      <table className="font-mono text-sm mx-auto">
+        <tbody>
+          <tr>
+            <td />
+            {row(layout.quotient, 'text-primary font-semibold')}
+          </tr>
+          <tr>
+            <td className="px-2 py-1 text-right whitespace-nowrap border-r-2 border-foreground">{layout.divisor}</td>
+            {row(layout.dividend, 'border-t-2 border-foreground')}
+          </tr>
+          {layout.rows.map((step, index) => (
+            <Fragment key={index}>
+              <tr>
+                <td className="px-2 py-1 text-right text-muted-foreground">−</td>
+                {row(step.product, 'text-muted-foreground')}
+              </tr>
+              <tr>
+                <td />
+                {row(step.difference, 'border-t border-foreground')}
+              </tr>
+            </Fragment>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function SyntheticDivisionLayout({ tableau }: { tableau: NonNullable<Division['synthetic']> }) {
+  const last = tableau.sums.length - 1;
+  return (
+    <div className="w-full overflow-x-auto">
+      <table className="font-mono text-sm mx-auto">
+        <tbody>
+          <tr>
+            <td className="px-3 py-1 text-right border-r-2 border-b-2 border-foreground">{tableau.root}</td>
+            {tableau.coefficients.map((value, index) => <td key={index} className="px-3 py-1 text-right">{value}</td>)}
+          </tr>
+          <tr>
+            <td className="px-3 py-1" />
+            {tableau.products.map((value, index) => (
+              <td key={index} className="px-3 py-1 text-right text-muted-foreground border-b-2 border-foreground">{value ?? ''}</td>
+            ))}
+          </tr>
+          <tr>
+            <td className="px-3 py-1" />
+            {tableau.sums.map((value, index) => (
+              <td key={index} className={`px-3 py-1 text-right font-semibold ${index === last ? 'bg-accent/20 text-accent-foreground rounded' : 'text-primary'}`}>{value}</td>
+            ))}
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function PolynomialDivisionCalculator() {
+  const [result, setResult] = useState<ReturnType<typeof dividePolynomials> | null>(null);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { dividend: 'x^3 - 2x^2 - 4', divisor: 'x - 3', method: 'long' },
+  });
+
+  const onSubmit = (data: FormValues) => {
+    const res = dividePolynomials(data.dividend, data.divisor, data.method);
+    if (!res.ok) form.setError('root.serverError', { type: 'custom', message: res.error.message });
+    setResult(res);
+  };
+
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('polynomial-division-calculator', form, result);
+
+  return (
+    <div className="space-y-8">
+      <PrintReportHeader slug="polynomial-division-calculator" form={form} result={result} />
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Polynomial Division Calculator</CardTitle>
+          <CardDescription>Divide one polynomial by another using long division or synthetic division.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
+              <FormField control={form.control} name="dividend" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Dividend</FormLabel>
+                  <FormControl><Input placeholder="e.g., x^3 - 2x^2 - 4" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+
+              <FormField control={form.control} name="divisor" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Divisor</FormLabel>
+                  <FormControl><Input placeholder="e.g., x - 3" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+
+              <FormField control={form.control} name="method" render={({ field }) => (
+                <FormItem className="space-y-3">
+                  <FormLabel>Method</FormLabel>
+                  <FormControl>
+                    <RadioGroup onValueChange={field.onChange} value={field.value} className="flex flex-row space-x-4">
+                      <FormItem className="flex items-center space-x-2"><FormControl><RadioGroupItem value="long" /></FormControl><FormLabel className="font-normal">Long division</FormLabel></FormItem>
+                      <FormItem className="flex items-center space-x-2"><FormControl><RadioGroupItem value="synthetic" /></FormControl><FormLabel className="font-normal">Synthetic division</FormLabel></FormItem>
+                    </RadioGroup>
+                  </FormControl>
+                </FormItem>
+              )} />
+              {form.formState.errors.root?.serverError && <FormMessage>{form.formState.errors.root.serverError.message}</FormMessage>}
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Divide</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="polynomial-division-calculator" form={form} />
+                <ScenarioComparison slug="polynomial-division-calculator" form={form} />
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      {result?.ok && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <CardTitle>Result</CardTitle>
+            <ExportMenu slug="polynomial-division-calculator" form={form} result={result} />
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-center">
+              <div className="p-4 bg-primary/10 rounded-lg">
+                <p className="text-sm text-muted-foreground">Quotient</p>
+                <p className="text-2xl font-bold text-primary">{result.data.quotient}</p>
+              </div>
+              <div className="p-4 bg-muted rounded-lg">
+                <p className="text-sm text-muted-foreground">Remainder</p>
+                <p className="text-2xl font-bold">{result.data.remainder}</p>
+              </div>
+            </div>
+            <div className="p-4 bg-muted/50 rounded-lg text-center">
+              <p className="text-sm text-muted-foreground">Dividend ÷ Divisor</p>
+              <p className="text-xl font-semibold font-mono">{result.data.result}</p>
+            </div>
+
+            <div>
+              <h3 className="font-semibold text-lg mb-2">{result.data.longDivision ? 'Long Division' : 'Synthetic Division'}</h3>
+              {result.data.longDivision && <LongDivisionLayout layout={result.data.longDivision} />}
+              {result.data.synthetic && <SyntheticDivisionLayout tableau={result.data.synthetic} />}
+            </div>
+
+            <div>
+              <h3 className="font-semibold text-lg">Steps:</h3>
+              <div className="p-4 bg-muted/50 rounded-lg space-y-2 mt-2 text-sm text-muted-foreground">
+                {result.data.steps.map((step, index) => <p key={index} className="font-mono">{step}</p>)}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Input Format</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+            <p className="text-muted-foreground">Enter both polynomials using standard algebraic notation:</p>
+            <ul className="list-disc pl-5 space-y-1 text-muted-foreground">
+                <li>Both polynomials must use the same single variable, e.g. `x`. Constants such as `4` are fine on either side.</li>
+                <li>Use `^` for whole-number exponents (e.g., `x^3`). Missing powers don't need to be typed; the calculator fills them with 0.</li>
+                <li>Coefficients can be decimals or fractions, e.g. `0.5x` or `x/3`. Fractions stay exact in the answer.</li>
+                <li>Parentheses and `*` are allowed, e.g. `(x + 1)^2` as a divisor.</li>
+                <li>Synthetic division only works with a linear divisor such as `x - 3` or `2x + 1`. Use long division for anything else.</li>
+            </ul>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><Sigma className="h-5 w-5" />Methodology</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p>Dividing a polynomial `P(x)` by a non-zero polynomial `D(x)` finds the unique quotient `Q(x)` and remainder `R(x)` with `P(x) = D(x)·Q(x) + R(x)`, where the remainder has a lower degree than the divisor.</p>
+          <h3 className="font-semibold text-lg mt-4">Long Division</h3>
+          <p>Both polynomials are written in descending powers with every missing power filled in as 0. At each step the leading term of what is left is divided by the leading term of the divisor, giving the next term of the quotient. That term times the divisor is subtracted, which cancels the leading term, and the process repeats until what is left has a lower degree than the divisor.</p>
+          <h3 className="font-semibold text-lg mt-4">Synthetic Division</h3>
+          <p>For a divisor `x - r`, long division reduces to working with the coefficients alone: bring down the first coefficient, then repeatedly multiply the latest result by `r` and add it to the next coefficient. The last number is the remainder, which by the Remainder Theorem equals `P(r)`. A divisor `ax + b` is handled as `a(x - r)` with `r = -b/a`, and the quotient is divided by `a` at the end.</p>
+          <p className="mt-2 text-muted-foreground">All arithmetic is done with exact fractions, so a quotient such as `(1/3)x + 2/9` is never rounded.</p>
+        </CardContent>
+      </Card>
+
+      <RelatedCalculators slug="polynomial-division-calculator" />
+
+      <Card className="print:hidden">
+        <CardHeader>
+            <CardTitle className="flex items-center gap-2"><Lightbulb className="h-5 w-5" />Guide to Dividing Polynomials</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6 text-muted-foreground leading-relaxed">
+            <h3 className="text-lg font-semibold text-foreground">Worked Example: Long Division</h3>
+            <p>Let's divide `x^3 - 2x^2 - 4` by `x - 3`.</p>
+            <ol className="list-decimal list-inside space-y-4">
+                <li><strong>Fill in missing powers:</strong> The dividend has no `x` term, so write it as `x^3 - 2x^2 + 0x - 4`.</li>
+                <li><strong>Divide the leading terms:</strong> `x^3 ÷ x = x^2`. Multiply `x^2(x - 3) = x^3 - 3x^2` and subtract to get `x^2 + 0x - 4`.</li>
+                <li><strong>Repeat:</strong> `x^2 ÷ x = x`. Multiply `x(x - 3) = x^2 - 3x` and subtract to get `3x - 4`.</li>
+                <li><strong>Repeat:</strong> `3x ÷ x = 3`. Multiply `3(x - 3) = 3x - 9` and subtract to get `5`.</li>
+                <li><strong>Answer:</strong> The quotient is `x^2 + x + 3` with remainder `5`, so the result is `x^2 + x + 3 + 5/(x - 3)`.</li>
+            </ol>
+
+            <h3 className="text-lg font-semibold text-foreground">The Same Problem with Synthetic Division</h3>
+            <p>The divisor `x - 3` is zero at `x = 3`, so 3 goes in the box and the coefficients are `1, -2, 0, -4`.</p>
+            <div className="p-2 bg-muted/50 rounded-lg mt-2 font-mono text-sm">
+                3 | 1 &nbsp;-2 &nbsp;&nbsp;0 &nbsp;-4<br/>
+                &nbsp;&nbsp;| &nbsp;&nbsp;&nbsp;&nbsp;3 &nbsp;&nbsp;3 &nbsp;&nbsp;9<br/>
+                &nbsp;&nbsp;&nbsp;&nbsp;1 &nbsp;&nbsp;1 &nbsp;&nbsp;3 &nbsp;&nbsp;<span className="text-primary">5</span>
+            </div>
+            <p>The bottom row gives the quotient's coefficients `1, 1, 3` (one degree lower than the dividend) and the remainder `5`, matching the long division.</p>
+        </CardContent>
+      </Card>
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Frequently Asked Questions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Accordion type="single" collapsible className="w-full">
+            <AccordionItem value="item-1">
+              <AccordionTrigger>When should I use synthetic division?</AccordionTrigger>
+              <AccordionContent>
+                <p>Whenever the divisor is linear, such as `x - 3` or `2x + 1`. It gives the same answer as long division with far less writing. For a divisor of degree 2 or more, use long division.</p>
+              </AccordionContent>
+            </AccordionItem>
+            <AccordionItem value="item-2">
+              <AccordionTrigger>What does a remainder of 0 mean?</AccordionTrigger>
+              <AccordionContent>
+                <p>The divisor is a factor of the dividend. For a linear divisor `x - r` it also means `r` is a root of the dividend, by the Factor Theorem.</p>
+              </AccordionContent>
+            </AccordionItem>
+            <AccordionItem value="item-3">
+              <AccordionTrigger>Why do I need placeholders for missing powers?</AccordionTrigger>
+              <AccordionContent>
+                <p>Each column in the layout holds one power of the variable. Without a `0x` placeholder, later terms would slide into the wrong column and be combined with unlike terms. The calculator inserts the placeholders for you.</p>
+              </AccordionContent>
+            </AccordionItem>
+            <AccordionItem value="item-4">
+              <AccordionTrigger>What if the divisor has a higher degree than the dividend?</AccordionTrigger>
+              <AccordionContent>
+                <p>Then the quotient is 0 and the whole dividend is the remainder, just as 3 ÷ 7 is 0 with remainder 3.</p>
+              </AccordionContent>
+            </AccordionItem>
+          </Accordion>
+        </CardContent>
+      </Card>
+
+      <Card className="print:hidden">
+        <CardHeader>
+            <CardTitle>Summary</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">This calculator divides one polynomial by another and reports the quotient and remainder exactly. Long division works for any divisor and is laid out column by column the way it is written on paper; synthetic division gives a compact tableau for linear divisors. Every step is listed so you can check your own work.</p>
+        </CardContent>
+      </Card>
+
+    </div>
+  );
+}
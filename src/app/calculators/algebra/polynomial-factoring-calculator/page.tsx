@@ -0,0 +1,258 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { factorPolynomial } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ReferenceDot, ReferenceLine } from 'recharts';
+import { HelpCircle, Sigma, Lightbulb, Spline } from 'lucide-react';
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { polynomialFactoringSchema as formSchema } from '@/lib/calculator-schemas';
+
+type FormValues = z.infer<typeof formSchema>;
+
+const chartConfig = {
+  y: { label: 'P(x)', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+export default function PolynomialFactoringCalculator() {
+  const formatter = useFormatter();
+  const [result, setResult] = useState<ReturnType<typeof factorPolynomial> | null>(null);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { polynomial: 'x^4 - x^3 - 3x^2 + x + 2' },
+  });
+
+  const onSubmit = (data: FormValues) => {
+    const res = factorPolynomial(data.polynomial);
+    if (!res.ok) form.setError('root.serverError', { type: 'custom', message: res.error.message });
+    setResult(res);
+  };
+
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('polynomial-factoring-calculator', form, result);
+
+  const realRoots = result?.ok ? result.data.roots.filter((root) => root.imaginary === 0) : [];
+
+  return (
+    <div className="space-y-8">
+      <PrintReportHeader slug="polynomial-factoring-calculator" form={form} result={result} />
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Polynomial Factoring and Roots Calculator</CardTitle>
+          <CardDescription>Factor a polynomial in one variable and find all of its real and complex roots.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
+              <FormField control={form.control} name="polynomial" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Polynomial</FormLabel>
+                  <FormControl><Input placeholder="e.g., x^4 - x^3 - 3x^2 + x + 2" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              {form.formState.errors.root?.serverError && <FormMessage>{form.formState.errors.root.serverError.message}</FormMessage>}
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Factor</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="polynomial-factoring-calculator" form={form} />
+                <ScenarioComparison slug="polynomial-factoring-calculator" form={form} />
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      {result?.ok && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <CardTitle>Result</CardTitle>
+            <ExportMenu slug="polynomial-factoring-calculator" form={form} result={result} />
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="p-6 bg-primary/10 rounded-lg text-center">
+              <p className="text-sm text-muted-foreground">Factored form of {result.data.polynomial}</p>
+              <p className="text-3xl font-bold text-primary break-words">{result.data.factored}</p>
+              {!result.data.fullyFactored && (
+                <p className="text-sm text-muted-foreground mt-2">Some factors have too many rational root candidates to test, so they may factor further.</p>
+              )}
+            </div>
+
+            <div>
+              <h3 className="font-semibold text-lg mb-2">Roots</h3>
+              <p className="text-sm text-muted-foreground mb-2">
+                A degree {result.data.degree} polynomial has {result.data.degree} roots counted with multiplicity; {result.data.realRootCount} of them are real.
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Root</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-right">Multiplicity</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.data.roots.map((root, index) => (
+                    <TableRow key={index}>
+                      <TableCell className="font-mono">x = {root.value}</TableCell>
+                      <TableCell>{root.imaginary !== 0 ? 'Complex' : root.exact ? 'Rational' : 'Real (approximate)'}</TableCell>
+                      <TableCell className="text-right">{root.multiplicity}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div>
+              <h3 className="font-semibold text-lg">Steps:</h3>
+              <div className="p-4 bg-muted/50 rounded-lg space-y-2 mt-2 text-sm text-muted-foreground">
+                {result.data.steps.map((step, index) => <p key={index} className="font-mono">{step}</p>)}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {result?.ok && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><Spline className="h-5 w-5" />Graph</CardTitle>
+            <CardDescription>P(x) = {result.data.polynomial}. The dots mark the real roots, where the graph meets the x-axis.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="min-h-[300px] w-full">
+              <LineChart data={result.data.plot} margin={{ left: 12, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="x" type="number" domain={['dataMin', 'dataMax']} tickFormatter={(value) => formatter.number(value, 2)} />
+                <YAxis tickFormatter={(value) => formatter.number(value, 1)} />
+                <ChartTooltip content={<ChartTooltipContent valueFormatter={(value) => formatter.number(value, 4)} />} />
+                <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+                <Line dataKey="y" type="monotone" stroke="var(--color-y)" strokeWidth={2} dot={false} name="P(x)" />
+                {realRoots.map((root) => (
+                  <ReferenceDot key={root.value} x={root.real} y={0} r={5} fill="hsl(var(--destructive))" stroke="none" />
+                ))}
+              </LineChart>
+            </ChartContainer>
+            {realRoots.length === 0 && <p className="text-center text-sm text-muted-foreground mt-2">There are no real roots, so the graph never crosses the x-axis.</p>}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Input Format</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+            <p className="text-muted-foreground">Enter a polynomial in one variable using standard algebraic notation:</p>
+            <ul className="list-disc pl-5 space-y-1 text-muted-foreground">
+                <li>Use a single letter as the variable, e.g. `x` or `t`.</li>
+                <li>Use `^` for whole-number exponents (e.g., `x^4`). Degrees up to 100 are supported.</li>
+                <li>Coefficients can be integers, decimals or fractions, e.g. `0.5x^2` or `x^2/3`.</li>
+                <li>Parentheses and `*` are allowed, so a product such as `(x - 1)^2(x + 3)` is expanded before factoring.</li>
+            </ul>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><Sigma className="h-5 w-5" />Methodology</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p>The polynomial is factored exactly, with fractions rather than decimals, by applying these techniques in turn to each factor until none of them applies:</p>
+          <ol className="list-decimal pl-5 space-y-2 mt-2">
+            <li><strong>Greatest common factor:</strong> the common numeric factor and the lowest power of the variable are taken out first, leaving integer coefficients with a positive leading term.</li>
+            <li><strong>Difference of squares:</strong> a binomial `a²x²ᵏ - c²` splits as `(ax^k - c)(ax^k + c)`.</li>
+            <li><strong>Grouping:</strong> a four-term cubic `ax³ + bx² + cx + d` with `ad = bc` splits into `(ax + b)` times a quadratic.</li>
+            <li><strong>Rational root theorem:</strong> any rational root `p/q` has `p` dividing the constant term and `q` dividing the leading coefficient. Each candidate is tested exactly; a root `r` gives the factor `(x - r)`, which is divided out.</li>
+            <li><strong>Repeated factors:</strong> a factor shared by the polynomial and its derivative (found with the Euclidean algorithm) appears more than once.</li>
+          </ol>
+          <p className="mt-2">Roots of linear factors are exact. Quadratic factors use the quadratic formula, and higher-degree factors with no rational roots are solved numerically with the Durand–Kerner method, which refines all complex roots at once. Because repeated factors are separated exactly first, the multiplicity of every root is exact even when its value is approximate.</p>
+        </CardContent>
+      </Card>
+
+      <RelatedCalculators slug="polynomial-factoring-calculator" />
+
+      <Card className="print:hidden">
+        <CardHeader>
+            <CardTitle className="flex items-center gap-2"><Lightbulb className="h-5 w-5" />Guide to Factoring Polynomials</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6 text-muted-foreground leading-relaxed">
+            <h3 className="text-lg font-semibold text-foreground">Factors and Roots</h3>
+            <p>The Factor Theorem ties the two together: `r` is a root of `P(x)` exactly when `(x - r)` is a factor. Factoring `x^2 - 5x + 6` as `(x - 2)(x - 3)` tells you at once that its roots are 2 and 3.</p>
+            <h3 className="text-lg font-semibold text-foreground">Worked Example</h3>
+            <p>Let's factor `x^4 - x^3 - 3x^2 + x + 2`.</p>
+            <ol className="list-decimal list-inside space-y-4">
+                <li><strong>List the candidates:</strong> the constant is 2 and the leading coefficient is 1, so any rational root is one of `±1, ±2`.</li>
+                <li><strong>Test them:</strong> `P(1) = 1 - 1 - 3 + 1 + 2 = 0`, so `(x - 1)` is a factor. Dividing leaves `x^3 - 3x - 2`.</li>
+                <li><strong>Repeat on the quotient:</strong> `x = -1` is a root of `x^3 - 3x - 2`, leaving `x^2 - x - 2`, and `x = -1` is a root again, leaving `x - 2`.</li>
+                <li><strong>Answer:</strong> `(x - 1)(x + 1)^2(x - 2)`. The root -1 has multiplicity 2, so the graph touches the x-axis there without crossing it.</li>
+            </ol>
+            <h3 className="text-lg font-semibold text-foreground">What Multiplicity Looks Like on the Graph</h3>
+            <p>At a root of odd multiplicity the graph crosses the x-axis; at a root of even multiplicity it touches the axis and turns back. The higher the multiplicity, the flatter the graph is near the root.</p>
+        </CardContent>
+      </Card>
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Frequently Asked Questions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Accordion type="single" collapsible className="w-full">
+            <AccordionItem value="item-1">
+              <AccordionTrigger>Why are some roots shown as decimals?</AccordionTrigger>
+              <AccordionContent>
+                <p>Only rational roots can be written exactly as fractions. Irrational roots such as √2 and complex roots are shown rounded to 7 significant digits.</p>
+              </AccordionContent>
+            </AccordionItem>
+            <AccordionItem value="item-2">
+              <AccordionTrigger>Why do complex roots come in pairs?</AccordionTrigger>
+              <AccordionContent>
+                <p>For a polynomial with real coefficients, if `a + bi` is a root then so is its conjugate `a - bi`. That is why a quadratic factor with a negative discriminant, like `x^2 + 1`, gives the pair `i` and `-i`.</p>
+              </AccordionContent>
+            </AccordionItem>
+            <AccordionItem value="item-3">
+              <AccordionTrigger>Is a factor left as it is really unfactorable?</AccordionTrigger>
+              <AccordionContent>
+                <p>A linear or quadratic factor that is left as it is cannot be factored over the rationals. A higher-degree factor with no rational roots has no linear factors over the rationals, but it may still split into two higher-degree factors, as `x^4 + 5x^2 + 6 = (x^2 + 2)(x^2 + 3)` does. Its roots are still all found.</p>
+              </AccordionContent>
+            </AccordionItem>
+            <AccordionItem value="item-4">
+              <AccordionTrigger>How many roots does a polynomial have?</AccordionTrigger>
+              <AccordionContent>
+                <p>By the Fundamental Theorem of Algebra, a polynomial of degree n has exactly n complex roots when each is counted as many times as its multiplicity. Some of them may be real.</p>
+              </AccordionContent>
+            </AccordionItem>
+          </Accordion>
+        </CardContent>
+      </Card>
+
+      <Card className="print:hidden">
+        <CardHeader>
+            <CardTitle>Summary</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">This calculator factors a polynomial using the greatest common factor, difference of squares, grouping and the rational root theorem, and lists every real and complex root with its multiplicity. The graph shows where the real roots fall, and each step is written out so you can follow the reasoning.</p>
+        </CardContent>
+      </Card>
+
+    </div>
+  );
+}
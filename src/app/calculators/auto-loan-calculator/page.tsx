@@ -0,0 +1,556 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { calculateAutoLoan } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from '@/components/ui/card';
+import {
+  Form,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormMessage,
+  FormDescription,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/components/ui/accordion';
+import { DollarSign, Percent, Calendar, HelpCircle, Car, BarChart, Repeat, Fuel, Route, Gauge, Shield, Wrench, Wallet } from 'lucide-react';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { Bar, BarChart as RechartsBarChart, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { useCountUp } from '@/hooks/use-count-up';
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { autoLoanSchema as formSchema } from '@/lib/calculator-schemas';
+
+type FormValues = z.infer<typeof formSchema>;
+
+const chartConfig = {
+  value: {
+    label: 'Cost',
+    color: 'hsl(var(--primary))',
+  },
+} satisfies ChartConfig;
+
+export default function AutoLoanCalculator() {
+  const formatter = useFormatter();
+  const [result, setResult] = useState<ReturnType<typeof calculateAutoLoan> | null>(null);
+  const [termMonths, setTermMonths] = useState(0);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      vehiclePrice: undefined,
+      downPayment: 0,
+      tradeInValue: 0,
+      tradeInPayoff: 0,
+      salesTaxRate: 7,
+      dealerFees: 800,
+      taxTradeInCredit: true,
+      interestRate: 6.5,
+      termMonths: 60,
+      monthlyBudget: undefined,
+      monthlyDistance: 1000,
+      distanceUnit: 'miles',
+      efficiency: 30,
+      efficiencyUnit: 'mpg',
+      fuelPrice: 3.5,
+      priceUnit: 'per_gallon',
+      monthlyInsurance: 0,
+      monthlyMaintenance: 0,
+    },
+  });
+
+  const animatedPayment = useCountUp(result ? result.data.monthlyPayment : 0, formatter.currency);
+  const animatedOwnership = useCountUp(result ? result.data.monthlyOwnershipCost : 0, formatter.currency);
+  const animatedTotal = useCountUp(result ? result.data.totalCostOfOwnership : 0, formatter.currency);
+  const animatedMaxPrice = useCountUp(result?.data.maxAffordablePrice ?? 0, formatter.currency);
+
+  const onSubmit = (data: FormValues) => {
+    const res = calculateAutoLoan(
+      data.vehiclePrice,
+      data.downPayment,
+      data.tradeInValue,
+      data.tradeInPayoff,
+      data.salesTaxRate,
+      data.dealerFees,
+      data.interestRate,
+      data.termMonths,
+      {
+        taxTradeInCredit: data.taxTradeInCredit,
+        monthlyBudget: data.monthlyBudget || undefined,
+        ownership: {
+          monthlyDistance: data.monthlyDistance,
+          distanceUnit: data.distanceUnit,
+          efficiency: data.efficiency,
+          efficiencyUnit: data.efficiencyUnit,
+          fuelPrice: data.fuelPrice,
+          priceUnit: data.priceUnit,
+          monthlyInsurance: data.monthlyInsurance,
+          monthlyMaintenance: data.monthlyMaintenance,
+        },
+      }
+    );
+    setResult(res);
+    setTermMonths(data.termMonths);
+  };
+
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('auto-loan-calculator', form, result);
+
+  return (
+    <div className="space-y-8">
+      <PrintReportHeader slug="auto-loan-calculator" form={form} result={result} />
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Auto Loan Calculator</CardTitle>
+          <CardDescription>
+            Work out your car payment including trade-in, sales tax and fees, see the full cost of owning the vehicle, and find the most you can spend for a monthly budget.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="vehiclePrice"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Car className="w-4 h-4" />Vehicle Price</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 35000" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="downPayment"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><DollarSign className="w-4 h-4" />Down Payment</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 5000" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="dealerFees"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><DollarSign className="w-4 h-4" />Dealer & Title Fees</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 800" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="tradeInValue"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Repeat className="w-4 h-4" />Trade-In Value</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 8000" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="tradeInPayoff"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Repeat className="w-4 h-4" />Amount Owed on Trade-In</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 3000" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="salesTaxRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Percent className="w-4 h-4" />Sales Tax (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 7" {...field} value={field.value ?? ''} step="0.01" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="interestRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Percent className="w-4 h-4" />APR (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 6.5" {...field} value={field.value ?? ''} step="0.01" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="termMonths"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Calendar className="w-4 h-4" />Loan Term (months)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 60" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="monthlyBudget"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Wallet className="w-4 h-4" />Monthly Budget (optional)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 700" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormDescription>Total you can spend per month, including running costs.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="taxTradeInCredit"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel>Trade-In Tax Credit</FormLabel>
+                      <FormDescription>Only charge sales tax on the price minus the trade-in value, as most states do.</FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <div className="space-y-4">
+                <h3 className="font-semibold flex items-center gap-2"><Fuel className="w-4 h-4" />Running Costs</h3>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="monthlyDistance"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="flex items-center gap-2"><Route className="w-4 h-4" />Distance per Month</FormLabel>
+                        <div className="flex gap-2">
+                          <FormControl>
+                            <Input type="number" placeholder="e.g., 1000" {...field} value={field.value ?? ''} />
+                          </FormControl>
+                          <FormField control={form.control} name="distanceUnit" render={({ field: unitField }) => (
+                            <Select onValueChange={unitField.onChange} value={unitField.value}>
+                              <FormControl><SelectTrigger className="w-[120px]"><SelectValue /></SelectTrigger></FormControl>
+                              <SelectContent><SelectItem value="miles">miles</SelectItem><SelectItem value="kilometers">km</SelectItem></SelectContent>
+                            </Select>
+                          )}/>
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="efficiency"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="flex items-center gap-2"><Gauge className="w-4 h-4" />Vehicle Efficiency</FormLabel>
+                        <div className="flex gap-2">
+                          <FormControl>
+                            <Input type="number" placeholder="e.g., 30" {...field} value={field.value ?? ''} />
+                          </FormControl>
+                          <FormField control={form.control} name="efficiencyUnit" render={({ field: unitField }) => (
+                            <Select onValueChange={unitField.onChange} value={unitField.value}>
+                              <FormControl><SelectTrigger className="w-[120px]"><SelectValue /></SelectTrigger></FormControl>
+                              <SelectContent><SelectItem value="mpg">MPG</SelectItem><SelectItem value="lp100km">L/100km</SelectItem></SelectContent>
+                            </Select>
+                          )}/>
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="fuelPrice"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="flex items-center gap-2"><Fuel className="w-4 h-4" />Fuel Price</FormLabel>
+                        <div className="flex gap-2">
+                          <FormControl>
+                            <Input type="number" placeholder="e.g., 3.50" {...field} value={field.value ?? ''} step="0.01" />
+                          </FormControl>
+                          <FormField control={form.control} name="priceUnit" render={({ field: unitField }) => (
+                            <Select onValueChange={unitField.onChange} value={unitField.value}>
+                              <FormControl><SelectTrigger className="w-[120px]"><SelectValue /></SelectTrigger></FormControl>
+                              <SelectContent><SelectItem value="per_gallon">/ gallon</SelectItem><SelectItem value="per_liter">/ liter</SelectItem></SelectContent>
+                            </Select>
+                          )}/>
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="monthlyInsurance"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="flex items-center gap-2"><Shield className="w-4 h-4" />Insurance per Month</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="e.g., 120" {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="monthlyMaintenance"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="flex items-center gap-2"><Wrench className="w-4 h-4" />Maintenance per Month</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="e.g., 50" {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Calculate</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="auto-loan-calculator" form={form} />
+                <ScenarioComparison slug="auto-loan-calculator" form={form} />
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <CardTitle>Your Auto Loan</CardTitle>
+            <ExportMenu slug="auto-loan-calculator" form={form} result={result} />
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
+              <div className="p-6 bg-primary/10 rounded-lg">
+                <p className="text-sm text-muted-foreground">Monthly Loan Payment</p>
+                <p className="text-4xl font-bold text-primary">{animatedPayment}</p>
+              </div>
+              <div className="p-6 bg-accent/20 rounded-lg">
+                <p className="text-sm text-muted-foreground">Monthly Ownership Cost</p>
+                <p className="text-4xl font-bold text-accent">{animatedOwnership}</p>
+              </div>
+              <div className="p-6 bg-muted rounded-lg">
+                <p className="text-sm text-muted-foreground">Total Cost of Ownership ({termMonths} months)</p>
+                <p className="text-4xl font-bold">{animatedTotal}</p>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+              <div className="p-4 bg-muted/50 rounded-lg">
+                <p className="text-sm text-muted-foreground">Amount Financed</p>
+                <p className="text-xl font-semibold">{formatter.currency(result.data.amountFinanced)}</p>
+              </div>
+              <div className="p-4 bg-muted/50 rounded-lg">
+                <p className="text-sm text-muted-foreground">Sales Tax</p>
+                <p className="text-xl font-semibold">{formatter.currency(result.data.salesTax)}</p>
+              </div>
+              <div className="p-4 bg-muted/50 rounded-lg">
+                <p className="text-sm text-muted-foreground">Trade-In Equity</p>
+                <p className="text-xl font-semibold">{formatter.currency(result.data.tradeInEquity)}</p>
+              </div>
+              <div className="p-4 bg-muted/50 rounded-lg">
+                <p className="text-sm text-muted-foreground">Total Interest</p>
+                <p className="text-xl font-semibold">{formatter.currency(result.data.totalInterest)}</p>
+              </div>
+              <div className="p-4 bg-muted/50 rounded-lg">
+                <p className="text-sm text-muted-foreground">Fuel per Month</p>
+                <p className="text-xl font-semibold">{formatter.currency(result.data.monthlyFuelCost)}</p>
+              </div>
+            </div>
+            {result.data.maxAffordablePrice !== null && (
+              <div className="p-6 bg-primary/10 rounded-lg text-center">
+                <p className="text-sm text-muted-foreground">Maximum Affordable Vehicle Price for Your Budget</p>
+                <p className="text-4xl font-bold text-primary">{animatedMaxPrice}</p>
+                <p className="text-sm text-muted-foreground mt-2">Keeps your loan payment plus running costs within your monthly budget, using the same down payment, trade-in, tax, fees and APR.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {result && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><BarChart className="w-5 h-5" />Where Your Money Goes</CardTitle>
+            <CardDescription>Total cost of ownership over the life of the loan.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="min-h-[300px] w-full">
+              <RechartsBarChart accessibilityLayer data={result.data.breakdown.filter((item) => item.value > 0)} layout="vertical" margin={{ left: 24 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" tickFormatter={formatter.compactCurrency} />
+                <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={110} />
+                <ChartTooltip content={<ChartTooltipContent valueFormatter={formatter.currency} />} />
+                <Bar dataKey="value" fill="var(--color-value)" radius={4} />
+              </RechartsBarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Inputs</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <h3 className="font-semibold text-lg">Trade-In Value and Amount Owed</h3>
+            <p className="text-muted-foreground">Your trade-in's value minus what you still owe on it is your equity. Positive equity works like extra down payment; negative equity is rolled into the new loan.</p>
+          </div>
+          <div>
+            <h3 className="font-semibold text-lg">Sales Tax and Fees</h3>
+            <p className="text-muted-foreground">Sales tax is charged on the vehicle price (less the trade-in where your state allows it). Dealer, documentation and title fees are added to the amount financed.</p>
+          </div>
+          <div>
+            <h3 className="font-semibold text-lg">Running Costs</h3>
+            <p className="text-muted-foreground">Fuel is estimated with the same method as the Fuel Cost Calculator from your monthly distance, efficiency and fuel price. Insurance and maintenance are added as entered.</p>
+          </div>
+          <div>
+            <h3 className="font-semibold text-lg">Monthly Budget</h3>
+            <p className="text-muted-foreground">If you enter a budget, the calculator works backwards to the highest vehicle price whose payment plus running costs fits within it.</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><Car className="h-5 w-5" />Methodology</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p>The amount financed is built up from the price, tax and fees, less your down payment and trade-in equity. The payment uses the standard amortization formula, and the affordable price reverses each step starting from your budget.</p>
+          <div className="p-4 bg-muted/50 rounded-lg space-y-2 mt-4 text-center">
+            <p className="font-mono text-sm md:text-base font-bold text-primary">Financed = Price + Tax + Fees - Down - (Trade-In - Owed)</p>
+            <p className="font-mono text-sm md:text-base font-bold">Payment = Financed * r / (1 - (1 + r)^-n)</p>
+            <p className="font-mono text-sm md:text-base font-bold">Ownership = Payment + Fuel + Insurance + Maintenance</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <RelatedCalculators slug="auto-loan-calculator" />
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Buying a Car You Can Afford</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6 text-muted-foreground leading-relaxed">
+          <h2 className="text-xl font-bold text-foreground">Look Beyond the Monthly Payment</h2>
+          <p>Dealers often focus on the monthly payment, but a longer term can hide a higher price and much more interest. Looking at the total cost of ownership, including fuel, insurance and maintenance, shows what the car really costs you.</p>
+          <h3 className="text-lg font-semibold text-foreground">Watch Out for Negative Equity</h3>
+          <p>If you owe more on your trade-in than it is worth, the difference is added to your new loan. You pay interest on it and may start the new loan owing more than the car is worth.</p>
+          <h3 className="text-lg font-semibold text-foreground">Shop With a Budget</h3>
+          <p>Knowing your maximum affordable price before you visit the dealership makes it easier to negotiate and to walk away from offers that stretch your finances.</p>
+        </CardContent>
+      </Card>
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Frequently Asked Questions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Accordion type="single" collapsible className="w-full">
+            <AccordionItem value="item-1">
+              <AccordionTrigger>What loan term should I choose?</AccordionTrigger>
+              <AccordionContent>
+                <p>Shorter terms have higher payments but far less interest. Many advisors suggest keeping car loans to 60 months or less.</p>
+              </AccordionContent>
+            </AccordionItem>
+            <AccordionItem value="item-2">
+              <AccordionTrigger>Does every state give a trade-in tax credit?</AccordionTrigger>
+              <AccordionContent>
+                <p>No. Most states tax only the difference between the price and the trade-in, but a few tax the full price. Turn off the trade-in tax credit option if that applies to you.</p>
+              </AccordionContent>
+            </AccordionItem>
+            <AccordionItem value="item-3">
+              <AccordionTrigger>Why is the total cost of ownership higher than the price?</AccordionTrigger>
+              <AccordionContent>
+                <p>It includes tax, fees, interest and the running costs you expect to pay over the loan term, not just the sticker price.</p>
+              </AccordionContent>
+            </AccordionItem>
+          </Accordion>
+        </CardContent>
+      </Card>
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Summary</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">The Auto Loan Calculator combines your car loan with trade-in, taxes, fees and running costs to show your monthly payment, the real monthly cost of ownership and the most you can afford to spend for your budget.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
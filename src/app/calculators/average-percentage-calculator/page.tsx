@@ -1,122 +1,179 @@
 'use client';
 
 import { useState } from 'react';
-import { useForm } from 'react-hook-form';
+import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { calculateAveragePercentage } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
-import Link from 'next/link';
-import { HelpCircle, Percent, Sigma, BarChart, FileJson } from 'lucide-react';
+import { HelpCircle, Percent, Sigma, BarChart, FileJson, Plus, Trash2, Scale } from 'lucide-react';
 import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
-import { Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, BarChart as RechartsBarChart } from 'recharts';
-
-const formSchema = z.object({
-  percentages: z.string().min(1, 'Please enter at least one percentage value.')
-    .refine(s => s.split(',').every(v => !isNaN(parseFloat(v))), 'All values must be valid numbers.'),
-});
+import { Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, BarChart as RechartsBarChart, ReferenceLine } from 'recharts';
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { averagePercentageSchema as formSchema } from '@/lib/calculator-schemas';
 
 type FormValues = z.infer<typeof formSchema>;
 
-const relatedCalculators: { name: string; href: string }[] = [
-    { name: 'Comparative Difference', href: '/calculators/comparative-difference-calculator' },
-    { name: 'Compounding Increase', href: '/calculators/compounding-increase-calculator' },
-    { name: 'Doubling Time', href: '/calculators/doubling-time-calculator' },
-    { name: 'Fraction to Percent', href: '/calculators/fraction-to-percent-calculator' },
-    { name: 'Fuel Cost', href: '/calculators/fuel-cost-calculator' },
-    { name: 'Historic Change', href: '/calculators/historic-change-calculator' },
-    { name: 'Investment Growth', href: '/calculators/investment-growth-calculator' },
-    { name: 'Percentage of a Percentage', href: '/calculators/percentage-of-a-percentage-calculator' },
-    { name: 'Percentage Point', href: '/calculators/percentage-point-calculator' },
-    { name: 'Value Percentage', href: '/calculators/value-percentage-calculator' },
-    { name: 'Percent Error', href: '/calculators/percent-error-calculator' },
-    { name: 'Percent to Goal', href: '/calculators/percent-to-goal-calculator' },
-    { name: 'Relative Change', href: '/calculators/relative-change-calculator' },
-    { name: 'Slope Percentage', href: '/calculators/slope-percentage-calculator' },
-    { name: 'Time Percentage', href: '/calculators/time-percentage-calculator' },
-].sort((a,b) => a.name.localeCompare(b.name));
-
 const chartConfig = {
-  value: {
-    label: "Value",
+  percentage: {
+    label: "Percentage",
     color: "hsl(var(--primary))",
   },
-  average: {
-    label: "Average",
+  share: {
+    label: "Share of Weight",
     color: "hsl(var(--accent))",
   }
 } satisfies ChartConfig;
 
 export default function AveragePercentageCalculator() {
+  const formatter = useFormatter();
   const [result, setResult] = useState<ReturnType<typeof calculateAveragePercentage> | null>(null);
-  const [chartData, setChartData] = useState<any[]>([]);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
-    defaultValues: { percentages: '' },
+    defaultValues: {
+      entries: [
+        { percentage: undefined, weight: 1 },
+        { percentage: undefined, weight: 1 },
+      ],
+    },
   });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'entries' });
 
   const onSubmit = (data: FormValues) => {
-    const numbers = data.percentages.split(',').map(s => parseFloat(s.trim())).filter(n => !isNaN(n));
-    if (numbers.length > 0) {
-      const res = calculateAveragePercentage(numbers);
-      setResult(res);
-      const newChartData = numbers.map((val, index) => ({ name: `Value ${index + 1}`, value: val, average: parseFloat(res.average) }));
-      setChartData(newChartData);
-    } else {
-      setResult(null);
-      setChartData([]);
-    }
+    const res = calculateAveragePercentage(data.entries);
+    if (!res.ok) form.setError('root.serverError', { type: 'custom', message: res.error.message });
+    setResult(res);
   };
 
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('average-percentage-calculator', form, result);
+
+  const chartData = result?.ok
+    ? result.data.rows.map((row, index) => ({ name: `Row ${index + 1}`, percentage: row.percentage, share: row.share }))
+    : [];
+
   return (
     <div className="space-y-8">
-      <Card>
+      <PrintReportHeader slug="average-percentage-calculator" form={form} result={result} />
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Average Percentage Calculator</CardTitle>
-          <CardDescription>Calculate the simple arithmetic average of a series of percentages.</CardDescription>
+          <CardDescription>Average percentages from groups of different sizes, weighting each by its group size.</CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <FormField
-                control={form.control}
-                name="percentages"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Percentages (comma-separated)</FormLabel>
-                    <FormControl>
-                      <Input placeholder="e.g., 10, 25, 15.5, 30" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              <Button type="submit">Calculate Average</Button>
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
+              <div className="space-y-2">
+                <div className="grid grid-cols-[1fr_1fr_2.5rem] gap-2 text-sm font-medium">
+                  <span>Percentage (%)</span>
+                  <span>Weight (group size)</span>
+                </div>
+                {fields.map((item, index) => (
+                  <div key={item.id} className="grid grid-cols-[1fr_1fr_2.5rem] items-start gap-2">
+                    <FormField
+                      control={form.control}
+                      name={`entries.${index}.percentage`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl><Input type="number" placeholder="e.g., 50" aria-label={`Percentage ${index + 1}`} {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`entries.${index}.weight`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl><Input type="number" placeholder="e.g., 10" aria-label={`Weight ${index + 1}`} {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} disabled={fields.length === 1} aria-label="Remove row">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button type="button" variant="outline" size="sm" onClick={() => append({ percentage: 0, weight: 1 })}>
+                  <Plus className="w-4 h-4 mr-2" />Add Row
+                </Button>
+                {form.formState.errors.entries?.root && <FormMessage>{form.formState.errors.entries.root.message}</FormMessage>}
+                {form.formState.errors.entries?.message && <FormMessage>{form.formState.errors.entries.message}</FormMessage>}
+              </div>
+              {form.formState.errors.root?.serverError && <FormMessage>{form.formState.errors.root.serverError.message}</FormMessage>}
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Calculate Average</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="average-percentage-calculator" form={form} />
+                <ScenarioComparison slug="average-percentage-calculator" form={form} />
+              </div>
             </form>
           </Form>
         </CardContent>
       </Card>
       
-      {result && (
+      {result?.ok && (
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
             <CardTitle>Calculation Result</CardTitle>
+            <ExportMenu slug="average-percentage-calculator" form={form} result={result} />
           </CardHeader>
-          <CardContent className="text-center">
-            <div className="p-6 bg-primary/10 rounded-lg">
-              <p className="text-sm text-muted-foreground">Average Percentage</p>
-              <p className="text-4xl font-bold text-primary">{result.average}%</p>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-center">
+              <div className="p-6 bg-primary/10 rounded-lg">
+                <p className="text-sm text-muted-foreground">Weighted Average</p>
+                <p className="text-4xl font-bold text-primary">{formatter.percent(result.data.weightedAverage)}</p>
+              </div>
+              <div className="p-6 bg-muted rounded-lg">
+                <p className="text-sm text-muted-foreground">Simple Average</p>
+                <p className="text-4xl font-bold">{formatter.percent(result.data.simpleAverage)}</p>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+              <div>
+                <p className="text-sm text-muted-foreground">Weighted Median</p>
+                <p className="text-xl font-semibold">{formatter.percent(result.data.median)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Minimum</p>
+                <p className="text-xl font-semibold">{formatter.percent(result.data.min)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Maximum</p>
+                <p className="text-xl font-semibold">{formatter.percent(result.data.max)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Standard Deviation</p>
+                <p className="text-xl font-semibold">{formatter.result(result.data.standardDeviation, 'percentagePoints')}</p>
+              </div>
+            </div>
+            <div className="flex gap-3 p-4 bg-muted/50 rounded-lg">
+              <Scale className="w-5 h-5 shrink-0 mt-0.5 text-primary" />
+              <p className="text-sm text-muted-foreground">
+                {Math.abs(result.data.difference) < 0.005
+                  ? `The weighted and simple averages agree at ${formatter.percent(result.data.weightedAverage)}, because the group sizes do not favor higher or lower percentages.`
+                  : `The simple average counts each row once and gives ${formatter.percent(result.data.simpleAverage)}. Weighting each row by its group size gives ${formatter.percent(result.data.weightedAverage)}, ${formatter.result(Math.abs(result.data.difference), 'percentagePoints')} ${result.data.difference > 0 ? 'higher' : 'lower'}, because the larger groups have ${result.data.difference > 0 ? 'higher' : 'lower'} percentages. Across all ${formatter.number(result.data.totalWeight)} units of weight, the weighted figure is the true overall percentage.`}
+              </p>
             </div>
           </CardContent>
         </Card>
       )}
 
-      {chartData.length > 0 && result && (
+      {chartData.length > 0 && result?.ok && (
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2"><BarChart className="w-5 h-5" />Data Visualization</CardTitle>
@@ -127,22 +184,31 @@ export default function AveragePercentageCalculator() {
                 <CartesianGrid vertical={false} />
                 <XAxis dataKey="name" tickLine={false} tickMargin={10} axisLine={false} />
                 <YAxis unit="%" />
-                <ChartTooltip cursor={false} content={<ChartTooltipContent indicator="dashed" />} />
-                <Bar dataKey="value" fill="var(--color-value)" radius={4} />
+                <ChartTooltip cursor={false} content={<ChartTooltipContent indicator="dashed" valueFormatter={(value) => formatter.percent(value)} />} />
+                <Bar dataKey="percentage" fill="var(--color-percentage)" radius={4} />
+                <Bar dataKey="share" fill="var(--color-share)" radius={4} />
+                <ReferenceLine y={result.data.weightedAverage} stroke="hsl(var(--primary))" strokeDasharray="4 4" label="Weighted" />
+                <ReferenceLine y={result.data.simpleAverage} stroke="hsl(var(--muted-foreground))" strokeDasharray="2 4" label="Simple" />
               </RechartsBarChart>
             </ChartContainer>
-             <p className="text-center text-sm text-muted-foreground mt-2">The chart shows your input values. The average is {result.average}%.</p>
+             <p className="text-center text-sm text-muted-foreground mt-2">Each row's percentage next to its share of the total weight. The dashed lines mark the weighted and simple averages.</p>
           </CardContent>
         </Card>
       )}
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
-          <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Input</CardTitle>
+          <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Inputs</CardTitle>
         </CardHeader>
-        <CardContent>
-          <h3 className="font-semibold text-lg">Percentages</h3>
-          <p className="text-muted-foreground">Enter a list of numbers representing the percentages you want to average. Separate each number with a comma. For example: `10, 20, 30`.</p>
+        <CardContent className="space-y-4">
+          <div>
+            <h3 className="font-semibold text-lg">Percentage (%)</h3>
+            <p className="text-muted-foreground">One percentage per row, such as a department's satisfaction score or a fund's annual return.</p>
+          </div>
+          <div>
+            <h3 className="font-semibold text-lg">Weight (group size)</h3>
+            <p className="text-muted-foreground">How many people, items or dollars the percentage describes, e.g. the number of survey respondents or the amount invested. Leave every weight at 1 for a plain average. Rows with a weight of 0 are left out.</p>
+          </div>
         </CardContent>
       </Card>
       
@@ -151,35 +217,24 @@ export default function AveragePercentageCalculator() {
           <CardTitle className="flex items-center gap-2"><Sigma className="h-5 w-5" />Methodology</CardTitle>
         </CardHeader>
         <CardContent>
-          <p>The calculator finds the arithmetic mean. This is the most common type of average. It's calculated by summing all the percentage values and then dividing by the count of those values.</p>
+          <p>Each percentage is multiplied by its weight, and the sum of those products is divided by the total weight. The simple average, which counts each row once, is shown for comparison. The median, standard deviation and range treat each row as if it appeared as many times as its weight.</p>
           <div className="p-4 bg-muted/50 rounded-lg space-y-2 mt-4 text-center">
-            <p className="font-mono text-sm md:text-base font-bold text-primary">Average = (Sum of Percentages) / (Count of Percentages)</p>
+            <p className="font-mono text-sm md:text-base font-bold text-primary">Weighted Average = Σ(Percentage × Weight) / Σ(Weight)</p>
+            <p className="font-mono text-sm md:text-base">Standard Deviation = √(Σ(Weight × (Percentage − Weighted Average)²) / Σ(Weight))</p>
+            <p className="font-mono text-sm md:text-base">Weighted Median = the percentage at which the running total of weight first passes half</p>
           </div>
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Related Calculators</CardTitle>
-        </CardHeader>
-        <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {relatedCalculators.map((calc) => (
-                <Link href={calc.href} key={calc.name} className="block hover:no-underline">
-                <Card className="flex flex-col items-center justify-center p-4 border rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors h-full text-center">
-                    <span className="font-semibold">{calc.name}</span>
-                </Card>
-                </Link>
-            ))}
-        </CardContent>
-      </Card>
+      <RelatedCalculators slug="average-percentage-calculator" />
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
             <CardTitle>A Comprehensive Guide to Averaging Percentages</CardTitle>
         </CardHeader>
         <CardContent className="space-y-6 text-muted-foreground leading-relaxed">
             <h2 className="text-xl font-bold text-foreground">Understanding Averages: Simple vs. Weighted</h2>
-            <p>Averaging percentages seems simple, but there's a critical distinction that can dramatically affect your results. This calculator computes a **simple average**, which is appropriate in some cases but highly misleading in others. The key lies in understanding the 'weight' behind each percentage.</p>
+            <p>Averaging percentages seems simple, but there's a critical distinction that can dramatically affect your results. This calculator computes a **weighted average** and shows the simple average beside it, because the simple one is appropriate in some cases but highly misleading in others. The key lies in understanding the 'weight' behind each percentage.</p>
 
             <h3 className="text-lg font-semibold text-foreground">When a Simple Average is Correct</h3>
             <p>A simple arithmetic average is the right tool when each percentage value you're averaging holds equal importance or represents a group of the same size. In this case, no single percentage has more influence than another.</p>
@@ -239,13 +294,13 @@ export default function AveragePercentageCalculator() {
             </div>
 
             <h3 className="text-lg font-semibold text-foreground">How to Calculate a Weighted Average Manually</h3>
-            <p>While this tool doesn't compute weighted averages, the formula is essential to know:</p>
+            <p>This is what the calculator does with the weights you enter:</p>
             <p className="p-4 bg-muted/50 rounded-lg mt-2 text-center font-mono font-bold text-primary">Weighted Avg = Σ(Percentage_i × Weight_i) / Σ(Weight_i)</p>
             <p>This means you multiply each percentage by its corresponding size (weight), sum up these products, and then divide by the total sum of all weights.</p>
         </CardContent>
       </Card>
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Frequently Asked Questions</CardTitle>
         </CardHeader>
@@ -254,7 +309,7 @@ export default function AveragePercentageCalculator() {
             <AccordionItem value="item-1">
               <AccordionTrigger>Is this calculator finding the mean, median, or mode?</AccordionTrigger>
               <AccordionContent>
-                <p>This calculator computes the **arithmetic mean**, often just called the "average." It's the sum of all values divided by the number of values. It does not calculate the median (the middle value in a sorted list) or the mode (the value that appears most often).</p>
+                <p>The headline figure is the **weighted mean**. The calculator also reports the weighted median, the middle percentage once each row is counted by its weight, along with the minimum, maximum and standard deviation. It does not calculate the mode (the value that appears most often).</p>
               </AccordionContent>
             </AccordionItem>
             <AccordionItem value="item-2">
@@ -285,13 +340,13 @@ export default function AveragePercentageCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Summary</CardTitle>
         </CardHeader>
         <CardContent>
           <p className="text-muted-foreground">
-            The Average Percentage Calculator provides a quick way to find the arithmetic mean of a series of percentage values. It's a fundamental tool for finding a central tendency in data, but it's crucial to use it correctly: it is most accurate and meaningful when all the percentages are drawn from groups of equal size or importance. For groups of varying sizes, a weighted average is the appropriate method.
+            The Average Percentage Calculator combines percentages from groups of different sizes into one overall figure by weighting each by its group size, and shows the simple average beside it so you can see how much the sizes matter. A simple average is only meaningful when all the percentages are drawn from groups of equal size or importance; for groups of varying sizes, the weighted average is the true overall percentage.
           </p>
         </CardContent>
       </Card>
@@ -5,6 +5,12 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { calculateComparativeDifference } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
 import {
   Card,
   CardContent,
@@ -28,40 +34,21 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from '@/components/ui/accordion';
-import Link from 'next/link';
 import { HelpCircle, Scale, Percent, TrendingUp, TrendingDown, ChevronsRight } from 'lucide-react';
 import { useCountUp } from '@/hooks/use-count-up';
-
-const formSchema = z.object({
-  valueA: z.coerce.number().nonnegative('Value must be a non-negative number.'),
-  valueB: z.coerce.number().nonnegative('Value must be a non-negative number.'),
-});
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { comparativeDifferenceSchema as formSchema } from '@/lib/calculator-schemas';
 
 type FormValues = z.infer<typeof formSchema>;
 
-const relatedCalculators: { name: string; href: string }[] = [
-    { name: 'Average Percentage', href: '/calculators/average-percentage-calculator' },
-    { name: 'Compounding Increase', href: '/calculators/compounding-increase-calculator' },
-    { name: 'Doubling Time', href: '/calculators/doubling-time-calculator' },
-    { name: 'Fraction to Percent', href: '/calculators/fraction-to-percent-calculator' },
-    { name: 'Fuel Cost', href: '/calculators/fuel-cost-calculator' },
-    { name: 'Historic Change', href: '/calculators/historic-change-calculator' },
-    { name: 'Investment Growth', href: '/calculators/investment-growth-calculator' },
-    { name: 'Percentage of a Percentage', href: '/calculators/percentage-of-a-percentage-calculator' },
-    { name: 'Percentage Point', href: '/calculators/percentage-point-calculator' },
-    { name: 'Value Percentage', href: '/calculators/value-percentage-calculator' },
-    { name: 'Percent Error', href: '/calculators/percent-error-calculator' },
-    { name: 'Percent to Goal', href: '/calculators/percent-to-goal-calculator' },
-    { name: 'Relative Change', href: '/calculators/relative-change-calculator' },
-    { name: 'Slope Percentage', href: '/calculators/slope-percentage-calculator' },
-    { name: 'Time Percentage', href: '/calculators/time-percentage-calculator' },
-].sort((a,b) => a.name.localeCompare(b.name));
-
 export default function ComparativeDifferenceCalculator() {
+  const formatter = useFormatter();
   const [result, setResult] = useState<ReturnType<typeof calculateComparativeDifference> | null>(null);
   
-  const differenceValue = result?.difference === 'N/A' ? 0 : result ? parseFloat(result.difference) : 0;
-  const animatedDifference = useCountUp(differenceValue);
+  const differenceValue = result?.ok ? result.data.difference : 0;
+  const animatedDifference = useCountUp(differenceValue, formatter.percent);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -73,8 +60,12 @@ export default function ComparativeDifferenceCalculator() {
 
   const onSubmit = (data: FormValues) => {
     const res = calculateComparativeDifference(data.valueA, data.valueB);
+    if (!res.ok) form.setError('root.serverError', { type: 'custom', message: res.error.message });
     setResult(res);
   };
+
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('comparative-difference-calculator', form, result);
   
   useEffect(() => {
     if (result) {
@@ -84,7 +75,8 @@ export default function ComparativeDifferenceCalculator() {
 
   return (
     <div className="space-y-8">
-      <Card>
+      <PrintReportHeader slug="comparative-difference-calculator" form={form} result={result} />
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Comparative Difference Calculator</CardTitle>
           <CardDescription>
@@ -93,7 +85,7 @@ export default function ComparativeDifferenceCalculator() {
         </CardHeader>
         <CardContent>
           <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
@@ -122,27 +114,34 @@ export default function ComparativeDifferenceCalculator() {
                   )}
                 />
               </div>
-              <Button type="submit">Calculate Difference</Button>
+              {form.formState.errors.root?.serverError && <FormMessage>{form.formState.errors.root.serverError.message}</FormMessage>}
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Calculate Difference</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="comparative-difference-calculator" form={form} />
+                <ScenarioComparison slug="comparative-difference-calculator" form={form} />
+              </div>
             </form>
           </Form>
         </CardContent>
       </Card>
       
-      {result && (
+      {result?.ok && (
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
             <CardTitle>Calculation Result</CardTitle>
+            <ExportMenu slug="comparative-difference-calculator" form={form} result={result} />
           </CardHeader>
           <CardContent className="text-center">
              <div className="p-6 bg-primary/10 rounded-lg">
                 <p className="text-sm text-muted-foreground">Relative Percentage Difference</p>
-                <p className="text-4xl font-bold text-primary">{result.difference === 'N/A' ? 'N/A' : `${animatedDifference}%`}</p>
+                <p className="text-4xl font-bold text-primary">{animatedDifference}</p>
             </div>
           </CardContent>
         </Card>
       )}
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Inputs</CardTitle>
         </CardHeader>
@@ -167,22 +166,9 @@ export default function ComparativeDifferenceCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Related Calculators</CardTitle>
-        </CardHeader>
-        <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {relatedCalculators.map((calc) => (
-                <Link href={calc.href} key={calc.name} className="block hover:no-underline">
-                <Card className="flex flex-col items-center justify-center p-4 border rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors h-full text-center">
-                    <span className="font-semibold">{calc.name}</span>
-                </Card>
-                </Link>
-            ))}
-        </CardContent>
-      </Card>
+      <RelatedCalculators slug="comparative-difference-calculator" />
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
             <CardTitle>When to Use Comparative vs. Historic Difference</CardTitle>
         </CardHeader>
@@ -210,7 +196,7 @@ export default function ComparativeDifferenceCalculator() {
         </CardContent>
       </Card>
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Frequently Asked Questions</CardTitle>
         </CardHeader>
@@ -244,7 +230,7 @@ export default function ComparativeDifferenceCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Summary</CardTitle>
         </CardHeader>
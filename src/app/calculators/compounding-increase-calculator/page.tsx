@@ -5,6 +5,12 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { calculateCompoundingIncrease } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
 import {
   Card,
   CardContent,
@@ -28,7 +34,6 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from '@/components/ui/accordion';
-import Link from 'next/link';
 import { DollarSign, Percent, Calendar, HelpCircle, TrendingUp, BarChart } from 'lucide-react';
 import {
   ChartConfig,
@@ -38,33 +43,13 @@ import {
 } from '@/components/ui/chart';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from 'recharts';
 import { useCountUp } from '@/hooks/use-count-up';
-
-const formSchema = z.object({
-  initialValue: z.coerce.number().positive('Initial value must be positive.'),
-  percentageIncrease: z.coerce.number().positive('Percentage increase must be positive.'),
-  periods: z.coerce.number().int().positive('Number of periods must be a positive integer.'),
-});
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { compoundingIncreaseSchema as formSchema } from '@/lib/calculator-schemas';
 
 type FormValues = z.infer<typeof formSchema>;
 
-const relatedCalculators: { name: string; href: string }[] = [
-    { name: 'Average Percentage', href: '/calculators/average-percentage-calculator' },
-    { name: 'Comparative Difference', href: '/calculators/comparative-difference-calculator' },
-    { name: 'Doubling Time', href: '/calculators/doubling-time-calculator' },
-    { name: 'Fraction to Percent', href: '/calculators/fraction-to-percent-calculator' },
-    { name: 'Fuel Cost', href: '/calculators/fuel-cost-calculator' },
-    { name: 'Historic Change', href: '/calculators/historic-change-calculator' },
-    { name: 'Investment Growth', href: '/calculators/investment-growth-calculator' },
-    { name: 'Percentage of a Percentage', href: '/calculators/percentage-of-a-percentage-calculator' },
-    { name: 'Percentage Point', href: '/calculators/percentage-point-calculator' },
-    { name: 'Value Percentage', href: '/calculators/value-percentage-calculator' },
-    { name: 'Percent Error', href: '/calculators/percent-error-calculator' },
-    { name: 'Percent to Goal', href: '/calculators/percent-to-goal-calculator' },
-    { name: 'Relative Change', href: '/calculators/relative-change-calculator' },
-    { name: 'Slope Percentage', href: '/calculators/slope-percentage-calculator' },
-    { name: 'Time Percentage', href: '/calculators/time-percentage-calculator' },
-].sort((a,b) => a.name.localeCompare(b.name));
-
 const chartConfig = {
   value: {
     label: 'Value',
@@ -73,6 +58,7 @@ const chartConfig = {
 } satisfies ChartConfig;
 
 export default function CompoundingIncreaseCalculator() {
+  const formatter = useFormatter();
   const [result, setResult] = useState<ReturnType<typeof calculateCompoundingIncrease> | null>(null);
   
   const form = useForm<FormValues>({
@@ -84,19 +70,23 @@ export default function CompoundingIncreaseCalculator() {
     },
   });
 
-  const initialValue = result ? parseFloat(form.getValues('initialValue').toString()) : 0;
-  const finalValue = result ? parseFloat(result.finalValue) : 0;
-  const totalGrowth = result ? parseFloat(result.totalGrowth) : 0;
+  const initialValue = result?.ok ? parseFloat(form.getValues('initialValue').toString()) : 0;
+  const finalValue = result?.ok ? result.data.finalValue : 0;
+  const totalGrowth = result?.ok ? result.data.totalGrowth : 0;
 
-  const animatedFinalValue = useCountUp(finalValue);
-  const animatedInitialValue = useCountUp(initialValue);
-  const animatedTotalGrowth = useCountUp(totalGrowth);
+  const animatedFinalValue = useCountUp(finalValue, formatter.currency);
+  const animatedInitialValue = useCountUp(initialValue, formatter.currency);
+  const animatedTotalGrowth = useCountUp(totalGrowth, formatter.currency);
 
 
   const onSubmit = (data: FormValues) => {
     const res = calculateCompoundingIncrease(data.initialValue, data.percentageIncrease, data.periods);
+    if (!res.ok) form.setError('root.serverError', { type: 'custom', message: res.error.message });
     setResult(res);
   };
+
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('compounding-increase-calculator', form, result);
   
   useEffect(() => {
     if (result) {
@@ -106,7 +96,8 @@ export default function CompoundingIncreaseCalculator() {
 
   return (
     <div className="space-y-8">
-      <Card>
+      <PrintReportHeader slug="compounding-increase-calculator" form={form} result={result} />
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Compounding Increase Calculator</CardTitle>
           <CardDescription>
@@ -115,7 +106,7 @@ export default function CompoundingIncreaseCalculator() {
         </CardHeader>
         <CardContent>
           <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <FormField
                   control={form.control}
@@ -157,35 +148,42 @@ export default function CompoundingIncreaseCalculator() {
                   )}
                 />
               </div>
-              <Button type="submit">Calculate Final Value</Button>
+              {form.formState.errors.root?.serverError && <FormMessage>{form.formState.errors.root.serverError.message}</FormMessage>}
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Calculate Final Value</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="compounding-increase-calculator" form={form} />
+                <ScenarioComparison slug="compounding-increase-calculator" form={form} />
+              </div>
             </form>
           </Form>
         </CardContent>
       </Card>
       
-      {result && (
+      {result?.ok && (
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
             <CardTitle>Compounding Results</CardTitle>
+            <ExportMenu slug="compounding-increase-calculator" form={form} result={result} />
           </CardHeader>
           <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
             <div className="p-6 bg-primary/10 rounded-lg">
               <p className="text-sm text-muted-foreground">Final Value</p>
-              <p className="text-4xl font-bold text-primary">${animatedFinalValue}</p>
+              <p className="text-4xl font-bold text-primary">{animatedFinalValue}</p>
             </div>
             <div className="p-6 bg-muted rounded-lg">
               <p className="text-sm text-muted-foreground">Initial Value</p>
-              <p className="text-4xl font-bold">${animatedInitialValue}</p>
+              <p className="text-4xl font-bold">{animatedInitialValue}</p>
             </div>
             <div className="p-6 bg-accent/20 rounded-lg">
               <p className="text-sm text-muted-foreground">Total Growth</p>
-              <p className="text-4xl font-bold text-accent">${animatedTotalGrowth}</p>
+              <p className="text-4xl font-bold text-accent">{animatedTotalGrowth}</p>
             </div>
           </CardContent>
         </Card>
       )}
 
-      {result && result.history.length > 1 && (
+      {result?.ok && result.data.history.length > 1 && (
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2"><BarChart className="w-5 h-5" />Growth Over Time</CardTitle>
@@ -194,7 +192,7 @@ export default function CompoundingIncreaseCalculator() {
             <ChartContainer config={chartConfig} className="min-h-[200px] w-full">
                 <LineChart
                   accessibilityLayer
-                  data={result.history}
+                  data={result.data.history}
                   margin={{
                     left: 12,
                     right: 12,
@@ -210,9 +208,9 @@ export default function CompoundingIncreaseCalculator() {
                   />
                   <YAxis
                     domain={['dataMin', 'dataMax']}
-                    tickFormatter={(value) => `$${value}`}
+                    tickFormatter={formatter.compactCurrency}
                   />
-                  <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+                  <ChartTooltip cursor={false} content={<ChartTooltipContent valueFormatter={formatter.currency} />} />
                   <Line
                     dataKey="value"
                     type="monotone"
@@ -226,7 +224,7 @@ export default function CompoundingIncreaseCalculator() {
         </Card>
       )}
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Inputs</CardTitle>
         </CardHeader>
@@ -259,22 +257,9 @@ export default function CompoundingIncreaseCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Related Calculators</CardTitle>
-        </CardHeader>
-        <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {relatedCalculators.map((calc) => (
-                <Link href={calc.href} key={calc.name} className="block hover:no-underline">
-                <Card className="flex flex-col items-center justify-center p-4 border rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors h-full text-center">
-                    <span className="font-semibold">{calc.name}</span>
-                </Card>
-                </Link>
-            ))}
-        </CardContent>
-      </Card>
+      <RelatedCalculators slug="compounding-increase-calculator" />
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
             <CardTitle>The Power of Compounding</CardTitle>
         </CardHeader>
@@ -305,7 +290,7 @@ export default function CompoundingIncreaseCalculator() {
         </CardContent>
       </Card>
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Frequently Asked Questions</CardTitle>
         </CardHeader>
@@ -339,7 +324,7 @@ export default function CompoundingIncreaseCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Summary</CardTitle>
         </CardHeader>
@@ -5,40 +5,28 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { calculateDoublingTime } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
-import Link from 'next/link';
 import { HelpCircle, Percent, TrendingUp, Sigma, Clock } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
-
-const formSchema = z.object({
-  growthRate: z.coerce.number().positive('Growth rate must be a positive number.'),
-});
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { doublingTimeSchema as formSchema } from '@/lib/calculator-schemas';
 
 type FormValues = z.infer<typeof formSchema>;
 
-const relatedCalculators: { name: string; href: string }[] = [
-    { name: 'Average Percentage', href: '/calculators/average-percentage-calculator' },
-    { name: 'Comparative Difference', href: '/calculators/comparative-difference-calculator' },
-    { name: 'Compounding Increase', href: '/calculators/compounding-increase-calculator' },
-    { name: 'Fraction to Percent', href: '/calculators/fraction-to-percent-calculator' },
-    { name: 'Fuel Cost', href: '/calculators/fuel-cost-calculator' },
-    { name: 'Historic Change', href: '/calculators/historic-change-calculator' },
-    { name: 'Investment Growth', href: '/calculators/investment-growth-calculator' },
-    { name: 'Percentage of a Percentage', href: '/calculators/percentage-of-a-percentage-calculator' },
-    { name: 'Percentage Point', href: '/calculators/percentage-point-calculator' },
-    { name: 'Value Percentage', href: '/calculators/value-percentage-calculator' },
-    { name: 'Percent Error', href: '/calculators/percent-error-calculator' },
-    { name: 'Percent to Goal', href: '/calculators/percent-to-goal-calculator' },
-    { name: 'Relative Change', href: '/calculators/relative-change-calculator' },
-    { name: 'Slope Percentage', href: '/calculators/slope-percentage-calculator' },
-    { name: 'Time Percentage', href: '/calculators/time-percentage-calculator' },
-].sort((a,b) => a.name.localeCompare(b.name));
-
 export default function DoublingTimeCalculator() {
+  const formatter = useFormatter();
   const [result, setResult] = useState<ReturnType<typeof calculateDoublingTime> | null>(null);
 
   const form = useForm<FormValues>({
@@ -48,19 +36,24 @@ export default function DoublingTimeCalculator() {
 
   const onSubmit = (data: FormValues) => {
     const res = calculateDoublingTime(data.growthRate);
+    if (!res.ok) form.setError('root.serverError', { type: 'custom', message: res.error.message });
     setResult(res);
   };
 
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('doubling-time-calculator', form, result);
+
   return (
     <div className="space-y-8">
-      <Card>
+      <PrintReportHeader slug="doubling-time-calculator" form={form} result={result} />
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Doubling Time Calculator</CardTitle>
           <CardDescription>Estimate how long it will take for a quantity to double at a constant growth rate.</CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
               <FormField
                 control={form.control}
                 name="growthRate"
@@ -74,31 +67,38 @@ export default function DoublingTimeCalculator() {
                   </FormItem>
                 )}
               />
-              <Button type="submit">Calculate Doubling Time</Button>
+              {form.formState.errors.root?.serverError && <FormMessage>{form.formState.errors.root.serverError.message}</FormMessage>}
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Calculate Doubling Time</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="doubling-time-calculator" form={form} />
+                <ScenarioComparison slug="doubling-time-calculator" form={form} />
+              </div>
             </form>
           </Form>
         </CardContent>
       </Card>
       
-      {result && (
+      {result?.ok && (
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
             <CardTitle>Calculation Result</CardTitle>
+            <ExportMenu slug="doubling-time-calculator" form={form} result={result} />
           </CardHeader>
           <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4 text-center">
             <div className="p-6 bg-primary/10 rounded-lg">
               <p className="text-sm text-muted-foreground">Exact Doubling Time</p>
-              <p className="text-4xl font-bold text-primary">{result.exactTime} periods</p>
+              <p className="text-4xl font-bold text-primary">{formatter.number(result.data.exactTime)} periods</p>
             </div>
             <div className="p-6 bg-accent/20 rounded-lg">
               <p className="text-sm text-muted-foreground">Rule of 72 Estimate</p>
-              <p className="text-4xl font-bold text-accent">{result.ruleOf72Time} periods</p>
+              <p className="text-4xl font-bold text-accent">{formatter.number(result.data.ruleOf72Time)} periods</p>
             </div>
           </CardContent>
         </Card>
       )}
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Input</CardTitle>
         </CardHeader>
@@ -130,22 +130,9 @@ export default function DoublingTimeCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Related Calculators</CardTitle>
-        </CardHeader>
-        <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {relatedCalculators.map((calc) => (
-                <Link href={calc.href} key={calc.name} className="block hover:no-underline">
-                <Card className="flex flex-col items-center justify-center p-4 border rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors h-full text-center">
-                    <span className="font-semibold">{calc.name}</span>
-                </Card>
-                </Link>
-            ))}
-        </CardContent>
-      </Card>
+      <RelatedCalculators slug="doubling-time-calculator" />
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
             <CardTitle>The Power of Exponential Growth: A Practical Guide</CardTitle>
         </CardHeader>
@@ -193,7 +180,7 @@ export default function DoublingTimeCalculator() {
         </CardContent>
       </Card>
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Frequently Asked Questions</CardTitle>
         </CardHeader>
@@ -239,7 +226,7 @@ export default function DoublingTimeCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Summary</CardTitle>
         </CardHeader>
@@ -5,40 +5,27 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { calculateFractionToPercent } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
-import Link from 'next/link';
 import { HelpCircle, Percent, Divide, Sigma } from 'lucide-react';
-
-const formSchema = z.object({
-  numerator: z.coerce.number(),
-  denominator: z.coerce.number().refine(n => n !== 0, 'Denominator cannot be zero.'),
-});
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { fractionToPercentSchema as formSchema } from '@/lib/calculator-schemas';
 
 type FormValues = z.infer<typeof formSchema>;
 
-const relatedCalculators: { name: string; href: string }[] = [
-    { name: 'Average Percentage', href: '/calculators/average-percentage-calculator' },
-    { name: 'Comparative Difference', href: '/calculators/comparative-difference-calculator' },
-    { name: 'Compounding Increase', href: '/calculators/compounding-increase-calculator' },
-    { name: 'Doubling Time', href: '/calculators/doubling-time-calculator' },
-    { name: 'Fuel Cost', href: '/calculators/fuel-cost-calculator' },
-    { name: 'Historic Change', href: '/calculators/historic-change-calculator' },
-    { name: 'Investment Growth', href: '/calculators/investment-growth-calculator' },
-    { name: 'Percentage of a Percentage', href: '/calculators/percentage-of-a-percentage-calculator' },
-    { name: 'Percentage Point', href: '/calculators/percentage-point-calculator' },
-    { name: 'Value Percentage', href: '/calculators/value-percentage-calculator' },
-    { name: 'Percent Error', href: '/calculators/percent-error-calculator' },
-    { name: 'Percent to Goal', href: '/calculators/percent-to-goal-calculator' },
-    { name: 'Relative Change', href: '/calculators/relative-change-calculator' },
-    { name: 'Slope Percentage', href: '/calculators/slope-percentage-calculator' },
-    { name: 'Time Percentage', href: '/calculators/time-percentage-calculator' },
-].sort((a,b) => a.name.localeCompare(b.name));
-
 export default function FractionToPercentCalculator() {
+  const formatter = useFormatter();
   const [result, setResult] = useState<ReturnType<typeof calculateFractionToPercent> | null>(null);
 
   const form = useForm<FormValues>({
@@ -48,19 +35,24 @@ export default function FractionToPercentCalculator() {
 
   const onSubmit = (data: FormValues) => {
     const res = calculateFractionToPercent(data.numerator, data.denominator);
+    if (!res.ok) form.setError('root.serverError', { type: 'custom', message: res.error.message });
     setResult(res);
   };
 
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('fraction-to-percent-calculator', form, result);
+
   return (
     <div className="space-y-8">
-      <Card>
+      <PrintReportHeader slug="fraction-to-percent-calculator" form={form} result={result} />
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Fraction to Percent Calculator</CardTitle>
           <CardDescription>Convert any fraction into its percentage equivalent.</CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-center">
                 <FormField
                   control={form.control}
@@ -89,27 +81,34 @@ export default function FractionToPercentCalculator() {
                   )}
                 />
               </div>
-              <Button type="submit">Convert to Percent</Button>
+              {form.formState.errors.root?.serverError && <FormMessage>{form.formState.errors.root.serverError.message}</FormMessage>}
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Convert to Percent</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="fraction-to-percent-calculator" form={form} />
+                <ScenarioComparison slug="fraction-to-percent-calculator" form={form} />
+              </div>
             </form>
           </Form>
         </CardContent>
       </Card>
       
-      {result && (
+      {result?.ok && (
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
             <CardTitle>Conversion Result</CardTitle>
+            <ExportMenu slug="fraction-to-percent-calculator" form={form} result={result} />
           </CardHeader>
           <CardContent className="text-center">
             <div className="p-6 bg-primary/10 rounded-lg">
               <p className="text-sm text-muted-foreground">{form.getValues('numerator')} / {form.getValues('denominator')} is equal to</p>
-              <p className="text-4xl font-bold text-primary">{result.percentage}%</p>
+              <p className="text-4xl font-bold text-primary">{formatter.percent(result.data.percentage)}</p>
             </div>
           </CardContent>
         </Card>
       )}
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Inputs</CardTitle>
         </CardHeader>
@@ -138,22 +137,9 @@ export default function FractionToPercentCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Related Calculators</CardTitle>
-        </CardHeader>
-        <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {relatedCalculators.map((calc) => (
-                <Link href={calc.href} key={calc.name} className="block hover:no-underline">
-                <Card className="flex flex-col items-center justify-center p-4 border rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors h-full text-center">
-                    <span className="font-semibold">{calc.name}</span>
-                </Card>
-                </Link>
-            ))}
-        </CardContent>
-      </Card>
+      <RelatedCalculators slug="fraction-to-percent-calculator" />
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
             <CardTitle>A Practical Guide to Converting Fractions to Percentages</CardTitle>
         </CardHeader>
@@ -202,7 +188,7 @@ export default function FractionToPercentCalculator() {
         </CardContent>
       </Card>
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Frequently Asked Questions</CardTitle>
         </CardHeader>
@@ -242,7 +228,7 @@ export default function FractionToPercentCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Summary</CardTitle>
         </CardHeader>
@@ -4,7 +4,13 @@ import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { calculateFuelCost } from '@/lib/calculators';
+import { solveFuelCost } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
 import {
   Card,
   CardContent,
@@ -35,42 +41,19 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from '@/components/ui/accordion';
-import Link from 'next/link';
-import { Fuel, Route, Gauge, Info, Shield, Compass, Wallet, DollarSign, Droplet } from 'lucide-react';
+import { Fuel, Route, Gauge, Info, Shield, Wallet, Droplet } from 'lucide-react';
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { fuelCostSchema as formSchema } from '@/lib/calculator-schemas';
 
 
-const formSchema = z.object({
-  distance: z.coerce.number().positive('Distance must be a positive number.'),
-  distanceUnit: z.enum(['kilometers', 'miles']),
-  efficiency: z.coerce.number().positive('Efficiency must be a positive number.'),
-  efficiencyUnit: z.enum(['mpg', 'lp100km']),
-  fuelPrice: z.coerce.number().positive('Fuel price must be a positive number.'),
-  priceUnit: z.enum(['per_gallon', 'per_liter']),
-});
-
 type FormValues = z.infer<typeof formSchema>;
 
-const relatedCalculators: { name: string; href: string }[] = [
-    { name: 'Average Percentage', href: '/calculators/average-percentage-calculator' },
-    { name: 'Comparative Difference', href: '/calculators/comparative-difference-calculator' },
-    { name: 'Compounding Increase', href: '/calculators/compounding-increase-calculator' },
-    { name: 'Doubling Time', href: '/calculators/doubling-time-calculator' },
-    { name: 'Fraction to Percent', href: '/calculators/fraction-to-percent-calculator' },
-    { name: 'Historic Change', href: '/calculators/historic-change-calculator' },
-    { name: 'Investment Growth', href: '/calculators/investment-growth-calculator' },
-    { name: 'Percentage of a Percentage', href: '/calculators/percentage-of-a-percentage-calculator' },
-    { name: 'Percentage Point', href: '/calculators/percentage-point-calculator' },
-    { name: 'Value Percentage', href: '/calculators/value-percentage-calculator' },
-    { name: 'Percent Error', href: '/calculators/percent-error-calculator' },
-    { name: 'Percent to Goal', href: '/calculators/percent-to-goal-calculator' },
-    { name: 'Relative Change', href: '/calculators/relative-change-calculator' },
-    { name: 'Slope Percentage', href: '/calculators/slope-percentage-calculator' },
-    { name: 'Time Percentage', href: '/calculators/time-percentage-calculator' },
-].sort((a,b) => a.name.localeCompare(b.name));
-
 
 export default function FuelCostCalculator() {
-  const [result, setResult] = useState<ReturnType<typeof calculateFuelCost> | null>(null);
+  const formatter = useFormatter();
+  const [result, setResult] = useState<ReturnType<typeof solveFuelCost> | null>(null);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -81,27 +64,41 @@ export default function FuelCostCalculator() {
       efficiencyUnit: 'mpg',
       fuelPrice: undefined,
       priceUnit: 'per_gallon',
+      totalCost: undefined,
     },
   });
 
   const onSubmit = (data: FormValues) => {
-    const cost = calculateFuelCost(data.distance, data.distanceUnit, data.efficiency, data.efficiencyUnit, data.fuelPrice, data.priceUnit);
+    const { distance, efficiency, fuelPrice, totalCost } = data;
+    const cost = solveFuelCost({ distance, efficiency, fuelPrice, totalCost }, data.distanceUnit, data.efficiencyUnit, data.priceUnit);
+    if (!cost.ok) form.setError('root.serverError', { type: 'custom', message: cost.error.message });
     setResult(cost);
   };
 
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('fuel-cost-calculator', form, result);
+
+  const solvedLabel = (solvedFor: 'distance' | 'efficiency' | 'fuelPrice' | 'totalCost') => ({
+    distance: `Trip Distance (${form.getValues('distanceUnit') === 'miles' ? 'miles' : 'km'})`,
+    efficiency: `Vehicle Efficiency (${form.getValues('efficiencyUnit') === 'mpg' ? 'MPG' : 'L/100km'})`,
+    fuelPrice: `Fuel Price (${form.getValues('priceUnit') === 'per_gallon' ? 'per gallon' : 'per liter'})`,
+    totalCost: 'Total Fuel Cost',
+  })[solvedFor];
+
   return (
     <div className="space-y-8">
-      <Card>
+      <PrintReportHeader slug="fuel-cost-calculator" form={form} result={result} />
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Fuel Cost Calculator</CardTitle>
           <CardDescription>
-            Estimate the total fuel cost for your road trip based on distance, vehicle efficiency, and fuel price.
+            Estimate the total fuel cost for your road trip based on distance, vehicle efficiency, and fuel price. Leave any one field blank to solve for it, e.g. how far a budget will take you.
           </CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                  <FormField
                     control={form.control}
                     name="distance"
@@ -113,7 +110,7 @@ export default function FuelCostCalculator() {
                             <Input type="number" placeholder="e.g., 300" {...field} value={field.value ?? ''} />
                         </FormControl>
                         <FormField control={form.control} name="distanceUnit" render={({ field: unitField }) => (
-                            <Select onValueChange={unitField.onChange} defaultValue={unitField.value}>
+                            <Select onValueChange={unitField.onChange} value={unitField.value}>
                                 <FormControl><SelectTrigger className="w-[120px]"><SelectValue /></SelectTrigger></FormControl>
                                 <SelectContent><SelectItem value="miles">miles</SelectItem><SelectItem value="kilometers">km</SelectItem></SelectContent>
                             </Select>
@@ -134,7 +131,7 @@ export default function FuelCostCalculator() {
                             <Input type="number" placeholder="e.g., 25" {...field} value={field.value ?? ''} />
                             </FormControl>
                             <FormField control={form.control} name="efficiencyUnit" render={({ field: unitField }) => (
-                                <Select onValueChange={unitField.onChange} defaultValue={unitField.value}>
+                                <Select onValueChange={unitField.onChange} value={unitField.value}>
                                     <FormControl><SelectTrigger className="w-[120px]"><SelectValue /></SelectTrigger></FormControl>
                                     <SelectContent><SelectItem value="mpg">MPG</SelectItem><SelectItem value="lp100km">L/100km</SelectItem></SelectContent>
                                 </Select>
@@ -149,13 +146,13 @@ export default function FuelCostCalculator() {
                     name="fuelPrice"
                     render={({ field }) => (
                     <FormItem>
-                        <FormLabel className="flex items-center gap-2"><DollarSign className="w-4 h-4" />Fuel Price</FormLabel>
+                        <FormLabel className="flex items-center gap-2"><Wallet className="w-4 h-4" />Fuel Price ({formatter.currencySymbol})</FormLabel>
                         <div className="flex gap-2">
                             <FormControl>
                             <Input type="number" placeholder="e.g., 3.50" {...field} value={field.value ?? ''} step="0.01" />
                             </FormControl>
                              <FormField control={form.control} name="priceUnit" render={({ field: unitField }) => (
-                                <Select onValueChange={unitField.onChange} defaultValue={unitField.value}>
+                                <Select onValueChange={unitField.onChange} value={unitField.value}>
                                     <FormControl><SelectTrigger className="w-[140px]"><SelectValue /></SelectTrigger></FormControl>
                                     <SelectContent><SelectItem value="per_gallon">per gallon</SelectItem><SelectItem value="per_liter">per liter</SelectItem></SelectContent>
                                 </Select>
@@ -165,32 +162,52 @@ export default function FuelCostCalculator() {
                     </FormItem>
                     )}
                 />
+                <FormField
+                    control={form.control}
+                    name="totalCost"
+                    render={({ field }) => (
+                    <FormItem>
+                        <FormLabel className="flex items-center gap-2"><Fuel className="w-4 h-4" />Total Cost ({formatter.currencySymbol})</FormLabel>
+                        <FormControl>
+                            <Input type="number" placeholder="Leave blank to solve" {...field} value={field.value ?? ''} step="0.01" />
+                        </FormControl>
+                        <FormMessage />
+                    </FormItem>
+                    )}
+                />
+              </div>
+              {form.formState.errors.root?.serverError && <FormMessage>{form.formState.errors.root.serverError.message}</FormMessage>}
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Calculate Fuel Cost</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="fuel-cost-calculator" form={form} />
+                <ScenarioComparison slug="fuel-cost-calculator" form={form} />
               </div>
-              <Button type="submit">Calculate Fuel Cost</Button>
             </form>
           </Form>
         </CardContent>
       </Card>
       
-      {result && (
+      {result?.ok && (
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
             <CardTitle>Trip Fuel Estimate</CardTitle>
+            <ExportMenu slug="fuel-cost-calculator" form={form} result={result} />
           </CardHeader>
           <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4 text-center">
              <div className="p-6 bg-primary/10 rounded-lg">
-                <p className="text-sm text-muted-foreground">Total Fuel Cost</p>
-                <p className="text-4xl font-bold text-primary">${result.totalCost}</p>
+                <p className="text-sm text-muted-foreground">{solvedLabel(result.data.solvedFor)}</p>
+                <p className="text-4xl font-bold text-primary">{formatter.result(result.data[result.data.solvedFor], result.units[result.data.solvedFor])}</p>
             </div>
              <div className="p-6 bg-muted rounded-lg">
                 <p className="text-sm text-muted-foreground">Total Fuel Needed</p>
-                <p className="text-4xl font-bold">{result.fuelNeeded}</p>
+                <p className="text-4xl font-bold">{formatter.number(result.data.fuelNeeded)} {result.data.fuelUnit}</p>
             </div>
           </CardContent>
         </Card>
       )}
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle className="flex items-center gap-2"><Info className="h-5 w-5" />Understanding the Inputs</CardTitle>
         </CardHeader>
@@ -207,6 +224,10 @@ export default function FuelCostCalculator() {
             <h3 className="font-semibold text-lg">Fuel Price</h3>
             <p className="text-muted-foreground">The current cost of fuel. Ensure this matches the unit you select (per gallon or per liter).</p>
           </div>
+          <div>
+            <h3 className="font-semibold text-lg">Total Cost</h3>
+            <p className="text-muted-foreground">Usually left blank to be calculated. Enter a budget instead and leave the distance blank to see how far it goes, or leave the fuel price blank to find the price at which a trip costs that much.</p>
+          </div>
         </CardContent>
       </Card>
       
@@ -221,25 +242,13 @@ export default function FuelCostCalculator() {
             <p className="font-mono text-sm md:text-base font-bold">TotalCost = FuelNeeded * FuelPrice</p>
           </div>
            <p className="mt-2 text-muted-foreground">The calculator handles all necessary unit conversions (e.g., MPG to L/100km, miles to km, gallons to liters) to ensure the calculation is accurate.</p>
+           <p className="mt-2 text-muted-foreground">When another field is left blank, the same formula is solved for it instead, so Distance = TotalCost / FuelPrice * Efficiency, and so on.</p>
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2"><Compass className="h-5 w-5" />Related Calculators</CardTitle>
-        </CardHeader>
-        <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {relatedCalculators.map((calc) => (
-                <Link href={calc.href} key={calc.name} className="block hover:no-underline">
-                <Card className="flex flex-col items-center justify-center p-4 border rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors h-full text-center">
-                    <span className="font-semibold">{calc.name}</span>
-                </Card>
-                </Link>
-            ))}
-        </CardContent>
-      </Card>
+      <RelatedCalculators slug="fuel-cost-calculator" />
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
             <CardTitle className="text-2xl font-bold">The Economics of a Road Trip</CardTitle>
         </CardHeader>
@@ -289,7 +298,7 @@ export default function FuelCostCalculator() {
         </CardContent>
       </Card>
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Frequently Asked Questions</CardTitle>
         </CardHeader>
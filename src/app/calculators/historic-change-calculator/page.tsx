@@ -5,6 +5,12 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { calculateHistoricChange } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
 import {
   Card,
   CardContent,
@@ -28,38 +34,19 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from '@/components/ui/accordion';
-import Link from 'next/link';
 import { HelpCircle, TrendingUp, TrendingDown, Percent, ArrowDown, ArrowUp, ArrowRight } from 'lucide-react';
 import { useCountUp } from '@/hooks/use-count-up';
-
-const formSchema = z.object({
-  oldValue: z.coerce.number().refine(val => val !== 0, {message: 'Original value cannot be zero.'}),
-  newValue: z.coerce.number(),
-});
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { historicChangeSchema as formSchema } from '@/lib/calculator-schemas';
 
 type FormValues = z.infer<typeof formSchema>;
 
-const relatedCalculators: { name: string; href: string }[] = [
-    { name: 'Average Percentage', href: '/calculators/average-percentage-calculator' },
-    { name: 'Comparative Difference', href: '/calculators/comparative-difference-calculator' },
-    { name: 'Compounding Increase', href: '/calculators/compounding-increase-calculator' },
-    { name: 'Doubling Time', href: '/calculators/doubling-time-calculator' },
-    { name: 'Fraction to Percent', href: '/calculators/fraction-to-percent-calculator' },
-    { name: 'Fuel Cost', href: '/calculators/fuel-cost-calculator' },
-    { name: 'Investment Growth', href: '/calculators/investment-growth-calculator' },
-    { name: 'Percentage of a Percentage', href: '/calculators/percentage-of-a-percentage-calculator' },
-    { name: 'Percentage Point', href: '/calculators/percentage-point-calculator' },
-    { name: 'Value Percentage', href: '/calculators/value-percentage-calculator' },
-    { name: 'Percent Error', href: '/calculators/percent-error-calculator' },
-    { name: 'Percent to Goal', href: '/calculators/percent-to-goal-calculator' },
-    { name: 'Relative Change', href: '/calculators/relative-change-calculator' },
-    { name: 'Slope Percentage', href: '/calculators/slope-percentage-calculator' },
-    { name: 'Time Percentage', href: '/calculators/time-percentage-calculator' },
-].sort((a,b) => a.name.localeCompare(b.name));
-
 export default function HistoricChangeCalculator() {
+  const formatter = useFormatter();
   const [result, setResult] = useState<ReturnType<typeof calculateHistoricChange> | null>(null);
-  const animatedChange = useCountUp(result ? parseFloat(result.change) : 0);
+  const animatedChange = useCountUp(result?.ok ? result.data.change : 0, formatter.percent);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -71,8 +58,12 @@ export default function HistoricChangeCalculator() {
 
   const onSubmit = (data: FormValues) => {
     const res = calculateHistoricChange(data.oldValue, data.newValue);
+    if (!res.ok) form.setError('root.serverError', { type: 'custom', message: res.error.message });
     setResult(res);
   };
+
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('historic-change-calculator', form, result);
   
   useEffect(() => {
     if (result) {
@@ -82,7 +73,8 @@ export default function HistoricChangeCalculator() {
 
   return (
     <div className="space-y-8">
-      <Card>
+      <PrintReportHeader slug="historic-change-calculator" form={form} result={result} />
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Historic Change Calculator</CardTitle>
           <CardDescription>
@@ -91,7 +83,7 @@ export default function HistoricChangeCalculator() {
         </CardHeader>
         <CardContent>
           <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
@@ -120,32 +112,39 @@ export default function HistoricChangeCalculator() {
                   )}
                 />
               </div>
-              <Button type="submit">Calculate Change</Button>
+              {form.formState.errors.root?.serverError && <FormMessage>{form.formState.errors.root.serverError.message}</FormMessage>}
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Calculate Change</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="historic-change-calculator" form={form} />
+                <ScenarioComparison slug="historic-change-calculator" form={form} />
+              </div>
             </form>
           </Form>
         </CardContent>
       </Card>
       
-      {result && (
+      {result?.ok && (
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
             <CardTitle>Calculation Result</CardTitle>
+            <ExportMenu slug="historic-change-calculator" form={form} result={result} />
           </CardHeader>
           <CardContent className="text-center">
              <div className="p-6 bg-primary/10 rounded-lg flex items-center justify-center gap-4">
                 <div>
                     <p className="text-sm text-muted-foreground">Percentage Change</p>
-                    <p className={`text-4xl font-bold ${result.direction === 'increase' ? 'text-accent' : result.direction === 'decrease' ? 'text-destructive' : 'text-primary'}`}>{animatedChange}%</p>
+                    <p className={`text-4xl font-bold ${result.data.direction === 'increase' ? 'text-accent' : result.data.direction === 'decrease' ? 'text-destructive' : 'text-primary'}`}>{animatedChange}</p>
                 </div>
-                {result.direction === 'increase' && <ArrowUp className="w-12 h-12 text-accent" />}
-                {result.direction === 'decrease' && <ArrowDown className="w-12 h-12 text-destructive" />}
-                {result.direction === 'none' && <ArrowRight className="w-12 h-12 text-primary" />}
+                {result.data.direction === 'increase' && <ArrowUp className="w-12 h-12 text-accent" />}
+                {result.data.direction === 'decrease' && <ArrowDown className="w-12 h-12 text-destructive" />}
+                {result.data.direction === 'none' && <ArrowRight className="w-12 h-12 text-primary" />}
             </div>
           </CardContent>
         </Card>
       )}
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Inputs</CardTitle>
         </CardHeader>
@@ -174,22 +173,9 @@ export default function HistoricChangeCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Related Calculators</CardTitle>
-        </CardHeader>
-        <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {relatedCalculators.map((calc) => (
-                <Link href={calc.href} key={calc.name} className="block hover:no-underline">
-                <Card className="flex flex-col items-center justify-center p-4 border rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors h-full text-center">
-                    <span className="font-semibold">{calc.name}</span>
-                </Card>
-                </Link>
-            ))}
-        </CardContent>
-      </Card>
+      <RelatedCalculators slug="historic-change-calculator" />
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
             <CardTitle>The Importance of a Baseline</CardTitle>
         </CardHeader>
@@ -216,7 +202,7 @@ export default function HistoricChangeCalculator() {
         </CardContent>
       </Card>
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Frequently Asked Questions</CardTitle>
         </CardHeader>
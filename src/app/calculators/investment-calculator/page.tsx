@@ -0,0 +1,537 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { calculateInvestment } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from '@/components/ui/card';
+import {
+  Form,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormMessage,
+  FormDescription,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Button } from '@/components/ui/button';
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/components/ui/accordion';
+import { DollarSign, Percent, Calendar, HelpCircle, BarChart, Repeat, LineChart as LineChartIcon, Receipt, Landmark, Briefcase } from 'lucide-react';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent,
+} from '@/components/ui/chart';
+import { Bar, BarChart as RechartsBarChart, Cell, XAxis, YAxis, CartesianGrid, ReferenceLine } from 'recharts';
+import { useCountUp } from '@/hooks/use-count-up';
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { investmentSchema as formSchema, parseReturnSeries } from '@/lib/calculator-schemas';
+
+type FormValues = z.infer<typeof formSchema>;
+
+const frequencyLabels: Record<FormValues['contributionFrequency'], string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly',
+  annually: 'Annually',
+};
+
+const balanceChartConfig = {
+  contributions: {
+    label: 'Contributions',
+    color: 'hsl(var(--primary))',
+  },
+  earnings: {
+    label: 'Net Earnings',
+    color: 'hsl(var(--accent))',
+  },
+} satisfies ChartConfig;
+
+const costChartConfig = {
+  fees: {
+    label: 'Fees',
+    color: 'hsl(var(--destructive))',
+  },
+  taxes: {
+    label: 'Taxes',
+    color: 'hsl(var(--muted-foreground))',
+  },
+} satisfies ChartConfig;
+
+const returnChartConfig = {
+  returnRate: {
+    label: 'Return (%)',
+    color: 'hsl(var(--primary))',
+  },
+} satisfies ChartConfig;
+
+export default function InvestmentCalculator() {
+  const formatter = useFormatter();
+  const [result, setResult] = useState<ReturnType<typeof calculateInvestment> | null>(null);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      initialInvestment: undefined,
+      contribution: undefined,
+      contributionFrequency: 'monthly',
+      years: 20,
+      returnMode: 'fixed',
+      annualReturn: 7,
+      returnSeries: '',
+      expenseRatio: 0.1,
+      advisoryFee: 0,
+      taxRate: 15,
+      taxTreatment: 'annual',
+    },
+  });
+
+  const returnMode = form.watch('returnMode');
+
+  const animatedFinalBalance = useCountUp(result ? result.data.afterTaxBalance : 0, formatter.currency);
+  const animatedContributions = useCountUp(result ? result.data.totalContributions : 0, formatter.currency);
+  const animatedCostOfFees = useCountUp(result ? result.data.costOfFees : 0, formatter.currency);
+
+  const chartData = result?.data.history.slice(1).map((row) => ({
+    ...row,
+    earnings: parseFloat((row.balance - row.contributions).toFixed(2)),
+  }));
+
+  const onSubmit = (data: FormValues) => {
+    const annualReturns = data.returnMode === 'fixed' ? [data.annualReturn] : parseReturnSeries(data.returnSeries);
+    const res = calculateInvestment(
+      data.initialInvestment,
+      data.contribution,
+      data.contributionFrequency,
+      data.years,
+      annualReturns,
+      data.expenseRatio,
+      data.advisoryFee,
+      data.taxRate,
+      data.taxTreatment
+    );
+    setResult(res);
+  };
+
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('investment-calculator', form, result);
+
+  return (
+    <div className="space-y-8">
+      <PrintReportHeader slug="investment-calculator" form={form} result={result} />
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Investment Calculator</CardTitle>
+          <CardDescription>
+            Project how an investment grows with regular contributions, fund and advisory fees, taxes on gains, and either a fixed return or your own year-by-year return series.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="initialInvestment"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><DollarSign className="w-4 h-4" />Initial Investment</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 10000" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="contribution"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><DollarSign className="w-4 h-4" />Contribution Amount</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 500" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="contributionFrequency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Repeat className="w-4 h-4" />Contribution Frequency</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                        <SelectContent>
+                          {Object.entries(frequencyLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="years"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Calendar className="w-4 h-4" />Years to Invest</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 20" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="expenseRatio"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Percent className="w-4 h-4" />Expense Ratio (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 0.1" {...field} value={field.value ?? ''} step="0.01" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="advisoryFee"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Briefcase className="w-4 h-4" />Advisory Fee (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 1" {...field} value={field.value ?? ''} step="0.01" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="taxRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Receipt className="w-4 h-4" />Tax Rate on Gains (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 15" {...field} value={field.value ?? ''} step="0.1" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="taxTreatment"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Landmark className="w-4 h-4" />Account Type</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                        <SelectContent>
+                          <SelectItem value="annual">Taxable (taxed yearly)</SelectItem>
+                          <SelectItem value="deferred">Tax-deferred (taxed at withdrawal)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField control={form.control} name="returnMode" render={({ field }) => (
+                <FormItem className="space-y-3">
+                  <FormLabel>Investment Returns</FormLabel>
+                  <FormControl>
+                    <RadioGroup onValueChange={field.onChange} value={field.value} className="flex flex-row space-x-4">
+                      <FormItem className="flex items-center space-x-2"><FormControl><RadioGroupItem value="fixed" /></FormControl><FormLabel className="font-normal">Fixed annual return</FormLabel></FormItem>
+                      <FormItem className="flex items-center space-x-2"><FormControl><RadioGroupItem value="variable" /></FormControl><FormLabel className="font-normal">Year-by-year returns</FormLabel></FormItem>
+                    </RadioGroup>
+                  </FormControl>
+                </FormItem>
+              )} />
+
+              {returnMode === 'fixed' ? (
+                <FormField
+                  control={form.control}
+                  name="annualReturn"
+                  render={({ field }) => (
+                    <FormItem className="max-w-sm">
+                      <FormLabel className="flex items-center gap-2"><Percent className="w-4 h-4" />Annual Return (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 7" {...field} value={field.value ?? ''} step="0.1" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="returnSeries"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Percent className="w-4 h-4" />Yearly Returns (%)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., 12, -8, 15, 4, 9" {...field} />
+                      </FormControl>
+                      <FormDescription>Separate returns with commas. If there are fewer returns than years, the series repeats.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Calculate</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="investment-calculator" form={form} />
+                <ScenarioComparison slug="investment-calculator" form={form} />
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <CardTitle>Investment Projection</CardTitle>
+            <ExportMenu slug="investment-calculator" form={form} result={result} />
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
+              <div className="p-6 bg-primary/10 rounded-lg">
+                <p className="text-sm text-muted-foreground">Ending Balance (after tax)</p>
+                <p className="text-4xl font-bold text-primary">{animatedFinalBalance}</p>
+              </div>
+              <div className="p-6 bg-muted rounded-lg">
+                <p className="text-sm text-muted-foreground">Total Contributions</p>
+                <p className="text-4xl font-bold">{animatedContributions}</p>
+              </div>
+              <div className="p-6 bg-destructive/10 rounded-lg">
+                <p className="text-sm text-muted-foreground">Lifetime Cost of Fees</p>
+                <p className="text-4xl font-bold text-destructive">{animatedCostOfFees}</p>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+              <div className="p-4 bg-muted/50 rounded-lg">
+                <p className="text-sm text-muted-foreground">Investment Growth</p>
+                <p className="text-xl font-semibold">{formatter.currency(result.data.totalGrowth)}</p>
+              </div>
+              <div className="p-4 bg-muted/50 rounded-lg">
+                <p className="text-sm text-muted-foreground">Fees Charged</p>
+                <p className="text-xl font-semibold">{formatter.currency(result.data.totalFees)}</p>
+              </div>
+              <div className="p-4 bg-muted/50 rounded-lg">
+                <p className="text-sm text-muted-foreground">Taxes Paid</p>
+                <p className="text-xl font-semibold">{formatter.currency(result.data.totalTaxes)}</p>
+              </div>
+              <div className="p-4 bg-muted/50 rounded-lg">
+                <p className="text-sm text-muted-foreground">Average Return</p>
+                <p className="text-xl font-semibold">{formatter.percent(result.data.averageReturn)}</p>
+              </div>
+              <div className="p-4 bg-muted/50 rounded-lg">
+                <p className="text-sm text-muted-foreground">Compound Annual Return</p>
+                <p className="text-xl font-semibold">{formatter.percent(result.data.compoundReturn)}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {result && chartData && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><BarChart className="w-5 h-5" />Balance by Year</CardTitle>
+            <CardDescription>Your contributions and net earnings (after fees and yearly taxes) at the end of each year.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={balanceChartConfig} className="min-h-[300px] w-full">
+              <RechartsBarChart accessibilityLayer data={chartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="year" tickLine={false} axisLine={false} tickMargin={8} tickFormatter={(value) => `Y${value}`} />
+                <YAxis tickFormatter={formatter.compactCurrency} />
+                <ChartTooltip content={<ChartTooltipContent valueFormatter={formatter.currency} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="contributions" stackId="balance" fill="var(--color-contributions)" />
+                <Bar dataKey="earnings" stackId="balance" fill="var(--color-earnings)" radius={[4, 4, 0, 0]} />
+              </RechartsBarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      {result && chartData && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><LineChartIcon className="w-5 h-5" />Annual Returns</CardTitle>
+              <CardDescription>The market return applied in each year, before fees.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={returnChartConfig} className="min-h-[250px] w-full">
+                <RechartsBarChart accessibilityLayer data={chartData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="year" tickLine={false} axisLine={false} tickMargin={8} tickFormatter={(value) => `Y${value}`} />
+                  <YAxis tickFormatter={(value) => formatter.percent(value, 0)} />
+                  <ChartTooltip content={<ChartTooltipContent valueFormatter={(value) => formatter.percent(value)} />} />
+                  <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+                  <Bar dataKey="returnRate" radius={4}>
+                    {chartData.map((row) => (
+                      <Cell key={row.year} fill={row.returnRate < 0 ? 'hsl(var(--destructive))' : 'var(--color-returnRate)'} />
+                    ))}
+                  </Bar>
+                </RechartsBarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><Receipt className="w-5 h-5" />Fees and Taxes Paid</CardTitle>
+              <CardDescription>Cumulative fees and yearly taxes paid out of your account.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={costChartConfig} className="min-h-[250px] w-full">
+                <RechartsBarChart accessibilityLayer data={chartData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="year" tickLine={false} axisLine={false} tickMargin={8} tickFormatter={(value) => `Y${value}`} />
+                  <YAxis tickFormatter={formatter.compactCurrency} />
+                  <ChartTooltip content={<ChartTooltipContent valueFormatter={formatter.currency} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="fees" stackId="costs" fill="var(--color-fees)" />
+                  <Bar dataKey="taxes" stackId="costs" fill="var(--color-taxes)" radius={[4, 4, 0, 0]} />
+                </RechartsBarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Inputs</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <h3 className="font-semibold text-lg">Expense Ratio and Advisory Fee</h3>
+            <p className="text-muted-foreground">Both are charged as a yearly percentage of your balance. The expense ratio is the fund's own cost; an advisory fee is what a financial advisor or robo-advisor charges on top.</p>
+          </div>
+          <div>
+            <h3 className="font-semibold text-lg">Account Type and Tax Rate</h3>
+            <p className="text-muted-foreground">In a taxable account, net gains are taxed every year, with losses carried forward to offset later gains. In a tax-deferred account, all gains are taxed once when you withdraw at the end.</p>
+          </div>
+          <div>
+            <h3 className="font-semibold text-lg">Year-by-Year Returns</h3>
+            <p className="text-muted-foreground">Markets don't return the same amount every year. Entering a series of returns, such as historical index returns, shows how the order of good and bad years affects your balance.</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><LineChartIcon className="h-5 w-5" />Methodology</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p>Each year's return is spread evenly across your contribution periods. In every period the balance grows, fees are deducted and then your contribution is added. Taxes are applied at the end of each year or at withdrawal, depending on the account type.</p>
+          <div className="p-4 bg-muted/50 rounded-lg space-y-2 mt-4 text-center">
+            <p className="font-mono text-sm md:text-base font-bold text-primary">Balance = Balance * (1 + r)^(1/p) * (1 - Fee)^(1/p) + Contribution</p>
+            <p className="font-mono text-sm md:text-base font-bold">Tax = max(Growth - Fees - Prior Losses, 0) * Tax Rate</p>
+            <p className="font-mono text-sm md:text-base font-bold">Compound Return = (Π(1 + r))^(1/Years) - 1</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <RelatedCalculators slug="investment-calculator" />
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Getting the Most From Your Investments</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6 text-muted-foreground leading-relaxed">
+          <h2 className="text-xl font-bold text-foreground">Small Fees, Big Differences</h2>
+          <p>A 1% fee sounds small, but it is charged every year on your whole balance. Over decades the money paid in fees would itself have grown, so the true cost of fees is much larger than the amount charged. The "Lifetime Cost of Fees" figure shows that difference.</p>
+          <h3 className="text-lg font-semibold text-foreground">Average Return vs. Compound Return</h3>
+          <p>A 50% gain followed by a 50% loss averages 0%, yet leaves you with 25% less money. The compound annual return reflects what you actually earned, which is why it is lower than the simple average whenever returns vary.</p>
+          <h3 className="text-lg font-semibold text-foreground">Taxes Matter Too</h3>
+          <p>Paying tax every year shrinks the amount left to compound. Tax-deferred accounts let the full balance grow and only tax gains at the end, which usually results in more money after tax.</p>
+        </CardContent>
+      </Card>
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Frequently Asked Questions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Accordion type="single" collapsible className="w-full">
+            <AccordionItem value="item-1">
+              <AccordionTrigger>What return should I assume?</AccordionTrigger>
+              <AccordionContent>
+                <p>Broad stock market indexes have historically returned around 7% per year after inflation over long periods, but returns vary widely from year to year. Try several scenarios rather than relying on one number.</p>
+              </AccordionContent>
+            </AccordionItem>
+            <AccordionItem value="item-2">
+              <AccordionTrigger>How is this different from the Investment Growth Calculator?</AccordionTrigger>
+              <AccordionContent>
+                <p>The Investment Growth Calculator measures the growth between a starting and ending value you already know. This calculator projects future growth from contributions, returns, fees and taxes.</p>
+              </AccordionContent>
+            </AccordionItem>
+            <AccordionItem value="item-3">
+              <AccordionTrigger>Are the results guaranteed?</AccordionTrigger>
+              <AccordionContent>
+                <p>No. The projection is only as good as the returns you enter. Real markets can perform better or worse.</p>
+              </AccordionContent>
+            </AccordionItem>
+          </Accordion>
+        </CardContent>
+      </Card>
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Summary</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">The Investment Calculator projects your portfolio year by year, combining regular contributions with fixed or variable returns, fund and advisory fees, and taxes on gains so you can see what you will actually keep.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
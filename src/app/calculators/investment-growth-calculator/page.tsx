@@ -5,6 +5,12 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { calculateInvestmentGrowth } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
 import {
   Card,
   CardContent,
@@ -28,43 +34,24 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from '@/components/ui/accordion';
-import Link from 'next/link';
 import { HelpCircle, DollarSign, TrendingUp, ChevronsRight } from 'lucide-react';
 import { useCountUp } from '@/hooks/use-count-up';
-
-const formSchema = z.object({
-  initialAmount: z.coerce.number().positive('Initial amount must be a positive number.'),
-  finalAmount: z.coerce.number().positive('Final amount must be a positive number.'),
-});
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { investmentGrowthSchema as formSchema } from '@/lib/calculator-schemas';
 
 type FormValues = z.infer<typeof formSchema>;
 
-const relatedCalculators: { name: string; href: string }[] = [
-    { name: 'Average Percentage', href: '/calculators/average-percentage-calculator' },
-    { name: 'Comparative Difference', href: '/calculators/comparative-difference-calculator' },
-    { name: 'Compounding Increase', href: '/calculators/compounding-increase-calculator' },
-    { name: 'Doubling Time', href: '/calculators/doubling-time-calculator' },
-    { name: 'Fraction to Percent', href: '/calculators/fraction-to-percent-calculator' },
-    { name: 'Fuel Cost', href: '/calculators/fuel-cost-calculator' },
-    { name: 'Historic Change', href: '/calculators/historic-change-calculator' },
-    { name: 'Percentage of a Percentage', href: '/calculators/percentage-of-a-percentage-calculator' },
-    { name: 'Percentage Point', href: '/calculators/percentage-point-calculator' },
-    { name: 'Value Percentage', href: '/calculators/value-percentage-calculator' },
-    { name: 'Percent Error', href: '/calculators/percent-error-calculator' },
-    { name: 'Percent to Goal', href: '/calculators/percent-to-goal-calculator' },
-    { name: 'Relative Change', href: '/calculators/relative-change-calculator' },
-    { name: 'Slope Percentage', href: '/calculators/slope-percentage-calculator' },
-    { name: 'Time Percentage', href: '/calculators/time-percentage-calculator' },
-].sort((a,b) => a.name.localeCompare(b.name));
-
 export default function InvestmentGrowthCalculator() {
+  const formatter = useFormatter();
   const [result, setResult] = useState<ReturnType<typeof calculateInvestmentGrowth> | null>(null);
   
-  const growthPercentage = result ? parseFloat(result.growthPercentage) : 0;
-  const netGrowth = result ? parseFloat(result.netGrowth) : 0;
+  const growthPercentage = result?.ok ? result.data.growthPercentage : 0;
+  const netGrowth = result?.ok ? result.data.netGrowth : 0;
   
-  const animatedGrowthPercentage = useCountUp(growthPercentage);
-  const animatedNetGrowth = useCountUp(netGrowth);
+  const animatedGrowthPercentage = useCountUp(growthPercentage, formatter.percent);
+  const animatedNetGrowth = useCountUp(netGrowth, formatter.currency);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -76,8 +63,12 @@ export default function InvestmentGrowthCalculator() {
 
   const onSubmit = (data: FormValues) => {
     const res = calculateInvestmentGrowth(data.initialAmount, data.finalAmount);
+    if (!res.ok) form.setError('root.serverError', { type: 'custom', message: res.error.message });
     setResult(res);
   };
+
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('investment-growth-calculator', form, result);
   
   useEffect(() => {
     if (result) {
@@ -87,7 +78,8 @@ export default function InvestmentGrowthCalculator() {
 
   return (
     <div className="space-y-8">
-      <Card>
+      <PrintReportHeader slug="investment-growth-calculator" form={form} result={result} />
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Investment Growth Calculator</CardTitle>
           <CardDescription>
@@ -96,7 +88,7 @@ export default function InvestmentGrowthCalculator() {
         </CardHeader>
         <CardContent>
           <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
@@ -125,31 +117,38 @@ export default function InvestmentGrowthCalculator() {
                   )}
                 />
               </div>
-              <Button type="submit">Calculate Growth</Button>
+              {form.formState.errors.root?.serverError && <FormMessage>{form.formState.errors.root.serverError.message}</FormMessage>}
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Calculate Growth</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="investment-growth-calculator" form={form} />
+                <ScenarioComparison slug="investment-growth-calculator" form={form} />
+              </div>
             </form>
           </Form>
         </CardContent>
       </Card>
       
-      {result && (
+      {result?.ok && (
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
             <CardTitle>Investment Performance</CardTitle>
+            <ExportMenu slug="investment-growth-calculator" form={form} result={result} />
           </CardHeader>
           <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4 text-center">
              <div className="p-6 bg-accent/20 rounded-lg">
                 <p className="text-sm text-muted-foreground">Total Growth (%)</p>
-                <p className="text-4xl font-bold text-accent">{animatedGrowthPercentage}%</p>
+                <p className="text-4xl font-bold text-accent">{animatedGrowthPercentage}</p>
             </div>
              <div className="p-6 bg-primary/10 rounded-lg">
                 <p className="text-sm text-muted-foreground">Net Profit</p>
-                <p className="text-4xl font-bold text-primary">${animatedNetGrowth}</p>
+                <p className="text-4xl font-bold text-primary">{animatedNetGrowth}</p>
             </div>
           </CardContent>
         </Card>
       )}
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Inputs</CardTitle>
         </CardHeader>
@@ -179,22 +178,9 @@ export default function InvestmentGrowthCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Related Calculators</CardTitle>
-        </CardHeader>
-        <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {relatedCalculators.map((calc) => (
-                <Link href={calc.href} key={calc.name} className="block hover:no-underline">
-                <Card className="flex flex-col items-center justify-center p-4 border rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors h-full text-center">
-                    <span className="font-semibold">{calc.name}</span>
-                </Card>
-                </Link>
-            ))}
-        </CardContent>
-      </Card>
+      <RelatedCalculators slug="investment-growth-calculator" />
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
             <CardTitle>Measuring Your Investment's Success</CardTitle>
         </CardHeader>
@@ -221,7 +207,7 @@ export default function InvestmentGrowthCalculator() {
         </CardContent>
       </Card>
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Frequently Asked Questions</CardTitle>
         </CardHeader>
@@ -249,7 +235,7 @@ export default function InvestmentGrowthCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Summary</CardTitle>
         </CardHeader>
@@ -0,0 +1,462 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { calculateLoan, type ExtraPayment } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from '@/components/ui/card';
+import {
+  Form,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/components/ui/accordion';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { DollarSign, Percent, Calendar, HelpCircle, HandCoins, ListOrdered, PiggyBank } from 'lucide-react';
+import { useCountUp } from '@/hooks/use-count-up';
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { loanSchema as formSchema } from '@/lib/calculator-schemas';
+
+type FormValues = z.infer<typeof formSchema>;
+
+const loanTypeLabels: Record<FormValues['loanType'], string> = {
+  amortizing: 'Amortizing',
+  interest_only: 'Interest-Only',
+  balloon: 'Balloon',
+};
+
+export default function LoanCalculator() {
+  const formatter = useFormatter();
+  const [result, setResult] = useState<ReturnType<typeof calculateLoan> | null>(null);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      principal: undefined,
+      interestRate: undefined,
+      termYears: 5,
+      loanType: 'amortizing',
+      interestOnlyYears: 2,
+      amortizationYears: 30,
+      startDate: new Date().toISOString().slice(0, 7),
+      extraMonthly: 0,
+      extraYearly: 0,
+      lumpSum: 0,
+      lumpSumMonth: 12,
+    },
+  });
+
+  const loanType = form.watch('loanType');
+
+  const animatedPayment = useCountUp(result ? result.data.monthlyPayment : 0, formatter.currency);
+  const animatedInterest = useCountUp(result ? result.data.totalInterest : 0, formatter.currency);
+  const animatedInterestSaved = useCountUp(result ? result.data.interestSaved : 0, formatter.currency);
+
+  const onSubmit = (data: FormValues) => {
+    const extraPayments: ExtraPayment[] = [
+      { amount: data.extraMonthly, startMonth: 1, frequency: 'monthly' },
+      { amount: data.extraYearly, startMonth: 12, frequency: 'yearly' },
+      { amount: data.lumpSum, startMonth: data.lumpSumMonth, frequency: 'once' },
+    ];
+    const [year, month] = data.startDate.split('-').map(Number);
+    const res = calculateLoan(data.principal, data.interestRate, Math.round(data.termYears * 12), data.loanType, {
+      interestOnlyMonths: Math.round(data.interestOnlyYears * 12),
+      amortizationMonths: Math.round(data.amortizationYears * 12),
+      extraPayments,
+      startDate: new Date(year, month - 1, 1),
+    });
+    setResult(res);
+  };
+
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('loan-calculator', form, result);
+
+  return (
+    <div className="space-y-8">
+      <PrintReportHeader slug="loan-calculator" form={form} result={result} />
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Loan Calculator</CardTitle>
+          <CardDescription>
+            Calculate payments and a full amortization schedule for amortizing, interest-only and balloon loans, and see how extra payments shorten your loan.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="principal"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><DollarSign className="w-4 h-4" />Loan Amount</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 25000" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="interestRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Percent className="w-4 h-4" />Interest Rate (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 7.5" {...field} value={field.value ?? ''} step="0.01" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="termYears"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Calendar className="w-4 h-4" />Loan Term (years)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 5" {...field} value={field.value ?? ''} step="0.5" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="loanType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><HandCoins className="w-4 h-4" />Loan Type</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                        <SelectContent>
+                          {Object.entries(loanTypeLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {loanType === 'interest_only' && (
+                  <FormField
+                    control={form.control}
+                    name="interestOnlyYears"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="flex items-center gap-2"><Calendar className="w-4 h-4" />Interest-Only Period (years)</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="e.g., 2" {...field} value={field.value ?? ''} step="0.5" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                {loanType === 'balloon' && (
+                  <FormField
+                    control={form.control}
+                    name="amortizationYears"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="flex items-center gap-2"><Calendar className="w-4 h-4" />Amortization Period (years)</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="e.g., 30" {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                <FormField
+                  control={form.control}
+                  name="startDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Calendar className="w-4 h-4" />First Payment</FormLabel>
+                      <FormControl>
+                        <Input type="month" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div>
+                <h3 className="font-semibold mb-2 flex items-center gap-2"><PiggyBank className="w-4 h-4" />Extra Principal Payments</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="extraMonthly"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Every Month ($)</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="e.g., 100" {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="extraYearly"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Every Year ($)</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="e.g., 1000" {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="lumpSum"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>One-Time Payment ($)</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="e.g., 5000" {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="lumpSumMonth"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>One-Time Payment in Month #</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="e.g., 12" {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Calculate Loan</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="loan-calculator" form={form} />
+                <ScenarioComparison slug="loan-calculator" form={form} />
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <CardTitle>Loan Summary</CardTitle>
+            <ExportMenu slug="loan-calculator" form={form} result={result} />
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
+              <div className="p-6 bg-primary/10 rounded-lg">
+                <p className="text-sm text-muted-foreground">{result.data.loanType === 'interest_only' ? 'Interest-Only Payment' : 'Monthly Payment'}</p>
+                <p className="text-4xl font-bold text-primary">{animatedPayment}</p>
+                {result.data.paymentAfterInterestOnly !== null && (
+                  <p className="text-sm text-muted-foreground mt-2">then {formatter.currency(result.data.paymentAfterInterestOnly)}/month</p>
+                )}
+              </div>
+              <div className="p-6 bg-muted rounded-lg">
+                <p className="text-sm text-muted-foreground">Total Interest</p>
+                <p className="text-4xl font-bold">{animatedInterest}</p>
+              </div>
+              <div className="p-6 bg-accent/20 rounded-lg">
+                <p className="text-sm text-muted-foreground">Interest Saved</p>
+                <p className="text-4xl font-bold text-accent">{animatedInterestSaved}</p>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+              <div className="p-4 bg-muted rounded-lg">
+                <p className="text-xs text-muted-foreground">Payoff Date</p>
+                <p className="text-xl font-bold">{result.data.payoffDate}</p>
+              </div>
+              <div className="p-4 bg-muted rounded-lg">
+                <p className="text-xs text-muted-foreground">Original Payoff Date</p>
+                <p className="text-xl font-bold">{result.data.originalPayoffDate}</p>
+              </div>
+              <div className="p-4 bg-muted rounded-lg">
+                <p className="text-xs text-muted-foreground">Months Saved</p>
+                <p className="text-xl font-bold">{result.data.monthsSaved}</p>
+              </div>
+              <div className="p-4 bg-muted rounded-lg">
+                <p className="text-xs text-muted-foreground">Balloon Payment</p>
+                <p className="text-xl font-bold">{formatter.currency(result.data.balloonPayment)}</p>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground text-center">
+              You will pay {formatter.currency(result.data.totalPaid)} in total over {result.data.payoffMonths} payments, including {formatter.currency(result.data.totalExtra)} in extra principal.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {result && result.data.schedule.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><ListOrdered className="w-5 h-5" />Amortization Schedule</CardTitle>
+            <CardDescription>Every scheduled payment, with extra principal shown separately.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="h-[400px]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>#</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Payment</TableHead>
+                    <TableHead className="text-right">Principal</TableHead>
+                    <TableHead className="text-right">Interest</TableHead>
+                    <TableHead className="text-right">Extra</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.data.schedule.map((row) => (
+                    <TableRow key={row.month}>
+                      <TableCell>{row.month}</TableCell>
+                      <TableCell>{row.date}</TableCell>
+                      <TableCell className="text-right">{formatter.currency(row.payment)}</TableCell>
+                      <TableCell className="text-right">{formatter.currency(row.principal)}</TableCell>
+                      <TableCell className="text-right">{formatter.currency(row.interest)}</TableCell>
+                      <TableCell className="text-right">{formatter.currency(row.extra)}</TableCell>
+                      <TableCell className="text-right">{formatter.currency(row.balance)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Inputs</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <h3 className="font-semibold text-lg">Loan Type</h3>
+            <p className="text-muted-foreground"><strong>Amortizing</strong> loans pay off interest and principal with equal monthly payments. <strong>Interest-only</strong> loans charge only interest for an initial period, then amortize the balance over the remaining term (or require the full principal at maturity if the interest-only period covers the whole term). <strong>Balloon</strong> loans use payments calculated over a long amortization period but come due early, leaving a large final payment.</p>
+          </div>
+          <div>
+            <h3 className="font-semibold text-lg">Extra Principal Payments</h3>
+            <p className="text-muted-foreground">Recurring monthly or yearly amounts, and a single lump sum in a chosen month, applied directly to the principal. Extra payments reduce the balance that interest is charged on, shortening the loan and reducing total interest.</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><HandCoins className="h-5 w-5" />Methodology</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p>The scheduled payment for an amortizing loan uses the standard formula, where `P` is the principal, `r` the monthly rate and `n` the number of payments. Balloon loans use the amortization period for `n`; interest-only periods pay just `P * r`.</p>
+          <div className="p-4 bg-muted/50 rounded-lg space-y-2 mt-4 text-center">
+            <p className="font-mono text-sm md:text-base font-bold text-primary">M = P * r / (1 - (1 + r)^-n)</p>
+            <p className="font-mono text-sm md:text-base font-bold">Interest Saved = Interest(without extras) - Interest(with extras)</p>
+          </div>
+          <p className="mt-2 text-muted-foreground">The calculator builds the schedule twice, once without extra payments and once with them, to report the interest saved and the new payoff date.</p>
+        </CardContent>
+      </Card>
+
+      <RelatedCalculators slug="loan-calculator" />
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Choosing the Right Loan Structure</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6 text-muted-foreground leading-relaxed">
+          <h2 className="text-xl font-bold text-foreground">How Loan Structure Changes What You Pay</h2>
+          <p>Two loans with the same amount and interest rate can cost very different amounts depending on how they are structured. Fully amortizing loans steadily reduce the balance, while interest-only and balloon loans keep early payments low at the cost of a larger balance later.</p>
+          <h3 className="text-lg font-semibold text-foreground">The Power of Extra Payments</h3>
+          <p>Because interest accrues on the remaining balance, every extra dollar of principal paid early avoids interest for the rest of the loan. Even small recurring extras can shave months or years off a loan, and the schedule above shows exactly when your balance reaches zero.</p>
+        </CardContent>
+      </Card>
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Frequently Asked Questions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Accordion type="single" collapsible className="w-full">
+            <AccordionItem value="item-1">
+              <AccordionTrigger>What is a balloon payment?</AccordionTrigger>
+              <AccordionContent>
+                <p>A balloon payment is the large remaining balance due at the end of a loan whose regular payments were not enough to pay it off. It is common with commercial loans and some auto loans.</p>
+              </AccordionContent>
+            </AccordionItem>
+            <AccordionItem value="item-2">
+              <AccordionTrigger>Do extra payments lower my monthly payment?</AccordionTrigger>
+              <AccordionContent>
+                <p>No. The scheduled payment stays the same; extra payments instead shorten the loan and reduce the total interest you pay.</p>
+              </AccordionContent>
+            </AccordionItem>
+            <AccordionItem value="item-3">
+              <AccordionTrigger>Are there penalties for paying early?</AccordionTrigger>
+              <AccordionContent>
+                <p>Some loans include prepayment penalties. Check your loan agreement before making large extra payments; this calculator does not account for them.</p>
+              </AccordionContent>
+            </AccordionItem>
+          </Accordion>
+        </CardContent>
+      </Card>
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Summary</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">The Loan Calculator handles amortizing, interest-only and balloon loans, producing a complete payment schedule and showing how one-off and recurring extra payments reduce your interest and move up your payoff date.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,396 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { randomSeed, runMonteCarloSimulation } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from '@/components/ui/card';
+import {
+  Form,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormMessage,
+  FormDescription,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/components/ui/accordion';
+import { DollarSign, Percent, Calendar, HelpCircle, Dices, BarChart, Target, Activity, Hash, Shuffle } from 'lucide-react';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent,
+} from '@/components/ui/chart';
+import { Area, ComposedChart, Line, XAxis, YAxis, CartesianGrid, ReferenceLine } from 'recharts';
+import { useCountUp } from '@/hooks/use-count-up';
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { monteCarloSchema as formSchema } from '@/lib/calculator-schemas';
+
+type FormValues = z.infer<typeof formSchema>;
+
+const chartConfig = {
+  range: {
+    label: '10th-90th Percentile',
+    color: 'hsl(var(--primary))',
+  },
+  p50: {
+    label: 'Median',
+    color: 'hsl(var(--accent))',
+  },
+} satisfies ChartConfig;
+
+export default function MonteCarloCalculator() {
+  const formatter = useFormatter();
+  const [result, setResult] = useState<ReturnType<typeof runMonteCarloSimulation> | null>(null);
+  const [targetValue, setTargetValue] = useState(0);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      initialValue: undefined,
+      annualContribution: 0,
+      meanReturn: 7,
+      volatility: 15,
+      years: 30,
+      simulations: 5000,
+      targetValue: undefined,
+      seed: undefined,
+    },
+  });
+
+  const animatedMedian = useCountUp(result ? result.data.p50 : 0, formatter.currency);
+  const animatedLow = useCountUp(result ? result.data.p10 : 0, formatter.currency);
+  const animatedHigh = useCountUp(result ? result.data.p90 : 0, formatter.currency);
+  const animatedProbability = useCountUp(result ? result.data.probabilityOfTarget : 0, formatter.percent);
+
+  const onSubmit = (data: FormValues) => {
+    // An empty seed gets a fresh one, written back to the form so the run can be repeated.
+    const seed = data.seed ?? randomSeed();
+    form.setValue('seed', seed);
+    const res = runMonteCarloSimulation(
+      data.initialValue,
+      data.annualContribution,
+      data.meanReturn,
+      data.volatility,
+      data.years,
+      data.simulations,
+      seed,
+      data.targetValue
+    );
+    setResult(res);
+    setTargetValue(data.targetValue);
+  };
+
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('monte-carlo-calculator', form, result);
+
+  const onNewSeed = () => {
+    form.setValue('seed', undefined);
+    form.handleSubmit(shareable.onSubmit)();
+  };
+
+  return (
+    <div className="space-y-8">
+      <PrintReportHeader slug="monte-carlo-calculator" form={form} result={result} />
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Monte Carlo Growth Simulator</CardTitle>
+          <CardDescription>
+            Run thousands of randomized return paths to see the range of outcomes for your investment and the probability of reaching your target.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                <FormField
+                  control={form.control}
+                  name="initialValue"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><DollarSign className="w-4 h-4" />Starting Value</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 10000" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="annualContribution"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><DollarSign className="w-4 h-4" />Annual Contribution</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 6000" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="targetValue"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Target className="w-4 h-4" />Target Value</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 500000" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="years"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Calendar className="w-4 h-4" />Years</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 30" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="meanReturn"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Percent className="w-4 h-4" />Mean Annual Return (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 7" {...field} value={field.value ?? ''} step="0.1" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="volatility"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Activity className="w-4 h-4" />Volatility (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 15" {...field} value={field.value ?? ''} step="0.1" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="simulations"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Dices className="w-4 h-4" />Simulations</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 5000" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="seed"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Hash className="w-4 h-4" />Random Seed</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="Random" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormDescription>Reuse a seed to reproduce a run exactly.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Run Simulation</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="monte-carlo-calculator" form={form} />
+                <ScenarioComparison slug="monte-carlo-calculator" form={form} />
+                <Button type="button" variant="outline" onClick={onNewSeed}>
+                  <Shuffle className="w-4 h-4 mr-2" />New Seed
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Simulation Results</CardTitle>
+              <CardDescription>{formatter.integer(result.data.simulations)} simulations using seed {result.data.seed}.</CardDescription>
+            </div>
+            <ExportMenu slug="monte-carlo-calculator" form={form} result={result} />
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 text-center">
+              <div className="p-6 bg-primary/10 rounded-lg">
+                <p className="text-sm text-muted-foreground">Chance of Reaching Target</p>
+                <p className="text-4xl font-bold text-primary">{animatedProbability}</p>
+              </div>
+              <div className="p-6 bg-accent/20 rounded-lg">
+                <p className="text-sm text-muted-foreground">Median Outcome</p>
+                <p className="text-4xl font-bold text-accent">{animatedMedian}</p>
+              </div>
+              <div className="p-6 bg-muted rounded-lg">
+                <p className="text-sm text-muted-foreground">Pessimistic (10th Percentile)</p>
+                <p className="text-3xl font-bold">{animatedLow}</p>
+              </div>
+              <div className="p-6 bg-muted rounded-lg">
+                <p className="text-sm text-muted-foreground">Optimistic (90th Percentile)</p>
+                <p className="text-3xl font-bold">{animatedHigh}</p>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground text-center mt-4">The average outcome is {formatter.currency(result.data.mean)}. It sits above the median because a few very lucky paths pull the average up.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {result && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><BarChart className="w-5 h-5" />Range of Outcomes</CardTitle>
+            <CardDescription>80% of simulated paths end inside the shaded band; the line shows the median path.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="min-h-[300px] w-full">
+              <ComposedChart accessibilityLayer data={result.data.bands} margin={{ left: 12, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="year" tickLine={false} axisLine={false} tickMargin={8} tickFormatter={(value) => `Y${value}`} />
+                <YAxis tickFormatter={formatter.compactCurrency} />
+                <ChartTooltip content={<ChartTooltipContent valueFormatter={formatter.currency} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <ReferenceLine y={targetValue} stroke="hsl(var(--destructive))" strokeDasharray="4 4" label="Target" />
+                <Area dataKey="range" type="monotone" stroke="var(--color-range)" fill="var(--color-range)" fillOpacity={0.2} />
+                <Line dataKey="p50" type="monotone" stroke="var(--color-p50)" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Inputs</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <h3 className="font-semibold text-lg">Mean Annual Return</h3>
+            <p className="text-muted-foreground">The average yearly return you expect. Each simulated year draws a return centred on this value.</p>
+          </div>
+          <div>
+            <h3 className="font-semibold text-lg">Volatility</h3>
+            <p className="text-muted-foreground">The standard deviation of yearly returns. Higher volatility means a wider spread of outcomes. Broad stock indexes have historically had volatility of around 15-20%.</p>
+          </div>
+          <div>
+            <h3 className="font-semibold text-lg">Simulations and Seed</h3>
+            <p className="text-muted-foreground">More simulations give smoother, more stable percentiles. The seed controls the random numbers: the same seed with the same inputs always produces the same results.</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><Dices className="h-5 w-5" />Methodology</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p>For every simulation, each year's return is drawn from a normal distribution with your mean and volatility, using a seeded random number generator. The value grows by that return and the contribution is added at year end. Percentiles are then taken across all simulations for each year.</p>
+          <div className="p-4 bg-muted/50 rounded-lg space-y-2 mt-4 text-center">
+            <p className="font-mono text-sm md:text-base font-bold text-primary">r = Mean + Volatility * Z,  Z ~ N(0, 1)</p>
+            <p className="font-mono text-sm md:text-base font-bold">Value = Value * (1 + r) + Contribution</p>
+            <p className="font-mono text-sm md:text-base font-bold">P(Target) = Paths ending ≥ Target / Total Paths</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <RelatedCalculators slug="monte-carlo-calculator" />
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Planning With Uncertainty</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6 text-muted-foreground leading-relaxed">
+          <h2 className="text-xl font-bold text-foreground">Why Simulate?</h2>
+          <p>A fixed-rate projection shows a single future. Real returns bounce around from year to year, and the order of good and bad years changes where you end up. Simulating thousands of possible futures shows both the most likely outcome and how far things could stray from it.</p>
+          <h3 className="text-lg font-semibold text-foreground">Reading the Fan Chart</h3>
+          <p>The band widens over time because uncertainty compounds. The lower edge is a reasonable "bad luck" scenario and the upper edge a "good luck" one. If your target sits well inside or below the band, your plan is robust; if it sits near the top, you are relying on luck.</p>
+          <h3 className="text-lg font-semibold text-foreground">Improving Your Odds</h3>
+          <p>Contributing more, investing for longer or lowering your target all raise the probability of success. Try adjusting them and compare the results using the same seed.</p>
+        </CardContent>
+      </Card>
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Frequently Asked Questions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Accordion type="single" collapsible className="w-full">
+            <AccordionItem value="item-1">
+              <AccordionTrigger>What probability of success should I aim for?</AccordionTrigger>
+              <AccordionContent>
+                <p>Many planners look for 75-90%. Aiming for 100% usually means saving far more than you are likely to need.</p>
+              </AccordionContent>
+            </AccordionItem>
+            <AccordionItem value="item-2">
+              <AccordionTrigger>Why do my results change when I run it again?</AccordionTrigger>
+              <AccordionContent>
+                <p>With an empty seed, every run uses new random numbers. Keep the seed shown in the results to reproduce a run, or click "New Seed" to try a different set of paths.</p>
+              </AccordionContent>
+            </AccordionItem>
+            <AccordionItem value="item-3">
+              <AccordionTrigger>Are real returns normally distributed?</AccordionTrigger>
+              <AccordionContent>
+                <p>Not exactly. Real markets have more extreme years than a normal distribution predicts, so treat the 10th percentile as a guide rather than a worst case.</p>
+              </AccordionContent>
+            </AccordionItem>
+          </Accordion>
+        </CardContent>
+      </Card>
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Summary</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">The Monte Carlo Growth Simulator runs thousands of randomized, reproducible return paths to show the 10th, 50th and 90th percentile outcomes for your investment and the probability of reaching your target.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,442 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { calculateMortgage } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from '@/components/ui/card';
+import {
+  Form,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/components/ui/accordion';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { DollarSign, Percent, Calendar, HelpCircle, Landmark, BarChart, Shield, Building, ListOrdered } from 'lucide-react';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent,
+} from '@/components/ui/chart';
+import { Bar, BarChart as RechartsBarChart, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { useCountUp } from '@/hooks/use-count-up';
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { mortgageSchema as formSchema } from '@/lib/calculator-schemas';
+
+type FormValues = z.infer<typeof formSchema>;
+
+const chartConfig = {
+  principal: {
+    label: 'Principal',
+    color: 'hsl(var(--primary))',
+  },
+  interest: {
+    label: 'Interest',
+    color: 'hsl(var(--accent))',
+  },
+} satisfies ChartConfig;
+
+export default function MortgageCalculator() {
+  const formatter = useFormatter();
+  const [result, setResult] = useState<ReturnType<typeof calculateMortgage> | null>(null);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      homePrice: undefined,
+      downPayment: undefined,
+      interestRate: undefined,
+      loanTerm: 30,
+      propertyTaxRate: 1.1,
+      annualInsurance: 1200,
+      pmiRate: 0.5,
+      monthlyHoa: 0,
+    },
+  });
+
+  const animatedMonthlyPayment = useCountUp(result ? result.data.totalMonthlyPayment : 0, formatter.currency);
+  const animatedTotalInterest = useCountUp(result ? result.data.totalInterest : 0, formatter.currency);
+
+  const onSubmit = (data: FormValues) => {
+    const res = calculateMortgage(
+      data.homePrice,
+      data.downPayment,
+      data.interestRate,
+      data.loanTerm,
+      data.propertyTaxRate,
+      data.annualInsurance,
+      data.pmiRate,
+      data.monthlyHoa
+    );
+    setResult(res);
+  };
+
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('mortgage-calculator', form, result);
+
+  return (
+    <div className="space-y-8">
+      <PrintReportHeader slug="mortgage-calculator" form={form} result={result} />
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Mortgage Calculator</CardTitle>
+          <CardDescription>
+            Estimate your monthly mortgage payment including property tax, insurance, PMI and HOA dues, and see the full amortization schedule.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                <FormField
+                  control={form.control}
+                  name="homePrice"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><DollarSign className="w-4 h-4" />Home Price</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 400000" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="downPayment"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><DollarSign className="w-4 h-4" />Down Payment</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 80000" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="interestRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Percent className="w-4 h-4" />Interest Rate (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 6.5" {...field} value={field.value ?? ''} step="0.01" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="loanTerm"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Calendar className="w-4 h-4" />Loan Term (years)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 30" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="propertyTaxRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Building className="w-4 h-4" />Property Tax (%/yr)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 1.1" {...field} value={field.value ?? ''} step="0.01" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="annualInsurance"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Shield className="w-4 h-4" />Home Insurance ($/yr)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 1200" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="pmiRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Percent className="w-4 h-4" />PMI (%/yr)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 0.5" {...field} value={field.value ?? ''} step="0.01" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="monthlyHoa"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><DollarSign className="w-4 h-4" />HOA Dues (per month)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 0" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Calculate Mortgage</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="mortgage-calculator" form={form} />
+                <ScenarioComparison slug="mortgage-calculator" form={form} />
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <CardTitle>Mortgage Summary</CardTitle>
+            <ExportMenu slug="mortgage-calculator" form={form} result={result} />
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-center">
+              <div className="p-6 bg-primary/10 rounded-lg">
+                <p className="text-sm text-muted-foreground">Total Monthly Payment</p>
+                <p className="text-4xl font-bold text-primary">{animatedMonthlyPayment}</p>
+              </div>
+              <div className="p-6 bg-accent/20 rounded-lg">
+                <p className="text-sm text-muted-foreground">Total Interest Paid</p>
+                <p className="text-4xl font-bold text-accent">{animatedTotalInterest}</p>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+              <div className="p-4 bg-muted rounded-lg">
+                <p className="text-xs text-muted-foreground">Principal & Interest</p>
+                <p className="text-xl font-bold">{formatter.currency(result.data.monthlyPrincipalAndInterest)}</p>
+              </div>
+              <div className="p-4 bg-muted rounded-lg">
+                <p className="text-xs text-muted-foreground">Property Tax</p>
+                <p className="text-xl font-bold">{formatter.currency(result.data.monthlyPropertyTax)}</p>
+              </div>
+              <div className="p-4 bg-muted rounded-lg">
+                <p className="text-xs text-muted-foreground">Insurance</p>
+                <p className="text-xl font-bold">{formatter.currency(result.data.monthlyInsurance)}</p>
+              </div>
+              <div className="p-4 bg-muted rounded-lg">
+                <p className="text-xs text-muted-foreground">PMI</p>
+                <p className="text-xl font-bold">{formatter.currency(result.data.monthlyPmi)}</p>
+              </div>
+              <div className="p-4 bg-muted rounded-lg">
+                <p className="text-xs text-muted-foreground">HOA</p>
+                <p className="text-xl font-bold">{formatter.currency(result.data.monthlyHoa)}</p>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground text-center">
+              Loan amount: {formatter.currency(result.data.loanAmount)}. Total cost over the life of the loan: {formatter.currency(result.data.totalCost)}.
+              {result.data.pmiMonths > 0 && ` PMI is paid for ${result.data.pmiMonths} months (total ${formatter.currency(result.data.totalPmi)}) and drops off once the balance reaches 78% of the home price.`}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {result && result.data.yearly.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><BarChart className="w-5 h-5" />Principal vs. Interest by Year</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="min-h-[300px] w-full">
+              <RechartsBarChart accessibilityLayer data={result.data.yearly}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="year" tickLine={false} axisLine={false} tickMargin={8} tickFormatter={(value) => `Y${value}`} />
+                <YAxis tickFormatter={formatter.compactCurrency} />
+                <ChartTooltip content={<ChartTooltipContent valueFormatter={formatter.currency} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="principal" stackId="payment" fill="var(--color-principal)" />
+                <Bar dataKey="interest" stackId="payment" fill="var(--color-interest)" radius={[4, 4, 0, 0]} />
+              </RechartsBarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      {result && result.data.schedule.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><ListOrdered className="w-5 h-5" />Amortization Schedule</CardTitle>
+            <CardDescription>Month-by-month breakdown of every payment over the life of the loan.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="h-[400px]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead className="text-right">Payment</TableHead>
+                    <TableHead className="text-right">Principal</TableHead>
+                    <TableHead className="text-right">Interest</TableHead>
+                    <TableHead className="text-right">PMI</TableHead>
+                    <TableHead className="text-right">Tax, Ins. & HOA</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.data.schedule.map((row) => (
+                    <TableRow key={row.month}>
+                      <TableCell>{row.month}</TableCell>
+                      <TableCell className="text-right">{formatter.currency(row.payment)}</TableCell>
+                      <TableCell className="text-right">{formatter.currency(row.principal)}</TableCell>
+                      <TableCell className="text-right">{formatter.currency(row.interest)}</TableCell>
+                      <TableCell className="text-right">{formatter.currency(row.pmi)}</TableCell>
+                      <TableCell className="text-right">{formatter.currency(row.escrow)}</TableCell>
+                      <TableCell className="text-right">{formatter.currency(row.balance)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Inputs</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <h3 className="font-semibold text-lg">Home Price & Down Payment</h3>
+            <p className="text-muted-foreground">The purchase price of the home and the cash you put down up front. The difference is the amount you borrow (the principal).</p>
+          </div>
+          <div>
+            <h3 className="font-semibold text-lg">Interest Rate & Loan Term</h3>
+            <p className="text-muted-foreground">The annual interest rate quoted by your lender and the number of years over which the loan is repaid. Common terms are 15 and 30 years.</p>
+          </div>
+          <div>
+            <h3 className="font-semibold text-lg">Property Tax, Insurance & HOA</h3>
+            <p className="text-muted-foreground">Property tax is entered as a yearly percentage of the home price; insurance as a yearly dollar amount; HOA dues as a monthly amount. These are often collected by your lender in an escrow account alongside your loan payment.</p>
+          </div>
+          <div>
+            <h3 className="font-semibold text-lg">PMI</h3>
+            <p className="text-muted-foreground">Private Mortgage Insurance is usually required when your down payment is less than 20%. It is entered as a yearly percentage of the loan amount and is removed automatically once your balance falls to 78% of the home price.</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><Landmark className="h-5 w-5" />Methodology</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p>The principal and interest portion of the payment uses the standard amortization formula, where `P` is the loan amount, `r` is the monthly interest rate, and `n` is the number of monthly payments.</p>
+          <div className="p-4 bg-muted/50 rounded-lg space-y-2 mt-4 text-center">
+            <p className="font-mono text-sm md:text-base font-bold text-primary">M = P * r / (1 - (1 + r)^-n)</p>
+            <p className="font-mono text-sm md:text-base font-bold">Total = M + Tax/12 + Insurance/12 + PMI + HOA</p>
+          </div>
+          <p className="mt-2 text-muted-foreground">Each month, interest is charged on the remaining balance and the rest of the payment reduces the principal. Early payments are mostly interest; later payments are mostly principal.</p>
+        </CardContent>
+      </Card>
+
+      <RelatedCalculators slug="mortgage-calculator" />
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Understanding Your Mortgage</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6 text-muted-foreground leading-relaxed">
+          <h2 className="text-xl font-bold text-foreground">What Goes Into a Monthly Mortgage Payment?</h2>
+          <p>A mortgage payment is more than just paying back the money you borrowed. Lenders commonly describe the full payment as PITI: Principal, Interest, Taxes and Insurance. On top of that, many borrowers also pay private mortgage insurance (PMI) and homeowners association (HOA) dues.</p>
+
+          <h3 className="text-lg font-semibold text-foreground">How Amortization Works</h3>
+          <p>An amortizing loan has a fixed principal and interest payment for its entire term. Because interest is calculated on the outstanding balance, the interest share of each payment is largest at the start and shrinks as the balance falls. The amortization schedule above shows this shift month by month, and the chart shows it year by year.</p>
+
+          <h3 className="text-lg font-semibold text-foreground">Ways to Lower Your Payment</h3>
+          <ul className="list-disc pl-5 space-y-2">
+            <li><strong>Put more down:</strong> A larger down payment reduces the principal and can eliminate PMI entirely once you reach 20%.</li>
+            <li><strong>Shop for a better rate:</strong> Even a quarter of a percentage point can save thousands of dollars over the life of a loan.</li>
+            <li><strong>Choose the term carefully:</strong> A 30-year term lowers the monthly payment but increases total interest; a 15-year term does the opposite.</li>
+          </ul>
+        </CardContent>
+      </Card>
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Frequently Asked Questions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Accordion type="single" collapsible className="w-full">
+            <AccordionItem value="item-1">
+              <AccordionTrigger>When is PMI required?</AccordionTrigger>
+              <AccordionContent>
+                <p>Conventional lenders usually require PMI when the down payment is less than 20% of the home price. If your down payment is 20% or more, set the PMI rate to 0 or leave it as is; the calculator will not charge PMI when the loan starts below the 78% threshold.</p>
+              </AccordionContent>
+            </AccordionItem>
+            <AccordionItem value="item-2">
+              <AccordionTrigger>Why is so much of my early payment interest?</AccordionTrigger>
+              <AccordionContent>
+                <p>Interest is charged on the balance you still owe. At the start of the loan the balance is at its highest, so the interest portion is too. As you pay down principal, more of each fixed payment goes toward the balance.</p>
+              </AccordionContent>
+            </AccordionItem>
+            <AccordionItem value="item-3">
+              <AccordionTrigger>Are property taxes and insurance fixed?</AccordionTrigger>
+              <AccordionContent>
+                <p>No. Both typically change over time as assessed values and premiums change. This calculator holds them constant to give you a baseline estimate.</p>
+              </AccordionContent>
+            </AccordionItem>
+          </Accordion>
+        </CardContent>
+      </Card>
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Summary</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">The Mortgage Calculator gives you a complete picture of homeownership costs: the principal and interest payment, the escrowed costs of taxes and insurance, PMI and HOA dues, and a month-by-month schedule showing exactly how your loan is paid off over time.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -4,67 +4,60 @@ import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { calculatePercentToGoal } from '@/lib/calculators';
+import { solvePercentToGoal } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
-import Link from 'next/link';
 import { HelpCircle, Target, Sigma } from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
-
-const formSchema = z.object({
-  currentValue: z.coerce.number(),
-  goalValue: z.coerce.number().refine(n => n !== 0, 'Goal value cannot be zero.'),
-});
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { percentToGoalSchema as formSchema } from '@/lib/calculator-schemas';
 
 type FormValues = z.infer<typeof formSchema>;
 
-const relatedCalculators: { name: string; href: string }[] = [
-    { name: 'Average Percentage', href: '/calculators/average-percentage-calculator' },
-    { name: 'Comparative Difference', href: '/calculators/comparative-difference-calculator' },
-    { name: 'Compounding Increase', href: '/calculators/compounding-increase-calculator' },
-    { name: 'Doubling Time', href: '/calculators/doubling-time-calculator' },
-    { name: 'Fraction to Percent', href: '/calculators/fraction-to-percent-calculator' },
-    { name: 'Fuel Cost', href: '/calculators/fuel-cost-calculator' },
-    { name: 'Historic Change', href: '/calculators/historic-change-calculator' },
-    { name: 'Investment Growth', href: '/calculators/investment-growth-calculator' },
-    { name: 'Percentage of a Percentage', href: '/calculators/percentage-of-a-percentage-calculator' },
-    { name: 'Percentage Point', href: '/calculators/percentage-point-calculator' },
-    { name: 'Value Percentage', href: '/calculators/value-percentage-calculator' },
-    { name: 'Percent Error', href: '/calculators/percent-error-calculator' },
-    { name: 'Relative Change', href: '/calculators/relative-change-calculator' },
-    { name: 'Slope Percentage', href: '/calculators/slope-percentage-calculator' },
-    { name: 'Time Percentage', href: '/calculators/time-percentage-calculator' },
-].sort((a,b) => a.name.localeCompare(b.name));
-
 export default function PercentToGoalCalculator() {
-  const [result, setResult] = useState<ReturnType<typeof calculatePercentToGoal> | null>(null);
+  const formatter = useFormatter();
+  const [result, setResult] = useState<ReturnType<typeof solvePercentToGoal> | null>(null);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
-    defaultValues: { currentValue: undefined, goalValue: undefined },
+    defaultValues: { currentValue: undefined, goalValue: undefined, percentage: undefined },
   });
 
   const onSubmit = (data: FormValues) => {
-    const res = calculatePercentToGoal(data.currentValue, data.goalValue);
+    const res = solvePercentToGoal(data);
+    if (!res.ok) form.setError('root.serverError', { type: 'custom', message: res.error.message });
     setResult(res);
   };
 
-  const percentage = result ? parseFloat(result.percentage) : 0;
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('percent-to-goal-calculator', form, result);
+
+  const percentage = result?.ok ? result.data.percentage : 0;
+  const solvedLabels = { currentValue: 'Current Value', goalValue: 'Goal Value', percentage: 'Percentage of Goal Achieved' };
 
   return (
     <div className="space-y-8">
-      <Card>
+      <PrintReportHeader slug="percent-to-goal-calculator" form={form} result={result} />
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Percent to Goal Calculator</CardTitle>
-          <CardDescription>Calculate what percentage of a goal has been achieved.</CardDescription>
+          <CardDescription>Calculate what percentage of a goal has been achieved. Leave any one field blank to solve for it.</CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <FormField
                   control={form.control}
                   name="currentValue"
@@ -91,23 +84,48 @@ export default function PercentToGoalCalculator() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="percentage"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Percentage of Goal (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="Leave blank to solve" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              {form.formState.errors.root?.serverError && <FormMessage>{form.formState.errors.root.serverError.message}</FormMessage>}
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Calculate Percentage</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="percent-to-goal-calculator" form={form} />
+                <ScenarioComparison slug="percent-to-goal-calculator" form={form} />
               </div>
-              <Button type="submit">Calculate Percentage</Button>
             </form>
           </Form>
         </CardContent>
       </Card>
       
-      {result && (
+      {result?.ok && (
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
             <CardTitle>Progress to Goal</CardTitle>
+            <ExportMenu slug="percent-to-goal-calculator" form={form} result={result} />
           </CardHeader>
           <CardContent className="text-center space-y-4">
             <div className="p-6 bg-primary/10 rounded-lg">
-              <p className="text-sm text-muted-foreground">Percentage of Goal Achieved</p>
-              <p className="text-4xl font-bold text-primary">{result.percentage}%</p>
+              <p className="text-sm text-muted-foreground">{solvedLabels[result.data.solvedFor]}</p>
+              <p className="text-4xl font-bold text-primary">
+                {formatter.result(result.data[result.data.solvedFor], result.units[result.data.solvedFor])}
+              </p>
             </div>
+            <p className="text-muted-foreground">
+              {formatter.number(result.data.currentValue)} is {formatter.percent(result.data.percentage)} of a goal of {formatter.number(result.data.goalValue)}.
+            </p>
             <div>
               <Progress value={percentage > 100 ? 100 : percentage} className="w-full" />
               {percentage > 100 && <p className="text-sm text-accent mt-2 font-semibold">Goal exceeded!</p>}
@@ -116,7 +134,7 @@ export default function PercentToGoalCalculator() {
         </Card>
       )}
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Inputs</CardTitle>
         </CardHeader>
@@ -129,6 +147,10 @@ export default function PercentToGoalCalculator() {
             <h3 className="font-semibold text-lg">Goal Value</h3>
             <p className="text-muted-foreground">This is the target value you are trying to reach. For example, your total savings goal, or the total distance of a marathon.</p>
           </div>
+          <div>
+            <h3 className="font-semibold text-lg">Percentage of Goal</h3>
+            <p className="text-muted-foreground">Usually left blank, so the calculator works it out. Fill it in and leave another field blank instead to find, say, the goal that 75 is 30% of, or how far along 30% of a 250 goal is.</p>
+          </div>
         </CardContent>
       </Card>
       
@@ -141,25 +163,13 @@ export default function PercentToGoalCalculator() {
           <div className="p-4 bg-muted/50 rounded-lg mt-4 text-center">
             <p className="font-mono text-sm md:text-base font-bold text-primary">Percentage to Goal = (Current Value / Goal Value) × 100</p>
           </div>
+          <p className="mt-4">The same relationship gives any one value from the other two: Current Value = Percentage × Goal Value / 100, and Goal Value = Current Value × 100 / Percentage.</p>
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Related Calculators</CardTitle>
-        </CardHeader>
-        <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {relatedCalculators.map((calc) => (
-                <Link href={calc.href} key={calc.name} className="block hover:no-underline">
-                <Card className="flex flex-col items-center justify-center p-4 border rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors h-full text-center">
-                    <span className="font-semibold">{calc.name}</span>
-                </Card>
-                </Link>
-            ))}
-        </CardContent>
-      </Card>
+      <RelatedCalculators slug="percent-to-goal-calculator" />
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>In-Depth Guide to Tracking Progress Towards Goals</CardTitle>
         </CardHeader>
@@ -185,7 +195,7 @@ export default function PercentToGoalCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Frequently Asked Questions</CardTitle>
         </CardHeader>
@@ -225,7 +235,7 @@ export default function PercentToGoalCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Summary</CardTitle>
         </CardHeader>
@@ -4,54 +4,49 @@ import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { calculateRelativeChange } from '@/lib/calculators';
+import { solveRelativeChange } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
-import Link from 'next/link';
 import { HelpCircle, TrendingUp, TrendingDown, ArrowDown, ArrowUp, ArrowRight, Sigma } from 'lucide-react';
 import { useCountUp } from '@/hooks/use-count-up';
-
-const formSchema = z.object({
-  oldValue: z.coerce.number().refine(n => n !== 0, 'Original value cannot be zero.'),
-  newValue: z.coerce.number(),
-});
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { relativeChangeSchema as formSchema } from '@/lib/calculator-schemas';
 
 type FormValues = z.infer<typeof formSchema>;
 
-const relatedCalculators: { name: string; href: string }[] = [
-    { name: 'Average Percentage', href: '/calculators/average-percentage-calculator' },
-    { name: 'Comparative Difference', href: '/calculators/comparative-difference-calculator' },
-    { name: 'Compounding Increase', href: '/calculators/compounding-increase-calculator' },
-    { name: 'Doubling Time', href: '/calculators/doubling-time-calculator' },
-    { name: 'Fraction to Percent', href: '/calculators/fraction-to-percent-calculator' },
-    { name: 'Fuel Cost', href: '/calculators/fuel-cost-calculator' },
-    { name: 'Historic Change', href: '/calculators/historic-change-calculator' },
-    { name: 'Investment Growth', href: '/calculators/investment-growth-calculator' },
-    { name: 'Percentage of a Percentage', href: '/calculators/percentage-of-a-percentage-calculator' },
-    { name: 'Percentage Point', href: '/calculators/percentage-point-calculator' },
-    { name: 'Value Percentage', href: '/calculators/value-percentage-calculator' },
-    { name: 'Percent Error', href: '/calculators/percent-error-calculator' },
-    { name: 'Percent to Goal', href: '/calculators/percent-to-goal-calculator' },
-    { name: 'Slope Percentage', href: '/calculators/slope-percentage-calculator' },
-    { name: 'Time Percentage', href: '/calculators/time-percentage-calculator' },
-].sort((a,b) => a.name.localeCompare(b.name));
-
 export default function RelativeChangeCalculator() {
-  const [result, setResult] = useState<ReturnType<typeof calculateRelativeChange> | null>(null);
-  const animatedChange = useCountUp(result ? parseFloat(result.change) : 0);
+  const formatter = useFormatter();
+  const [result, setResult] = useState<ReturnType<typeof solveRelativeChange> | null>(null);
+  const solvedFor = result?.ok ? result.data.solvedFor : 'change';
+  const animatedValue = useCountUp(
+    result?.ok ? result.data[solvedFor] : 0,
+    solvedFor === 'change' ? formatter.percent : formatter.number
+  );
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
-    defaultValues: { oldValue: undefined, newValue: undefined },
+    defaultValues: { oldValue: undefined, newValue: undefined, change: undefined },
   });
 
   const onSubmit = (data: FormValues) => {
-    const res = calculateRelativeChange(data.oldValue, data.newValue);
+    const res = solveRelativeChange(data);
+    if (!res.ok) form.setError('root.serverError', { type: 'custom', message: res.error.message });
     setResult(res);
   };
+
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('relative-change-calculator', form, result);
   
   useEffect(() => {
     if (result) {
@@ -61,15 +56,16 @@ export default function RelativeChangeCalculator() {
 
   return (
     <div className="space-y-8">
-      <Card>
+      <PrintReportHeader slug="relative-change-calculator" form={form} result={result} />
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Relative Change Calculator</CardTitle>
-          <CardDescription>Calculate the relative change (percentage increase or decrease) from an original value to a new value.</CardDescription>
+          <CardDescription>Calculate the relative change (percentage increase or decrease) from an original value to a new value. Leave any one field blank to solve for it.</CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <FormField
                   control={form.control}
                   name="oldValue"
@@ -96,32 +92,55 @@ export default function RelativeChangeCalculator() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="change"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Relative Change (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="Leave blank to solve" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              {form.formState.errors.root?.serverError && <FormMessage>{form.formState.errors.root.serverError.message}</FormMessage>}
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Calculate Relative Change</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="relative-change-calculator" form={form} />
+                <ScenarioComparison slug="relative-change-calculator" form={form} />
               </div>
-              <Button type="submit">Calculate Relative Change</Button>
             </form>
           </Form>
         </CardContent>
       </Card>
       
-      {result && (
+      {result?.ok && (
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
             <CardTitle>Calculation Result</CardTitle>
+            <ExportMenu slug="relative-change-calculator" form={form} result={result} />
           </CardHeader>
           <CardContent className="text-center">
-            <div className={`p-6 rounded-lg ${result.direction === 'increase' ? 'bg-accent/20' : result.direction === 'decrease' ? 'bg-destructive/10' : 'bg-primary/10'}`}>
-              <p className="text-sm text-muted-foreground">Relative Change</p>
+            <div className={`p-6 rounded-lg ${result.data.direction === 'increase' ? 'bg-accent/20' : result.data.direction === 'decrease' ? 'bg-destructive/10' : 'bg-primary/10'}`}>
+              <p className="text-sm text-muted-foreground">{{ oldValue: 'Original Value', newValue: 'New Value', change: 'Relative Change' }[result.data.solvedFor]}</p>
               <div className="flex items-center justify-center gap-2">
-                <p className={`text-4xl font-bold ${result.direction === 'increase' ? 'text-accent' : result.direction === 'decrease' ? 'text-destructive' : 'text-primary'}`}>{animatedChange}%</p>
-                {result.direction === 'increase' && <TrendingUp className="w-8 h-8 text-accent" />}
-                {result.direction === 'decrease' && <TrendingDown className="w-8 h-8 text-destructive" />}
+                <p className={`text-4xl font-bold ${result.data.direction === 'increase' ? 'text-accent' : result.data.direction === 'decrease' ? 'text-destructive' : 'text-primary'}`}>{animatedValue}</p>
+                {result.data.direction === 'increase' && <TrendingUp className="w-8 h-8 text-accent" />}
+                {result.data.direction === 'decrease' && <TrendingDown className="w-8 h-8 text-destructive" />}
               </div>
             </div>
+            <p className="mt-4 text-muted-foreground">
+              From {formatter.number(result.data.oldValue)} to {formatter.number(result.data.newValue)} is a change of {formatter.percent(result.data.change)}.
+            </p>
           </CardContent>
         </Card>
       )}
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Inputs</CardTitle>
         </CardHeader>
@@ -134,6 +153,10 @@ export default function RelativeChangeCalculator() {
             <h3 className="font-semibold text-lg">New Value</h3>
             <p className="text-muted-foreground">The final value that you are comparing to the original value.</p>
           </div>
+          <div>
+            <h3 className="font-semibold text-lg">Relative Change (%)</h3>
+            <p className="text-muted-foreground">Usually left blank to be calculated. Enter it and leave the new value blank to apply a change, e.g. 100 after a 25% increase, or leave the original value blank to find where a value started before the change.</p>
+          </div>
         </CardContent>
       </Card>
       
@@ -146,25 +169,13 @@ export default function RelativeChangeCalculator() {
           <div className="p-4 bg-muted/50 rounded-lg mt-4 text-center">
             <p className="font-mono text-sm md:text-base font-bold text-primary">Relative Change = ((New Value - Original Value) / Original Value) × 100</p>
           </div>
+          <p className="mt-4">Rearranged for a blank field, New Value = Original Value × (1 + Relative Change / 100) and Original Value = New Value / (1 + Relative Change / 100).</p>
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Related Calculators</CardTitle>
-        </CardHeader>
-        <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {relatedCalculators.map((calc) => (
-                <Link href={calc.href} key={calc.name} className="block hover:no-underline">
-                <Card className="flex flex-col items-center justify-center p-4 border rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors h-full text-center">
-                    <span className="font-semibold">{calc.name}</span>
-                </Card>
-                </Link>
-            ))}
-        </CardContent>
-      </Card>
+      <RelatedCalculators slug="relative-change-calculator" />
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>In-Depth Guide to Relative Change</CardTitle>
         </CardHeader>
@@ -209,7 +220,7 @@ export default function RelativeChangeCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Frequently Asked Questions</CardTitle>
         </CardHeader>
@@ -249,7 +260,7 @@ export default function RelativeChangeCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Summary</CardTitle>
         </CardHeader>
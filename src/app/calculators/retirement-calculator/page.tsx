@@ -0,0 +1,525 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm, useFieldArray } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { calculateRetirement } from '@/lib/calculators';
+import { analyzeRetirementScenarios } from '@/ai/flows/analyze-retirement-scenarios';
+import type { RetirementScenarioOutput } from '@/ai/flows/retirement-scenario-flow';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from '@/components/ui/card';
+import {
+  Form,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/components/ui/accordion';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { DollarSign, Percent, Calendar, HelpCircle, Sunset, BarChart, Plus, Trash2, Sparkles, Wallet } from 'lucide-react';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { Area, AreaChart, XAxis, YAxis, CartesianGrid, ReferenceLine } from 'recharts';
+import { useCountUp } from '@/hooks/use-count-up';
+import { useToast } from '@/hooks/use-toast';
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { retirementSchema as formSchema } from '@/lib/calculator-schemas';
+
+type FormValues = z.infer<typeof formSchema>;
+
+const chartConfig = {
+  realBalance: {
+    label: "Balance (today's $)",
+    color: 'hsl(var(--primary))',
+  },
+} satisfies ChartConfig;
+
+const feasibilityVariants: Record<RetirementScenarioOutput['scenarios'][number]['feasibility'], 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  comfortable: 'default',
+  feasible: 'secondary',
+  stretch: 'outline',
+  unrealistic: 'destructive',
+};
+
+export default function RetirementCalculator() {
+  const formatter = useFormatter();
+  const [result, setResult] = useState<ReturnType<typeof calculateRetirement> | null>(null);
+  const [submitted, setSubmitted] = useState<FormValues | null>(null);
+  const [analysis, setAnalysis] = useState<RetirementScenarioOutput | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      currentAge: undefined,
+      retirementAge: 65,
+      lifeExpectancy: 90,
+      currentSavings: undefined,
+      annualContribution: undefined,
+      preRetirementReturn: 7,
+      postRetirementReturn: 5,
+      inflationRate: 2.5,
+      withdrawalRate: 4,
+      expenses: [
+        { category: 'Housing', monthlyAmount: 1500 },
+        { category: 'Food', monthlyAmount: 600 },
+        { category: 'Healthcare', monthlyAmount: 500 },
+        { category: 'Travel & Leisure', monthlyAmount: 400 },
+      ],
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'expenses' });
+
+  const animatedNestEgg = useCountUp(result ? result.data.nestEgg : 0, formatter.currency);
+  const animatedNestEggToday = useCountUp(result ? result.data.nestEggToday : 0, formatter.currency);
+  const animatedMonthlyIncome = useCountUp(result ? result.data.monthlyIncomeToday : 0, formatter.currency);
+
+  const totalMonthlyExpenses = submitted ? submitted.expenses.reduce((sum, expense) => sum + expense.monthlyAmount, 0) : 0;
+  const incomeGap = result ? result.data.monthlyIncomeToday - totalMonthlyExpenses : 0;
+
+  const onSubmit = (data: FormValues) => {
+    const res = calculateRetirement(
+      data.currentAge,
+      data.retirementAge,
+      data.lifeExpectancy,
+      data.currentSavings,
+      data.annualContribution,
+      data.preRetirementReturn,
+      data.postRetirementReturn,
+      data.inflationRate,
+      data.withdrawalRate
+    );
+    setResult(res);
+    setSubmitted(data);
+    setAnalysis(null);
+  };
+
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('retirement-calculator', form, result);
+
+  const onAnalyze = async () => {
+    if (!result || !submitted) return;
+    setIsAnalyzing(true);
+    try {
+      const res = await analyzeRetirementScenarios({
+        projection: {
+          currentAge: submitted.currentAge,
+          retirementAge: submitted.retirementAge,
+          lifeExpectancy: submitted.lifeExpectancy,
+          nestEgg: result.data.nestEgg,
+          nestEggToday: result.data.nestEggToday,
+          withdrawalRate: submitted.withdrawalRate,
+          inflationRate: submitted.inflationRate,
+          monthlyIncomeToday: result.data.monthlyIncomeToday,
+          depletionAge: result.data.depletionAge,
+        },
+        expenses: submitted.expenses,
+      });
+      setAnalysis(res);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Scenario review failed',
+        description: error instanceof Error ? error.message : 'Something went wrong while analyzing your expenses.',
+      });
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <PrintReportHeader slug="retirement-calculator" form={form} result={result} />
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Retirement Calculator</CardTitle>
+          <CardDescription>
+            Project your savings through retirement, including inflation and withdrawals, and get AI-assisted feedback on which expense scenarios are realistic.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="currentAge"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Calendar className="w-4 h-4" />Current Age</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 35" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="retirementAge"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Calendar className="w-4 h-4" />Retirement Age</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 65" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="lifeExpectancy"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Calendar className="w-4 h-4" />Plan Until Age</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 90" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="currentSavings"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><DollarSign className="w-4 h-4" />Current Savings</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 50000" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="annualContribution"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><DollarSign className="w-4 h-4" />Annual Contribution</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 10000" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="withdrawalRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Percent className="w-4 h-4" />Withdrawal Rate (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 4" {...field} value={field.value ?? ''} step="0.1" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="preRetirementReturn"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Percent className="w-4 h-4" />Return Before Retirement (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 7" {...field} value={field.value ?? ''} step="0.1" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="postRetirementReturn"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Percent className="w-4 h-4" />Return During Retirement (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 5" {...field} value={field.value ?? ''} step="0.1" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="inflationRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Percent className="w-4 h-4" />Inflation (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 2.5" {...field} value={field.value ?? ''} step="0.1" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="font-semibold flex items-center gap-2"><Wallet className="w-4 h-4" />Planned Monthly Expenses in Retirement (today's dollars)</h3>
+                {fields.map((item, index) => (
+                  <div key={item.id} className="flex items-start gap-2">
+                    <FormField
+                      control={form.control}
+                      name={`expenses.${index}.category`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormControl><Input placeholder="Category" {...field} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`expenses.${index}.monthlyAmount`}
+                      render={({ field }) => (
+                        <FormItem className="w-40">
+                          <FormControl><Input type="number" placeholder="Monthly $" {...field} value={field.value ?? ''} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} aria-label="Remove expense">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button type="button" variant="outline" size="sm" onClick={() => append({ category: '', monthlyAmount: 0 })}>
+                  <Plus className="w-4 h-4 mr-2" />Add Expense
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Project Retirement</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="retirement-calculator" form={form} />
+                <ScenarioComparison slug="retirement-calculator" form={form} />
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <CardTitle>Retirement Projection</CardTitle>
+            <ExportMenu slug="retirement-calculator" form={form} result={result} />
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
+              <div className="p-6 bg-primary/10 rounded-lg">
+                <p className="text-sm text-muted-foreground">Savings at Retirement</p>
+                <p className="text-4xl font-bold text-primary">{animatedNestEgg}</p>
+              </div>
+              <div className="p-6 bg-muted rounded-lg">
+                <p className="text-sm text-muted-foreground">In Today's Dollars</p>
+                <p className="text-4xl font-bold">{animatedNestEggToday}</p>
+              </div>
+              <div className="p-6 bg-accent/20 rounded-lg">
+                <p className="text-sm text-muted-foreground">Sustainable Monthly Income (today's $)</p>
+                <p className="text-4xl font-bold text-accent">{animatedMonthlyIncome}</p>
+              </div>
+            </div>
+            <Alert variant={incomeGap < 0 || result.data.depletionAge !== null ? 'destructive' : 'default'}>
+              <AlertTitle>
+                {incomeGap >= 0
+                  ? `Your planned expenses of ${formatter.currency(totalMonthlyExpenses)}/month fit within your projected income.`
+                  : `Your planned expenses of ${formatter.currency(totalMonthlyExpenses)}/month exceed your projected income by ${formatter.currency(Math.abs(incomeGap))}.`}
+              </AlertTitle>
+              <AlertDescription>
+                {result.data.depletionAge !== null
+                  ? `At a ${submitted?.withdrawalRate}% withdrawal rate rising with inflation, your savings run out at age ${result.data.depletionAge}.`
+                  : `At a ${submitted?.withdrawalRate}% withdrawal rate rising with inflation, your savings last through age ${submitted?.lifeExpectancy} with ${formatter.currency(result.data.endingBalance)} remaining.`}
+              </AlertDescription>
+            </Alert>
+          </CardContent>
+        </Card>
+      )}
+
+      {result && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><BarChart className="w-5 h-5" />Savings Over Your Lifetime</CardTitle>
+            <CardDescription>Balance in today's dollars through the accumulation and drawdown phases.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="min-h-[300px] w-full">
+              <AreaChart accessibilityLayer data={result.data.history} margin={{ left: 12, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="age" tickLine={false} axisLine={false} tickMargin={8} />
+                <YAxis tickFormatter={formatter.compactCurrency} />
+                <ChartTooltip content={<ChartTooltipContent valueFormatter={formatter.currency} />} />
+                <ReferenceLine x={submitted?.retirementAge} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" label="Retire" />
+                <Area dataKey="realBalance" type="monotone" stroke="var(--color-realBalance)" fill="var(--color-realBalance)" fillOpacity={0.3} />
+              </AreaChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      {result && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><Sparkles className="w-5 h-5" />Expense Scenario Review</CardTitle>
+            <CardDescription>Let the AI assistant compare your planned expenses to your projection and suggest scenarios you can reasonably consider.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Button onClick={onAnalyze} disabled={isAnalyzing}>
+              {isAnalyzing ? 'Analyzing...' : 'Review My Expense Scenarios'}
+            </Button>
+            {analysis && (
+              <div className="space-y-4">
+                <p className="text-muted-foreground">{analysis.summary}</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {analysis.scenarios.map((scenario) => (
+                    <div key={scenario.name} className="p-4 border rounded-lg space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <h3 className="font-semibold">{scenario.name}</h3>
+                        <Badge variant={feasibilityVariants[scenario.feasibility]} className="capitalize">{scenario.feasibility}</Badge>
+                      </div>
+                      <p className="text-2xl font-bold text-primary">{formatter.currency(scenario.monthlyBudget)}<span className="text-sm text-muted-foreground font-normal"> / month</span></p>
+                      <p className="text-sm text-muted-foreground">{scenario.rationale}</p>
+                      {scenario.adjustments.length > 0 && (
+                        <ul className="list-disc pl-5 text-sm space-y-1">
+                          {scenario.adjustments.map((adjustment, index) => <li key={index}>{adjustment}</li>)}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">AI suggestions are for educational purposes and are not financial advice.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Inputs</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <h3 className="font-semibold text-lg">Returns Before and During Retirement</h3>
+            <p className="text-muted-foreground">Expected average annual investment returns. Portfolios usually become more conservative in retirement, so the second figure is often lower.</p>
+          </div>
+          <div>
+            <h3 className="font-semibold text-lg">Inflation</h3>
+            <p className="text-muted-foreground">Used to express results in today's dollars and to raise your withdrawals each year so your spending power stays constant.</p>
+          </div>
+          <div>
+            <h3 className="font-semibold text-lg">Withdrawal Rate</h3>
+            <p className="text-muted-foreground">The share of your savings withdrawn in the first year of retirement. The well-known "4% rule" suggests 4% as a starting point for a 30-year retirement.</p>
+          </div>
+          <div>
+            <h3 className="font-semibold text-lg">Planned Expenses</h3>
+            <p className="text-muted-foreground">What you expect to spend each month in retirement, in today's dollars. These are compared with your projected income and sent to the AI assistant for review.</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><Sunset className="h-5 w-5" />Methodology</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p>During accumulation, savings grow each year at the pre-retirement return and your contribution is added. At retirement, the first year's withdrawal is set by the withdrawal rate and then raised by inflation each year while the remaining balance grows at the post-retirement return.</p>
+          <div className="p-4 bg-muted/50 rounded-lg space-y-2 mt-4 text-center">
+            <p className="font-mono text-sm md:text-base font-bold text-primary">Balance = Balance * (1 + Return) + Contribution</p>
+            <p className="font-mono text-sm md:text-base font-bold">Balance = (Balance - Withdrawal) * (1 + Return)</p>
+            <p className="font-mono text-sm md:text-base font-bold">Today's $ = Future $ / (1 + Inflation)^Years</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <RelatedCalculators slug="retirement-calculator" />
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Planning a Sustainable Retirement</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6 text-muted-foreground leading-relaxed">
+          <h2 className="text-xl font-bold text-foreground">Two Phases, One Plan</h2>
+          <p>Retirement planning has two distinct phases. In the accumulation phase, steady contributions and compounding build your savings. In the drawdown phase, the goal shifts to making that money last while inflation steadily raises the cost of living.</p>
+          <h3 className="text-lg font-semibold text-foreground">Why Today's Dollars Matter</h3>
+          <p>A million dollars thirty years from now will buy much less than a million dollars today. Expressing your projection in today's dollars makes it easier to compare with the expenses you know now.</p>
+          <h3 className="text-lg font-semibold text-foreground">Using the Scenario Review</h3>
+          <p>The AI assistant looks at your projected income and each expense category you entered, then suggests a few spending scenarios and rates how realistic each one is. Treat these as a starting point for your own planning or a conversation with a financial professional.</p>
+        </CardContent>
+      </Card>
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Frequently Asked Questions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Accordion type="single" collapsible className="w-full">
+            <AccordionItem value="item-1">
+              <AccordionTrigger>Is the 4% rule safe?</AccordionTrigger>
+              <AccordionContent>
+                <p>The 4% rule comes from historical studies of 30-year retirements. It is a useful rule of thumb, but longer retirements, lower expected returns or high fees may call for a lower rate.</p>
+              </AccordionContent>
+            </AccordionItem>
+            <AccordionItem value="item-2">
+              <AccordionTrigger>Does this include Social Security or pensions?</AccordionTrigger>
+              <AccordionContent>
+                <p>No. The projection covers your own savings only. You can reduce your planned expenses by any guaranteed income to see what your savings need to cover.</p>
+              </AccordionContent>
+            </AccordionItem>
+            <AccordionItem value="item-3">
+              <AccordionTrigger>What data does the AI review see?</AccordionTrigger>
+              <AccordionContent>
+                <p>Only the projection figures shown on this page and the expense categories and amounts you entered.</p>
+              </AccordionContent>
+            </AccordionItem>
+          </Accordion>
+        </CardContent>
+      </Card>
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Summary</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">The Retirement Calculator projects your savings from today through the end of retirement, accounting for contributions, investment returns, inflation and withdrawals, and uses an AI assistant to help you judge which expense scenarios your plan can support.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
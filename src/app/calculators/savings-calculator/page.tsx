@@ -0,0 +1,440 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { differenceInCalendarDays } from 'date-fns';
+import { calculateSavings, calculateRequiredContribution } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from '@/components/ui/card';
+import {
+  Form,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Button } from '@/components/ui/button';
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/components/ui/accordion';
+import { DollarSign, Percent, Calendar, HelpCircle, PiggyBank, BarChart, Repeat, Target } from 'lucide-react';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent,
+} from '@/components/ui/chart';
+import { Area, AreaChart, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { useCountUp } from '@/hooks/use-count-up';
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { savingsSchema as formSchema } from '@/lib/calculator-schemas';
+
+type FormValues = z.infer<typeof formSchema>;
+
+type SavingsResult = ReturnType<typeof calculateSavings> | ReturnType<typeof calculateRequiredContribution>;
+
+const frequencyLabels: Record<FormValues['contributionFrequency'], string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly',
+  annually: 'Annually',
+};
+
+const chartConfig = {
+  contributions: {
+    label: 'Contributions',
+    color: 'hsl(var(--primary))',
+  },
+  interest: {
+    label: 'Interest',
+    color: 'hsl(var(--accent))',
+  },
+} satisfies ChartConfig;
+
+export default function SavingsCalculator() {
+  const formatter = useFormatter();
+  const [result, setResult] = useState<SavingsResult | null>(null);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      mode: 'project',
+      initialDeposit: undefined,
+      contribution: undefined,
+      contributionFrequency: 'monthly',
+      interestRate: undefined,
+      compoundingFrequency: 'monthly',
+      depositTiming: 'end',
+      years: 10,
+      targetAmount: 0,
+      targetDate: '',
+    },
+  });
+
+  const mode = form.watch('mode');
+
+  const animatedFinalBalance = useCountUp(result?.ok ? result.data.finalBalance : 0, formatter.currency);
+  const animatedContributions = useCountUp(result?.ok ? result.data.totalContributions : 0, formatter.currency);
+  const animatedInterest = useCountUp(result?.ok ? result.data.totalInterest : 0, formatter.currency);
+
+  const onSubmit = (data: FormValues) => {
+    if (data.mode === 'goal') {
+      const years = differenceInCalendarDays(new Date(data.targetDate), new Date()) / 365.25;
+      const res = calculateRequiredContribution(data.targetAmount, data.initialDeposit, data.contributionFrequency, data.interestRate, data.compoundingFrequency, years, data.depositTiming);
+      if (!res.ok) form.setError('root.serverError', { type: 'custom', message: res.error.message });
+      setResult(res);
+    } else {
+      const res = calculateSavings(data.initialDeposit, data.contribution, data.contributionFrequency, data.interestRate, data.compoundingFrequency, data.years, data.depositTiming);
+      setResult(res);
+    }
+  };
+
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('savings-calculator', form, result);
+
+  return (
+    <div className="space-y-8">
+      <PrintReportHeader slug="savings-calculator" form={form} result={result} />
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Savings Calculator</CardTitle>
+          <CardDescription>
+            Project how your savings grow with regular contributions, or find out how much you need to save to reach a goal by a target date.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
+              <FormField control={form.control} name="mode" render={({ field }) => (
+                <FormItem className="space-y-3">
+                  <FormLabel>What do you want to calculate?</FormLabel>
+                  <FormControl>
+                    <RadioGroup onValueChange={field.onChange} value={field.value} className="flex flex-row space-x-4">
+                      <FormItem className="flex items-center space-x-2"><FormControl><RadioGroupItem value="project" /></FormControl><FormLabel className="font-normal">Future balance</FormLabel></FormItem>
+                      <FormItem className="flex items-center space-x-2"><FormControl><RadioGroupItem value="goal" /></FormControl><FormLabel className="font-normal">Contribution needed for a goal</FormLabel></FormItem>
+                    </RadioGroup>
+                  </FormControl>
+                </FormItem>
+              )} />
+
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="initialDeposit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><DollarSign className="w-4 h-4" />Initial Deposit</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 1000" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {mode === 'project' ? (
+                  <FormField
+                    control={form.control}
+                    name="contribution"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="flex items-center gap-2"><Repeat className="w-4 h-4" />Regular Contribution</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="e.g., 200" {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ) : (
+                  <FormField
+                    control={form.control}
+                    name="targetAmount"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="flex items-center gap-2"><Target className="w-4 h-4" />Savings Target</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="e.g., 50000" {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                <FormField
+                  control={form.control}
+                  name="contributionFrequency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Repeat className="w-4 h-4" />Contribution Frequency</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                        <SelectContent>
+                          {Object.entries(frequencyLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="interestRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Percent className="w-4 h-4" />Annual Interest Rate (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 4.5" {...field} value={field.value ?? ''} step="0.01" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="compoundingFrequency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Percent className="w-4 h-4" />Compounding</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                        <SelectContent>
+                          <SelectItem value="daily">Daily</SelectItem>
+                          <SelectItem value="monthly">Monthly</SelectItem>
+                          <SelectItem value="quarterly">Quarterly</SelectItem>
+                          <SelectItem value="annually">Annually</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="depositTiming"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2"><Calendar className="w-4 h-4" />Deposits Made At</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                        <SelectContent>
+                          <SelectItem value="start">Start of each period</SelectItem>
+                          <SelectItem value="end">End of each period</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {mode === 'project' ? (
+                  <FormField
+                    control={form.control}
+                    name="years"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="flex items-center gap-2"><Calendar className="w-4 h-4" />Years to Save</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="e.g., 10" {...field} value={field.value ?? ''} step="0.5" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ) : (
+                  <FormField
+                    control={form.control}
+                    name="targetDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="flex items-center gap-2"><Calendar className="w-4 h-4" />Target Date</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+              {form.formState.errors.root?.serverError && <FormMessage>{form.formState.errors.root.serverError.message}</FormMessage>}
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">{mode === 'project' ? 'Calculate Savings' : 'Calculate Required Contribution'}</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="savings-calculator" form={form} />
+                <ScenarioComparison slug="savings-calculator" form={form} />
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      {result?.ok && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <CardTitle>Savings Results</CardTitle>
+            <ExportMenu slug="savings-calculator" form={form} result={result} />
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {'requiredContribution' in result.data && (
+              <div className="p-6 bg-primary/10 rounded-lg text-center">
+                <p className="text-sm text-muted-foreground">Required Contribution ({frequencyLabels[form.getValues('contributionFrequency')].toLowerCase()})</p>
+                <p className="text-4xl font-bold text-primary">
+                  {formatter.currency(result.data.requiredContribution)}
+                </p>
+                {result.data.alreadyOnTrack && (
+                  <p className="text-sm text-muted-foreground mt-2">Your initial deposit alone will reach the target by the chosen date.</p>
+                )}
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
+              <div className="p-6 bg-primary/10 rounded-lg">
+                <p className="text-sm text-muted-foreground">Final Balance</p>
+                <p className="text-4xl font-bold text-primary">{animatedFinalBalance}</p>
+              </div>
+              <div className="p-6 bg-muted rounded-lg">
+                <p className="text-sm text-muted-foreground">Total Contributions</p>
+                <p className="text-4xl font-bold">{animatedContributions}</p>
+              </div>
+              <div className="p-6 bg-accent/20 rounded-lg">
+                <p className="text-sm text-muted-foreground">Interest Earned</p>
+                <p className="text-4xl font-bold text-accent">{animatedInterest}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {result?.ok && result.data.history.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><BarChart className="w-5 h-5" />Balance Over Time</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="min-h-[300px] w-full">
+              <AreaChart accessibilityLayer data={result.data.history} margin={{ left: 12, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="year" tickLine={false} axisLine={false} tickMargin={8} tickFormatter={(value) => `Y${value}`} />
+                <YAxis tickFormatter={formatter.compactCurrency} />
+                <ChartTooltip content={<ChartTooltipContent valueFormatter={formatter.currency} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Area dataKey="contributions" type="monotone" stackId="balance" stroke="var(--color-contributions)" fill="var(--color-contributions)" fillOpacity={0.4} />
+                <Area dataKey="interest" type="monotone" stackId="balance" stroke="var(--color-interest)" fill="var(--color-interest)" fillOpacity={0.4} />
+              </AreaChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Inputs</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <h3 className="font-semibold text-lg">Contribution Frequency</h3>
+            <p className="text-muted-foreground">How often you add money: weekly, every two weeks, monthly or once a year. Matching this to your pay schedule makes the projection more realistic.</p>
+          </div>
+          <div>
+            <h3 className="font-semibold text-lg">Compounding</h3>
+            <p className="text-muted-foreground">How often the bank credits interest. More frequent compounding earns slightly more because interest starts earning interest sooner. This is set independently of your contribution schedule.</p>
+          </div>
+          <div>
+            <h3 className="font-semibold text-lg">Deposits Made At</h3>
+            <p className="text-muted-foreground">Deposits at the start of each period earn interest for that whole period (an annuity due); deposits at the end start earning from the next period (an ordinary annuity).</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><PiggyBank className="h-5 w-5" />Methodology</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p>The nominal rate `r` compounded `m` times a year is converted into an equivalent rate for each of the `p` contribution periods per year, and the balance is then projected period by period.</p>
+          <div className="p-4 bg-muted/50 rounded-lg space-y-2 mt-4 text-center">
+            <p className="font-mono text-sm md:text-base font-bold text-primary">PeriodRate = (1 + r / m)^(m / p) - 1</p>
+            <p className="font-mono text-sm md:text-base font-bold">Balance = (Balance + Deposit) * (1 + PeriodRate)</p>
+          </div>
+          <p className="mt-2 text-muted-foreground">In goal mode, because the final balance grows in direct proportion to the contribution, the calculator solves exactly for the contribution that lands on your target.</p>
+        </CardContent>
+      </Card>
+
+      <RelatedCalculators slug="savings-calculator" />
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Building a Savings Habit</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6 text-muted-foreground leading-relaxed">
+          <h2 className="text-xl font-bold text-foreground">Why Regular Contributions Matter</h2>
+          <p>A one-time deposit grows with interest, but most savings goals are reached through steady contributions. Each deposit starts its own compounding journey, so saving consistently, and starting early, has an outsized effect on your final balance.</p>
+          <h3 className="text-lg font-semibold text-foreground">Working Backwards From a Goal</h3>
+          <p>If you know what you need and when, the goal mode tells you exactly how much to set aside each period. If the result is too high, try extending the date, increasing your initial deposit or finding a higher-yield account.</p>
+        </CardContent>
+      </Card>
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Frequently Asked Questions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Accordion type="single" collapsible className="w-full">
+            <AccordionItem value="item-1">
+              <AccordionTrigger>Does compounding frequency make a big difference?</AccordionTrigger>
+              <AccordionContent>
+                <p>It helps, but less than you might think. At typical savings rates, daily compounding earns only slightly more than monthly. The rate itself and how much you contribute matter far more.</p>
+              </AccordionContent>
+            </AccordionItem>
+            <AccordionItem value="item-2">
+              <AccordionTrigger>Are taxes included?</AccordionTrigger>
+              <AccordionContent>
+                <p>No. Interest in many accounts is taxable. Use an after-tax rate if you want a more conservative estimate.</p>
+              </AccordionContent>
+            </AccordionItem>
+          </Accordion>
+        </CardContent>
+      </Card>
+
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Summary</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">The Savings Calculator projects the growth of your savings with flexible contribution and compounding schedules, and can work backwards from a target and a date to tell you how much to save each period.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
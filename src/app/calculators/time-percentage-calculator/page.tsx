@@ -5,48 +5,28 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { calculateTimePercentage } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
-import Link from 'next/link';
 import { HelpCircle, Clock, Sigma } from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
-
-const formSchema = z.object({
-  partialTimeHours: z.coerce.number().min(0).default(0),
-  partialTimeMinutes: z.coerce.number().min(0).default(0),
-  partialTimeSeconds: z.coerce.number().min(0).default(0),
-  totalTimeHours: z.coerce.number().min(0).default(0),
-  totalTimeMinutes: z.coerce.number().min(0).default(0),
-  totalTimeSeconds: z.coerce.number().min(0).default(0),
-}).refine(data => (data.totalTimeHours * 3600 + data.totalTimeMinutes * 60 + data.totalTimeSeconds) > 0, {
-  message: "Total time must be greater than zero.",
-  path: ["totalTimeHours"],
-});
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { timePercentageSchema as formSchema } from '@/lib/calculator-schemas';
 
 type FormValues = z.infer<typeof formSchema>;
 
-const relatedCalculators: { name: string; href: string }[] = [
-    { name: 'Average Percentage', href: '/calculators/average-percentage-calculator' },
-    { name: 'Comparative Difference', href: '/calculators/comparative-difference-calculator' },
-    { name: 'Compounding Increase', href: '/calculators/compounding-increase-calculator' },
-    { name: 'Doubling Time', href: '/calculators/doubling-time-calculator' },
-    { name: 'Fraction to Percent', href: '/calculators/fraction-to-percent-calculator' },
-    { name: 'Fuel Cost', href: '/calculators/fuel-cost-calculator' },
-    { name: 'Historic Change', href: '/calculators/historic-change-calculator' },
-    { name: 'Investment Growth', href: '/calculators/investment-growth-calculator' },
-    { name: 'Percentage of a Percentage', href: '/calculators/percentage-of-a-percentage-calculator' },
-    { name: 'Percentage Point', href: '/calculators/percentage-point-calculator' },
-    { name: 'Value Percentage', href: '/calculators/value-percentage-calculator' },
-    { name: 'Percent Error', href: '/calculators/percent-error-calculator' },
-    { name: 'Percent to Goal', href: '/calculators/percent-to-goal-calculator' },
-    { name: 'Relative Change', href: '/calculators/relative-change-calculator' },
-    { name: 'Slope Percentage', href: '/calculators/slope-percentage-calculator' },
-].sort((a,b) => a.name.localeCompare(b.name));
-
 export default function TimePercentageCalculator() {
+  const formatter = useFormatter();
   const [result, setResult] = useState<ReturnType<typeof calculateTimePercentage> | null>(null);
 
   const form = useForm<FormValues>({
@@ -65,21 +45,26 @@ export default function TimePercentageCalculator() {
     const partialSeconds = data.partialTimeHours * 3600 + data.partialTimeMinutes * 60 + data.partialTimeSeconds;
     const totalSeconds = data.totalTimeHours * 3600 + data.totalTimeMinutes * 60 + data.totalTimeSeconds;
     const res = calculateTimePercentage(partialSeconds, totalSeconds);
+    if (!res.ok) form.setError('root.serverError', { type: 'custom', message: res.error.message });
     setResult(res);
   };
+
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('time-percentage-calculator', form, result);
   
-  const percentage = result ? parseFloat(result.percentage) : 0;
+  const percentage = result?.ok ? result.data.percentage : 0;
 
   return (
     <div className="space-y-8">
-      <Card>
+      <PrintReportHeader slug="time-percentage-calculator" form={form} result={result} />
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Time Percentage Calculator</CardTitle>
           <CardDescription>Calculate what percentage a smaller duration of time is of a larger total duration.</CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-6">
               <div>
                 <FormLabel>Partial Time</FormLabel>
                 <div className="grid grid-cols-3 gap-4 mt-2">
@@ -96,21 +81,28 @@ export default function TimePercentageCalculator() {
                   <FormField control={form.control} name="totalTimeSeconds" render={({ field }) => (<FormItem><FormControl><Input type="number" placeholder="Seconds" {...field} /></FormControl></FormItem>)} />
                 </div>
               </div>
-              <Button type="submit">Calculate Time Percentage</Button>
+              {form.formState.errors.root?.serverError && <FormMessage>{form.formState.errors.root.serverError.message}</FormMessage>}
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Calculate Time Percentage</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="time-percentage-calculator" form={form} />
+                <ScenarioComparison slug="time-percentage-calculator" form={form} />
+              </div>
             </form>
           </Form>
         </CardContent>
       </Card>
       
-      {result && (
+      {result?.ok && (
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
             <CardTitle>Time Percentage Result</CardTitle>
+            <ExportMenu slug="time-percentage-calculator" form={form} result={result} />
           </CardHeader>
           <CardContent className="text-center space-y-4">
             <div className="p-6 bg-primary/10 rounded-lg">
               <p className="text-sm text-muted-foreground">The partial time is</p>
-              <p className="text-4xl font-bold text-primary">{result.percentage}%</p>
+              <p className="text-4xl font-bold text-primary">{formatter.percent(result.data.percentage)}</p>
               <p className="text-sm text-muted-foreground">of the total time.</p>
             </div>
             <Progress value={percentage > 100 ? 100 : percentage} className="w-full" />
@@ -118,7 +110,7 @@ export default function TimePercentageCalculator() {
         </Card>
       )}
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Inputs</CardTitle>
         </CardHeader>
@@ -146,22 +138,9 @@ export default function TimePercentageCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Related Calculators</CardTitle>
-        </CardHeader>
-        <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {relatedCalculators.map((calc) => (
-                <Link href={calc.href} key={calc.name} className="block hover:no-underline">
-                <Card className="flex flex-col items-center justify-center p-4 border rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors h-full text-center">
-                    <span className="font-semibold">{calc.name}</span>
-                </Card>
-                </Link>
-            ))}
-        </CardContent>
-      </Card>
+      <RelatedCalculators slug="time-percentage-calculator" />
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>In-Depth Guide to Time Percentages</CardTitle>
         </CardHeader>
@@ -189,7 +168,7 @@ export default function TimePercentageCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Frequently Asked Questions</CardTitle>
         </CardHeader>
@@ -229,7 +208,7 @@ export default function TimePercentageCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Summary</CardTitle>
         </CardHeader>
@@ -4,7 +4,13 @@ import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { calculateValuePercentage } from '@/lib/calculators';
+import { solveValuePercentage } from '@/lib/calculators';
+import RelatedCalculators from '@/components/related-calculators';
+import CopyLinkButton from '@/components/copy-link-button';
+import BatchPanel from '@/components/batch-panel';
+import ScenarioComparison from '@/components/scenario-comparison';
+import ExportMenu from '@/components/export-menu';
+import PrintReportHeader from '@/components/print-report-header';
 import {
   Card,
   CardContent,
@@ -28,51 +34,41 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from '@/components/ui/accordion';
-import Link from 'next/link';
 import { HelpCircle, Percent, Sigma, Info } from 'lucide-react';
 import { useCountUp } from '@/hooks/use-count-up';
-
-const formSchema = z.object({
-  percentage: z.coerce.number().min(0, "Percentage can't be negative."),
-  totalValue: z.coerce.number(),
-});
+import { useShareableForm } from '@/hooks/use-shareable-form';
+import { useRecordCalculation } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { valuePercentageSchema as formSchema } from '@/lib/calculator-schemas';
 
 type FormValues = z.infer<typeof formSchema>;
 
-const relatedCalculators: { name: string; href: string }[] = [
-    { name: 'Average Percentage', href: '/calculators/average-percentage-calculator' },
-    { name: 'Comparative Difference', href: '/calculators/comparative-difference-calculator' },
-    { name: 'Compounding Increase', href: '/calculators/compounding-increase-calculator' },
-    { name: 'Doubling Time', href: '/calculators/doubling-time-calculator' },
-    { name: 'Fraction to Percent', href: '/calculators/fraction-to-percent-calculator' },
-    { name: 'Fuel Cost', href: '/calculators/fuel-cost-calculator' },
-    { name: 'Historic Change', href: '/calculators/historic-change-calculator' },
-    { name: 'Investment Growth', href: '/calculators/investment-growth-calculator' },
-    { name: 'Percentage of a Percentage', href: '/calculators/percentage-of-a-percentage-calculator' },
-    { name: 'Percentage Point', href: '/calculators/percentage-point-calculator' },
-    { name: 'Percent Error', href: '/calculators/percent-error-calculator' },
-    { name: 'Percent to Goal', href: '/calculators/percent-to-goal-calculator' },
-    { name: 'Relative Change', href: '/calculators/relative-change-calculator' },
-    { name: 'Slope Percentage', href: '/calculators/slope-percentage-calculator' },
-    { name: 'Time Percentage', href: '/calculators/time-percentage-calculator' },
-].sort((a,b) => a.name.localeCompare(b.name));
-
 export default function ValuePercentageCalculator() {
-  const [result, setResult] = useState<ReturnType<typeof calculateValuePercentage> | null>(null);
-  const animatedValue = useCountUp(result ? parseFloat(result.value) : 0);
+  const formatter = useFormatter();
+  const [result, setResult] = useState<ReturnType<typeof solveValuePercentage> | null>(null);
+  const solvedFor = result?.ok ? result.data.solvedFor : 'value';
+  const animatedValue = useCountUp(
+    result?.ok ? result.data[solvedFor] : 0,
+    solvedFor === 'percentage' ? formatter.percent : formatter.number
+  );
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       percentage: undefined,
       totalValue: undefined,
+      value: undefined,
     },
   });
 
   const onSubmit = (data: FormValues) => {
-    const res = calculateValuePercentage(data.percentage, data.totalValue);
+    const res = solveValuePercentage(data);
+    if (!res.ok) form.setError('root.serverError', { type: 'custom', message: res.error.message });
     setResult(res);
   };
+
+  const shareable = useShareableForm(form, onSubmit);
+  useRecordCalculation('value-percentage-calculator', form, result);
   
   useEffect(() => {
     if (result) {
@@ -82,17 +78,18 @@ export default function ValuePercentageCalculator() {
 
   return (
     <div className="space-y-8">
-      <Card>
+      <PrintReportHeader slug="value-percentage-calculator" form={form} result={result} />
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Value Percentage Calculator</CardTitle>
           <CardDescription>
-            Find the actual value of a percentage of any given number.
+            Find the actual value of a percentage of any given number. Leave any one field blank to solve for it.
           </CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <form onSubmit={form.handleSubmit(shareable.onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <FormField
                   control={form.control}
                   name="percentage"
@@ -119,28 +116,52 @@ export default function ValuePercentageCalculator() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="value"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2">Value</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="Leave blank to solve" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              {form.formState.errors.root?.serverError && <FormMessage>{form.formState.errors.root.serverError.message}</FormMessage>}
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit">Calculate Value</Button>
+                <CopyLinkButton onClick={shareable.copyLink} />
+                <BatchPanel slug="value-percentage-calculator" form={form} />
+                <ScenarioComparison slug="value-percentage-calculator" form={form} />
               </div>
-              <Button type="submit">Calculate Value</Button>
             </form>
           </Form>
         </CardContent>
       </Card>
       
-      {result && (
+      {result?.ok && (
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
             <CardTitle>Calculation Result</CardTitle>
+            <ExportMenu slug="value-percentage-calculator" form={form} result={result} />
           </CardHeader>
           <CardContent className="text-center">
              <div className="p-6 bg-primary/10 rounded-lg">
-                <p className="text-sm text-muted-foreground">{form.getValues('percentage')}% of {form.getValues('totalValue')} is</p>
+                <p className="text-sm text-muted-foreground">
+                  {result.data.solvedFor === 'value' && `${formatter.percent(result.data.percentage)} of ${formatter.number(result.data.totalValue)} is`}
+                  {result.data.solvedFor === 'percentage' && `${formatter.number(result.data.value)} out of ${formatter.number(result.data.totalValue)} is`}
+                  {result.data.solvedFor === 'totalValue' && `${formatter.number(result.data.value)} is ${formatter.percent(result.data.percentage)} of`}
+                </p>
                 <p className="text-4xl font-bold text-primary">{animatedValue}</p>
             </div>
           </CardContent>
         </Card>
       )}
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle className="flex items-center gap-2"><HelpCircle className="h-5 w-5" />Understanding the Inputs</CardTitle>
         </CardHeader>
@@ -153,6 +174,10 @@ export default function ValuePercentageCalculator() {
             <h3 className="font-semibold text-lg">Total Value</h3>
             <p className="text-muted-foreground">The whole amount that you are taking the percentage of. For example, if you're calculating a 15% tip on a $50 bill, the total value is 50.</p>
           </div>
+          <div>
+            <h3 className="font-semibold text-lg">Value</h3>
+            <p className="text-muted-foreground">The part of the total, usually left blank for the calculator to find. Fill it in and leave the percentage blank to ask "what percent of 200 is 50?", or leave the total blank to ask "50 is 25% of what?"</p>
+          </div>
         </CardContent>
       </Card>
       
@@ -166,25 +191,13 @@ export default function ValuePercentageCalculator() {
             <p className="font-mono text-sm md:text-base font-bold text-primary">Result = (Percentage / 100) * Total Value</p>
           </div>
            <p className="mt-2 text-muted-foreground">For instance, to find 25% of 200, the calculator computes (25 / 100) * 200, which equals 50.</p>
+           <p className="mt-2 text-muted-foreground">When the percentage or the total is the blank field, the same formula is rearranged: Percentage = Result / Total Value * 100, and Total Value = Result * 100 / Percentage.</p>
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Related Calculators</CardTitle>
-        </CardHeader>
-        <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {relatedCalculators.map((calc) => (
-                <Link href={calc.href} key={calc.name} className="block hover:no-underline">
-                <Card className="flex flex-col items-center justify-center p-4 border rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors h-full text-center">
-                    <span className="font-semibold">{calc.name}</span>
-                </Card>
-                </Link>
-            ))}
-        </CardContent>
-      </Card>
+      <RelatedCalculators slug="value-percentage-calculator" />
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
             <CardTitle>A Practical Guide to Percentages</CardTitle>
         </CardHeader>
@@ -207,7 +220,7 @@ export default function ValuePercentageCalculator() {
         </CardContent>
       </Card>
       
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Frequently Asked Questions</CardTitle>
         </CardHeader>
@@ -235,7 +248,7 @@ export default function ValuePercentageCalculator() {
         </CardContent>
       </Card>
 
-      <Card>
+      <Card className="print:hidden">
         <CardHeader>
           <CardTitle>Summary</CardTitle>
         </CardHeader>
@@ -12,7 +12,10 @@ import NavigationMenu from '@/components/navigation-menu';
 import { Toaster } from '@/components/ui/toaster';
 
 export const metadata: Metadata = {
-  title: 'FinanceFriend',
+  title: {
+    default: 'FinanceFriend',
+    template: '%s | FinanceFriend',
+  },
   description: 'All your financial calculators in one place.',
 };
 
@@ -0,0 +1,228 @@
+/**
+ * @fileOverview Runs any calculator from the command line, without the Next.js app.
+ *
+ *   npm run cli -- relative-change --old-value 80 --new-value 100
+ *   npm run cli -- fuel-cost --batch --output json < trips.csv
+ *
+ * Each calculator is a subcommand named after its slug, minus "-calculator".
+ * Flags are the calculator's input fields in kebab-case and are validated with
+ * the same schemas as the pages and the API. With `--batch`, CSV or TSV rows
+ * are read from stdin; columns name input fields and flags fill in the rest.
+ */
+
+import { calculatorEndpoints, type CalculatorEndpoint } from '@/lib/calculator-api';
+import type { CalculatorResult } from '@/lib/calculator-result';
+import { getCalculator } from '@/lib/calculator-registry';
+import { summarizeOutputs } from '@/lib/calculation-history';
+import { parseRecords } from '@/lib/csv';
+import { createFormatter, DEFAULT_FORMAT_SETTINGS, SUPPORTED_CURRENCIES, type CurrencyCode } from '@/lib/format';
+import { toJsonSchema, type JsonSchema } from '@/lib/openapi';
+
+type OutputFormat = 'json' | 'table';
+
+interface Field {
+  name: string;
+  schema: JsonSchema;
+}
+
+class UsageError extends Error {}
+
+const commands = new Map(
+  Object.entries(calculatorEndpoints).map(([slug, endpoint]) => [slug.replace(/-calculator$/, ''), { slug, endpoint }])
+);
+
+const toKebabCase = (name: string) => name.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+const toCamelCase = (name: string) => name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+function fieldsOf(endpoint: CalculatorEndpoint): Field[] {
+  const properties = (toJsonSchema(endpoint.schema).properties ?? {}) as Record<string, JsonSchema>;
+  return Object.entries(properties).map(([name, schema]) => ({ name, schema }));
+}
+
+// Strings are handed to the schema as-is, since it coerces numbers itself.
+function convertValue(field: Field, raw: string): unknown {
+  switch (field.schema.type) {
+    case 'boolean':
+      if (/^(true|1|yes)$/i.test(raw)) return true;
+      if (/^(false|0|no)$/i.test(raw)) return false;
+      throw new UsageError(`--${toKebabCase(field.name)} must be true or false.`);
+    case 'array':
+    case 'object':
+      try {
+        return JSON.parse(raw);
+      } catch {
+        throw new UsageError(`--${toKebabCase(field.name)} must be JSON.`);
+      }
+    default:
+      return raw;
+  }
+}
+
+function parseArgs(args: string[]) {
+  const flags = new Map<string, string | true>();
+  for (let i = 0; i < args.length; i++) {
+    const match = /^--([^=]+)(?:=(.*))?$/.exec(args[i]);
+    if (!match) throw new UsageError(`Unexpected argument "${args[i]}".`);
+    const [, name, inlineValue] = match;
+    if (inlineValue !== undefined) {
+      flags.set(name, inlineValue);
+    } else if (i + 1 < args.length && !args[i + 1].startsWith('--')) {
+      flags.set(name, args[++i]);
+    } else {
+      flags.set(name, true);
+    }
+  }
+  return flags;
+}
+
+function readStdin(): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let text = '';
+    process.stdin.setEncoding('utf8');
+    process.stdin.on('data', (chunk) => (text += chunk));
+    process.stdin.on('end', () => resolve(text));
+    process.stdin.on('error', reject);
+  });
+}
+
+function renderTable(headers: string[], rows: string[][]) {
+  const widths = headers.map((header, column) => Math.max(header.length, ...rows.map((row) => row[column].length)));
+  const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+  return [line(headers), line(widths.map((width) => '-'.repeat(width))), ...rows.map(line)].join('\n');
+}
+
+function describeField(field: Field) {
+  const { type, enum: options, default: defaultValue } = field.schema;
+  const kind = Array.isArray(options) ? options.join('|') : type === 'array' ? 'json' : String(type ?? 'value');
+  return `  --${toKebabCase(field.name)} <${kind}>${defaultValue !== undefined ? ` (default ${defaultValue})` : ''}`;
+}
+
+function printHelp(command?: string) {
+  if (command && commands.has(command)) {
+    const { slug, endpoint } = commands.get(command)!;
+    const calc = getCalculator(slug);
+    console.log(`${calc.title}\n${calc.description}\n\nUsage: cli ${command} [flags]\n\nInputs:`);
+    console.log(fieldsOf(endpoint).map(describeField).join('\n'));
+  } else {
+    console.log('Usage: cli <calculator> [flags]\n\nCalculators:');
+    console.log([...commands].map(([name, { slug }]) => `  ${name.padEnd(36)}${getCalculator(slug).shortTitle}`).join('\n'));
+  }
+  console.log(`
+Options:
+  --output <json|table>  Output format (default table)
+  --batch                Read CSV or TSV rows with a header from stdin
+  --locale <locale>      Locale for table output (default ${DEFAULT_FORMAT_SETTINGS.locale})
+  --currency <code>      Currency for table output (default ${DEFAULT_FORMAT_SETTINGS.currency})
+  --help                 Show this help`);
+}
+
+/** Stands in for a calculator that threw, so one bad batch row doesn't stop the rest. */
+type CrashedResult = { ok: false; error: { code: 'internal_error'; message: string } };
+
+function runCalculator(endpoint: CalculatorEndpoint, input: Record<string, unknown>): string | CalculatorResult<object> | CrashedResult {
+  const parsed = endpoint.schema.safeParse(input);
+  if (!parsed.success) {
+    return parsed.error.issues.map((issue) => `${issue.path.map(String).map(toKebabCase).join('.') || 'input'}: ${issue.message}`).join('; ');
+  }
+  try {
+    return endpoint.run(parsed.data);
+  } catch (error) {
+    return { ok: false, error: { code: 'internal_error', message: error instanceof Error ? error.message : String(error) } };
+  }
+}
+
+async function main(argv: string[]) {
+  const [command, ...rest] = argv;
+  if (!command || command === 'help' || command === '--help') {
+    printHelp(rest[0]);
+    return 0;
+  }
+  const entry = commands.get(command);
+  if (!entry) throw new UsageError(`Unknown calculator "${command}". Run with --help to list them.`);
+
+  const flags = parseArgs(rest);
+  if (flags.has('help')) {
+    printHelp(command);
+    return 0;
+  }
+
+  const output = (flags.get('output') ?? 'table') as OutputFormat;
+  if (output !== 'json' && output !== 'table') throw new UsageError('--output must be json or table.');
+  const currency = String(flags.get('currency') ?? DEFAULT_FORMAT_SETTINGS.currency).toUpperCase() as CurrencyCode;
+  if (!SUPPORTED_CURRENCIES.some((option) => option.value === currency)) throw new UsageError(`Unsupported currency "${currency}".`);
+  const formatter = createFormatter({
+    ...DEFAULT_FORMAT_SETTINGS,
+    locale: String(flags.get('locale') ?? DEFAULT_FORMAT_SETTINGS.locale),
+    currency,
+  });
+
+  const fields = fieldsOf(entry.endpoint);
+  const fieldsByName = new Map(fields.map((field) => [field.name, field]));
+  const toInput = (values: [string, string][]) => {
+    const input: Record<string, unknown> = {};
+    for (const [name, raw] of values) {
+      const field = fieldsByName.get(toCamelCase(name));
+      if (!field) throw new UsageError(`Unknown input "${name}" for ${command}. Run "${command} --help" to list them.`);
+      input[field.name] = convertValue(field, raw);
+    }
+    return input;
+  };
+
+  const reserved = new Set(['output', 'batch', 'locale', 'currency']);
+  const base = toInput(
+    [...flags]
+      .filter(([name]) => !reserved.has(name))
+      .map(([name, value]) => [name, value === true ? 'true' : value])
+  );
+
+  if (!flags.has('batch')) {
+    const result = runCalculator(entry.endpoint, base);
+    if (typeof result === 'string') throw new UsageError(result);
+    if (output === 'json') {
+      console.log(JSON.stringify(result, null, 2));
+    } else if (result.ok) {
+      const { outputs, units } = summarizeOutputs(result);
+      console.log(renderTable(['Result', 'Value'], Object.entries(outputs).map(([key, value]) => [key, formatter.result(value, units?.[key])])));
+    } else {
+      console.error(`${result.error.code}: ${result.error.message}`);
+    }
+    return result.ok ? 0 : 1;
+  }
+
+  // Empty cells fall back to the flags, so a column only needs values where rows differ.
+  const { columns, records } = parseRecords(await readStdin());
+  const results = records.map((record) => {
+    const input = { ...base, ...toInput(Object.entries(record).filter(([, value]) => value !== '')) };
+    return { input, result: runCalculator(entry.endpoint, input) };
+  });
+
+  if (output === 'json') {
+    console.log(JSON.stringify(results.map(({ input, result }) =>
+      typeof result === 'string' ? { input, ok: false, error: { code: 'validation_error', message: result } } : { input, ...result }
+    ), null, 2));
+  } else {
+    const summaries = results.map(({ result }) => (typeof result !== 'string' && result.ok ? summarizeOutputs(result) : null));
+    const outputColumns = [...new Set(summaries.flatMap((summary) => (summary ? Object.keys(summary.outputs) : [])))];
+    const rows = results.map(({ result }, index) => {
+      const summary = summaries[index];
+      const error = typeof result === 'string' ? result : result.ok ? '' : result.error.message;
+      return [
+        ...columns.map((column) => records[index][column]),
+        ...outputColumns.map((key) => (summary ? formatter.result(summary.outputs[key], summary.units?.[key]) : '')),
+        error,
+      ];
+    });
+    console.log(renderTable([...columns, ...outputColumns, 'error'], rows));
+  }
+  return results.every(({ result }) => typeof result !== 'string' && result.ok) ? 0 : 1;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = error instanceof UsageError ? 2 : 1;
+  }
+);
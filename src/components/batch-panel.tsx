@@ -0,0 +1,189 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { FieldValues, UseFormReturn } from 'react-hook-form';
+import { Download, Play, Rows3, Upload } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useFormatter } from '@/hooks/use-formatter';
+import {
+  autoMapColumns,
+  batchToCsv,
+  getBatchFields,
+  getOutputColumns,
+  MAX_BATCH_ROWS,
+  runBatch,
+  type BatchRow,
+  type ColumnMapping,
+} from '@/lib/batch';
+import { getCalculatorEndpoint } from '@/lib/calculator-api';
+import { parseRecords } from '@/lib/csv';
+import { downloadFile } from '@/lib/download';
+import { humanizeFieldName } from '@/lib/format';
+
+const FORM_VALUE = '__form__';
+
+/** Only this many rows are rendered; the download always has every row. */
+const PREVIEW_ROWS = 100;
+
+export default function BatchPanel<T extends FieldValues>({ slug, form }: { slug: string; form: UseFormReturn<T> }) {
+  const formatter = useFormatter();
+  const endpoint = getCalculatorEndpoint(slug);
+  const fields = useMemo(() => (endpoint ? getBatchFields(endpoint) : []), [endpoint]);
+  const [text, setText] = useState('');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [rows, setRows] = useState<BatchRow[] | null>(null);
+
+  const { columns, records } = useMemo(() => parseRecords(text), [text]);
+
+  if (!endpoint) return null;
+
+  const loadText = (value: string) => {
+    setText(value);
+    setMapping(autoMapColumns(fields, parseRecords(value).columns));
+    setRows(null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) loadText(await file.text());
+  };
+
+  const handleRun = () => {
+    setRows(runBatch(endpoint, fields, records, mapping, form.getValues()));
+  };
+
+  const outputColumns = rows ? getOutputColumns(rows) : [];
+  const failed = rows?.filter((row) => row.errors.length > 0).length ?? 0;
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button type="button" variant="outline">
+          <Rows3 className="w-4 h-4 mr-2" />
+          Batch
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col w-full sm:max-w-3xl">
+        <SheetHeader>
+          <SheetTitle>Batch Calculation</SheetTitle>
+          <SheetDescription>
+            Upload or paste CSV or TSV data with a header row. Unmapped fields and empty cells use the values in the form.
+          </SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          <div className="space-y-6 pb-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="batch-input">Data</Label>
+                <Button type="button" variant="ghost" size="sm" asChild>
+                  <label className="cursor-pointer">
+                    <Upload className="w-4 h-4 mr-2" />
+                    Upload file
+                    <input
+                      type="file"
+                      accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+                      className="sr-only"
+                      onChange={(event) => handleFile(event.target.files?.[0])}
+                    />
+                  </label>
+                </Button>
+              </div>
+              <Textarea
+                id="batch-input"
+                rows={6}
+                className="font-mono"
+                placeholder={fields.slice(0, 3).map((field) => field.name).join(',')}
+                value={text}
+                onChange={(event) => loadText(event.target.value)}
+              />
+              {records.length > MAX_BATCH_ROWS && (
+                <p className="text-sm text-muted-foreground">Only the first {formatter.integer(MAX_BATCH_ROWS)} rows will be calculated.</p>
+              )}
+            </div>
+
+            {columns.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-semibold">Column Mapping</h3>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  {fields.map((field) => (
+                    <div key={field.name} className="space-y-1">
+                      <Label htmlFor={`batch-map-${field.name}`}>{humanizeFieldName(field.name)}</Label>
+                      <Select
+                        value={mapping[field.name] ?? FORM_VALUE}
+                        onValueChange={(value) => setMapping({ ...mapping, [field.name]: value === FORM_VALUE ? null : value })}
+                      >
+                        <SelectTrigger id={`batch-map-${field.name}`}><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={FORM_VALUE}>Form value</SelectItem>
+                          {columns.filter(Boolean).map((column) => (
+                            <SelectItem key={column} value={column}>{column}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2 pt-2">
+                  <Button type="button" onClick={handleRun} disabled={records.length === 0}>
+                    <Play className="w-4 h-4 mr-2" />
+                    Calculate {formatter.integer(Math.min(records.length, MAX_BATCH_ROWS))} rows
+                  </Button>
+                  {rows && (
+                    <Button type="button" variant="outline" onClick={() => downloadFile(`${slug}-batch.csv`, batchToCsv(columns, rows))}>
+                      <Download className="w-4 h-4 mr-2" />
+                      Download CSV
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {rows && (
+              <div className="space-y-2">
+                <h3 className="font-semibold">Results</h3>
+                <p className="text-sm text-muted-foreground">
+                  {formatter.integer(rows.length - failed)} succeeded, {formatter.integer(failed)} with errors.
+                  {rows.length > PREVIEW_ROWS && ` Showing the first ${PREVIEW_ROWS}; the download includes every row.`}
+                </p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      {columns.map((column) => <TableHead key={column}>{column}</TableHead>)}
+                      {outputColumns.map((key) => <TableHead key={key}>{humanizeFieldName(key)}</TableHead>)}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                      <TableRow key={index} className={row.errors.length > 0 ? 'bg-destructive/10' : undefined}>
+                        <TableCell>{index + 1}</TableCell>
+                        {columns.map((column) => <TableCell key={column}>{row.record[column]}</TableCell>)}
+                        {row.errors.length > 0 ? (
+                          <TableCell colSpan={Math.max(outputColumns.length, 1)} className="text-destructive">{row.errors.join('; ')}</TableCell>
+                        ) : (
+                          outputColumns.map((key) => <TableCell key={key}>{formatter.result(row.outputs[key], row.units[key])}</TableCell>)
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
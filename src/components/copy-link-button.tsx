@@ -0,0 +1,13 @@
+'use client';
+
+import { Link2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+export default function CopyLinkButton({ onClick }: { onClick: () => void }) {
+  return (
+    <Button type="button" variant="outline" onClick={onClick}>
+      <Link2 className="w-4 h-4 mr-2" />
+      Copy link
+    </Button>
+  );
+}
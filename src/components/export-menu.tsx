@@ -0,0 +1,55 @@
+'use client';
+
+import type { FieldValues, UseFormReturn } from 'react-hook-form';
+import { format } from 'date-fns';
+import { Download, FileJson, FileSpreadsheet, Printer } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { useSubmittedValues } from '@/hooks/use-submitted-values';
+import type { CalculatorResult } from '@/lib/calculator-result';
+import { downloadFile } from '@/lib/download';
+import { resultToCsv, resultToJson } from '@/lib/export';
+
+export default function ExportMenu<T extends FieldValues>({
+  slug,
+  form,
+  result,
+}: {
+  slug: string;
+  form: UseFormReturn<T>;
+  result: CalculatorResult<object>;
+}) {
+  const inputs = useSubmittedValues(form, result);
+  const filename = (extension: string) => `${slug}-${format(new Date(), 'yyyy-MM-dd')}.${extension}`;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="print:hidden">
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => downloadFile(filename('csv'), resultToCsv(inputs, result))}>
+          <FileSpreadsheet className="w-4 h-4 mr-2" />
+          CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => downloadFile(filename('json'), resultToJson(slug, inputs, result), 'application/json')}>
+          <FileJson className="w-4 h-4 mr-2" />
+          JSON
+        </DropdownMenuItem>
+        {/* The page's print styles turn it into the report; see PrintReportHeader. */}
+        <DropdownMenuItem onSelect={() => window.print()}>
+          <Printer className="w-4 h-4 mr-2" />
+          Print report
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { Globe } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useFormatSettings, useFormatter } from '@/hooks/use-formatter';
+import { SUPPORTED_CURRENCIES, SUPPORTED_LOCALES, type CurrencyCode } from '@/lib/format';
+
+const AUTO_DIGITS = 'fixed';
+
+export default function FormatSettingsMenu() {
+  const { settings, setSettings } = useFormatSettings();
+  const formatter = useFormatter();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Number format">
+          <Globe className="h-5 w-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-4">
+        <div className="space-y-1">
+          <h3 className="font-semibold">Number Format</h3>
+          <p className="text-sm text-muted-foreground">Changes how results are displayed. Amounts are not converted between currencies.</p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="format-locale">Locale</Label>
+          <Select value={settings.locale} onValueChange={(locale) => setSettings({ locale })}>
+            <SelectTrigger id="format-locale"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {SUPPORTED_LOCALES.map((locale) => (
+                <SelectItem key={locale.value} value={locale.value}>{locale.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="format-currency">Currency</Label>
+          <Select value={settings.currency} onValueChange={(currency) => setSettings({ currency: currency as CurrencyCode })}>
+            <SelectTrigger id="format-currency"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {SUPPORTED_CURRENCIES.map((currency) => (
+                <SelectItem key={currency.value} value={currency.value}>{currency.value} – {currency.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="format-percent">Percent decimals</Label>
+            <Select value={String(settings.percentDecimals)} onValueChange={(value) => setSettings({ percentDecimals: Number(value) })}>
+              <SelectTrigger id="format-percent"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {[0, 1, 2, 3, 4].map((decimals) => (
+                  <SelectItem key={decimals} value={String(decimals)}>{decimals}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="format-digits">Significant digits</Label>
+            <Select
+              value={settings.significantDigits === null ? AUTO_DIGITS : String(settings.significantDigits)}
+              onValueChange={(value) => setSettings({ significantDigits: value === AUTO_DIGITS ? null : Number(value) })}
+            >
+              <SelectTrigger id="format-digits"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTO_DIGITS}>2 decimals</SelectItem>
+                {[3, 4, 6, 8].map((digits) => (
+                  <SelectItem key={digits} value={String(digits)}>{digits}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Preview: {formatter.currency(1234567.891)} · {formatter.percent(12.3456)} · {formatter.number(3.14159265)}
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+}
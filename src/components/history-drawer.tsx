@@ -0,0 +1,156 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { History, Pin, PinOff, Search, Trash2 } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useCalculationHistory } from '@/hooks/use-calculation-history';
+import { useFormatter } from '@/hooks/use-formatter';
+import { searchHistory, type HistoryEntry } from '@/lib/calculation-history';
+import { calculators, getCalculatorHref } from '@/lib/calculator-registry';
+import { humanizeFieldName } from '@/lib/format';
+import { serializeFormValues } from '@/lib/shareable-state';
+
+// History can outlive a calculator, so unknown slugs are tolerated rather than thrown on.
+const findCalculator = (slug: string) => calculators.find((calc) => calc.slug === slug);
+const getTitle = (slug: string) => findCalculator(slug)?.title ?? slug;
+
+function HistoryItem({
+  entry,
+  onOpen,
+  onTogglePin,
+  onRemove,
+}: {
+  entry: HistoryEntry;
+  onOpen: () => void;
+  onTogglePin: () => void;
+  onRemove: () => void;
+}) {
+  const formatter = useFormatter();
+  const outputs = Object.entries(entry.outputs).filter(([, value]) => value !== null && value !== '').slice(0, 3);
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <button type="button" onClick={onOpen} className="text-left hover:underline">
+          <p className="font-semibold">{getTitle(entry.slug)}</p>
+          <p className="text-xs text-muted-foreground">{format(entry.createdAt, 'MMM d, yyyy h:mm a')}</p>
+        </button>
+        <div className="flex shrink-0">
+          <Button variant="ghost" size="icon" onClick={onTogglePin} aria-label={entry.pinned ? 'Unpin' : 'Pin'}>
+            {entry.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+          </Button>
+          <Button variant="ghost" size="icon" onClick={onRemove} aria-label="Delete">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      {outputs.length > 0 && (
+        <dl className="grid grid-cols-2 gap-x-2 text-sm">
+          {outputs.map(([key, value]) => (
+            <div key={key} className="contents">
+              <dt className="text-muted-foreground truncate">{humanizeFieldName(key)}</dt>
+              <dd className="font-medium truncate text-right">{formatter.result(value, entry.units?.[key])}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
+
+export default function HistoryDrawer() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { entries, togglePin, remove, clear } = useCalculationHistory();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+
+  const { pinned, recent } = useMemo(() => {
+    const matches = searchHistory(entries, query, getTitle);
+    return {
+      pinned: matches.filter((entry) => entry.pinned),
+      recent: matches.filter((entry) => !entry.pinned),
+    };
+  }, [entries, query]);
+
+  const openEntry = (entry: HistoryEntry) => {
+    const calc = findCalculator(entry.slug);
+    if (!calc) return;
+    const href = getCalculatorHref(calc);
+    const url = `${href}?${serializeFormValues(entry.inputs).toString()}`;
+    setOpen(false);
+    // Shared inputs are applied when a calculator mounts, so re-opening into the current page needs a full load.
+    if (pathname === href) {
+      window.location.assign(url);
+    } else {
+      router.push(url);
+    }
+  };
+
+  const renderEntries = (items: HistoryEntry[]) =>
+    items.map((entry) => (
+      <HistoryItem
+        key={entry.id}
+        entry={entry}
+        onOpen={() => openEntry(entry)}
+        onTogglePin={() => togglePin(entry.id)}
+        onRemove={() => remove(entry.id)}
+      />
+    ));
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Calculation history">
+          <History className="h-5 w-5" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Calculation History</SheetTitle>
+          <SheetDescription>Your recent calculations are saved in this browser.</SheetDescription>
+        </SheetHeader>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input placeholder="Search history" value={query} onChange={(event) => setQuery(event.target.value)} className="pl-9" />
+        </div>
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          <div className="space-y-4 pb-4">
+            {pinned.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold text-muted-foreground">Pinned</h3>
+                {renderEntries(pinned)}
+              </div>
+            )}
+            {recent.length > 0 && (
+              <div className="space-y-2">
+                {pinned.length > 0 && <h3 className="text-sm font-semibold text-muted-foreground">Recent</h3>}
+                {renderEntries(recent)}
+              </div>
+            )}
+            {pinned.length === 0 && recent.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                {entries.length === 0 ? 'Calculations you run will appear here.' : 'No calculations match your search.'}
+              </p>
+            )}
+          </div>
+        </ScrollArea>
+        {entries.some((entry) => !entry.pinned) && (
+          <Button variant="outline" onClick={clear}>Clear unpinned history</Button>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
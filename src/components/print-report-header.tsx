@@ -0,0 +1,50 @@
+'use client';
+
+import type { FieldValues, UseFormReturn } from 'react-hook-form';
+import { format } from 'date-fns';
+import { useSubmittedValues } from '@/hooks/use-submitted-values';
+import type { CalculatorResult } from '@/lib/calculator-result';
+import { getCalculator } from '@/lib/calculator-registry';
+import { formatInputValue } from '@/lib/export';
+import { humanizeFieldName } from '@/lib/format';
+
+/**
+ * Heads the printed report in place of the form, which is hidden in print
+ * along with the guide and FAQ. Results, charts and the methodology print as
+ * they appear on the page.
+ */
+export default function PrintReportHeader<T extends FieldValues>({
+  slug,
+  form,
+  result,
+}: {
+  slug: string;
+  form: UseFormReturn<T>;
+  result: CalculatorResult<object> | null;
+}) {
+  const inputs = useSubmittedValues(form, result);
+  if (!result) return null;
+  const calc = getCalculator(slug);
+
+  return (
+    <section className="hidden print:block space-y-4">
+      <div>
+        <h1 className="text-2xl font-bold">{calc.title}</h1>
+        <p className="text-sm text-muted-foreground">Report generated {format(new Date(), 'MMMM d, yyyy h:mm a')}</p>
+      </div>
+      <div>
+        <h2 className="text-lg font-semibold mb-2">Inputs</h2>
+        <table className="w-full text-sm">
+          <tbody>
+            {Object.entries(inputs).map(([key, value]) => (
+              <tr key={key} className="border-b">
+                <td className="py-1 pr-4 text-muted-foreground">{humanizeFieldName(key)}</td>
+                <td className="py-1">{formatInputValue(value)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,25 @@
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { getCalculatorHref, getRelatedCalculators } from '@/lib/calculator-registry';
+
+export default function RelatedCalculators({ slug }: { slug: string }) {
+  const relatedCalculators = getRelatedCalculators(slug);
+  if (relatedCalculators.length === 0) return null;
+
+  return (
+    <Card className="print:hidden">
+      <CardHeader>
+        <CardTitle>Related Calculators</CardTitle>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {relatedCalculators.map((calc) => (
+          <Link href={getCalculatorHref(calc)} key={calc.slug} className="block hover:no-underline">
+            <Card className="flex flex-col items-center justify-center p-4 border rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors h-full text-center">
+              <span className="font-semibold">{calc.shortTitle}</span>
+            </Card>
+          </Link>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
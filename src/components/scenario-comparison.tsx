@@ -0,0 +1,200 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { FieldValues, UseFormReturn } from 'react-hook-form';
+import { Columns3, Plus, Trash2 } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { useFormatter } from '@/hooks/use-formatter';
+import { getCalculatorEndpoint } from '@/lib/calculator-api';
+import type { ResultUnit } from '@/lib/calculator-result';
+import { humanizeFieldName, type Formatter } from '@/lib/format';
+import {
+  compareOutcomes,
+  comparisonCharts,
+  mergeSeries,
+  runScenario,
+  type ComparisonCell,
+  type Scenario,
+} from '@/lib/scenarios';
+
+const MAX_SCENARIOS = 5;
+
+// Percent outputs differ in percentage points, not percent.
+function formatDelta(formatter: Formatter, cell: ComparisonCell, unit: ResultUnit | undefined) {
+  if (cell.delta === null) return null;
+  const sign = cell.delta > 0 ? '+' : '';
+  const delta = unit === 'percent' ? `${formatter.number(cell.delta)} pp` : formatter.result(cell.delta, unit);
+  const relative = unit !== 'percent' && cell.relativeDelta !== null ? ` (${sign}${formatter.percent(cell.relativeDelta, 1)})` : '';
+  return `${sign}${delta}${relative}`;
+}
+
+export default function ScenarioComparison<T extends FieldValues>({ slug, form }: { slug: string; form: UseFormReturn<T> }) {
+  const formatter = useFormatter();
+  const endpoint = getCalculatorEndpoint(slug);
+  const chart = comparisonCharts[slug];
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [baselineId, setBaselineId] = useState<string | null>(null);
+
+  const outcomes = useMemo(() => (endpoint ? scenarios.map((scenario) => runScenario(endpoint, scenario)) : []), [endpoint, scenarios]);
+  const rows = useMemo(() => compareOutcomes(outcomes, baselineId ?? ''), [outcomes, baselineId]);
+
+  if (!endpoint) return null;
+
+  const addScenario = () => {
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    setScenarios([...scenarios, { id, name: `Scenario ${scenarios.length + 1}`, inputs: form.getValues() }]);
+    if (scenarios.length === 0) setBaselineId(id);
+  };
+
+  const removeScenario = (id: string) => {
+    const remaining = scenarios.filter((scenario) => scenario.id !== id);
+    setScenarios(remaining);
+    if (id === baselineId) setBaselineId(remaining[0]?.id ?? null);
+  };
+
+  const renameScenario = (id: string, name: string) => {
+    setScenarios(scenarios.map((scenario) => (scenario.id === id ? { ...scenario, name } : scenario)));
+  };
+
+  const chartConfig = Object.fromEntries(
+    scenarios.map((scenario, index) => [`s${index}`, { label: scenario.name || `Scenario ${index + 1}`, color: `hsl(var(--chart-${(index % 5) + 1}))` }])
+  ) satisfies ChartConfig;
+  const chartData = chart
+    ? mergeSeries(outcomes.map((outcome) => (outcome.data ? chart.points(outcome.scenario.inputs, outcome.data) : [])))
+    : [];
+  const formatChartValue = (value: number) => formatter.result(value, chart?.unit);
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button type="button" variant="outline">
+          <Columns3 className="w-4 h-4 mr-2" />
+          Compare
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col w-full sm:max-w-4xl">
+        <SheetHeader>
+          <SheetTitle>Compare Scenarios</SheetTitle>
+          <SheetDescription>
+            Each scenario saves the inputs currently in the form. Change the form and add another to compare them side by side.
+          </SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          <div className="space-y-6 pb-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <Button type="button" onClick={addScenario} disabled={scenarios.length >= MAX_SCENARIOS}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add current inputs
+              </Button>
+              {scenarios.length > 1 && (
+                <div className="space-y-1">
+                  <Label htmlFor="scenario-baseline">Baseline</Label>
+                  <Select value={baselineId ?? undefined} onValueChange={setBaselineId}>
+                    <SelectTrigger id="scenario-baseline" className="w-48"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {scenarios.map((scenario, index) => (
+                        <SelectItem key={scenario.id} value={scenario.id}>{scenario.name || `Scenario ${index + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            {scenarios.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No scenarios yet. Add up to {MAX_SCENARIOS}.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead />
+                    {scenarios.map((scenario) => (
+                      <TableHead key={scenario.id} className="min-w-40 align-top py-2">
+                        <div className="flex items-center gap-1">
+                          <Input
+                            aria-label="Scenario name"
+                            className="h-8"
+                            value={scenario.name}
+                            onChange={(event) => renameScenario(scenario.id, event.target.value)}
+                          />
+                          <Button type="button" variant="ghost" size="icon" onClick={() => removeScenario(scenario.id)} aria-label="Remove scenario">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        {scenario.id === baselineId && <span className="text-xs font-normal">Baseline</span>}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {outcomes.some((outcome) => outcome.error) && (
+                    <TableRow>
+                      <TableCell className="font-medium">Error</TableCell>
+                      {outcomes.map((outcome) => (
+                        <TableCell key={outcome.scenario.id} className="text-destructive">{outcome.error}</TableCell>
+                      ))}
+                    </TableRow>
+                  )}
+                  {rows.map((row) => (
+                    <TableRow key={row.key}>
+                      <TableCell className="font-medium">{humanizeFieldName(row.key)}</TableCell>
+                      {row.cells.map((cell, index) => {
+                        const delta = formatDelta(formatter, cell, row.unit);
+                        return (
+                          <TableCell key={outcomes[index].scenario.id}>
+                            <div>{formatter.result(cell.value, row.unit)}</div>
+                            {delta && <div className={`text-xs ${cell.delta! > 0 ? 'text-accent' : cell.delta! < 0 ? 'text-destructive' : 'text-muted-foreground'}`}>{delta}</div>}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {chart && chartData.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-semibold">{chart.title}</h3>
+                <ChartContainer config={chartConfig} className="min-h-[250px] w-full">
+                  <LineChart accessibilityLayer data={chartData} margin={{ left: 12, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="x" type="number" domain={['dataMin', 'dataMax']} tickLine={false} axisLine={false} tickMargin={8} label={{ value: chart.xLabel, position: 'insideBottom', offset: -4 }} />
+                    <YAxis tickFormatter={chart.unit === 'currency' ? formatter.compactCurrency : formatChartValue} />
+                    <ChartTooltip cursor={false} content={<ChartTooltipContent valueFormatter={formatChartValue} />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {scenarios.map((scenario, index) => (
+                      <Line key={scenario.id} dataKey={`s${index}`} type="monotone" stroke={`var(--color-s${index})`} strokeWidth={2} dot={false} connectNulls />
+                    ))}
+                  </LineChart>
+                </ChartContainer>
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import * as React from "react";
+import type { FieldValues, UseFormReturn } from "react-hook-form";
+import {
+  addHistoryEntry,
+  createLocalStorageAdapter,
+  removeHistoryEntry,
+  summarizeOutputs,
+  togglePinnedEntry,
+  type HistoryEntry,
+  type HistoryStorageAdapter,
+} from "@/lib/calculation-history";
+import type { CalculatorResult } from "@/lib/calculator-result";
+
+// Shared across every mounted component, in the same way as the toast store.
+const listeners: Array<(entries: HistoryEntry[]) => void> = [];
+
+let adapter: HistoryStorageAdapter | null = null;
+let memoryState: HistoryEntry[] | null = null;
+
+function getAdapter() {
+  if (!adapter) adapter = createLocalStorageAdapter();
+  return adapter;
+}
+
+function getEntries() {
+  if (memoryState === null) memoryState = getAdapter().load();
+  return memoryState;
+}
+
+function update(change: (entries: HistoryEntry[]) => HistoryEntry[]) {
+  memoryState = change(getEntries());
+  getAdapter().save(memoryState);
+  listeners.forEach((listener) => {
+    listener(memoryState!);
+  });
+}
+
+/** Swaps the storage backend, e.g. for a memory adapter outside the browser. */
+function setHistoryStorageAdapter(next: HistoryStorageAdapter) {
+  adapter = next;
+  memoryState = null;
+}
+
+function recordCalculation(slug: string, inputs: Record<string, unknown>, result: CalculatorResult<object>) {
+  // Failed calculations have nothing worth revisiting.
+  if (!result.ok) return;
+  update((entries) => addHistoryEntry(entries, { slug, inputs, ...summarizeOutputs(result), createdAt: Date.now() }));
+}
+
+function useCalculationHistory() {
+  // Storage is only read after mount so server and client render the same markup.
+  const [entries, setEntries] = React.useState<HistoryEntry[]>([]);
+
+  React.useEffect(() => {
+    setEntries(getEntries());
+    listeners.push(setEntries);
+    return () => {
+      const index = listeners.indexOf(setEntries);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  return {
+    entries,
+    togglePin: (id: string) => update((current) => togglePinnedEntry(current, id)),
+    remove: (id: string) => update((current) => removeHistoryEntry(current, id)),
+    clear: () => update((current) => current.filter((entry) => entry.pinned)),
+  };
+}
+
+/** Records the form's submitted values alongside each new result a calculator page produces. */
+function useRecordCalculation<T extends FieldValues>(slug: string, form: UseFormReturn<T>, result: CalculatorResult<object> | null) {
+  React.useEffect(() => {
+    if (result === null) return;
+    recordCalculation(slug, form.getValues(), result);
+    // The slug and form are fixed for a page, so only a new result creates an entry.
+  }, [slug, form, result]);
+}
+
+export { useCalculationHistory, useRecordCalculation, recordCalculation, setHistoryStorageAdapter };
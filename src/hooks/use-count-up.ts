@@ -6,8 +6,12 @@ const easeOutExpo = (t: number): number => {
   return t === 1 ? 1 : 1 - Math.pow(2, -10 * t);
 };
 
+const toFixed2 = (value: number) => value.toFixed(2);
+
+/** Animates from 0 to `endValue`, rendering each frame through `format` (e.g. a `useFormatter` method). */
 export function useCountUp(
   endValue: number,
+  format: (value: number) => string = toFixed2,
   duration: number = 2000,
   decimalPlaces: number = 2
 ) {
@@ -57,7 +61,7 @@ export function useCountUp(
     };
   }, [endValue, duration, decimalPlaces]);
 
-  return count.toFixed(decimalPlaces);
+  return format(count);
 }
 
     
\ No newline at end of file
@@ -0,0 +1,75 @@
+"use client";
+
+import * as React from "react";
+import {
+  createFormatter,
+  DEFAULT_FORMAT_SETTINGS,
+  SUPPORTED_CURRENCIES,
+  SUPPORTED_LOCALES,
+  type FormatSettings,
+} from "@/lib/format";
+
+const STORAGE_KEY = "financefriend:format";
+
+// Shared across every mounted component, in the same way as the toast store.
+const listeners: Array<(settings: FormatSettings) => void> = [];
+
+let memoryState: FormatSettings | null = null;
+
+// Settings saved by an older version may name a locale or currency that is no longer offered.
+function sanitize(value: Partial<FormatSettings>): FormatSettings {
+  const settings = { ...DEFAULT_FORMAT_SETTINGS, ...value };
+  if (!SUPPORTED_LOCALES.some((locale) => locale.value === settings.locale)) settings.locale = DEFAULT_FORMAT_SETTINGS.locale;
+  if (!SUPPORTED_CURRENCIES.some((currency) => currency.value === settings.currency)) settings.currency = DEFAULT_FORMAT_SETTINGS.currency;
+  return settings;
+}
+
+function getSettings() {
+  if (memoryState === null) {
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      memoryState = sanitize(raw ? JSON.parse(raw) : {});
+    } catch {
+      memoryState = DEFAULT_FORMAT_SETTINGS;
+    }
+  }
+  return memoryState;
+}
+
+function setFormatSettings(change: Partial<FormatSettings>) {
+  memoryState = sanitize({ ...getSettings(), ...change });
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(memoryState));
+  } catch {
+    // Storage is unavailable; the choice lasts for this visit only.
+  }
+  listeners.forEach((listener) => {
+    listener(memoryState!);
+  });
+}
+
+function useFormatSettings() {
+  // Storage is only read after mount so server and client render the same markup.
+  const [settings, setSettings] = React.useState<FormatSettings>(DEFAULT_FORMAT_SETTINGS);
+
+  React.useEffect(() => {
+    setSettings(getSettings());
+    listeners.push(setSettings);
+    return () => {
+      const index = listeners.indexOf(setSettings);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  return { settings, setSettings: setFormatSettings };
+}
+
+/** Number, currency and percent formatters for the reader's chosen locale and currency. */
+function useFormatter() {
+  const { settings } = useFormatSettings();
+  return React.useMemo(() => createFormatter(settings), [settings]);
+}
+
+export { useFormatter, useFormatSettings, setFormatSettings };
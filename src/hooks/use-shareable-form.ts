@@ -0,0 +1,61 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import type { FieldValues, UseFormReturn } from "react-hook-form";
+import { useToast } from "@/hooks/use-toast";
+import { deserializeFormValues, serializeFormValues } from "@/lib/shareable-state";
+
+/**
+ * Keeps a calculator's validated inputs in the page URL. Inputs found in the
+ * query string on load are applied to the form and calculated straight away;
+ * every successful submit writes the inputs back to the URL.
+ */
+export function useShareableForm<T extends FieldValues>(
+  form: UseFormReturn<T>,
+  onSubmit: (data: T) => void
+) {
+  const { toast } = useToast();
+  const onSubmitRef = useRef(onSubmit);
+  onSubmitRef.current = onSubmit;
+
+  const buildUrl = useCallback(() => {
+    // Read the values after onSubmit so anything it fills in (e.g. a generated seed) is kept.
+    const params = serializeFormValues(form.getValues());
+    return `${window.location.origin}${window.location.pathname}?${params.toString()}`;
+  }, [form]);
+
+  // Stable for the life of the form, so the effect below only applies the URL present on first load.
+  const submit = useCallback((data: T) => {
+    onSubmitRef.current(data);
+    window.history.replaceState(null, "", buildUrl());
+  }, [buildUrl]);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const defaults = form.getValues();
+    const shared = deserializeFormValues(params, defaults);
+    if (Object.keys(shared).length === 0) return;
+
+    form.reset({ ...defaults, ...shared });
+    form.handleSubmit(submit)();
+  }, [form, submit]);
+
+  const copyLink = form.handleSubmit(async (data) => {
+    submit(data);
+    try {
+      await navigator.clipboard.writeText(buildUrl());
+      toast({
+        title: "Link copied",
+        description: "Anyone with this link will see this calculation.",
+      });
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Couldn't copy link",
+        description: "Copy the address from your browser's address bar instead.",
+      });
+    }
+  });
+
+  return { onSubmit: submit, copyLink };
+}
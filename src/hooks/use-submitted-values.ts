@@ -0,0 +1,18 @@
+"use client";
+
+import * as React from "react";
+import type { FieldValues, UseFormReturn } from "react-hook-form";
+
+/** The form values as they were when `result` was produced, so later edits don't leak into exports. */
+function useSubmittedValues<T extends FieldValues>(form: UseFormReturn<T>, result: unknown): T {
+  const [snapshot, setSnapshot] = React.useState(() => ({ result, values: form.getValues() }));
+  // Only a new result takes a new snapshot; updating state during render avoids showing the stale one for a frame.
+  if (snapshot.result !== result) {
+    const next = { result, values: form.getValues() };
+    setSnapshot(next);
+    return next.values;
+  }
+  return snapshot.values;
+}
+
+export { useSubmittedValues };
@@ -0,0 +1,113 @@
+/**
+ * Runs a calculator over many rows of CSV or TSV input. Columns are mapped to
+ * the calculator's input fields; anything unmapped takes the value from the
+ * form, so a file only needs the columns that change from row to row.
+ */
+import type { CalculatorEndpoint } from '@/lib/calculator-api';
+import type { ResultUnit } from '@/lib/calculator-result';
+import { summarizeOutputs, type HistoryEntry } from '@/lib/calculation-history';
+import { toDelimited } from '@/lib/csv';
+import { toJsonSchema, type JsonSchema } from '@/lib/openapi';
+
+/** Larger files are cut off here so the page stays responsive. */
+export const MAX_BATCH_ROWS = 2000;
+
+export interface BatchField {
+    name: string;
+    schema: JsonSchema;
+}
+
+/** Input field name to the column it is read from, or null to use the form value. */
+export type ColumnMapping = Record<string, string | null>;
+
+export interface BatchRow {
+    record: Record<string, string>;
+    outputs: HistoryEntry['outputs'];
+    units: Record<string, ResultUnit>;
+    /** Validation or calculator messages; empty when the row succeeded. */
+    errors: string[];
+}
+
+export function getBatchFields(endpoint: CalculatorEndpoint): BatchField[] {
+    const properties = (toJsonSchema(endpoint.schema).properties ?? {}) as Record<string, JsonSchema>;
+    return Object.entries(properties).map(([name, schema]) => ({ name, schema }));
+}
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Maps each field to the column of the same name, ignoring case, spaces and punctuation. */
+export function autoMapColumns(fields: BatchField[], columns: string[]): ColumnMapping {
+    return Object.fromEntries(
+        fields.map((field) => [field.name, columns.find((column) => normalize(column) === normalize(field.name)) ?? null])
+    );
+}
+
+// Numbers stay strings because the schemas coerce them; other types are converted here.
+function cellValue(schema: JsonSchema, raw: string): unknown {
+    if (schema.type === 'boolean') {
+        if (/^(true|1|yes)$/i.test(raw)) return true;
+        if (/^(false|0|no)$/i.test(raw)) return false;
+    }
+    if (schema.type === 'array' || schema.type === 'object') {
+        try {
+            return JSON.parse(raw);
+        } catch {
+            // Left as text so validation reports it against the field.
+        }
+    }
+    return raw;
+}
+
+export function runBatch(
+    endpoint: CalculatorEndpoint,
+    fields: BatchField[],
+    records: Record<string, string>[],
+    mapping: ColumnMapping,
+    defaults: Record<string, unknown>
+): BatchRow[] {
+    return records.slice(0, MAX_BATCH_ROWS).map((record) => {
+        const input: Record<string, unknown> = { ...defaults };
+        for (const field of fields) {
+            const column = mapping[field.name];
+            // An empty cell falls back to the form value, like an unmapped column.
+            if (column && record[column] !== undefined && record[column] !== '') input[field.name] = cellValue(field.schema, record[column]);
+        }
+
+        const parsed = endpoint.schema.safeParse(input);
+        if (!parsed.success) {
+            return {
+                record,
+                outputs: {},
+                units: {},
+                errors: parsed.error.issues.map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)),
+            };
+        }
+        // A calculator that throws fails only its own row, not the whole file.
+        try {
+            const result = endpoint.run(parsed.data);
+            if (!result.ok) return { record, outputs: {}, units: {}, errors: [result.error.message] };
+            const { outputs, units = {} } = summarizeOutputs(result);
+            return { record, outputs, units, errors: [] };
+        } catch (error) {
+            return { record, outputs: {}, units: {}, errors: [error instanceof Error ? error.message : String(error)] };
+        }
+    });
+}
+
+/** Output columns in first-seen order across every successful row. */
+export function getOutputColumns(rows: BatchRow[]) {
+    return [...new Set(rows.flatMap((row) => Object.keys(row.outputs)))];
+}
+
+/** The input columns as uploaded, followed by raw result values and an error column. */
+export function batchToCsv(columns: string[], rows: BatchRow[]) {
+    const outputColumns = getOutputColumns(rows);
+    return toDelimited([
+        [...columns, ...outputColumns, 'error'],
+        ...rows.map((row) => [
+            ...columns.map((column) => row.record[column]),
+            ...outputColumns.map((key) => row.outputs[key]),
+            row.errors.join('; '),
+        ]),
+    ]);
+}
@@ -0,0 +1,103 @@
+/**
+ * Calculation history: the entry model, the storage adapters that persist it
+ * and the pure operations the history hook applies to it.
+ */
+import type { CalculatorSuccess, ResultUnit } from '@/lib/calculator-result';
+
+export interface HistoryEntry {
+    id: string;
+    /** Registry slug of the calculator that produced the entry. */
+    slug: string;
+    /** Form values as submitted; re-opened through the shareable URL. */
+    inputs: Record<string, unknown>;
+    /** Headline results only. Tables and chart series are recomputed on re-open. */
+    outputs: Record<string, string | number | boolean | null>;
+    /** Display unit of each numeric output, taken from the calculator result. */
+    units?: Record<string, ResultUnit>;
+    createdAt: number;
+    pinned: boolean;
+}
+
+export interface HistoryStorageAdapter {
+    load(): HistoryEntry[];
+    save(entries: HistoryEntry[]): void;
+}
+
+/** Unpinned entries beyond this are dropped, oldest first. */
+export const MAX_HISTORY_ENTRIES = 100;
+
+export function createLocalStorageAdapter(key = 'financefriend:history'): HistoryStorageAdapter {
+    return {
+        load() {
+            try {
+                const raw = window.localStorage.getItem(key);
+                const parsed = raw ? JSON.parse(raw) : [];
+                return Array.isArray(parsed) ? parsed : [];
+            } catch {
+                return [];
+            }
+        },
+        save(entries) {
+            try {
+                window.localStorage.setItem(key, JSON.stringify(entries));
+            } catch {
+                // Storage is full or unavailable (e.g. private browsing); history stays in memory.
+            }
+        },
+    };
+}
+
+export function createMemoryAdapter(initial: HistoryEntry[] = []): HistoryStorageAdapter {
+    let stored = initial;
+    return {
+        load: () => stored,
+        save: (entries) => {
+            stored = entries;
+        },
+    };
+}
+
+/** Keeps only the top-level scalar fields of a successful calculator result, with their units. */
+export function summarizeOutputs(result: CalculatorSuccess<object>): Pick<HistoryEntry, 'outputs' | 'units'> {
+    const outputs: HistoryEntry['outputs'] = {};
+    const units: Record<string, ResultUnit> = {};
+    for (const [key, value] of Object.entries(result.data)) {
+        if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+            outputs[key] = value as string | number | boolean | null;
+            const unit = (result.units as Record<string, ResultUnit | undefined>)[key];
+            if (unit) units[key] = unit;
+        }
+    }
+    return { outputs, units };
+}
+
+export function addHistoryEntry(entries: HistoryEntry[], entry: Omit<HistoryEntry, 'id' | 'pinned'>): HistoryEntry[] {
+    // Re-submitting the same inputs (e.g. copying a link) refreshes the latest entry instead of duplicating it.
+    const [latest, ...rest] = entries;
+    if (latest && latest.slug === entry.slug && JSON.stringify(latest.inputs) === JSON.stringify(entry.inputs)) {
+        return [{ ...latest, outputs: entry.outputs, units: entry.units, createdAt: entry.createdAt }, ...rest];
+    }
+
+    const next = [{ ...entry, id: `${entry.createdAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`, pinned: false }, ...entries];
+    let unpinned = 0;
+    return next.filter((item) => item.pinned || ++unpinned <= MAX_HISTORY_ENTRIES);
+}
+
+export function togglePinnedEntry(entries: HistoryEntry[], id: string) {
+    return entries.map((entry) => (entry.id === id ? { ...entry, pinned: !entry.pinned } : entry));
+}
+
+export function removeHistoryEntry(entries: HistoryEntry[], id: string) {
+    return entries.filter((entry) => entry.id !== id);
+}
+
+/** Case-insensitive match against the calculator title and every input and output value. */
+export function searchHistory(entries: HistoryEntry[], query: string, getTitle: (slug: string) => string) {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return entries;
+    return entries.filter((entry) => {
+        const inputs = Object.values(entry.inputs).map((value) => (typeof value === 'object' ? JSON.stringify(value) : String(value)));
+        const haystack = [getTitle(entry.slug), ...inputs, ...Object.values(entry.outputs).map(String)].join(' ').toLowerCase();
+        return terms.every((term) => haystack.includes(term));
+    });
+}
@@ -0,0 +1,220 @@
+/**
+ * Maps each calculator slug to its input schema and a function that turns
+ * validated input into a calculator call. The mapping mirrors each page's
+ * onSubmit, so the API and the page give the same answer for the same input.
+ */
+import * as z from 'zod';
+import { differenceInCalendarDays } from 'date-fns';
+import type { CalculatorResult } from '@/lib/calculator-result';
+import * as schemas from '@/lib/calculator-schemas';
+import {
+    addSubtractPolynomials,
+    calculateAutoLoan,
+    calculateAveragePercentage,
+    calculateBessel,
+    calculateBinomialCoefficient,
+    calculateComparativeDifference,
+    calculateCompoundingIncrease,
+    calculateDoublingTime,
+    calculateFractionToPercent,
+    calculateHistoricChange,
+    calculateInvestment,
+    calculateInvestmentGrowth,
+    calculateLoan,
+    calculateMortgage,
+    calculatePercentageOfPercentage,
+    calculatePercentagePoint,
+    calculatePercentError,
+    calculateRequiredContribution,
+    calculateRetirement,
+    calculateSavings,
+    calculateSlopePercentage,
+    calculateTimePercentage,
+    dividePolynomials,
+    factorPolynomial,
+    factorQuadraticBox,
+    multiplyPolynomialsBox,
+    randomSeed,
+    runMonteCarloSimulation,
+    solveAbsoluteValueEquation,
+    solveAbsoluteValueInequality,
+    solveFuelCost,
+    solvePercentToGoal,
+    solveRelativeChange,
+    solveValuePercentage,
+} from '@/lib/calculators';
+
+export interface CalculatorEndpoint<Schema extends z.ZodTypeAny = z.ZodTypeAny> {
+    schema: Schema;
+    // Method syntax keeps endpoints with different inputs assignable to the map's value type.
+    run(input: z.output<Schema>): CalculatorResult<object>;
+}
+
+function endpoint<Schema extends z.ZodTypeAny>(schema: Schema, run: (input: z.output<Schema>) => CalculatorResult<object>): CalculatorEndpoint {
+    return { schema, run };
+}
+
+export const calculatorEndpoints: Record<string, CalculatorEndpoint> = {
+    // FINANCIAL CALCULATORS
+    'auto-loan-calculator': endpoint(schemas.autoLoanSchema, (data) =>
+        calculateAutoLoan(
+            data.vehiclePrice,
+            data.downPayment,
+            data.tradeInValue,
+            data.tradeInPayoff,
+            data.salesTaxRate,
+            data.dealerFees,
+            data.interestRate,
+            data.termMonths,
+            {
+                taxTradeInCredit: data.taxTradeInCredit,
+                monthlyBudget: data.monthlyBudget || undefined,
+                ownership: {
+                    monthlyDistance: data.monthlyDistance,
+                    distanceUnit: data.distanceUnit,
+                    efficiency: data.efficiency,
+                    efficiencyUnit: data.efficiencyUnit,
+                    fuelPrice: data.fuelPrice,
+                    priceUnit: data.priceUnit,
+                    monthlyInsurance: data.monthlyInsurance,
+                    monthlyMaintenance: data.monthlyMaintenance,
+                },
+            }
+        )
+    ),
+    'average-percentage-calculator': endpoint(schemas.averagePercentageSchema, (data) => calculateAveragePercentage(data.entries)),
+    'comparative-difference-calculator': endpoint(schemas.comparativeDifferenceSchema, (data) =>
+        calculateComparativeDifference(data.valueA, data.valueB)
+    ),
+    'compounding-increase-calculator': endpoint(schemas.compoundingIncreaseSchema, (data) =>
+        calculateCompoundingIncrease(data.initialValue, data.percentageIncrease, data.periods)
+    ),
+    'doubling-time-calculator': endpoint(schemas.doublingTimeSchema, (data) => calculateDoublingTime(data.growthRate)),
+    'fraction-to-percent-calculator': endpoint(schemas.fractionToPercentSchema, (data) =>
+        calculateFractionToPercent(data.numerator, data.denominator)
+    ),
+    'fuel-cost-calculator': endpoint(schemas.fuelCostSchema, (data) =>
+        solveFuelCost(
+            { distance: data.distance, efficiency: data.efficiency, fuelPrice: data.fuelPrice, totalCost: data.totalCost },
+            data.distanceUnit,
+            data.efficiencyUnit,
+            data.priceUnit
+        )
+    ),
+    'historic-change-calculator': endpoint(schemas.historicChangeSchema, (data) => calculateHistoricChange(data.oldValue, data.newValue)),
+    'investment-calculator': endpoint(schemas.investmentSchema, (data) =>
+        calculateInvestment(
+            data.initialInvestment,
+            data.contribution,
+            data.contributionFrequency,
+            data.years,
+            data.returnMode === 'fixed' ? [data.annualReturn] : schemas.parseReturnSeries(data.returnSeries),
+            data.expenseRatio,
+            data.advisoryFee,
+            data.taxRate,
+            data.taxTreatment
+        )
+    ),
+    'investment-growth-calculator': endpoint(schemas.investmentGrowthSchema, (data) =>
+        calculateInvestmentGrowth(data.initialAmount, data.finalAmount)
+    ),
+    'loan-calculator': endpoint(schemas.loanSchema, (data) => {
+        const [year, month] = data.startDate.split('-').map(Number);
+        return calculateLoan(data.principal, data.interestRate, Math.round(data.termYears * 12), data.loanType, {
+            interestOnlyMonths: Math.round(data.interestOnlyYears * 12),
+            amortizationMonths: Math.round(data.amortizationYears * 12),
+            extraPayments: [
+                { amount: data.extraMonthly, startMonth: 1, frequency: 'monthly' },
+                { amount: data.extraYearly, startMonth: 12, frequency: 'yearly' },
+                { amount: data.lumpSum, startMonth: data.lumpSumMonth, frequency: 'once' },
+            ],
+            startDate: new Date(year, month - 1, 1),
+        });
+    }),
+    // Without a seed each call is a fresh run; the seed used is returned so it can be repeated.
+    'monte-carlo-calculator': endpoint(schemas.monteCarloSchema, (data) =>
+        runMonteCarloSimulation(
+            data.initialValue,
+            data.annualContribution,
+            data.meanReturn,
+            data.volatility,
+            data.years,
+            data.simulations,
+            data.seed ?? randomSeed(),
+            data.targetValue
+        )
+    ),
+    'mortgage-calculator': endpoint(schemas.mortgageSchema, (data) =>
+        calculateMortgage(
+            data.homePrice,
+            data.downPayment,
+            data.interestRate,
+            data.loanTerm,
+            data.propertyTaxRate,
+            data.annualInsurance,
+            data.pmiRate,
+            data.monthlyHoa
+        )
+    ),
+    'percent-error-calculator': endpoint(schemas.percentErrorSchema, (data) => calculatePercentError(data.observedValue, data.trueValue)),
+    'percent-to-goal-calculator': endpoint(schemas.percentToGoalSchema, (data) => solvePercentToGoal(data)),
+    'percentage-of-a-percentage-calculator': endpoint(schemas.percentageOfAPercentageSchema, (data) =>
+        calculatePercentageOfPercentage(data.percentage1, data.percentage2)
+    ),
+    'percentage-point-calculator': endpoint(schemas.percentagePointSchema, (data) =>
+        calculatePercentagePoint(data.percentage1, data.percentage2)
+    ),
+    'relative-change-calculator': endpoint(schemas.relativeChangeSchema, (data) => solveRelativeChange(data)),
+    'retirement-calculator': endpoint(schemas.retirementSchema, (data) =>
+        calculateRetirement(
+            data.currentAge,
+            data.retirementAge,
+            data.lifeExpectancy,
+            data.currentSavings,
+            data.annualContribution,
+            data.preRetirementReturn,
+            data.postRetirementReturn,
+            data.inflationRate,
+            data.withdrawalRate
+        )
+    ),
+    'savings-calculator': endpoint(schemas.savingsSchema, (data) => {
+        if (data.mode === 'goal') {
+            const years = differenceInCalendarDays(new Date(data.targetDate), new Date()) / 365.25;
+            return calculateRequiredContribution(data.targetAmount, data.initialDeposit, data.contributionFrequency, data.interestRate, data.compoundingFrequency, years, data.depositTiming);
+        }
+        return calculateSavings(data.initialDeposit, data.contribution, data.contributionFrequency, data.interestRate, data.compoundingFrequency, data.years, data.depositTiming);
+    }),
+    'slope-percentage-calculator': endpoint(schemas.slopePercentageSchema, (data) => calculateSlopePercentage(data.rise, data.run)),
+    'time-percentage-calculator': endpoint(schemas.timePercentageSchema, (data) =>
+        calculateTimePercentage(
+            data.partialTimeHours * 3600 + data.partialTimeMinutes * 60 + data.partialTimeSeconds,
+            data.totalTimeHours * 3600 + data.totalTimeMinutes * 60 + data.totalTimeSeconds
+        )
+    ),
+    'value-percentage-calculator': endpoint(schemas.valuePercentageSchema, (data) => solveValuePercentage(data)),
+
+    // ALGEBRA CALCULATORS
+    'absolute-value-equation-calculator': endpoint(schemas.absoluteValueEquationSchema, (data) =>
+        solveAbsoluteValueEquation(data.equation)
+    ),
+    'absolute-value-inequalities-calculator': endpoint(schemas.absoluteValueInequalitiesSchema, (data) =>
+        solveAbsoluteValueInequality(data.inequality)
+    ),
+    'adding-and-subtracting-polynomials-calculator': endpoint(schemas.addingAndSubtractingPolynomialsSchema, (data) =>
+        addSubtractPolynomials(data.poly1, data.poly2, data.operation)
+    ),
+    'bessel-function-calculator': endpoint(schemas.besselFunctionSchema, (data) => calculateBessel(data.order, data.xValue)),
+    'binomial-coefficient-calculator': endpoint(schemas.binomialCoefficientSchema, (data) => calculateBinomialCoefficient(data.n, data.k)),
+    'box-method-calculator': endpoint(schemas.boxMethodSchema, (data) =>
+        data.mode === 'factor' ? factorQuadraticBox(data.quadratic) : multiplyPolynomialsBox(data.poly1, data.poly2)
+    ),
+    'polynomial-division-calculator': endpoint(schemas.polynomialDivisionSchema, (data) =>
+        dividePolynomials(data.dividend, data.divisor, data.method)
+    ),
+    'polynomial-factoring-calculator': endpoint(schemas.polynomialFactoringSchema, (data) => factorPolynomial(data.polynomial)),
+};
+
+export function getCalculatorEndpoint(slug: string): CalculatorEndpoint | undefined {
+    return Object.prototype.hasOwnProperty.call(calculatorEndpoints, slug) ? calculatorEndpoints[slug] : undefined;
+}
@@ -0,0 +1,399 @@
+import type { Metadata } from 'next';
+import {
+  Percent,
+  TrendingUp,
+  ArrowRightLeft,
+  ChevronsRight,
+  Calculator,
+  Fuel,
+  Divide,
+  Clock,
+  Minus,
+  Target,
+  Thermometer,
+  AreaChart,
+  FunctionSquare,
+  Sigma,
+  Box,
+  Landmark,
+  HandCoins,
+  PiggyBank,
+  Sunset,
+  Car,
+  LineChart,
+  Dices,
+  Spline,
+  type LucideIcon,
+} from 'lucide-react';
+
+export type CalculatorCategory = 'financial' | 'algebra';
+
+export interface CalculatorDefinition {
+  /** Route segment, also used as the stable identifier across the app. */
+  slug: string;
+  /** Full title, used for page metadata and home page cards. */
+  title: string;
+  /** Compact label for the sidebar and related-calculator links. */
+  shortTitle: string;
+  category: CalculatorCategory;
+  icon: LucideIcon;
+  description: string;
+  tags: string[];
+  /** Slugs of calculators shown in the "Related Calculators" section. */
+  related: string[];
+}
+
+export const calculatorCategories: { id: CalculatorCategory; label: string }[] = [
+  { id: 'financial', label: 'Financial Calculators' },
+  { id: 'algebra', label: 'Algebra Calculators' },
+];
+
+export const calculators: CalculatorDefinition[] = [
+  // Financial
+  {
+    slug: 'average-percentage-calculator',
+    title: 'Average Percentage Calculator',
+    shortTitle: 'Average Percentage',
+    category: 'financial',
+    icon: Calculator,
+    description: 'Calculate the weighted average of percentages from groups of different sizes, with median, range and spread.',
+    tags: ['percentage', 'average', 'mean', 'weighted', 'statistics'],
+    related: ['percentage-point-calculator', 'percentage-of-a-percentage-calculator', 'comparative-difference-calculator', 'fraction-to-percent-calculator'],
+  },
+  {
+    slug: 'auto-loan-calculator',
+    title: 'Auto Loan Calculator',
+    shortTitle: 'Auto Loan',
+    category: 'financial',
+    icon: Car,
+    description: 'Calculate your car payment with trade-in, sales tax and fees, total cost of ownership including fuel, and the maximum price you can afford.',
+    tags: ['auto loan', 'car', 'vehicle', 'trade-in', 'affordability'],
+    related: ['loan-calculator', 'fuel-cost-calculator', 'mortgage-calculator'],
+  },
+  {
+    slug: 'comparative-difference-calculator',
+    title: 'Comparative Difference Calculator',
+    shortTitle: 'Comparative Difference',
+    category: 'financial',
+    icon: ArrowRightLeft,
+    description: 'Calculate the percentage difference between two values relative to their average.',
+    tags: ['percentage', 'difference', 'comparison'],
+    related: ['relative-change-calculator', 'percent-error-calculator', 'percentage-point-calculator', 'historic-change-calculator'],
+  },
+  {
+    slug: 'compounding-increase-calculator',
+    title: 'Compounding Increase Calculator',
+    shortTitle: 'Compounding Increase',
+    category: 'financial',
+    icon: TrendingUp,
+    description: 'Calculate the final value of an amount after applying a consistent percentage increase over multiple periods.',
+    tags: ['compound', 'growth', 'interest', 'investment'],
+    related: ['doubling-time-calculator', 'investment-growth-calculator', 'savings-calculator', 'monte-carlo-calculator'],
+  },
+  {
+    slug: 'doubling-time-calculator',
+    title: 'Doubling Time Calculator',
+    shortTitle: 'Doubling Time',
+    category: 'financial',
+    icon: Clock,
+    description: 'Estimate how long it will take for a quantity to double at a constant growth rate.',
+    tags: ['growth', 'rule of 72', 'compound', 'time'],
+    related: ['compounding-increase-calculator', 'investment-growth-calculator', 'relative-change-calculator'],
+  },
+  {
+    slug: 'fraction-to-percent-calculator',
+    title: 'Fraction to Percent Calculator',
+    shortTitle: 'Fraction to Percent',
+    category: 'financial',
+    icon: Divide,
+    description: 'Convert any fraction into its percentage equivalent.',
+    tags: ['fraction', 'percentage', 'conversion'],
+    related: ['value-percentage-calculator', 'percent-to-goal-calculator', 'time-percentage-calculator', 'average-percentage-calculator'],
+  },
+  {
+    slug: 'fuel-cost-calculator',
+    title: 'Fuel Cost Calculator',
+    shortTitle: 'Fuel Cost',
+    category: 'financial',
+    icon: Fuel,
+    description: 'Estimate the total fuel cost for your road trip based on distance, vehicle efficiency, and fuel price.',
+    tags: ['fuel', 'travel', 'budget', 'vehicle'],
+    related: ['auto-loan-calculator', 'value-percentage-calculator', 'relative-change-calculator', 'slope-percentage-calculator'],
+  },
+  {
+    slug: 'historic-change-calculator',
+    title: 'Historic Change Calculator',
+    shortTitle: 'Historic Change',
+    category: 'financial',
+    icon: TrendingUp,
+    description: 'Calculate the percentage change (increase or decrease) from an original value to a new value.',
+    tags: ['percentage', 'change', 'history', 'growth'],
+    related: ['relative-change-calculator', 'investment-growth-calculator', 'compounding-increase-calculator', 'comparative-difference-calculator'],
+  },
+  {
+    slug: 'investment-calculator',
+    title: 'Investment Calculator',
+    shortTitle: 'Investment',
+    category: 'financial',
+    icon: LineChart,
+    description: 'Project investment growth with regular contributions, fees, taxes on gains and fixed or year-by-year returns.',
+    tags: ['investment', 'contributions', 'fees', 'expense ratio', 'taxes', 'returns'],
+    related: ['investment-growth-calculator', 'monte-carlo-calculator', 'savings-calculator', 'retirement-calculator'],
+  },
+  {
+    slug: 'investment-growth-calculator',
+    title: 'Investment Growth Calculator',
+    shortTitle: 'Investment Growth',
+    category: 'financial',
+    icon: ChevronsRight,
+    description: 'Calculate the total percentage growth and net profit of an investment.',
+    tags: ['investment', 'growth', 'return', 'profit'],
+    related: ['investment-calculator', 'compounding-increase-calculator', 'doubling-time-calculator', 'historic-change-calculator'],
+  },
+  {
+    slug: 'loan-calculator',
+    title: 'Loan Calculator',
+    shortTitle: 'Loan',
+    category: 'financial',
+    icon: HandCoins,
+    description: 'Calculate payments and amortization schedules for amortizing, interest-only and balloon loans, including extra payments.',
+    tags: ['loan', 'amortization', 'balloon', 'interest-only', 'extra payments'],
+    related: ['mortgage-calculator', 'auto-loan-calculator', 'compounding-increase-calculator', 'investment-growth-calculator'],
+  },
+  {
+    slug: 'monte-carlo-calculator',
+    title: 'Monte Carlo Growth Simulator',
+    shortTitle: 'Monte Carlo',
+    category: 'financial',
+    icon: Dices,
+    description: 'Simulate thousands of randomized return paths to see percentile outcomes and the probability of reaching a target.',
+    tags: ['monte carlo', 'simulation', 'volatility', 'probability', 'investment'],
+    related: ['investment-calculator', 'compounding-increase-calculator', 'retirement-calculator', 'doubling-time-calculator'],
+  },
+  {
+    slug: 'mortgage-calculator',
+    title: 'Mortgage Calculator',
+    shortTitle: 'Mortgage',
+    category: 'financial',
+    icon: Landmark,
+    description: 'Estimate your monthly mortgage payment including property tax, insurance, PMI and HOA dues, with a full amortization schedule.',
+    tags: ['mortgage', 'home loan', 'amortization', 'pmi', 'housing'],
+    related: ['loan-calculator', 'compounding-increase-calculator', 'investment-growth-calculator', 'value-percentage-calculator'],
+  },
+  {
+    slug: 'percentage-of-a-percentage-calculator',
+    title: 'Percentage of a Percentage Calculator',
+    shortTitle: 'Percent of Percent',
+    category: 'financial',
+    icon: Percent,
+    description: 'Calculate what one percentage of another percentage equals.',
+    tags: ['percentage', 'nested', 'multiplication'],
+    related: ['value-percentage-calculator', 'percentage-point-calculator', 'average-percentage-calculator'],
+  },
+  {
+    slug: 'percentage-point-calculator',
+    title: 'Percentage Point Calculator',
+    shortTitle: 'Percentage Point',
+    category: 'financial',
+    icon: Minus,
+    description: 'Calculate the simple arithmetic difference between two percentage values.',
+    tags: ['percentage', 'points', 'difference'],
+    related: ['relative-change-calculator', 'percentage-of-a-percentage-calculator', 'comparative-difference-calculator', 'average-percentage-calculator'],
+  },
+  {
+    slug: 'value-percentage-calculator',
+    title: 'Value Percentage Calculator',
+    shortTitle: 'Value Percentage',
+    category: 'financial',
+    icon: Percent,
+    description: 'Find the actual value of a percentage of any given number.',
+    tags: ['percentage', 'value', 'portion'],
+    related: ['fraction-to-percent-calculator', 'percent-to-goal-calculator', 'percentage-of-a-percentage-calculator'],
+  },
+  {
+    slug: 'percent-error-calculator',
+    title: 'Percent Error Calculator',
+    shortTitle: 'Percent Error',
+    category: 'financial',
+    icon: Thermometer,
+    description: 'Calculate the percentage error between an observed value and a true value.',
+    tags: ['error', 'accuracy', 'measurement', 'science'],
+    related: ['comparative-difference-calculator', 'relative-change-calculator', 'percentage-point-calculator'],
+  },
+  {
+    slug: 'percent-to-goal-calculator',
+    title: 'Percent to Goal Calculator',
+    shortTitle: 'Percent to Goal',
+    category: 'financial',
+    icon: Target,
+    description: 'Calculate what percentage of a goal has been achieved.',
+    tags: ['goal', 'progress', 'percentage', 'target'],
+    related: ['time-percentage-calculator', 'fraction-to-percent-calculator', 'value-percentage-calculator'],
+  },
+  {
+    slug: 'relative-change-calculator',
+    title: 'Relative Change Calculator',
+    shortTitle: 'Relative Change',
+    category: 'financial',
+    icon: TrendingUp,
+    description: 'Calculate the relative change (percentage increase or decrease) from an original value to a new value.',
+    tags: ['percentage', 'change', 'increase', 'decrease'],
+    related: ['historic-change-calculator', 'percentage-point-calculator', 'comparative-difference-calculator', 'percent-error-calculator'],
+  },
+  {
+    slug: 'retirement-calculator',
+    title: 'Retirement Calculator',
+    shortTitle: 'Retirement',
+    category: 'financial',
+    icon: Sunset,
+    description: 'Project your savings through accumulation and drawdown, with inflation and withdrawal rate, and review expense scenarios with AI assistance.',
+    tags: ['retirement', 'withdrawal rate', 'inflation', 'ai'],
+    related: ['savings-calculator', 'compounding-increase-calculator', 'investment-growth-calculator'],
+  },
+  {
+    slug: 'savings-calculator',
+    title: 'Savings Calculator',
+    shortTitle: 'Savings',
+    category: 'financial',
+    icon: PiggyBank,
+    description: 'Project savings growth with recurring contributions and flexible compounding, or find the contribution needed to reach a goal.',
+    tags: ['savings', 'contributions', 'compound interest', 'goal'],
+    related: ['retirement-calculator', 'compounding-increase-calculator', 'doubling-time-calculator', 'percent-to-goal-calculator'],
+  },
+  {
+    slug: 'slope-percentage-calculator',
+    title: 'Slope Percentage Calculator',
+    shortTitle: 'Slope Percentage',
+    category: 'financial',
+    icon: AreaChart,
+    description: 'Calculate the slope or grade of a line as a percentage.',
+    tags: ['slope', 'grade', 'rise over run', 'geometry'],
+    related: ['fraction-to-percent-calculator', 'relative-change-calculator', 'absolute-value-equation-calculator'],
+  },
+  {
+    slug: 'time-percentage-calculator',
+    title: 'Time Percentage Calculator',
+    shortTitle: 'Time Percentage',
+    category: 'financial',
+    icon: Clock,
+    description: 'Calculate what percentage a smaller duration of time is of a larger total duration.',
+    tags: ['time', 'duration', 'percentage'],
+    related: ['percent-to-goal-calculator', 'fraction-to-percent-calculator', 'doubling-time-calculator'],
+  },
+  // Algebra
+  {
+    slug: 'absolute-value-equation-calculator',
+    title: 'Absolute Value Equation Calculator',
+    shortTitle: 'Absolute Value Equation',
+    category: 'algebra',
+    icon: Sigma,
+    description: 'Solve equations with absolute values, such as |2x - 3| + 4 = 11, case by case.',
+    tags: ['absolute value', 'equation', 'linear', 'piecewise'],
+    related: ['absolute-value-inequalities-calculator', 'adding-and-subtracting-polynomials-calculator', 'slope-percentage-calculator'],
+  },
+  {
+    slug: 'absolute-value-inequalities-calculator',
+    title: 'Absolute Value Inequalities Calculator',
+    shortTitle: 'Absolute Value Inequalities',
+    category: 'algebra',
+    icon: Sigma,
+    description: 'Solve inequalities with absolute values, such as 3|x + 1| ≥ 2x, in interval notation.',
+    tags: ['absolute value', 'inequality', 'interval', 'piecewise'],
+    related: ['absolute-value-equation-calculator', 'adding-and-subtracting-polynomials-calculator'],
+  },
+  {
+    slug: 'adding-and-subtracting-polynomials-calculator',
+    title: 'Adding & Subtracting Polynomials Calculator',
+    shortTitle: 'Add & Subtract Polynomials',
+    category: 'algebra',
+    icon: Sigma,
+    description: 'Perform addition and subtraction on two polynomials.',
+    tags: ['polynomial', 'addition', 'subtraction', 'like terms'],
+    related: ['box-method-calculator', 'polynomial-division-calculator', 'binomial-coefficient-calculator', 'absolute-value-equation-calculator'],
+  },
+  {
+    slug: 'bessel-function-calculator',
+    title: 'Bessel Function Calculator',
+    shortTitle: 'Bessel Function',
+    category: 'algebra',
+    icon: FunctionSquare,
+    description: 'Calculate Bessel functions of the first (Jₙ) and second (Yₙ) kind for an integer order.',
+    tags: ['bessel', 'special functions', 'physics'],
+    related: ['binomial-coefficient-calculator', 'box-method-calculator'],
+  },
+  {
+    slug: 'binomial-coefficient-calculator',
+    title: 'Binomial Coefficient Calculator',
+    shortTitle: 'Binomial Coefficient',
+    category: 'algebra',
+    icon: Sigma,
+    description: 'Calculate "n choose k", the number of ways to choose k items from a set of n.',
+    tags: ['combinatorics', 'n choose k', 'combinations'],
+    related: ['box-method-calculator', 'adding-and-subtracting-polynomials-calculator', 'bessel-function-calculator'],
+  },
+  {
+    slug: 'box-method-calculator',
+    title: 'Box Method Calculator',
+    shortTitle: 'Box Method',
+    category: 'algebra',
+    icon: Box,
+    description: 'Multiply two polynomials using the visual Box (or Area) Method, or run it in reverse to factor a quadratic.',
+    tags: ['polynomial', 'multiplication', 'area model', 'box method', 'factoring'],
+    related: ['adding-and-subtracting-polynomials-calculator', 'polynomial-division-calculator', 'binomial-coefficient-calculator'],
+  },
+  {
+    slug: 'polynomial-division-calculator',
+    title: 'Polynomial Division Calculator',
+    shortTitle: 'Polynomial Division',
+    category: 'algebra',
+    icon: Divide,
+    description: 'Divide polynomials by long division or synthetic division, with the quotient, remainder and every step.',
+    tags: ['polynomial', 'division', 'long division', 'synthetic division', 'remainder'],
+    related: ['box-method-calculator', 'polynomial-factoring-calculator', 'adding-and-subtracting-polynomials-calculator'],
+  },
+  {
+    slug: 'polynomial-factoring-calculator',
+    title: 'Polynomial Factoring and Roots Calculator',
+    shortTitle: 'Factoring & Roots',
+    category: 'algebra',
+    icon: Spline,
+    description: 'Factor a polynomial step by step and find all of its real and complex roots, with multiplicities and a graph.',
+    tags: ['polynomial', 'factoring', 'roots', 'zeros', 'rational root theorem'],
+    related: ['polynomial-division-calculator', 'box-method-calculator', 'adding-and-subtracting-polynomials-calculator'],
+  },
+];
+
+const calculatorsBySlug = new Map(calculators.map((calc) => [calc.slug, calc]));
+
+export function getCalculator(slug: string): CalculatorDefinition {
+  const calc = calculatorsBySlug.get(slug);
+  if (!calc) throw new Error(`Unknown calculator: "${slug}"`);
+  return calc;
+}
+
+export function getCalculatorHref(calc: CalculatorDefinition): string {
+  return calc.category === 'financial'
+    ? `/calculators/${calc.slug}`
+    : `/calculators/${calc.category}/${calc.slug}`;
+}
+
+export function getCalculatorsByCategory(category: CalculatorCategory): CalculatorDefinition[] {
+  return calculators
+    .filter((calc) => calc.category === category)
+    .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+export function getRelatedCalculators(slug: string): CalculatorDefinition[] {
+  return getCalculator(slug)
+    .related.map(getCalculator)
+    .sort((a, b) => a.shortTitle.localeCompare(b.shortTitle));
+}
+
+export function getCalculatorMetadata(slug: string): Metadata {
+  const calc = getCalculator(slug);
+  return {
+    title: calc.title,
+    description: calc.description,
+    keywords: calc.tags,
+  };
+}
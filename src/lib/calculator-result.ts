@@ -0,0 +1,43 @@
+/**
+ * The result envelope returned by every calculator in `calculators.ts`.
+ *
+ * A success carries raw numbers in `data` plus the unit of each scalar field,
+ * so charts, exports and APIs can work with real values and leave display to
+ * `format.ts`. A failure carries a reason code instead of a sentinel string.
+ */
+
+export type ResultUnit = 'currency' | 'percent' | 'percentagePoints' | 'years' | 'months' | 'number' | 'integer';
+
+export type ResultUnits<T> = { [K in keyof T]?: ResultUnit };
+
+export type CalculatorErrorCode =
+    | 'division_by_zero'
+    | 'non_positive_rate'
+    | 'out_of_range'
+    | 'out_of_domain'
+    | 'singularity'
+    | 'invalid_expression';
+
+export interface CalculatorSuccess<T> {
+    ok: true;
+    data: T;
+    units: ResultUnits<T>;
+}
+
+export interface CalculatorFailure {
+    ok: false;
+    error: {
+        code: CalculatorErrorCode;
+        message: string;
+    };
+}
+
+export type CalculatorResult<T> = CalculatorSuccess<T> | CalculatorFailure;
+
+export function success<T>(data: T, units: ResultUnits<T> = {}): CalculatorSuccess<T> {
+    return { ok: true, data, units };
+}
+
+export function failure(code: CalculatorErrorCode, message: string): CalculatorFailure {
+    return { ok: false, error: { code, message } };
+}
@@ -0,0 +1,330 @@
+/**
+ * Input schemas for every calculator, shared by the calculator pages and the
+ * public API so a value the form rejects is rejected by the API too.
+ */
+import * as z from 'zod';
+import { differenceInCalendarDays } from 'date-fns';
+
+export const MAX_SIMULATIONS = 20000;
+
+// z.coerce.number() lets "Infinity" and "1e999" through; no calculator can use them.
+const finiteNumber = () => z.coerce.number().finite('Enter a finite number.');
+
+// An emptied input holds '', which would otherwise coerce to 0.
+const blankable = <T extends z.ZodTypeAny>(schema: T) =>
+    z.preprocess((value) => (value === '' || value === null ? undefined : value), schema.optional());
+
+/** For calculators that solve for whichever one of `fields` is left blank. */
+const oneBlank = <T extends Record<string, unknown>>(fields: (keyof T)[], path: keyof T & string) => ({
+    check: (data: T) => fields.filter((field) => data[field] === undefined).length === 1,
+    message: { message: 'Leave exactly one value blank to solve for it.', path: [path] },
+});
+
+/** Reads a list of yearly returns such as "8, -12, 15". */
+export function parseReturnSeries(value: string) {
+    return value.split(/[\s,;]+/).filter(Boolean).map(Number);
+}
+
+// FINANCIAL CALCULATORS
+
+export const autoLoanSchema = z.object({
+    vehiclePrice: finiteNumber().positive('Vehicle price must be positive.'),
+    downPayment: finiteNumber().min(0, 'Down payment cannot be negative.'),
+    tradeInValue: finiteNumber().min(0, 'Trade-in value cannot be negative.'),
+    tradeInPayoff: finiteNumber().min(0, 'Trade-in payoff cannot be negative.'),
+    salesTaxRate: finiteNumber().min(0, 'Sales tax cannot be negative.'),
+    dealerFees: finiteNumber().min(0, 'Fees cannot be negative.'),
+    taxTradeInCredit: z.boolean(),
+    interestRate: finiteNumber().min(0, 'APR cannot be negative.'),
+    termMonths: finiteNumber().int().positive('Loan term must be a positive number of months.').max(600, 'Loan term can be at most 600 months.'),
+    monthlyBudget: finiteNumber().min(0, 'Budget cannot be negative.').optional(),
+    monthlyDistance: finiteNumber().min(0, 'Distance cannot be negative.'),
+    distanceUnit: z.enum(['kilometers', 'miles']).default('miles'),
+    efficiency: finiteNumber().min(0, 'Efficiency cannot be negative.'),
+    efficiencyUnit: z.enum(['mpg', 'lp100km']).default('mpg'),
+    fuelPrice: finiteNumber().min(0, 'Fuel price cannot be negative.'),
+    priceUnit: z.enum(['per_gallon', 'per_liter']).default('per_gallon'),
+    monthlyInsurance: finiteNumber().min(0, 'Insurance cannot be negative.'),
+    monthlyMaintenance: finiteNumber().min(0, 'Maintenance cannot be negative.'),
+});
+
+export const averagePercentageSchema = z.object({
+    entries: z.array(z.object({
+        percentage: finiteNumber(),
+        weight: finiteNumber().min(0, 'Weight cannot be negative.'),
+    })).min(1, 'Add at least one percentage.'),
+}).refine((data) => data.entries.some((entry) => entry.weight > 0), {
+    message: 'At least one row needs a weight above 0.',
+    path: ['entries'],
+});
+
+export const comparativeDifferenceSchema = z.object({
+    valueA: finiteNumber().nonnegative('Value must be a non-negative number.'),
+    valueB: finiteNumber().nonnegative('Value must be a non-negative number.'),
+});
+
+export const compoundingIncreaseSchema = z.object({
+    initialValue: finiteNumber().positive('Initial value must be positive.'),
+    percentageIncrease: finiteNumber().positive('Percentage increase must be positive.'),
+    periods: finiteNumber().int().positive('Number of periods must be a positive integer.').max(1000, 'Compound at most 1000 periods.'),
+});
+
+export const doublingTimeSchema = z.object({
+    growthRate: finiteNumber().positive('Growth rate must be a positive number.'),
+});
+
+export const fractionToPercentSchema = z.object({
+    numerator: finiteNumber(),
+    denominator: finiteNumber().refine(n => n !== 0, 'Denominator cannot be zero.'),
+});
+
+const fuelCostBlank = oneBlank<{ distance?: number; efficiency?: number; fuelPrice?: number; totalCost?: number }>(
+    ['distance', 'efficiency', 'fuelPrice', 'totalCost'], 'totalCost'
+);
+
+export const fuelCostSchema = z.object({
+    distance: blankable(finiteNumber().positive('Distance must be a positive number.')),
+    distanceUnit: z.enum(['kilometers', 'miles']).default('miles'),
+    efficiency: blankable(finiteNumber().positive('Efficiency must be a positive number.')),
+    efficiencyUnit: z.enum(['mpg', 'lp100km']).default('mpg'),
+    fuelPrice: blankable(finiteNumber().positive('Fuel price must be a positive number.')),
+    priceUnit: z.enum(['per_gallon', 'per_liter']).default('per_gallon'),
+    totalCost: blankable(finiteNumber().positive('Total cost must be a positive number.')),
+}).refine(fuelCostBlank.check, fuelCostBlank.message);
+
+export const historicChangeSchema = z.object({
+    oldValue: finiteNumber().refine(val => val !== 0, {message: 'Original value cannot be zero.'}),
+    newValue: finiteNumber(),
+});
+
+export const investmentSchema = z.object({
+    initialInvestment: finiteNumber().min(0, 'Initial investment cannot be negative.'),
+    contribution: finiteNumber().min(0, 'Contribution cannot be negative.'),
+    contributionFrequency: z.enum(['weekly', 'biweekly', 'monthly', 'annually']),
+    years: finiteNumber().int().positive('Number of years must be a positive whole number.').max(100, 'Simulate at most 100 years.'),
+    returnMode: z.enum(['fixed', 'variable']),
+    annualReturn: finiteNumber().min(-100, 'Return must be greater than -100%.'),
+    returnSeries: z.string(),
+    expenseRatio: finiteNumber().min(0, 'Expense ratio cannot be negative.'),
+    advisoryFee: finiteNumber().min(0, 'Advisory fee cannot be negative.'),
+    taxRate: finiteNumber().min(0, 'Tax rate cannot be negative.').max(100, 'Tax rate cannot exceed 100%.'),
+    taxTreatment: z.enum(['annual', 'deferred']),
+}).refine((data) => {
+    if (data.returnMode === 'fixed') return true;
+    const series = parseReturnSeries(data.returnSeries);
+    return series.length > 0 && series.every((rate) => !isNaN(rate) && rate > -100);
+}, {
+    message: 'Enter one or more yearly returns, e.g. "8, -12, 15". Each must be greater than -100%.',
+    path: ['returnSeries'],
+}).refine((data) => data.initialInvestment > 0 || data.contribution > 0, {
+    message: 'Enter an initial investment or a regular contribution.',
+    path: ['contribution'],
+});
+
+export const investmentGrowthSchema = z.object({
+    initialAmount: finiteNumber().positive('Initial amount must be a positive number.'),
+    finalAmount: finiteNumber().positive('Final amount must be a positive number.'),
+});
+
+export const loanSchema = z.object({
+    principal: finiteNumber().positive('Loan amount must be positive.'),
+    interestRate: finiteNumber().min(0, 'Interest rate cannot be negative.'),
+    termYears: finiteNumber().positive('Loan term must be positive.').max(50, 'Loan term can be at most 50 years.'),
+    loanType: z.enum(['amortizing', 'interest_only', 'balloon']),
+    interestOnlyYears: finiteNumber().min(0, 'Interest-only period cannot be negative.'),
+    amortizationYears: finiteNumber().min(0, 'Amortization period cannot be negative.'),
+    startDate: z.string().regex(/^\d{4}-\d{2}$/, 'Please choose a start month.'),
+    extraMonthly: finiteNumber().min(0, 'Extra payments cannot be negative.'),
+    extraYearly: finiteNumber().min(0, 'Extra payments cannot be negative.'),
+    lumpSum: finiteNumber().min(0, 'Extra payments cannot be negative.'),
+    lumpSumMonth: finiteNumber().int().min(1, 'Month must be at least 1.'),
+}).refine((data) => data.lumpSum === 0 || data.lumpSumMonth <= Math.round(data.termYears * 12), {
+    message: 'The lump sum must be paid within the loan term.',
+    path: ['lumpSumMonth'],
+});
+
+export const monteCarloSchema = z.object({
+    initialValue: finiteNumber().min(0, 'Starting value cannot be negative.'),
+    annualContribution: finiteNumber().min(0, 'Contribution cannot be negative.'),
+    meanReturn: finiteNumber().min(-100, 'Return must be greater than -100%.'),
+    volatility: finiteNumber().min(0, 'Volatility cannot be negative.'),
+    years: finiteNumber().int().positive('Number of years must be a positive whole number.').max(100, 'Simulate at most 100 years.'),
+    simulations: finiteNumber().int().min(100, 'Run at least 100 simulations.').max(MAX_SIMULATIONS, `Run at most ${MAX_SIMULATIONS} simulations.`),
+    targetValue: finiteNumber().positive('Target must be positive.'),
+    seed: blankable(finiteNumber().int().min(0, 'Seed must be a non-negative whole number.')),
+});
+
+export const mortgageSchema = z.object({
+    homePrice: finiteNumber().positive('Home price must be positive.'),
+    downPayment: finiteNumber().min(0, 'Down payment cannot be negative.'),
+    interestRate: finiteNumber().min(0, 'Interest rate cannot be negative.'),
+    loanTerm: finiteNumber().int().positive('Loan term must be a positive number of years.').max(50, 'Loan term can be at most 50 years.'),
+    propertyTaxRate: finiteNumber().min(0, 'Property tax rate cannot be negative.'),
+    annualInsurance: finiteNumber().min(0, 'Insurance cannot be negative.'),
+    pmiRate: finiteNumber().min(0, 'PMI rate cannot be negative.'),
+    monthlyHoa: finiteNumber().min(0, 'HOA dues cannot be negative.'),
+}).refine((data) => data.downPayment < data.homePrice, {
+    message: 'Down payment must be less than the home price.',
+    path: ['downPayment'],
+});
+
+export const percentErrorSchema = z.object({
+    observedValue: finiteNumber(),
+    trueValue: finiteNumber().refine(n => n !== 0, 'True value cannot be zero.'),
+});
+
+const percentToGoalBlank = oneBlank<{ currentValue?: number; goalValue?: number; percentage?: number }>(
+    ['currentValue', 'goalValue', 'percentage'], 'percentage'
+);
+
+export const percentToGoalSchema = z.object({
+    currentValue: blankable(finiteNumber()),
+    goalValue: blankable(finiteNumber().refine(n => n !== 0, 'Goal value cannot be zero.')),
+    percentage: blankable(finiteNumber()),
+}).refine(percentToGoalBlank.check, percentToGoalBlank.message);
+
+export const percentageOfAPercentageSchema = z.object({
+    percentage1: finiteNumber(),
+    percentage2: finiteNumber(),
+});
+
+export const percentagePointSchema = z.object({
+    percentage1: finiteNumber(),
+    percentage2: finiteNumber(),
+});
+
+const relativeChangeBlank = oneBlank<{ oldValue?: number; newValue?: number; change?: number }>(
+    ['oldValue', 'newValue', 'change'], 'change'
+);
+
+export const relativeChangeSchema = z.object({
+    oldValue: blankable(finiteNumber().refine(n => n !== 0, 'Original value cannot be zero.')),
+    newValue: blankable(finiteNumber()),
+    change: blankable(finiteNumber()),
+}).refine(relativeChangeBlank.check, relativeChangeBlank.message);
+
+export const retirementSchema = z.object({
+    currentAge: finiteNumber().int().positive('Current age must be positive.').max(120, 'Current age can be at most 120.'),
+    retirementAge: finiteNumber().int().positive('Retirement age must be positive.').max(120, 'Retirement age can be at most 120.'),
+    lifeExpectancy: finiteNumber().int().positive('Plan-until age must be positive.').max(120, 'Plan-until age can be at most 120.'),
+    currentSavings: finiteNumber().min(0, 'Savings cannot be negative.'),
+    annualContribution: finiteNumber().min(0, 'Contributions cannot be negative.'),
+    preRetirementReturn: finiteNumber().min(-100, 'Return must be greater than -100%.'),
+    postRetirementReturn: finiteNumber().min(-100, 'Return must be greater than -100%.'),
+    inflationRate: finiteNumber().min(0, 'Inflation cannot be negative.'),
+    withdrawalRate: finiteNumber().positive('Withdrawal rate must be positive.'),
+    expenses: z.array(z.object({
+        category: z.string().min(1, 'Name this expense.'),
+        monthlyAmount: finiteNumber().min(0, 'Amount cannot be negative.'),
+    })),
+}).refine((data) => data.retirementAge > data.currentAge, {
+    message: 'Retirement age must be after your current age.',
+    path: ['retirementAge'],
+}).refine((data) => data.lifeExpectancy > data.retirementAge, {
+    message: 'Plan-until age must be after retirement.',
+    path: ['lifeExpectancy'],
+});
+
+export const savingsSchema = z.object({
+    mode: z.enum(['project', 'goal']),
+    initialDeposit: finiteNumber().min(0, 'Initial deposit cannot be negative.'),
+    contribution: finiteNumber().min(0, 'Contribution cannot be negative.'),
+    contributionFrequency: z.enum(['weekly', 'biweekly', 'monthly', 'annually']),
+    interestRate: finiteNumber().min(0, 'Interest rate cannot be negative.'),
+    compoundingFrequency: z.enum(['daily', 'monthly', 'quarterly', 'annually']),
+    depositTiming: z.enum(['start', 'end']),
+    years: finiteNumber().positive('Number of years must be positive.').max(100, 'Save for at most 100 years.'),
+    targetAmount: finiteNumber().min(0, 'Target cannot be negative.'),
+    targetDate: z.string(),
+}).refine((data) => data.mode === 'project' || data.targetAmount > 0, {
+    message: 'Please enter a savings target.',
+    path: ['targetAmount'],
+}).refine((data) => data.mode === 'project' || differenceInCalendarDays(new Date(data.targetDate), new Date()) > 0, {
+    message: 'Target date must be in the future.',
+    path: ['targetDate'],
+}).refine((data) => data.mode === 'project' || differenceInCalendarDays(new Date(data.targetDate), new Date()) / 365.25 <= 100, {
+    message: 'Target date must be within 100 years.',
+    path: ['targetDate'],
+});
+
+export const slopePercentageSchema = z.object({
+    rise: finiteNumber(),
+    run: finiteNumber().refine(n => n !== 0, 'Run cannot be zero.'),
+});
+
+export const timePercentageSchema = z.object({
+    partialTimeHours: finiteNumber().min(0).default(0),
+    partialTimeMinutes: finiteNumber().min(0).default(0),
+    partialTimeSeconds: finiteNumber().min(0).default(0),
+    totalTimeHours: finiteNumber().min(0).default(0),
+    totalTimeMinutes: finiteNumber().min(0).default(0),
+    totalTimeSeconds: finiteNumber().min(0).default(0),
+}).refine(data => (data.totalTimeHours * 3600 + data.totalTimeMinutes * 60 + data.totalTimeSeconds) > 0, {
+    message: "Total time must be greater than zero.",
+    path: ["totalTimeHours"],
+});
+
+const valuePercentageBlank = oneBlank<{ percentage?: number; totalValue?: number; value?: number }>(
+    ['percentage', 'totalValue', 'value'], 'value'
+);
+
+export const valuePercentageSchema = z.object({
+    percentage: blankable(finiteNumber().min(0, "Percentage can't be negative.")),
+    totalValue: blankable(finiteNumber()),
+    value: blankable(finiteNumber()),
+}).refine(valuePercentageBlank.check, valuePercentageBlank.message);
+
+// ALGEBRA CALCULATORS
+
+export const absoluteValueEquationSchema = z.object({
+    equation: z.string().min(1, 'Please enter an equation.'),
+});
+
+export const absoluteValueInequalitiesSchema = z.object({
+    inequality: z.string().min(1, 'Please enter an inequality.'),
+});
+
+export const addingAndSubtractingPolynomialsSchema = z.object({
+    poly1: z.string().min(1, 'Please enter the first polynomial.'),
+    poly2: z.string().min(1, 'Please enter the second polynomial.'),
+    operation: z.enum(['add', 'subtract']),
+});
+
+export const besselFunctionSchema = z.object({
+    order: finiteNumber().int().min(0, "Order must be a non-negative integer.").max(10, "Order must be 10 or less for stability."),
+    xValue: finiteNumber(),
+});
+
+export const binomialCoefficientSchema = z.object({
+    n: finiteNumber().int().min(0, "n must be a non-negative integer."),
+    k: finiteNumber().int().min(0, "k must be a non-negative integer."),
+}).refine(data => data.k <= data.n, {
+    message: "k cannot be greater than n.",
+    path: ['k'],
+});
+
+export const boxMethodSchema = z.object({
+    mode: z.enum(['multiply', 'factor']).default('multiply'),
+    poly1: z.string().default(''),
+    poly2: z.string().default(''),
+    quadratic: z.string().default(''),
+}).refine((data) => data.mode === 'factor' || data.poly1.trim() !== '', {
+    message: 'Please enter the first polynomial.',
+    path: ['poly1'],
+}).refine((data) => data.mode === 'factor' || data.poly2.trim() !== '', {
+    message: 'Please enter the second polynomial.',
+    path: ['poly2'],
+}).refine((data) => data.mode === 'multiply' || data.quadratic.trim() !== '', {
+    message: 'Please enter a quadratic to factor.',
+    path: ['quadratic'],
+});
+
+export const polynomialDivisionSchema = z.object({
+    dividend: z.string().min(1, 'Please enter the dividend.'),
+    divisor: z.string().min(1, 'Please enter the divisor.'),
+    method: z.enum(['long', 'synthetic']),
+});
+
+export const polynomialFactoringSchema = z.object({
+    polynomial: z.string().min(1, 'Please enter a polynomial.'),
+});
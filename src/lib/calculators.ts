@@ -1,365 +1,1358 @@
 
 import { z } from 'zod';
+import { addMonths, format } from 'date-fns';
+import { failure, success } from '@/lib/calculator-result';
+import { Decimal, DEFAULT_ROUNDING_MODE, toCents, type RoundingMode } from '@/lib/decimal';
+import { solveEquation, type Equation } from '@/lib/equations';
+import { breakpointsOf, evaluate, ExpressionSyntaxError, formatExpression, formatRelation, parseRelation, RELATION_SYMBOLS, toPiecewiseLinear, variablesOf, type PiecewiseLinear, type RelationOperator } from '@/lib/expression';
+import { compareMonomials, formatMonomial, formatTerm, multiplyMonomials, parsePolynomial, Polynomial, type Term } from '@/lib/polynomial';
+import { commonFactor, Rational } from '@/lib/rational';
+
+// value = percentage / 100 × totalValue
+export const valuePercentageEquation: Equation<'percentage' | 'totalValue' | 'value'> = {
+    variables: {
+        percentage: { label: 'Percentage', unit: 'percent' },
+        totalValue: { label: 'Total value', unit: 'number' },
+        value: { label: 'Value', unit: 'number' },
+    },
+    residual: ({ percentage, totalValue, value }) => percentage.times(totalValue).minus(value.times(100)),
+};
+
+export function solveValuePercentage(values: { percentage?: number; totalValue?: number; value?: number }, rounding: RoundingMode = DEFAULT_ROUNDING_MODE) {
+    return solveEquation(valuePercentageEquation, values, rounding);
+}
 
-export function calculateValuePercentage(percentage: number, totalValue: number) {
-    const value = (percentage / 100) * totalValue;
-    return {
-        value: value.toFixed(2),
-    };
+export function calculateValuePercentage(percentage: number, totalValue: number, rounding: RoundingMode = DEFAULT_ROUNDING_MODE) {
+    const solved = solveValuePercentage({ percentage, totalValue }, rounding);
+    if (!solved.ok) return solved;
+    return success({ value: solved.data.value }, { value: 'number' });
 }
 
 
 export function calculateHistoricChange(oldValue: number, newValue: number) {
-    if (oldValue === 0) return { change: 'N/A', direction: 'none' };
+    if (oldValue === 0) return failure('division_by_zero', 'The change from an initial value of 0 is undefined.');
     const change = ((newValue - oldValue) / oldValue) * 100;
-    return {
-        change: change.toFixed(2),
-        direction: change > 0 ? 'increase' : change < 0 ? 'decrease' : 'none',
-    };
+    return success({
+        change,
+        direction: change > 0 ? 'increase' as const : change < 0 ? 'decrease' as const : 'none' as const,
+    }, { change: 'percent' });
 }
 
 
 export function calculateComparativeDifference(valueA: number, valueB: number) {
     const average = (valueA + valueB) / 2;
-    if (average === 0) return { difference: 'N/A' };
+    if (average === 0) return failure('division_by_zero', 'The difference is undefined when the two values average to 0.');
     const difference = (Math.abs(valueA - valueB) / average) * 100;
-    return {
-        difference: difference.toFixed(2),
-    };
+    return success({ difference }, { difference: 'percent' });
 }
 
 
-export function calculateInvestmentGrowth(initialAmount: number, finalAmount: number) {
-    if (initialAmount === 0) return { growthPercentage: 'N/A', netGrowth: 'N/A' };
-    const growthPercentage = ((finalAmount - initialAmount) / initialAmount) * 100;
-    const netGrowth = finalAmount - initialAmount;
-    return {
-        growthPercentage: growthPercentage.toFixed(2),
-        netGrowth: netGrowth.toFixed(2),
-    };
+export function calculateInvestmentGrowth(initialAmount: number, finalAmount: number, rounding: RoundingMode = DEFAULT_ROUNDING_MODE) {
+    if (initialAmount === 0) return failure('division_by_zero', 'Growth from an initial amount of 0 is undefined.');
+    const netGrowth = toCents(Decimal.from(finalAmount).minus(initialAmount), rounding);
+    const growthPercentage = netGrowth.dividedBy(initialAmount).times(100).toNumber();
+    return success({ growthPercentage, netGrowth: netGrowth.toNumber() }, { growthPercentage: 'percent', netGrowth: 'currency' });
 }
 
 
-export function calculateCompoundingIncrease(initialValue: number, percentageIncrease: number, periods: number) {
-    let finalValue = initialValue;
-    const history = [{ period: 0, value: parseFloat(initialValue.toFixed(2)) }];
+// Each period's increase is credited in whole cents, as a bank would, so the history sums exactly to the total growth.
+export function calculateCompoundingIncrease(initialValue: number, percentageIncrease: number, periods: number, rounding: RoundingMode = DEFAULT_ROUNDING_MODE) {
+    const rate = Decimal.from(percentageIncrease).dividedBy(100);
+    const startValue = toCents(initialValue, rounding);
+    let value = startValue;
+    const history = [{ period: 0, value: value.toNumber(), increase: 0 }];
     for (let i = 1; i <= periods; i++) {
-        finalValue = finalValue * (1 + percentageIncrease / 100);
-        history.push({ period: i, value: parseFloat(finalValue.toFixed(2)) });
+        const increase = toCents(value.times(rate), rounding);
+        value = value.plus(increase);
+        if (!Number.isFinite(value.toNumber())) {
+            return failure('out_of_range', `The value grows too large to represent by period ${i}.`);
+        }
+        history.push({ period: i, value: value.toNumber(), increase: increase.toNumber() });
     }
-    const totalGrowth = finalValue - initialValue;
-    return {
-        finalValue: finalValue.toFixed(2),
-        totalGrowth: totalGrowth.toFixed(2),
+    return success({
+        finalValue: value.toNumber(),
+        totalGrowth: value.minus(startValue).toNumber(),
         history: history,
+    }, { finalValue: 'currency', totalGrowth: 'currency' });
+}
+
+// Fuel is worked out in kilometres and litres, using the exact definitions of the
+// mile and the US gallon. Each residual is multiplied through by everything that
+// divides, the unit conversions included, so solving for any value is exact.
+const MILES_TO_KM = 1.609344;
+const GALLONS_TO_LITERS = 3.785411784;
+const MPG_TO_LP100KM = (100 * GALLONS_TO_LITERS) / MILES_TO_KM;
+
+export function fuelCostEquation(
+    distanceUnit: 'kilometers' | 'miles',
+    efficiencyUnit: 'mpg' | 'lp100km',
+    priceUnit: 'per_gallon' | 'per_liter'
+): Equation<'distance' | 'efficiency' | 'fuelPrice' | 'totalCost'> {
+    return {
+        variables: {
+            distance: { label: 'Distance', unit: 'number' },
+            efficiency: {
+                label: 'Fuel efficiency',
+                unit: 'number',
+                nonZero: efficiencyUnit === 'mpg' ? 'A fuel efficiency of 0 mpg never gets anywhere.' : undefined,
+            },
+            fuelPrice: { label: 'Fuel price', unit: 'currency' },
+            totalCost: { label: 'Total cost', unit: 'currency' },
+        },
+        residual: ({ distance, efficiency, fuelPrice, totalCost }) => {
+            const distanceInKm = distanceUnit === 'miles' ? distance.times(MILES_TO_KM) : distance;
+            const litersPriced = priceUnit === 'per_gallon' ? GALLONS_TO_LITERS : 1;
+            return efficiencyUnit === 'mpg'
+                ? totalCost.times(efficiency).times(MILES_TO_KM).times(litersPriced).minus(distanceInKm.times(GALLONS_TO_LITERS).times(fuelPrice))
+                : totalCost.times(100).times(litersPriced).minus(distanceInKm.times(efficiency).times(fuelPrice));
+        },
     };
 }
 
-export function calculateFuelCost(distance: number, distanceUnit: 'kilometers' | 'miles', efficiency: number, efficiencyUnit: 'mpg' | 'lp100km', fuelPrice: number, priceUnit: 'per_gallon' | 'per_liter') {
-    // Conversion constants
-    const milesToKm = 1.60934;
-    const kmToMiles = 1 / milesToKm;
-    const gallonsToLiters = 3.78541;
-    const litersToGallons = 1 / gallonsToLiters;
+export function solveFuelCost(
+    values: { distance?: number; efficiency?: number; fuelPrice?: number; totalCost?: number },
+    distanceUnit: 'kilometers' | 'miles',
+    efficiencyUnit: 'mpg' | 'lp100km',
+    priceUnit: 'per_gallon' | 'per_liter'
+) {
+    const solved = solveEquation(fuelCostEquation(distanceUnit, efficiencyUnit, priceUnit), values);
+    if (!solved.ok) return solved;
+
+    // Fuel is reported in the same system as the efficiency the user entered.
+    const { distance, efficiency } = solved.data;
+    const distanceInKm = distanceUnit === 'miles' ? distance * MILES_TO_KM : distance;
+    const efficiencyInLp100km = efficiencyUnit === 'mpg' ? MPG_TO_LP100KM / efficiency : efficiency;
+    const fuelNeededInLiters = (distanceInKm / 100) * efficiencyInLp100km;
+    const fuelUnit = efficiencyUnit === 'mpg' ? 'gallons' as const : 'liters' as const;
+    const fuelNeeded = fuelUnit === 'gallons' ? fuelNeededInLiters / GALLONS_TO_LITERS : fuelNeededInLiters;
 
-    // Normalize everything to a common standard: distance in km, efficiency in L/100km, price in $/L
-    let distanceInKm = distance;
-    if (distanceUnit === 'miles') {
-        distanceInKm = distance * milesToKm;
-    }
+    return success({ ...solved.data, fuelNeeded, fuelUnit }, { ...solved.units, fuelNeeded: 'number' });
+}
 
-    let efficiencyInLp100km = efficiency;
-    if (efficiencyUnit === 'mpg') {
-        efficiencyInLp100km = 235.215 / efficiency;
-    }
-    
-    let pricePerLiter = fuelPrice;
-    if (priceUnit === 'per_gallon') {
-        pricePerLiter = fuelPrice / gallonsToLiters;
-    }
+export function calculateFuelCost(distance: number, distanceUnit: 'kilometers' | 'miles', efficiency: number, efficiencyUnit: 'mpg' | 'lp100km', fuelPrice: number, priceUnit: 'per_gallon' | 'per_liter') {
+    const solved = solveFuelCost({ distance, efficiency, fuelPrice }, distanceUnit, efficiencyUnit, priceUnit);
+    if (!solved.ok) return solved;
+    const { totalCost, fuelNeeded, fuelUnit } = solved.data;
+    return success({ totalCost, fuelNeeded, fuelUnit }, { totalCost: 'currency', fuelNeeded: 'number' });
+}
 
-    // Calculate total fuel needed in liters
-    const fuelNeededInLiters = (distanceInKm / 100) * efficiencyInLp100km;
-    
-    // Calculate total cost
-    const totalCost = fuelNeededInLiters * pricePerLiter;
-    
-    // Determine which unit to display fuel needed in
-    let fuelNeededDisplay: string;
-    if (efficiencyUnit === 'mpg') {
-      fuelNeededDisplay = `${(fuelNeededInLiters * litersToGallons).toFixed(2)} gallons`;
-    } else {
-      fuelNeededDisplay = `${fuelNeededInLiters.toFixed(2)} liters`;
-    }
 
-    return {
-        totalCost: totalCost.toFixed(2),
-        fuelNeeded: fuelNeededDisplay,
-    };
+export interface WeightedPercentage {
+    percentage: number;
+    /** The size of the group the percentage comes from, e.g. a sample size or an amount invested. */
+    weight: number;
 }
 
+// The weighted median is the first value whose cumulative weight passes half the
+// total; when a value lands exactly on half, it is averaged with the next one.
+function weightedMedian(entries: WeightedPercentage[], totalWeight: number) {
+    const sorted = [...entries].sort((a, b) => a.percentage - b.percentage);
+    const half = totalWeight / 2;
+    let cumulative = 0;
+    for (let i = 0; i < sorted.length; i++) {
+        cumulative += sorted[i].weight;
+        if (cumulative > half) return sorted[i].percentage;
+        if (cumulative === half) return (sorted[i].percentage + sorted[i + 1].percentage) / 2;
+    }
+    return sorted[sorted.length - 1].percentage;
+}
 
-export function calculateAveragePercentage(percentages: number[]) {
-    const sum = percentages.reduce((acc, val) => acc + val, 0);
-    const average = sum / percentages.length;
-    return {
-        average: average.toFixed(2),
-    };
+/**
+ * Averages percentages that come from groups of different sizes. Rows with a
+ * weight of 0 are ignored, as a group with no members says nothing about the
+ * whole. The simple average of the same rows is returned alongside to show how
+ * much the group sizes matter.
+ */
+export function calculateAveragePercentage(entries: WeightedPercentage[]) {
+    const counted = entries.filter((entry) => entry.weight > 0);
+    if (counted.length === 0) return failure('division_by_zero', 'At least one row needs a weight above 0.');
+
+    const totalWeight = counted.reduce((acc, entry) => acc + entry.weight, 0);
+    const weightedAverage = counted.reduce((acc, entry) => acc + entry.percentage * entry.weight, 0) / totalWeight;
+    const simpleAverage = counted.reduce((acc, entry) => acc + entry.percentage, 0) / counted.length;
+    // Population standard deviation, with each group counted `weight` times.
+    const variance = counted.reduce((acc, entry) => acc + entry.weight * (entry.percentage - weightedAverage) ** 2, 0) / totalWeight;
+    const percentages = counted.map((entry) => entry.percentage);
+
+    return success({
+        weightedAverage,
+        simpleAverage,
+        difference: weightedAverage - simpleAverage,
+        median: weightedMedian(counted, totalWeight),
+        min: Math.min(...percentages),
+        max: Math.max(...percentages),
+        standardDeviation: Math.sqrt(variance),
+        totalWeight,
+        rows: counted.map((entry) => ({ ...entry, share: (entry.weight / totalWeight) * 100 })),
+    }, {
+        weightedAverage: 'percent',
+        simpleAverage: 'percent',
+        difference: 'percentagePoints',
+        median: 'percent',
+        min: 'percent',
+        max: 'percent',
+        standardDeviation: 'percentagePoints',
+        totalWeight: 'number',
+    });
 }
 
 export function calculateFractionToPercent(numerator: number, denominator: number) {
-    if (denominator === 0) return { percentage: 'N/A' };
+    if (denominator === 0) return failure('division_by_zero', 'A fraction with a denominator of 0 is undefined.');
     const percentage = (numerator / denominator) * 100;
-    return {
-        percentage: percentage.toFixed(2),
-    };
+    return success({ percentage }, { percentage: 'percent' });
 }
 
 export function calculateDoublingTime(growthRate: number) {
-    if (growthRate <= 0) return { exactTime: 'N/A', ruleOf72Time: 'N/A' };
+    if (growthRate <= 0) return failure('non_positive_rate', 'A quantity only doubles with a positive growth rate.');
     const rateDecimal = growthRate / 100;
     const exactTime = Math.log(2) / Math.log(1 + rateDecimal);
     const ruleOf72Time = 72 / growthRate;
-    return {
-        exactTime: exactTime.toFixed(2),
-        ruleOf72Time: ruleOf72Time.toFixed(2),
-    };
+    return success({ exactTime, ruleOf72Time }, { exactTime: 'number', ruleOf72Time: 'number' });
 }
 
 export function calculatePercentageOfPercentage(percentage1: number, percentage2: number) {
     const decimal1 = percentage1 / 100;
     const decimal2 = percentage2 / 100;
     const result = decimal1 * decimal2 * 100;
-    return {
-        result: result.toFixed(2),
-    };
+    return success({ result }, { result: 'percent' });
 }
 
 export function calculatePercentagePoint(percentage1: number, percentage2: number) {
     const difference = percentage2 - percentage1;
-    return {
-        difference: difference.toFixed(2),
-    };
+    return success({ difference }, { difference: 'percentagePoints' });
 }
 
 export function calculatePercentError(observedValue: number, trueValue: number) {
-    if (trueValue === 0) return { error: 'N/A' };
+    if (trueValue === 0) return failure('division_by_zero', 'Percent error is undefined when the true value is 0.');
     const error = (Math.abs(observedValue - trueValue) / Math.abs(trueValue)) * 100;
-    return {
-        error: error.toFixed(2),
-    };
+    return success({ error }, { error: 'percent' });
 }
 
 export function calculateTimePercentage(partialTime: number, totalTime: number) {
-    if (totalTime === 0) return { percentage: 'N/A' };
+    if (totalTime === 0) return failure('division_by_zero', 'The total time cannot be 0.');
     const percentage = (partialTime / totalTime) * 100;
-    return {
-        percentage: percentage.toFixed(2),
-    };
+    return success({ percentage }, { percentage: 'percent' });
+}
+
+// percentage = currentValue / goalValue × 100
+export const percentToGoalEquation: Equation<'currentValue' | 'goalValue' | 'percentage'> = {
+    variables: {
+        currentValue: { label: 'Current value', unit: 'number' },
+        goalValue: { label: 'Goal value', unit: 'number', nonZero: 'Progress toward a goal of 0 is undefined.' },
+        percentage: { label: 'Percentage', unit: 'percent' },
+    },
+    residual: ({ currentValue, goalValue, percentage }) => percentage.times(goalValue).minus(currentValue.times(100)),
+};
+
+export function solvePercentToGoal(values: { currentValue?: number; goalValue?: number; percentage?: number }) {
+    return solveEquation(percentToGoalEquation, values);
 }
 
 export function calculatePercentToGoal(currentValue: number, goalValue: number) {
-    if (goalValue === 0) return { percentage: 'N/A' };
-    const percentage = (currentValue / goalValue) * 100;
-    return {
-        percentage: percentage.toFixed(2),
-    };
+    const solved = solvePercentToGoal({ currentValue, goalValue });
+    if (!solved.ok) return solved;
+    return success({ percentage: solved.data.percentage }, { percentage: 'percent' });
+}
+
+// change = (newValue − oldValue) / oldValue × 100
+export const relativeChangeEquation: Equation<'oldValue' | 'newValue' | 'change'> = {
+    variables: {
+        oldValue: { label: 'Old value', unit: 'number', nonZero: 'The relative change from an old value of 0 is undefined.' },
+        newValue: { label: 'New value', unit: 'number' },
+        change: { label: 'Change', unit: 'percent' },
+    },
+    residual: ({ oldValue, newValue, change }) => change.times(oldValue).minus(newValue.minus(oldValue).times(100)),
+};
+
+export function solveRelativeChange(values: { oldValue?: number; newValue?: number; change?: number }) {
+    const solved = solveEquation(relativeChangeEquation, values);
+    if (!solved.ok) return solved;
+    const { change } = solved.data;
+    const direction = change > 0 ? 'increase' as const : change < 0 ? 'decrease' as const : 'none' as const;
+    return success({ ...solved.data, direction }, { ...solved.units, change: 'percent' });
 }
 
 export function calculateRelativeChange(oldValue: number, newValue: number) {
-    if (oldValue === 0) return { change: 'N/A', direction: 'none' };
-    const change = ((newValue - oldValue) / oldValue) * 100;
-    return {
-        change: change.toFixed(2),
-        direction: change > 0 ? 'increase' : change < 0 ? 'decrease' : 'none',
-    };
+    const solved = solveRelativeChange({ oldValue, newValue });
+    if (!solved.ok) return solved;
+    const { change, direction } = solved.data;
+    return success({ change, direction }, { change: 'percent' });
 }
 
 export function calculateSlopePercentage(rise: number, run: number) {
-    if (run === 0) return { slope: 'N/A' };
+    if (run === 0) return failure('division_by_zero', 'A vertical slope (run of 0) has no percentage.');
     const slope = (rise / run) * 100;
-    return {
-        slope: slope.toFixed(2),
-    };
+    return success({ slope }, { slope: 'percent' });
 }
 
-// ALGEBRA CALCULATORS
-export function solveAbsoluteValueEquation(a: number, b: number, c: number) {
-    if (c < 0) return { solutions: ['No solution'], explanation: "The absolute value cannot be negative." };
-    if (a === 0) return { solutions: ['Invalid equation'], explanation: "'a' cannot be zero." };
+// LOAN CALCULATORS
+// Standard amortization formula: M = P * r / (1 - (1 + r)^-n), with r the periodic rate.
+export function calculateMonthlyPayment(principal: number, annualInterestRate: number, termMonths: number) {
+    return amortizedPayment(Decimal.from(principal), Decimal.from(annualInterestRate).dividedBy(1200), termMonths).toNumber();
+}
 
-    const sol1 = (c - b) / a;
-    const sol2 = (-c - b) / a;
-    
-    if (sol1 === sol2) {
-      return { solutions: [sol1.toString()], explanation: "The two potential solutions are identical." };
+// Same formula in decimal form, rearranged as P * r * f / (f - 1) with f = (1 + r)^n to avoid a negative power.
+function amortizedPayment(principal: Decimal, monthlyRate: Decimal, termMonths: number) {
+    if (termMonths <= 0) return Decimal.ZERO;
+    if (monthlyRate.isZero()) return principal.dividedBy(termMonths);
+    const growth = monthlyRate.plus(1).pow(termMonths);
+    return principal.times(monthlyRate).times(growth).dividedBy(growth.minus(1));
+}
+
+// Every scheduled amount is rounded to the cent and the last payment absorbs the remainder,
+// so principal paid sums exactly to the loan amount.
+export function calculateMortgage(
+    homePrice: number,
+    downPayment: number,
+    annualInterestRate: number,
+    loanTermYears: number,
+    propertyTaxRate: number,
+    annualInsurance: number,
+    pmiRate: number,
+    monthlyHoa: number,
+    rounding: RoundingMode = DEFAULT_ROUNDING_MODE
+) {
+    const cents = (value: Decimal) => toCents(value, rounding);
+    const loanAmount = cents(Decimal.max(Decimal.from(homePrice).minus(downPayment), Decimal.ZERO));
+    const termMonths = Math.round(loanTermYears * 12);
+    const monthlyRate = Decimal.from(annualInterestRate).dividedBy(1200);
+    const monthlyPrincipalAndInterest = cents(amortizedPayment(loanAmount, monthlyRate, termMonths));
+    const monthlyPropertyTax = cents(Decimal.from(homePrice).times(propertyTaxRate).dividedBy(1200));
+    const monthlyInsurance = cents(Decimal.from(annualInsurance).dividedBy(12));
+    const monthlyPmi = cents(loanAmount.times(pmiRate).dividedBy(1200));
+    const monthlyEscrow = monthlyPropertyTax.plus(monthlyInsurance).plus(cents(Decimal.from(monthlyHoa)));
+
+    // PMI is cancelled automatically once the balance reaches 78% of the original home value.
+    const pmiCutoffBalance = Decimal.from(homePrice).times(0.78);
+
+    const schedule: { month: number; payment: number; principal: number; interest: number; pmi: number; escrow: number; balance: number }[] = [];
+    const yearly: { year: number; principal: Decimal; interest: Decimal; balance: Decimal }[] = [];
+    let balance = loanAmount;
+    let totalInterest = Decimal.ZERO;
+    let totalPmi = Decimal.ZERO;
+
+    for (let month = 1; month <= termMonths && balance.isPositive(); month++) {
+        const interest = cents(balance.times(monthlyRate));
+        const principal = month === termMonths ? balance : Decimal.min(monthlyPrincipalAndInterest.minus(interest), balance);
+        const pmi = balance.compare(pmiCutoffBalance) > 0 ? monthlyPmi : Decimal.ZERO;
+        balance = balance.minus(principal);
+        totalInterest = totalInterest.plus(interest);
+        totalPmi = totalPmi.plus(pmi);
+
+        schedule.push({
+            month,
+            payment: principal.plus(interest).plus(pmi).plus(monthlyEscrow).toNumber(),
+            principal: principal.toNumber(),
+            interest: interest.toNumber(),
+            pmi: pmi.toNumber(),
+            escrow: monthlyEscrow.toNumber(),
+            balance: balance.toNumber(),
+        });
+
+        const year = Math.ceil(month / 12);
+        if (yearly.length < year) yearly.push({ year, principal: Decimal.ZERO, interest: Decimal.ZERO, balance: Decimal.ZERO });
+        const current = yearly[year - 1];
+        current.principal = current.principal.plus(principal);
+        current.interest = current.interest.plus(interest);
+        current.balance = balance;
     }
 
-    return { solutions: [sol1.toFixed(3), sol2.toFixed(3)], explanation: "Two distinct solutions found." };
+    const initialPmi = loanAmount.compare(pmiCutoffBalance) > 0 ? monthlyPmi : Decimal.ZERO;
+    const totalMonthlyPayment = monthlyPrincipalAndInterest.plus(monthlyEscrow).plus(initialPmi);
+    const totalCost = loanAmount.plus(totalInterest).plus(totalPmi).plus(monthlyEscrow.times(schedule.length));
+
+    return success({
+        loanAmount: loanAmount.toNumber(),
+        monthlyPrincipalAndInterest: monthlyPrincipalAndInterest.toNumber(),
+        monthlyPropertyTax: monthlyPropertyTax.toNumber(),
+        monthlyInsurance: monthlyInsurance.toNumber(),
+        monthlyPmi: initialPmi.toNumber(),
+        monthlyHoa: cents(Decimal.from(monthlyHoa)).toNumber(),
+        totalMonthlyPayment: totalMonthlyPayment.toNumber(),
+        totalInterest: totalInterest.toNumber(),
+        totalPmi: totalPmi.toNumber(),
+        totalCost: totalCost.toNumber(),
+        pmiMonths: schedule.filter((row) => row.pmi > 0).length,
+        schedule,
+        yearly: yearly.map((row) => ({ year: row.year, principal: row.principal.toNumber(), interest: row.interest.toNumber(), balance: row.balance.toNumber() })),
+    }, {
+        loanAmount: 'currency',
+        monthlyPrincipalAndInterest: 'currency',
+        monthlyPropertyTax: 'currency',
+        monthlyInsurance: 'currency',
+        monthlyPmi: 'currency',
+        monthlyHoa: 'currency',
+        totalMonthlyPayment: 'currency',
+        totalInterest: 'currency',
+        totalPmi: 'currency',
+        totalCost: 'currency',
+        pmiMonths: 'months',
+    });
 }
 
-export function solveAbsoluteValueInequality(a: number, b: number, inequality: string, c: number) {
-  if (a === 0) {
-    const simpleResult = Math.abs(b);
-    let satisfied = false;
-    if (inequality === '<') satisfied = simpleResult < c;
-    if (inequality === '<=') satisfied = simpleResult <= c;
-    if (inequality === '>') satisfied = simpleResult > c;
-    if (inequality === '>=') satisfied = simpleResult >= c;
-    return {
-        solution: satisfied ? 'All real numbers' : 'No solution',
-        explanation: `With a=0, the inequality simplifies to |${b}| ${inequality} ${c}, which is ${satisfied ? 'always true.' : 'never true.'}`
-    }
-  }
+export type LoanType = 'amortizing' | 'interest_only' | 'balloon';
 
-  const flip = a < 0;
-  if (inequality === '<' || inequality === '<=') {
-    if (c < 0) return { solution: 'No solution', explanation: 'An absolute value cannot be less than a negative number.' };
-    if (c === 0) return { solution: 'No solution', explanation: 'An absolute value cannot be less than zero.' };
-    
-    const endpoint1 = (-c - b) / a;
-    const endpoint2 = (c - b) / a;
-    const lower = Math.min(endpoint1, endpoint2);
-    const upper = Math.max(endpoint1, endpoint2);
-    
-    const finalInequality = `${lower.toFixed(2)} ${inequality.replace('=', '')} x ${inequality.replace('=', '')} ${upper.toFixed(2)}`;
-    
-    return {
-        solution: finalInequality,
-        explanation: `This is a bounded interval. Interval Notation: ${inequality.includes('=') ? '[' : '('}${lower.toFixed(2)}, ${upper.toFixed(2)}${inequality.includes('=') ? ']' : ')'}`
+export interface ExtraPayment {
+    amount: number;
+    startMonth: number;
+    frequency: 'once' | 'monthly' | 'yearly';
+}
+
+function extraPaymentForMonth(extraPayments: ExtraPayment[], month: number) {
+    return extraPayments.reduce((sum, extra) => {
+        if (extra.amount <= 0 || month < extra.startMonth) return sum;
+        const offset = month - extra.startMonth;
+        if (extra.frequency === 'once') return offset === 0 ? sum + extra.amount : sum;
+        if (extra.frequency === 'yearly') return offset % 12 === 0 ? sum + extra.amount : sum;
+        return sum + extra.amount;
+    }, 0);
+}
+
+function buildLoanSchedule(
+    principal: Decimal,
+    monthlyRate: Decimal,
+    termMonths: number,
+    loanType: LoanType,
+    interestOnlyMonths: number,
+    amortizationMonths: number,
+    extraPayments: ExtraPayment[],
+    rounding: RoundingMode
+) {
+    const cents = (value: Decimal) => toCents(value, rounding);
+    let payment = cents(loanType === 'balloon'
+        ? amortizedPayment(principal, monthlyRate, amortizationMonths)
+        : loanType === 'interest_only'
+            ? principal.times(monthlyRate)
+            : amortizedPayment(principal, monthlyRate, termMonths));
+    const initialPayment = payment;
+
+    const rows: { month: number; payment: number; principal: number; interest: number; extra: number; balance: number }[] = [];
+    let balance = principal;
+    let totalInterest = Decimal.ZERO;
+    let totalExtra = Decimal.ZERO;
+    let balloonPayment = Decimal.ZERO;
+    const leavesBalloon = loanType === 'balloon' || (loanType === 'interest_only' && interestOnlyMonths >= termMonths);
+
+    for (let month = 1; month <= termMonths && balance.isPositive(); month++) {
+        const interest = cents(balance.times(monthlyRate));
+        const inInterestOnlyPeriod = loanType === 'interest_only' && month <= interestOnlyMonths;
+        if (loanType === 'interest_only' && month === interestOnlyMonths + 1) {
+            payment = cents(amortizedPayment(balance, monthlyRate, termMonths - interestOnlyMonths));
+        }
+
+        const scheduledPrincipal = inInterestOnlyPeriod ? Decimal.ZERO : Decimal.min(Decimal.max(payment.minus(interest), Decimal.ZERO), balance);
+        const extra = Decimal.min(cents(Decimal.from(extraPaymentForMonth(extraPayments, month))), balance.minus(scheduledPrincipal));
+        // Whatever is still owed at maturity is due in full with the last payment.
+        const finalPrincipal = month === termMonths ? balance.minus(scheduledPrincipal).minus(extra) : Decimal.ZERO;
+        // Only a balloon loan, or an interest-only loan that never starts amortizing, is designed to leave a
+        // balance; anything else is a rounding remainder of a few cents that is folded into the last payment.
+        if (leavesBalloon && finalPrincipal.isPositive()) balloonPayment = finalPrincipal;
+
+        balance = balance.minus(scheduledPrincipal).minus(extra).minus(finalPrincipal);
+        totalInterest = totalInterest.plus(interest);
+        totalExtra = totalExtra.plus(extra);
+        rows.push({
+            month,
+            payment: interest.plus(scheduledPrincipal).plus(finalPrincipal).toNumber(),
+            principal: scheduledPrincipal.plus(finalPrincipal).toNumber(),
+            interest: interest.toNumber(),
+            extra: extra.toNumber(),
+            balance: balance.toNumber(),
+        });
     }
-  } else { // > or >=
-    if (c < 0) return { solution: 'All real numbers', explanation: 'An absolute value is always non-negative, so it is always greater than any negative number.' };
-    if (c === 0) {
-        if (inequality === '>') return { solution: `x ≠ ${(-b/a).toFixed(2)}`, explanation: 'The absolute value is positive for all x except where ax+b=0.'}
-        if (inequality === '>=') return { solution: 'All real numbers', explanation: 'The absolute value is always greater than or equal to zero.'}
+
+    return { rows, totalInterest, totalExtra, balloonPayment, initialPayment, finalPayment: payment };
+}
+
+export function calculateLoan(
+    principal: number,
+    annualInterestRate: number,
+    termMonths: number,
+    loanType: LoanType,
+    options: {
+        interestOnlyMonths?: number;
+        amortizationMonths?: number;
+        extraPayments?: ExtraPayment[];
+        startDate?: Date;
+        rounding?: RoundingMode;
+    } = {}
+) {
+    const interestOnlyMonths = Math.min(options.interestOnlyMonths ?? termMonths, termMonths);
+    const amortizationMonths = Math.max(options.amortizationMonths ?? termMonths, termMonths);
+    const extraPayments = options.extraPayments ?? [];
+    const startDate = options.startDate ?? new Date();
+    const rounding = options.rounding ?? DEFAULT_ROUNDING_MODE;
+    const amount = toCents(principal, rounding);
+    const monthlyRate = Decimal.from(annualInterestRate).dividedBy(1200);
+
+    const baseline = buildLoanSchedule(amount, monthlyRate, termMonths, loanType, interestOnlyMonths, amortizationMonths, [], rounding);
+    const actual = buildLoanSchedule(amount, monthlyRate, termMonths, loanType, interestOnlyMonths, amortizationMonths, extraPayments, rounding);
+
+    const paymentDate = (month: number) => format(addMonths(startDate, month - 1), 'MMM yyyy');
+
+    return success({
+        loanType,
+        monthlyPayment: actual.initialPayment.toNumber(),
+        paymentAfterInterestOnly: loanType === 'interest_only' && interestOnlyMonths < termMonths ? actual.finalPayment.toNumber() : null,
+        balloonPayment: actual.balloonPayment.toNumber(),
+        totalInterest: actual.totalInterest.toNumber(),
+        totalExtra: actual.totalExtra.toNumber(),
+        totalPaid: amount.plus(actual.totalInterest).toNumber(),
+        interestSaved: baseline.totalInterest.minus(actual.totalInterest).toNumber(),
+        payoffMonths: actual.rows.length,
+        monthsSaved: baseline.rows.length - actual.rows.length,
+        payoffDate: paymentDate(actual.rows.length),
+        originalPayoffDate: paymentDate(baseline.rows.length),
+        schedule: actual.rows.map((row) => ({ ...row, date: paymentDate(row.month) })),
+    }, {
+        monthlyPayment: 'currency',
+        paymentAfterInterestOnly: 'currency',
+        balloonPayment: 'currency',
+        totalInterest: 'currency',
+        totalExtra: 'currency',
+        totalPaid: 'currency',
+        interestSaved: 'currency',
+        payoffMonths: 'months',
+        monthsSaved: 'months',
+    });
+}
+
+export interface AutoOwnershipCosts {
+    monthlyDistance: number;
+    distanceUnit: 'kilometers' | 'miles';
+    efficiency: number;
+    efficiencyUnit: 'mpg' | 'lp100km';
+    fuelPrice: number;
+    priceUnit: 'per_gallon' | 'per_liter';
+    monthlyInsurance: number;
+    monthlyMaintenance: number;
+}
+
+function autoMonthlyRunningCosts(ownership?: AutoOwnershipCosts) {
+    if (!ownership) return { fuel: 0, insurance: 0, maintenance: 0 };
+    const fuelCost = ownership.monthlyDistance > 0 && ownership.efficiency > 0
+        ? calculateFuelCost(ownership.monthlyDistance, ownership.distanceUnit, ownership.efficiency, ownership.efficiencyUnit, ownership.fuelPrice, ownership.priceUnit)
+        : null;
+    const fuel = fuelCost?.ok ? fuelCost.data.totalCost : 0;
+    return { fuel, insurance: ownership.monthlyInsurance, maintenance: ownership.monthlyMaintenance };
+}
+
+export function calculateAutoLoan(
+    vehiclePrice: number,
+    downPayment: number,
+    tradeInValue: number,
+    tradeInPayoff: number,
+    salesTaxRate: number,
+    dealerFees: number,
+    annualInterestRate: number,
+    termMonths: number,
+    options: {
+        taxTradeInCredit?: boolean;
+        monthlyBudget?: number;
+        ownership?: AutoOwnershipCosts;
+        rounding?: RoundingMode;
+    } = {}
+) {
+    const taxTradeInCredit = options.taxTradeInCredit ?? true;
+    const cents = (value: Decimal | number) => toCents(value, options.rounding ?? DEFAULT_ROUNDING_MODE);
+    const price = cents(vehiclePrice);
+    const down = cents(downPayment);
+    const fees = cents(dealerFees);
+    const taxRate = Decimal.from(salesTaxRate).dividedBy(100);
+    const tradeInEquity = cents(tradeInValue).minus(cents(tradeInPayoff));
+
+    // Most states only tax the difference between the price and the trade-in.
+    const taxableAmount = Decimal.max(price.minus(taxTradeInCredit ? cents(tradeInValue) : Decimal.ZERO), Decimal.ZERO);
+    const salesTax = cents(taxableAmount.times(taxRate));
+    // Fees, tax and any negative trade-in equity are rolled into the loan.
+    const amountFinanced = Decimal.max(price.plus(salesTax).plus(fees).minus(down).minus(tradeInEquity), Decimal.ZERO);
+
+    const monthlyRate = Decimal.from(annualInterestRate).dividedBy(1200);
+    const monthlyPayment = cents(amortizedPayment(amountFinanced, monthlyRate, termMonths));
+    const totalLoanPayments = monthlyPayment.times(termMonths);
+    const totalInterest = totalLoanPayments.minus(amountFinanced);
+
+    const running = autoMonthlyRunningCosts(options.ownership);
+    const fuel = cents(running.fuel);
+    const insurance = cents(running.insurance);
+    const maintenance = cents(running.maintenance);
+    const monthlyRunningCost = fuel.plus(insurance).plus(maintenance);
+    const monthlyOwnershipCost = monthlyPayment.plus(monthlyRunningCost);
+    const totalCostOfOwnership = down.plus(Decimal.max(tradeInEquity, Decimal.ZERO)).plus(totalLoanPayments).plus(monthlyRunningCost.times(termMonths));
+
+    // Invert the financing steps above: budget -> loan amount -> vehicle price.
+    // The loan a payment supports is the amortization formula solved for P: M * (f - 1) / (r * f) with f = (1 + r)^n.
+    let maxAffordablePrice: number | null = null;
+    if (options.monthlyBudget !== undefined) {
+        const paymentBudget = cents(options.monthlyBudget).minus(monthlyRunningCost);
+        const growth = monthlyRate.plus(1).pow(termMonths);
+        const maxLoan = !paymentBudget.isPositive() ? Decimal.ZERO : monthlyRate.isZero()
+            ? paymentBudget.times(termMonths)
+            : paymentBudget.times(growth.minus(1)).dividedBy(monthlyRate.times(growth));
+        const taxCredit = taxTradeInCredit ? cents(tradeInValue).times(taxRate) : Decimal.ZERO;
+        const affordable = maxLoan.minus(fees).plus(down).plus(tradeInEquity).plus(taxCredit).dividedBy(taxRate.plus(1));
+        maxAffordablePrice = cents(Decimal.max(affordable, Decimal.ZERO)).toNumber();
     }
-    
-    const endpoint1 = (c - b) / a;
-    const endpoint2 = (-c - b) / a;
-    const lower = Math.min(endpoint1, endpoint2);
-    const upper = Math.max(endpoint1, endpoint2);
-    
-    const op1 = '<';
-    const op2 = '>';
-    const eq = inequality.includes('=') ? '=' : '';
 
-    return {
-        solution: `x ${op1}${eq} ${lower.toFixed(2)} or x ${op2}${eq} ${upper.toFixed(2)}`,
-        explanation: `This represents two unbounded intervals. Interval Notation: (-∞, ${lower.toFixed(2)}${inequality.includes('=') ? ']' : ')'}) U (${inequality.includes('=') ? '[' : '('}${upper.toFixed(2)}, ∞)`
+    return success({
+        salesTax: salesTax.toNumber(),
+        tradeInEquity: tradeInEquity.toNumber(),
+        amountFinanced: amountFinanced.toNumber(),
+        monthlyPayment: monthlyPayment.toNumber(),
+        totalInterest: totalInterest.toNumber(),
+        totalLoanPayments: totalLoanPayments.toNumber(),
+        monthlyFuelCost: fuel.toNumber(),
+        monthlyOwnershipCost: monthlyOwnershipCost.toNumber(),
+        totalCostOfOwnership: totalCostOfOwnership.toNumber(),
+        maxAffordablePrice,
+        breakdown: [
+            { name: 'Vehicle', value: price.toNumber() },
+            { name: 'Sales Tax', value: salesTax.toNumber() },
+            { name: 'Fees', value: fees.toNumber() },
+            { name: 'Rolled-Over Payoff', value: Decimal.max(tradeInEquity.negated(), Decimal.ZERO).toNumber() },
+            { name: 'Interest', value: totalInterest.toNumber() },
+            { name: 'Fuel', value: fuel.times(termMonths).toNumber() },
+            { name: 'Insurance', value: insurance.times(termMonths).toNumber() },
+            { name: 'Maintenance', value: maintenance.times(termMonths).toNumber() },
+        ],
+    }, {
+        salesTax: 'currency',
+        tradeInEquity: 'currency',
+        amountFinanced: 'currency',
+        monthlyPayment: 'currency',
+        totalInterest: 'currency',
+        totalLoanPayments: 'currency',
+        monthlyFuelCost: 'currency',
+        monthlyOwnershipCost: 'currency',
+        totalCostOfOwnership: 'currency',
+        maxAffordablePrice: 'currency',
+    });
+}
+
+// SAVINGS CALCULATORS
+export type ContributionFrequency = 'weekly' | 'biweekly' | 'monthly' | 'annually';
+export type CompoundingFrequency = 'daily' | 'monthly' | 'quarterly' | 'annually';
+export type DepositTiming = 'start' | 'end';
+
+const contributionsPerYear: Record<ContributionFrequency, number> = {
+    weekly: 52,
+    biweekly: 26,
+    monthly: 12,
+    annually: 1,
+};
+
+const compoundingsPerYear: Record<CompoundingFrequency, number> = {
+    daily: 365,
+    monthly: 12,
+    quarterly: 4,
+    annually: 1,
+};
+
+// (1 + rate)^exponent - 1. A whole exponent is exact; a fractional one, e.g. daily compounding credited weekly,
+// needs a floating point power, so that rate is approximate while every amount it is applied to stays in cents.
+function compoundedRate(rate: Decimal, exponent: number) {
+    if (Number.isInteger(exponent)) return rate.plus(1).pow(exponent).minus(1);
+    return Decimal.from(Math.pow(1 + rate.toNumber(), exponent) - 1);
+}
+
+// Interest is credited in whole cents each contribution period, as a bank would.
+function simulateSavings(
+    initialDeposit: number,
+    contribution: number,
+    contributionFrequency: ContributionFrequency,
+    annualInterestRate: number,
+    compoundingFrequency: CompoundingFrequency,
+    years: number,
+    depositTiming: DepositTiming,
+    rounding: RoundingMode
+) {
+    const cents = (value: Decimal | number) => toCents(value, rounding);
+    const periodsPerYear = contributionsPerYear[contributionFrequency];
+    const compoundsPerYear = compoundingsPerYear[compoundingFrequency];
+    // Convert the nominal rate to the effective rate for one contribution period.
+    const periodRate = compoundedRate(Decimal.from(annualInterestRate).dividedBy(100 * compoundsPerYear), compoundsPerYear / periodsPerYear);
+    const totalPeriods = Math.round(years * periodsPerYear);
+    const deposit = cents(contribution);
+
+    let balance = cents(initialDeposit);
+    let totalContributions = balance;
+    const history = [{ year: 0, balance: balance.toNumber(), contributions: totalContributions.toNumber(), interest: 0 }];
+
+    for (let period = 1; period <= totalPeriods; period++) {
+        if (depositTiming === 'start') balance = balance.plus(deposit);
+        balance = balance.plus(cents(balance.times(periodRate)));
+        if (depositTiming === 'end') balance = balance.plus(deposit);
+        totalContributions = totalContributions.plus(deposit);
+
+        if (period % periodsPerYear === 0 || period === totalPeriods) {
+            history.push({
+                year: parseFloat((period / periodsPerYear).toFixed(2)),
+                balance: balance.toNumber(),
+                contributions: totalContributions.toNumber(),
+                interest: balance.minus(totalContributions).toNumber(),
+            });
+        }
     }
-  }
+
+    return { balance, totalContributions, history };
 }
 
-function parsePolynomial(poly: string): Map<number, number> {
-    const terms = new Map<number, number>();
-    if (!poly) return terms;
+export function calculateSavings(
+    initialDeposit: number,
+    contribution: number,
+    contributionFrequency: ContributionFrequency,
+    annualInterestRate: number,
+    compoundingFrequency: CompoundingFrequency,
+    years: number,
+    depositTiming: DepositTiming,
+    rounding: RoundingMode = DEFAULT_ROUNDING_MODE
+) {
+    const { balance, totalContributions, history } = simulateSavings(initialDeposit, contribution, contributionFrequency, annualInterestRate, compoundingFrequency, years, depositTiming, rounding);
+    return success({
+        finalBalance: balance.toNumber(),
+        totalContributions: totalContributions.toNumber(),
+        totalInterest: balance.minus(totalContributions).toNumber(),
+        history,
+    }, { finalBalance: 'currency', totalContributions: 'currency', totalInterest: 'currency' });
+}
 
-    const processedPoly = poly.replace(/\s/g, '').replace(/([a-zA-Z0-9\^])-/g, '$1+-').replace(/^-/, '');
-    if (poly.trim().startsWith('-')) {
-        // Handle case where first term is negative
+// The future value is linear in the contribution apart from each interest credit's rounding, so two projections
+// give the contribution to within a cent or so; it is then raised a cent at a time until the target is met.
+export function calculateRequiredContribution(
+    targetAmount: number,
+    initialDeposit: number,
+    contributionFrequency: ContributionFrequency,
+    annualInterestRate: number,
+    compoundingFrequency: CompoundingFrequency,
+    years: number,
+    depositTiming: DepositTiming,
+    rounding: RoundingMode = DEFAULT_ROUNDING_MODE
+) {
+    const project = (contribution: number) =>
+        simulateSavings(initialDeposit, contribution, contributionFrequency, annualInterestRate, compoundingFrequency, years, depositTiming, rounding).balance;
+    // A large trial contribution keeps the rounding of individual credits out of the slope.
+    const TRIAL_CONTRIBUTION = 1000;
+    const target = Decimal.from(targetAmount);
+    const withoutContributions = project(0);
+    const perUnitContribution = project(TRIAL_CONTRIBUTION).minus(withoutContributions).dividedBy(TRIAL_CONTRIBUTION);
+
+    if (!perUnitContribution.isPositive() && withoutContributions.compare(target) < 0) {
+        return failure('out_of_range', 'No contribution can reach the target in this time frame.');
     }
-    
-    let termStrings = processedPoly.split('+');
-    if (poly.trim().startsWith('-')) {
-        termStrings[0] = '-' + termStrings[0];
+
+    const alreadyOnTrack = withoutContributions.compare(target) >= 0;
+    let requiredContribution = alreadyOnTrack ? Decimal.ZERO : target.minus(withoutContributions).dividedBy(perUnitContribution, 2, rounding);
+    while (!alreadyOnTrack && project(requiredContribution.toNumber()).compare(target) < 0) {
+        requiredContribution = requiredContribution.plus(0.01);
     }
-    
-    for (const term of termStrings) {
-        if (!term) continue;
-        let coef = 1;
-        let exp = 0;
-
-        if (!term.includes('x')) {
-            coef = parseFloat(term);
-            exp = 0;
-        } else {
-            const parts = term.split('x');
-            const coefPart = parts[0];
-            
-            if (coefPart === '' || coefPart === undefined) {
-                coef = 1;
-            } else if (coefPart === '-') {
-                coef = -1;
-            } else {
-                coef = parseFloat(coefPart);
-            }
+    const savings = calculateSavings(initialDeposit, requiredContribution.toNumber(), contributionFrequency, annualInterestRate, compoundingFrequency, years, depositTiming, rounding);
+    return success({
+        requiredContribution: requiredContribution.toNumber(),
+        alreadyOnTrack,
+        ...savings.data,
+    }, { requiredContribution: 'currency', ...savings.units });
+}
+
+// INVESTMENT CALCULATORS
+export type InvestmentTaxTreatment = 'annual' | 'deferred';
+
+// Years beyond the end of the return series wrap around to its start.
+function returnForYear(annualReturns: number[], year: number) {
+    return annualReturns[(year - 1) % annualReturns.length];
+}
+
+function simulateInvestment(
+    initialInvestment: number,
+    contribution: number,
+    contributionFrequency: ContributionFrequency,
+    years: number,
+    annualReturns: number[],
+    annualFeeRate: number,
+    taxRate: number,
+    taxTreatment: InvestmentTaxTreatment,
+    rounding: RoundingMode
+) {
+    const cents = (value: Decimal | number) => toCents(value, rounding);
+    const periodsPerYear = contributionsPerYear[contributionFrequency];
+    // The share of the balance charged each period, so a year of charges compounds to the annual fee rate.
+    const periodFeeRate = compoundedRate(Decimal.from(annualFeeRate).dividedBy(100).negated(), 1 / periodsPerYear).negated();
+    const deposit = cents(contribution);
+    const tax = Decimal.from(taxRate).dividedBy(100);
+
+    let balance = cents(initialInvestment);
+    let totalContributions = balance;
+    let totalGrowth = Decimal.ZERO;
+    let totalFees = Decimal.ZERO;
+    let totalTaxes = Decimal.ZERO;
+    let lossCarryForward = Decimal.ZERO;
+    const history = [{ year: 0, returnRate: 0, balance: balance.toNumber(), contributions: totalContributions.toNumber(), growth: 0, fees: 0, taxes: 0 }];
+
+    for (let year = 1; year <= years; year++) {
+        const returnRate = returnForYear(annualReturns, year);
+        const periodRate = compoundedRate(Decimal.from(returnRate).dividedBy(100), 1 / periodsPerYear);
+        let yearGrowth = Decimal.ZERO;
+        let yearFees = Decimal.ZERO;
+
+        for (let period = 1; period <= periodsPerYear; period++) {
+            const growth = cents(balance.times(periodRate));
+            const fee = cents(balance.plus(growth).times(periodFeeRate));
+            balance = balance.plus(growth).minus(fee).plus(deposit);
+            yearGrowth = yearGrowth.plus(growth);
+            yearFees = yearFees.plus(fee);
+            totalContributions = totalContributions.plus(deposit);
+        }
 
-            if (parts[1] && parts[1].startsWith('^')) {
-                exp = parseInt(parts[1].substring(1));
+        // Taxable accounts pay tax on each year's net gain, offsetting earlier losses first.
+        let yearTaxes = Decimal.ZERO;
+        if (taxTreatment === 'annual') {
+            const netGain = yearGrowth.minus(yearFees).minus(lossCarryForward);
+            if (netGain.isPositive()) {
+                yearTaxes = cents(netGain.times(tax));
+                lossCarryForward = Decimal.ZERO;
             } else {
-                exp = 1;
+                lossCarryForward = netGain.negated();
             }
+            balance = balance.minus(yearTaxes);
         }
 
-        if(isNaN(coef)) throw new Error(`Invalid coefficient in term: "${term}"`);
-        if(isNaN(exp)) throw new Error(`Invalid exponent in term: "${term}"`);
+        totalGrowth = totalGrowth.plus(yearGrowth);
+        totalFees = totalFees.plus(yearFees);
+        totalTaxes = totalTaxes.plus(yearTaxes);
+        history.push({
+            year,
+            returnRate,
+            balance: balance.toNumber(),
+            contributions: totalContributions.toNumber(),
+            growth: totalGrowth.toNumber(),
+            fees: totalFees.toNumber(),
+            taxes: totalTaxes.toNumber(),
+        });
+    }
+
+    // Tax-deferred accounts pay tax once, on all gains, when the money is withdrawn.
+    const deferredTax = taxTreatment === 'deferred' ? cents(Decimal.max(balance.minus(totalContributions), Decimal.ZERO).times(tax)) : Decimal.ZERO;
+
+    return { balance, afterTaxBalance: balance.minus(deferredTax), totalContributions, totalGrowth, totalFees, totalTaxes: totalTaxes.plus(deferredTax), history };
+}
+
+export function calculateInvestment(
+    initialInvestment: number,
+    contribution: number,
+    contributionFrequency: ContributionFrequency,
+    years: number,
+    annualReturns: number[],
+    expenseRatio: number,
+    advisoryFee: number,
+    taxRate: number,
+    taxTreatment: InvestmentTaxTreatment,
+    rounding: RoundingMode = DEFAULT_ROUNDING_MODE
+) {
+    const result = simulateInvestment(initialInvestment, contribution, contributionFrequency, years, annualReturns, expenseRatio + advisoryFee, taxRate, taxTreatment, rounding);
+    const withoutFees = simulateInvestment(initialInvestment, contribution, contributionFrequency, years, annualReturns, 0, taxRate, taxTreatment, rounding);
+
+    const yearlyReturns = Array.from({ length: years }, (_, i) => returnForYear(annualReturns, i + 1));
+    const averageReturn = yearlyReturns.reduce((sum, rate) => sum + rate, 0) / years;
+    const compoundReturn = (Math.pow(yearlyReturns.reduce((product, rate) => product * (1 + rate / 100), 1), 1 / years) - 1) * 100;
+
+    return success({
+        finalBalance: result.balance.toNumber(),
+        afterTaxBalance: result.afterTaxBalance.toNumber(),
+        totalContributions: result.totalContributions.toNumber(),
+        totalGrowth: result.totalGrowth.toNumber(),
+        totalFees: result.totalFees.toNumber(),
+        totalTaxes: result.totalTaxes.toNumber(),
+        // Fees cost more than what is charged: the charged amounts would also have compounded.
+        costOfFees: withoutFees.afterTaxBalance.minus(result.afterTaxBalance).toNumber(),
+        averageReturn,
+        compoundReturn,
+        history: result.history,
+    }, {
+        finalBalance: 'currency',
+        afterTaxBalance: 'currency',
+        totalContributions: 'currency',
+        totalGrowth: 'currency',
+        totalFees: 'currency',
+        totalTaxes: 'currency',
+        costOfFees: 'currency',
+        averageReturn: 'percent',
+        compoundReturn: 'percent',
+    });
+}
+
+// SIMULATION CALCULATORS
+// Mulberry32: a small, fast PRNG whose whole state is one 32-bit integer, so a seed fully reproduces a run.
+export function createSeededRandom(seed: number) {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+export function randomSeed() {
+    return Math.floor(Math.random() * 2 ** 31);
+}
 
-        terms.set(exp, (terms.get(exp) || 0) + coef);
+// Box-Muller transform: turns two uniform samples into one standard normal sample.
+function standardNormal(random: () => number) {
+    const u = 1 - random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function percentile(sorted: number[], p: number) {
+    const index = (sorted.length - 1) * p;
+    const lower = Math.floor(index);
+    const upper = Math.ceil(index);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+export function runMonteCarloSimulation(
+    initialValue: number,
+    annualContribution: number,
+    meanReturn: number,
+    volatility: number,
+    years: number,
+    simulations: number,
+    seed: number,
+    targetValue: number,
+    rounding: RoundingMode = DEFAULT_ROUNDING_MODE
+) {
+    const cents = (value: Decimal | number) => toCents(value, rounding);
+    const random = createSeededRandom(seed);
+    // paths[year][simulation] keeps each year's outcomes together for the percentile pass.
+    // The paths are samples of a random model rather than account balances, and up to two million
+    // of them are drawn per run, so they stay in floating point; every reported amount is rounded to cents.
+    const paths: number[][] = Array.from({ length: years + 1 }, () => new Array(simulations));
+
+    for (let sim = 0; sim < simulations; sim++) {
+        let value = initialValue;
+        paths[0][sim] = value;
+        for (let year = 1; year <= years; year++) {
+            // A return can't lose more than everything.
+            const annualReturn = Math.max(meanReturn + volatility * standardNormal(random), -100);
+            value = value * (1 + annualReturn / 100) + annualContribution;
+            paths[year][sim] = value;
+        }
+    }
+
+    // Percentiles interpolate between two outcomes, so they are rounded back to cents.
+    const bands = paths.map((outcomes, year) => {
+        const sorted = [...outcomes].sort((a, b) => a - b);
+        const p10 = cents(percentile(sorted, 0.1)).toNumber();
+        const p90 = cents(percentile(sorted, 0.9)).toNumber();
+        return {
+            year,
+            p10,
+            p50: cents(percentile(sorted, 0.5)).toNumber(),
+            p90,
+            range: [p10, p90] as [number, number],
+        };
+    });
+
+    const finalOutcomes = paths[years];
+    const successes = finalOutcomes.filter((value) => value >= targetValue).length;
+    const meanOutcome = cents(finalOutcomes.reduce((sum, value) => sum + value, 0) / simulations);
+    const final = bands[years];
+
+    return success({
+        seed,
+        simulations,
+        p10: final.p10,
+        p50: final.p50,
+        p90: final.p90,
+        mean: meanOutcome.toNumber(),
+        probabilityOfTarget: successes / simulations * 100,
+        bands,
+    }, {
+        seed: 'integer',
+        simulations: 'integer',
+        p10: 'currency',
+        p50: 'currency',
+        p90: 'currency',
+        mean: 'currency',
+        probabilityOfTarget: 'percent',
+    });
+}
+
+// RETIREMENT CALCULATORS
+// Growth, contributions and withdrawals are credited once a year in whole cents.
+export function calculateRetirement(
+    currentAge: number,
+    retirementAge: number,
+    lifeExpectancy: number,
+    currentSavings: number,
+    annualContribution: number,
+    preRetirementReturn: number,
+    postRetirementReturn: number,
+    inflationRate: number,
+    withdrawalRate: number,
+    rounding: RoundingMode = DEFAULT_ROUNDING_MODE
+) {
+    const cents = (value: Decimal | number) => toCents(value, rounding);
+    const inflation = Decimal.from(inflationRate).dividedBy(100);
+    const preRetirementRate = Decimal.from(preRetirementReturn).dividedBy(100);
+    const postRetirementRate = Decimal.from(postRetirementReturn).dividedBy(100);
+    const contribution = cents(annualContribution);
+    const history: { age: number; phase: 'accumulation' | 'drawdown'; balance: number; realBalance: number; contribution: number; withdrawal: number }[] = [];
+    // Prices relative to today, carried forward a year at a time.
+    const yearlyInflation = inflation.plus(1);
+    let priceLevel = Decimal.from(1);
+    const toTodaysDollars = (value: Decimal, level = priceLevel) => cents(value.dividedBy(level));
+
+    let balance = cents(currentSavings);
+    history.push({ age: currentAge, phase: 'accumulation', balance: balance.toNumber(), realBalance: balance.toNumber(), contribution: 0, withdrawal: 0 });
+
+    // Accumulation: contributions are added at the end of each year of growth.
+    for (let age = currentAge + 1; age <= retirementAge; age++) {
+        balance = balance.plus(cents(balance.times(preRetirementRate))).plus(contribution);
+        priceLevel = priceLevel.times(yearlyInflation);
+        history.push({
+            age,
+            phase: 'accumulation',
+            balance: balance.toNumber(),
+            realBalance: toTodaysDollars(balance).toNumber(),
+            contribution: contribution.toNumber(),
+            withdrawal: 0,
+        });
+    }
+
+    const nestEgg = balance;
+    const retirementPriceLevel = priceLevel;
+    const firstWithdrawal = cents(nestEgg.times(withdrawalRate).dividedBy(100));
+    let withdrawal = firstWithdrawal;
+    let depletionAge: number | null = null;
+
+    // Drawdown: the first-year withdrawal is then raised with inflation every year.
+    for (let age = retirementAge + 1; age <= lifeExpectancy; age++) {
+        const taken = Decimal.min(withdrawal, balance);
+        balance = balance.minus(taken);
+        balance = balance.plus(cents(balance.times(postRetirementRate)));
+        if (!balance.isPositive() && depletionAge === null) depletionAge = age;
+        priceLevel = priceLevel.times(yearlyInflation);
+        history.push({
+            age,
+            phase: 'drawdown',
+            balance: balance.toNumber(),
+            realBalance: toTodaysDollars(balance).toNumber(),
+            contribution: 0,
+            withdrawal: taken.toNumber(),
+        });
+        withdrawal = cents(withdrawal.times(yearlyInflation));
+    }
+
+    const annualIncomeToday = toTodaysDollars(firstWithdrawal, retirementPriceLevel);
+
+    return success({
+        nestEgg: nestEgg.toNumber(),
+        nestEggToday: toTodaysDollars(nestEgg, retirementPriceLevel).toNumber(),
+        annualIncome: firstWithdrawal.toNumber(),
+        annualIncomeToday: annualIncomeToday.toNumber(),
+        monthlyIncomeToday: cents(annualIncomeToday.dividedBy(12)).toNumber(),
+        endingBalance: balance.toNumber(),
+        depletionAge,
+        history,
+    }, {
+        nestEgg: 'currency',
+        nestEggToday: 'currency',
+        annualIncome: 'currency',
+        annualIncomeToday: 'currency',
+        monthlyIncomeToday: 'currency',
+        endingBalance: 'currency',
+        depletionAge: 'integer',
+    });
+}
+
+// ALGEBRA CALCULATORS
+export interface SolutionInterval {
+    lower: number | null;
+    upper: number | null;
+    lowerInclusive: boolean;
+    upperInclusive: boolean;
+}
+
+export type InequalitySolution =
+    | { kind: 'all' }
+    | { kind: 'none' }
+    | { kind: 'between'; lower: number; upper: number; inclusive: boolean }
+    | { kind: 'outside'; lower: number; upper: number; inclusive: boolean }
+    | { kind: 'except'; value: number }
+    | { kind: 'intervals'; intervals: SolutionInterval[] };
+
+// A null bound is unbounded on that side.
+interface ExactInterval {
+    lower: Rational | null;
+    upper: Rational | null;
+    lowerInclusive: boolean;
+    upperInclusive: boolean;
+}
+
+const compareLower = (x: Rational | null, y: Rational | null) => (x === null ? (y === null ? 0 : -1) : y === null ? 1 : x.compare(y));
+const compareUpper = (x: Rational | null, y: Rational | null) => (x === null ? (y === null ? 0 : 1) : y === null ? -1 : x.compare(y));
+
+function intersectIntervals(a: ExactInterval, b: ExactInterval): ExactInterval | null {
+    const lowerOrder = compareLower(a.lower, b.lower);
+    const upperOrder = compareUpper(a.upper, b.upper);
+    const interval = {
+        lower: lowerOrder >= 0 ? a.lower : b.lower,
+        lowerInclusive: lowerOrder > 0 ? a.lowerInclusive : lowerOrder < 0 ? b.lowerInclusive : a.lowerInclusive && b.lowerInclusive,
+        upper: upperOrder <= 0 ? a.upper : b.upper,
+        upperInclusive: upperOrder < 0 ? a.upperInclusive : upperOrder > 0 ? b.upperInclusive : a.upperInclusive && b.upperInclusive,
+    };
+    if (interval.lower === null || interval.upper === null) return interval;
+    const order = interval.lower.compare(interval.upper);
+    return order < 0 || (order === 0 && interval.lowerInclusive && interval.upperInclusive) ? interval : null;
+}
+
+// Sorts the intervals and joins those that overlap or meet at an included point.
+function unionIntervals(intervals: ExactInterval[]) {
+    const merged: ExactInterval[] = [];
+    for (const interval of [...intervals].sort((a, b) => compareLower(a.lower, b.lower))) {
+        const last = merged[merged.length - 1];
+        const order = last && last.upper !== null && interval.lower !== null ? interval.lower.compare(last.upper) : -1;
+        if (!last || order > 0 || (order === 0 && !last.upperInclusive && !interval.lowerInclusive)) {
+            merged.push({ ...interval });
+            continue;
+        }
+        const upperOrder = compareUpper(interval.upper, last.upper);
+        if (upperOrder > 0) Object.assign(last, { upper: interval.upper, upperInclusive: interval.upperInclusive });
+        else if (upperOrder === 0) last.upperInclusive ||= interval.upperInclusive;
     }
-    return terms;
+    return merged;
+}
+
+const FLIPPED_RELATIONS: Record<RelationOperator, RelationOperator> = { '=': '=', '<': '>', '<=': '>=', '>': '<', '>=': '<=' };
+
+function relationHolds(value: Rational, operator: RelationOperator) {
+    const sign = value.compare(0);
+    if (operator === '=') return sign === 0;
+    if (operator === '<') return sign < 0;
+    if (operator === '<=') return sign <= 0;
+    if (operator === '>') return sign > 0;
+    return sign >= 0;
+}
+
+function describeInterval(interval: ExactInterval, variable: string) {
+    const { lower, upper } = interval;
+    const lowerSign = interval.lowerInclusive ? '≤' : '<';
+    const upperSign = interval.upperInclusive ? '≤' : '<';
+    if (lower === null && upper === null) return 'all real numbers';
+    if (lower === null) return `${variable} ${upperSign} ${upper}`;
+    if (upper === null) return `${variable} ${interval.lowerInclusive ? '≥' : '>'} ${lower}`;
+    if (lower.equals(upper)) return `${variable} = ${lower}`;
+    return `${lower} ${lowerSign} ${variable} ${upperSign} ${upper}`;
 }
 
-function formatPolynomial(terms: Map<number, number>): string {
-    if (terms.size === 0) return "0";
-    const sortedTerms = Array.from(terms.entries()).sort((a, b) => b[0] - a[0]);
-    let result = "";
+const joinWithAnd = (items: string[]) => (items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items[0]);
 
-    for (const [exp, coef] of sortedTerms) {
-        if (coef === 0) continue;
-        
-        let termStr = "";
-        const absCoef = Math.abs(coef);
+const describeIntervals = (intervals: ExactInterval[], variable: string) =>
+    intervals.length ? intervals.map((interval) => describeInterval(interval, variable)).join(' or ') : 'no solution';
 
-        if (result.length > 0) {
-            termStr += (coef > 0) ? " + " : " - ";
-        } else if (coef < 0) {
-            termStr += "-";
+// Reports the set in the simplest of the shapes the pages know how to write.
+function classifyIntervals(intervals: ExactInterval[]): InequalitySolution {
+    const value = (bound: Rational | null) => (bound === null ? null : bound.toNumber());
+    const [first, second] = intervals;
+    if (intervals.length === 0) return { kind: 'none' };
+    if (intervals.length === 1 && first.lower === null && first.upper === null) return { kind: 'all' };
+    if (intervals.length === 1 && first.lower && first.upper && !first.lower.equals(first.upper) && first.lowerInclusive === first.upperInclusive) {
+        return { kind: 'between', lower: first.lower.toNumber(), upper: first.upper.toNumber(), inclusive: first.lowerInclusive };
+    }
+    if (intervals.length === 2 && first.lower === null && second.upper === null && first.upper && second.lower && first.upperInclusive === second.lowerInclusive) {
+        if (first.upper.equals(second.lower)) return { kind: 'except', value: first.upper.toNumber() };
+        return { kind: 'outside', lower: first.upper.toNumber(), upper: second.lower.toNumber(), inclusive: first.upperInclusive };
+    }
+    return {
+        kind: 'intervals',
+        intervals: intervals.map((interval) => ({ ...interval, lower: value(interval.lower), upper: value(interval.upper) })),
+    };
+}
+
+/**
+ * Solves `left operator right` for a relation that is linear apart from
+ * absolute values. `left - right` is normalized into linear pieces, one per
+ * interval between the points where an absolute value changes sign, and each
+ * piece is solved exactly and restricted to its own interval.
+ */
+function solvePiecewiseRelation(input: string, expected: 'equation' | 'inequality') {
+    let relation;
+    let difference: PiecewiseLinear;
+    let variable = 'x';
+    try {
+        relation = parseRelation(input);
+        const isEquation = relation.operator === '=';
+        if (expected === 'equation' && !isEquation) {
+            return failure('invalid_expression', `Use "=" in an equation; "${RELATION_SYMBOLS[relation.operator]}" belongs in the absolute value inequality calculator.`);
+        }
+        if (expected === 'inequality' && isEquation) {
+            return failure('invalid_expression', 'Use <, ≤, > or ≥ in an inequality; equations belong in the absolute value equation calculator.');
         }
+        const variables = [...new Set([...variablesOf(relation.left), ...variablesOf(relation.right)])].sort();
+        if (variables.length > 1) return failure('invalid_expression', `Use a single variable, but found ${variables.join(', ')}.`);
+        variable = variables[0] ?? variable;
+        difference = toPiecewiseLinear({ type: 'binary', operator: '-', left: relation.left, right: relation.right, position: 0 }, variable);
+    } catch (error) {
+        if (!(error instanceof ExpressionSyntaxError)) throw error;
+        return failure('invalid_expression', error.message);
+    }
 
-        if (absCoef !== 1 || exp === 0) {
-            termStr += absCoef;
+    const { left, operator, right } = relation;
+    const symbol = RELATION_SYMBOLS[operator];
+    const rightIsZero = right.type === 'number' && right.value.isZero();
+    const moved = rightIsZero ? formatExpression(left) : formatExpression({ type: 'binary', operator: '-', left, right, position: 0 });
+    const steps = [`Move everything to one side: ${moved} ${symbol} 0.`];
+
+    const breakpoints = breakpointsOf(difference);
+    steps.push(breakpoints.length
+        ? `The absolute values change sign at ${joinWithAnd(breakpoints.map((x) => `${variable} = ${x}`))}, which splits the number line into ${difference.length} cases.`
+        : 'Nothing changes sign, so there is a single linear case.');
+
+    const pieces: ExactInterval[] = [];
+    for (const piece of difference) {
+        const range: ExactInterval = { lower: piece.from, upper: piece.to, lowerInclusive: true, upperInclusive: false };
+        const linear = Polynomial.fromCoefficients([piece.slope, piece.intercept], variable).toString();
+        const heading = difference.length > 1 ? `For ${describeInterval(range, variable)}: ` : '';
+
+        if (piece.slope.isZero()) {
+            const holds = relationHolds(piece.intercept, operator);
+            if (holds) pieces.push(range);
+            steps.push(`${heading}${linear} ${symbol} 0 is ${holds ? 'always' : 'never'} true${difference.length > 1 ? ' here' : ''}.`);
+            continue;
         }
 
-        if (exp > 0) {
-            termStr += "x";
-            if (exp > 1) {
-                termStr += `^${exp}`;
-            }
+        const root = piece.intercept.negated().dividedBy(piece.slope);
+        const solved = piece.slope.isNegative() ? FLIPPED_RELATIONS[operator] : operator;
+        const candidate: ExactInterval = {
+            lower: solved === '<' || solved === '<=' ? null : root,
+            upper: solved === '>' || solved === '>=' ? null : root,
+            lowerInclusive: solved !== '>',
+            upperInclusive: solved !== '<',
+        };
+        const kept = intersectIntervals(candidate, range);
+        if (kept) pieces.push(kept);
+        const outcome = !kept
+            ? 'which is outside this case'
+            : operator === '=' ? 'which is in this case' : `giving ${describeInterval(kept, variable)}`;
+        steps.push(`${heading}${linear} ${symbol} 0, so ${variable} ${RELATION_SYMBOLS[solved]} ${root}${difference.length > 1 ? `, ${outcome}` : ''}.`);
+    }
+
+    const intervals = unionIntervals(pieces);
+    steps.push(`Combining the cases: ${describeIntervals(intervals, variable)}.`);
+    return success({ relation, variable, intervals, solution: classifyIntervals(intervals), steps });
+}
+
+// Keeps float noise such as 10.999999999999998 out of the checks.
+const checkValue = (value: number) => Number(value.toPrecision(12));
+
+export function solveAbsoluteValueEquation(equation: string) {
+    const solved = solvePiecewiseRelation(equation, 'equation');
+    if (!solved.ok) return solved;
+    const { relation, variable, intervals, solution, steps } = solved.data;
+
+    const points = intervals.filter((interval) => interval.lower && interval.upper && interval.lower.equals(interval.upper)).map((interval) => interval.lower!);
+    for (const point of points) {
+        const values = { [variable]: point.toNumber() };
+        const { left, right } = relation;
+        steps.push(`Check ${variable} = ${point}: ${formatExpression(left)} is ${checkValue(evaluate(left, values))} and ${formatExpression(right)} is ${checkValue(evaluate(right, values))}.`);
+    }
+
+    const explanation = solution.kind === 'none'
+        ? 'The equation has no solution.'
+        : solution.kind === 'all'
+            ? 'Every real number is a solution.'
+            : points.length === intervals.length
+                ? `${points.length === 1 ? 'One solution' : `${points.length} distinct solutions`} found.`
+                : 'The equation holds on a whole interval, not only at separate points.';
+
+    return success({
+        equation: formatRelation(relation),
+        variable,
+        solutions: points.map((point) => point.toNumber()),
+        solution,
+        explanation,
+        steps: steps.map((step, i) => `${i + 1}. ${step}`),
+    });
+}
+
+export function solveAbsoluteValueInequality(inequality: string) {
+    const solved = solvePiecewiseRelation(inequality, 'inequality');
+    if (!solved.ok) return solved;
+    const { relation, variable, solution, steps } = solved.data;
+
+    const explanations: Record<InequalitySolution['kind'], string> = {
+        all: 'Every real number satisfies the inequality.',
+        none: 'No value satisfies the inequality.',
+        between: 'This is a bounded interval.',
+        outside: 'This represents two unbounded intervals.',
+        except: 'Every value except a single point satisfies the inequality.',
+        intervals: 'The solution is a union of intervals.',
+    };
+    if (solution.kind === 'intervals' && solution.intervals.length === 1) {
+        const [{ lower, upper }] = solution.intervals;
+        explanations.intervals = lower === upper ? 'Only a single value satisfies the inequality.' : lower === null || upper === null ? 'This is an unbounded interval.' : explanations.between;
+    }
+
+    return success({
+        inequality: formatRelation(relation),
+        variable,
+        solution,
+        explanation: explanations[solution.kind],
+        steps: steps.map((step, i) => `${i + 1}. ${step}`),
+    });
+}
+
+// Parse errors are expected user input mistakes, so they are reported as failures rather than thrown.
+function parsePolynomials(...polys: [label: string, input: string][]) {
+    const parsed: Polynomial[] = [];
+    for (const [label, input] of polys) {
+        try {
+            parsed.push(parsePolynomial(input));
+        } catch (error) {
+            if (!(error instanceof ExpressionSyntaxError)) throw error;
+            return failure('invalid_expression', `${label}: ${error.message}`);
         }
-        result += termStr;
     }
-    return result.length === 0 ? "0" : result;
+    return success(parsed);
 }
 
+/** Terms grouped by monomial, in standard form, with each group's sum, for "combine like terms" steps. */
+function groupLikeTerms(terms: Term[]) {
+    const groups = new Map<string, Term[]>();
+    for (const term of terms) {
+        const key = formatMonomial(term.monomial);
+        groups.set(key, [...(groups.get(key) ?? []), term]);
+    }
+    return [...groups.values()]
+        .sort((a, b) => compareMonomials(a[0].monomial, b[0].monomial))
+        .map((group) => ({
+            combined: { coefficient: group.reduce((sum, term) => sum.plus(term.coefficient), Rational.ZERO), monomial: group[0].monomial },
+            terms: group,
+        }));
+}
 
 export function addSubtractPolynomials(poly1: string, poly2: string, operation: 'add' | 'subtract') {
-    const terms1 = parsePolynomial(poly1);
-    const terms2 = parsePolynomial(poly2);
-    const resultTerms = new Map(terms1);
-    
-    let steps = [];
-    steps.push(`1. Identify polynomials: P1 = (${poly1}), P2 = (${poly2}).`);
-    
+    const parsed = parsePolynomials(['First polynomial', poly1], ['Second polynomial', poly2]);
+    if (!parsed.ok) return parsed;
+    const [p1, p2] = parsed.data;
+    const second = operation === 'add' ? p2 : p2.negated();
+    const sum = p1.plus(second);
+
+    const steps = [];
+    steps.push(`1. Write each polynomial in standard form: P1 = ${p1}, P2 = ${p2}.`);
     if (operation === 'subtract') {
-        steps.push(`2. Distribute the negative sign to P2: -(${poly2}) = (${formatPolynomial(new Map(Array.from(terms2.entries()).map(([exp, coef]) => [exp, -coef])))})`);
+        steps.push(`2. Distribute the negative sign to P2: -(${p2}) = ${second}.`);
     } else {
-        steps.push(`2. Prepare for addition.`);
+        steps.push(`2. Remove the parentheses; adding P2 leaves its signs unchanged.`);
     }
-
-    for (const [exp, coef] of terms2.entries()) {
-        const currentCoef = resultTerms.get(exp) || 0;
-        if (operation === 'add') {
-            resultTerms.set(exp, currentCoef + coef);
-        } else {
-            resultTerms.set(exp, currentCoef - coef);
-        }
+    steps.push(`3. Combine like terms by adding their coefficients:`);
+    for (const { combined, terms } of groupLikeTerms([...p1.terms, ...second.terms])) {
+        if (terms.length > 1) steps.push(`  ${terms.map((term) => `(${formatTerm(term)})`).join(' + ')} = ${formatTerm(combined)}`);
     }
-    steps.push(`3. Combine like terms by adding/subtracting coefficients for each power of x.`);
-
-    const result = formatPolynomial(resultTerms);
+    const result = sum.toString();
     steps.push(`4. Write the final polynomial in standard form: ${result}`);
-    return { result, steps };
+    return success({ result, steps });
 }
 
 function logGamma(x: number) {
@@ -389,10 +1382,10 @@ function factorial(n: number) {
 
 export function calculateBinomialCoefficient(n: number, k: number) {
     if (k < 0 || k > n) {
-      return { result: 0, explanation: `k must be between 0 and n.` };
+      return failure('out_of_range', 'k must be between 0 and n.');
     }
     if (k === 0 || k === n) {
-      return { result: 1, explanation: `Choosing 0 or all items results in 1 combination.` };
+      return success({ result: 1, explanation: `Choosing 0 or all items results in 1 combination.` }, { result: 'integer' });
     }
     if (k > n / 2) {
       k = n - k;
@@ -400,95 +1393,656 @@ export function calculateBinomialCoefficient(n: number, k: number) {
     // Using log-gamma for precision with large numbers, which avoids overflow.
     const logResult = logGamma(n + 1) - logGamma(k + 1) - logGamma(n - k + 1);
     const result = Math.round(Math.exp(logResult));
-    return { result, explanation: `There are ${result.toLocaleString()} ways to choose ${k} items from a set of ${n}.` };
+    if (!Number.isFinite(result)) {
+      return failure('out_of_range', `C(${n}, ${k}) is too large to represent.`);
+    }
+    return success({ result, explanation: `There are ${result.toLocaleString()} ways to choose ${k} items from a set of ${n}.` }, { result: 'integer' });
 }
 
 export function multiplyPolynomialsBox(poly1Str: string, poly2Str: string) {
-    const terms1 = parsePolynomial(poly1Str);
-    const terms2 = parsePolynomial(poly2Str);
-
-    if (terms1.size === 0 || terms2.size === 0) {
-        return { box: { colHeaders: [], rowHeaders: [], rows: [] }, steps: ["One of the polynomials is zero.", "The result is 0."], finalAnswer: "0" };
-    }
+    const parsed = parsePolynomials(['First polynomial', poly1Str], ['Second polynomial', poly2Str]);
+    if (!parsed.ok) return parsed;
+    const [p1, p2] = parsed.data;
 
-    const resultTerms = new Map<number, number>();
     const box: { colHeaders: string[], rowHeaders: string[], rows: {value: string, isDiagonal: boolean}[][] } = {
         colHeaders: [],
         rowHeaders: [],
         rows: [],
     };
-    
-    const sortedTerms1 = Array.from(terms1.entries()).sort((a,b) => b[0] - a[0]);
-    const sortedTerms2 = Array.from(terms2.entries()).sort((a,b) => b[0] - a[0]);
-    
-    box.colHeaders = sortedTerms1.map(([exp, coef]) => formatPolynomial(new Map([[exp, coef]])));
-    box.rowHeaders = sortedTerms2.map(([exp, coef]) => formatPolynomial(new Map([[exp, coef]])));
-
-    const diagonalExponents = new Map<number, number>();
-
-    for (let i = 0; i < sortedTerms2.length; i++) {
-        const [exp2, coef2] = sortedTerms2[i];
-        const row = [];
-        for (let j = 0; j < sortedTerms1.length; j++) {
-            const [exp1, coef1] = sortedTerms1[j];
-            
-            const newCoef = coef1 * coef2;
-            const newExp = exp1 + exp2;
-
-            resultTerms.set(newExp, (resultTerms.get(newExp) || 0) + newCoef);
-            row.push({
-                value: formatPolynomial(new Map([[newExp, newCoef]])),
-                isDiagonal: false,
-            });
-            const diagIndex = i + j;
-            if(!diagonalExponents.has(diagIndex)) diagonalExponents.set(diagIndex, newExp);
-        }
-        box.rows.push(row);
-    }
-    
-    // Highlight diagonals with like terms
-    for (let i = 0; i < box.rows.length; i++) {
-        for (let j = 0; j < box.rows[i].length; j++) {
-            const diagIndex = i + j;
-            const [exp] = Array.from(parsePolynomial(box.rows[i][j].value).keys());
-            if (exp === diagonalExponents.get(diagIndex) && Array.from(diagonalExponents.values()).filter(e => e === exp).length > 1) {
-                 box.rows[i][j].isDiagonal = true;
-            }
-        }
+
+    if (p1.isZero() || p2.isZero()) {
+        return success({ box, steps: ["One of the polynomials is zero.", "The result is 0."], finalAnswer: "0" });
     }
 
+    const columns = p1.terms;
+    const rows = p2.terms;
+    box.colHeaders = columns.map(formatTerm);
+    box.rowHeaders = rows.map(formatTerm);
+
+    const products = rows.map((row) => columns.map((column): Term => ({
+        coefficient: row.coefficient.times(column.coefficient),
+        monomial: multiplyMonomials(row.monomial, column.monomial),
+    })));
+
+    // Cells holding like terms are highlighted; with one variable they fall on the box's diagonals.
+    const counts = new Map<string, number>();
+    for (const term of products.flat()) counts.set(formatMonomial(term.monomial), (counts.get(formatMonomial(term.monomial)) ?? 0) + 1);
+    box.rows = products.map((row) => row.map((term) => ({ value: formatTerm(term), isDiagonal: counts.get(formatMonomial(term.monomial))! > 1 })));
 
     const steps = [];
-    steps.push(`1. Create a grid with the terms of (${poly1Str}) and (${poly2Str}).`);
+    steps.push(`1. Create a grid with the terms of (${p1}) and (${p2}).`);
     steps.push(`2. Fill each cell by multiplying its corresponding row and column term.`);
-    
-    const combinedTerms = new Map<number, string[]>();
-    for (const [exp, coef] of resultTerms.entries()) {
-      if(coef === 0) continue;
-      if (!combinedTerms.has(exp)) combinedTerms.set(exp, []);
-    }
-    for(let i=0; i < box.rows.length; i++){
-        for(let j=0; j < box.rows[i].length; j++){
-            const [exp] = Array.from(parsePolynomial(box.rows[i][j].value).keys());
-             if (resultTerms.get(exp)! !== 0) {
-                 const formattedTerm = formatPolynomial(parsePolynomial(box.rows[i][j].value));
-                 if(formattedTerm !== "0") combinedTerms.get(exp)!.push(formattedTerm);
-             }
+    steps.push(`3. Combine like terms (highlighted in the same color):`);
+    for (const { combined, terms } of groupLikeTerms(products.flat())) {
+        if (terms.length > 1) steps.push(`  ${formatMonomial(combined.monomial) || 'constant'}: ${terms.map((term) => `(${formatTerm(term)})`).join(' + ')} = ${formatTerm(combined)}`);
+    }
+
+    const finalAnswer = p1.times(p2).toString();
+    steps.push(`4. Write the final polynomial in standard form: ${finalAnswer}`);
+
+    return success({ box, steps, finalAnswer });
+}
+
+// Pairs listed in the "find the product pair" step; longer lists are cut short.
+const MAX_LISTED_PAIRS = 8;
+
+/**
+ * The box method in reverse: splits the middle term of ax^2 + bx + c into two
+ * terms whose coefficients multiply to ac, places the four terms in a 2×2 box
+ * and reads the factors off as the GCFs of its rows and columns. `reveal` gives
+ * the index of the step at which each part of the box is filled in, so the
+ * page can build the box up one step at a time.
+ */
+export function factorQuadraticBox(quadraticStr: string) {
+    const parsed = parsePolynomials(['Quadratic', quadraticStr]);
+    if (!parsed.ok) return parsed;
+    const [quadratic] = parsed.data;
+
+    if (quadratic.variables.length > 1) {
+        return failure('out_of_domain', `The box method factors a quadratic in one variable, but found ${quadratic.variables.join(', ')}.`);
+    }
+    if (quadratic.degree !== 2) {
+        return failure('out_of_domain', 'The reverse box method factors quadratics of the form ax^2 + bx + c, such as 2x^2 + 7x + 3.');
+    }
+    const [variable] = quadratic.variables;
+    const coefficients = quadratic.coefficients(variable);
+    if (coefficients[2].isZero()) {
+        return failure('out_of_domain', `${quadratic} has no constant term, so factor out ${variable} instead of using the box method.`);
+    }
+
+    const steps: string[] = [];
+    const content = commonFactor(coefficients);
+    const gcf = coefficients[0].isNegative() ? content.negated() : content;
+    const [a, b, c] = coefficients.map((coefficient) => coefficient.dividedBy(gcf));
+    const trinomial = Polynomial.fromCoefficients([a, b, c], variable);
+    if (!gcf.equals(1)) {
+        steps.push(`Factor out the GCF ${gcf} so the coefficients are whole numbers with a positive leading term: ${quadratic} = ${gcf}(${trinomial}).`);
+    }
+
+    const product = a.times(c);
+    const divisors = positiveDivisors(product);
+    if (!divisors) return failure('out_of_range', `a·c = ${product} is too large to search for a product pair.`);
+    const pairs = divisors
+        .filter((d) => d * d <= Math.abs(product.toNumber()))
+        .flatMap((d) => [Rational.from(d), Rational.from(-d)])
+        .map((m) => [m, product.dividedBy(m)] as const);
+    const pair = pairs.find(([m, n]) => m.plus(n).equals(b));
+    if (!pair) {
+        return failure('out_of_domain', `No two integers multiply to a·c = ${product} and add to b = ${b}, so ${trinomial} does not factor over the integers.`);
+    }
+    const [m, n] = pair;
+    const operand = (value: Rational) => (value.isNegative() ? `(${value})` : `${value}`);
+    const listed = pairs.slice(0, MAX_LISTED_PAIRS).map(([x, y]) => `${x} × ${operand(y)}`).join(', ');
+    steps.push(
+        `Find two numbers that multiply to a·c = ${a} × ${operand(c)} = ${product} and add to b = ${b}. ` +
+        `The pairs with product ${product} are ${listed}${pairs.length > MAX_LISTED_PAIRS ? ', …' : ''}; ${m} + ${operand(n)} = ${b}.`
+    );
+
+    const term = (coefficient: Rational, degree: number) => formatTerm({ coefficient, monomial: monomialOf(variable, degree) });
+    const cornersStep = steps.length;
+    steps.push(`Put the first term ${term(a, 2)} in the top-left cell and the constant ${c} in the bottom-right cell.`);
+    const splitStep = steps.length;
+    steps.push(`Split the middle term ${b.isZero() ? `0${variable}` : term(b, 1)} into ${term(m, 1)} and ${term(n, 1)}, and put them in the other two cells.`);
+
+    // The top row's GCF, taken positive because a is, fixes the column headers; the second
+    // row header then follows by division, which also gives it the sign the columns need.
+    const rowGcf = commonFactor([a, m]);
+    const [column1, column2] = [a.dividedBy(rowGcf), m.dividedBy(rowGcf)];
+    const row2 = n.dividedBy(column1);
+    const topRowStep = steps.length;
+    steps.push(`The GCF of the top row, ${term(a, 2)} and ${term(m, 1)}, is ${term(rowGcf, 1)}. Write it beside the top row.`);
+    const columnsStep = steps.length;
+    steps.push(
+        `Divide each top cell by ${term(rowGcf, 1)} to get the column headers: ${term(a, 2)} ÷ ${term(rowGcf, 1)} = ${term(column1, 1)} ` +
+        `and ${term(m, 1)} ÷ ${term(rowGcf, 1)} = ${term(column2, 0)}.`
+    );
+    const bottomRowStep = steps.length;
+    steps.push(
+        `Divide the bottom-left cell by its column header: ${term(n, 1)} ÷ ${term(column1, 1)} = ${term(row2, 0)}. ` +
+        `This is the GCF of the bottom row; check that ${term(row2, 0)} × ${term(column2, 0)} = ${c}.`
+    );
+
+    const rowFactor = Polynomial.fromCoefficients([rowGcf, row2], variable);
+    const columnFactor = Polynomial.fromCoefficients([column1, column2], variable);
+    const leading = gcf.equals(1) ? '' : gcf.equals(-1) ? '-' : gcf.toString().includes('/') ? `(${gcf})` : `${gcf}`;
+    const finalAnswer = rowFactor.equals(columnFactor) ? `${leading}(${rowFactor})^2` : `${leading}(${rowFactor})(${columnFactor})`;
+    steps.push(`Read the factors from the headers: the rows give ${rowFactor} and the columns give ${columnFactor}, so ${quadratic} = ${finalAnswer}.`);
+
+    // The split middle terms sit on the box's anti-diagonal, the like terms of the forward method.
+    const box = {
+        colHeaders: [term(column1, 1), term(column2, 0)],
+        rowHeaders: [term(rowGcf, 1), term(row2, 0)],
+        rows: [
+            [{ value: term(a, 2), isDiagonal: false }, { value: term(m, 1), isDiagonal: true }],
+            [{ value: term(n, 1), isDiagonal: true }, { value: term(c, 0), isDiagonal: false }],
+        ],
+    };
+    const reveal = {
+        cells: [[cornersStep, splitStep], [splitStep, cornersStep]],
+        rowHeaders: [topRowStep, bottomRowStep],
+        colHeaders: [columnsStep, columnsStep],
+    };
+
+    return success({
+        box,
+        reveal,
+        pair: { product: product.toNumber(), sum: b.toNumber(), factors: [m.toNumber(), n.toNumber()] },
+        steps: steps.map((step, index) => `${index + 1}. ${step}`),
+        finalAnswer,
+    });
+}
+
+const monomialOf = (variable: string, degree: number) => (degree > 0 ? { [variable]: degree } : {});
+
+// A term for one column of the long division layout; zeros are written out as placeholders, e.g. "+ 0x".
+function divisionCell(coefficient: Rational, degree: number, variable: string, first: boolean) {
+    const monomial = monomialOf(variable, degree);
+    const magnitude = coefficient.isZero() ? `0${formatMonomial(monomial)}` : formatTerm({ coefficient: coefficient.abs(), monomial });
+    if (first) return coefficient.isNegative() ? `-${magnitude}` : magnitude;
+    return `${coefficient.isNegative() ? '-' : '+'} ${magnitude}`;
+}
+
+/** Terms placed in the column for their power, highest power on the left, so like terms line up. */
+function divisionCells(coefficients: Rational[], leadingDegree: number, width: number, variable: string) {
+    const cells: (string | null)[] = Array(width).fill(null);
+    if (coefficients.length === 0) {
+        cells[width - 1] = '0';
+        return cells;
+    }
+    coefficients.forEach((coefficient, index) => {
+        const degree = leadingDegree - index;
+        cells[width - 1 - degree] = divisionCell(coefficient, degree, variable, index === 0);
+    });
+    return cells;
+}
+
+const writeOut = (coefficients: Rational[], leadingDegree: number, variable: string) =>
+    coefficients.map((coefficient, index) => divisionCell(coefficient, leadingDegree - index, variable, index === 0)).join(' ');
+
+function longDivision(dividend: Rational[], divisor: Rational[], variable: string) {
+    const n = dividend.length - 1;
+    const m = divisor.length - 1;
+    const divisorText = Polynomial.fromCoefficients(divisor, variable).toString();
+    const remainder = [...dividend];
+    const quotient: Rational[] = Array(Math.max(n - m + 1, 1)).fill(Rational.ZERO);
+    const rows: { product: (string | null)[], difference: (string | null)[] }[] = [];
+    const steps = [`1. Write the dividend in descending powers of ${variable}, with 0 for any missing power: ${writeOut(dividend, n, variable)}.`];
+
+    for (let i = 0; i <= n - m; i++) {
+        const degree = n - i;
+        const coefficient = remainder[i].dividedBy(divisor[0]);
+        quotient[i] = coefficient;
+        if (coefficient.isZero()) continue;
+
+        const quotientTerm = formatTerm({ coefficient, monomial: monomialOf(variable, degree - m) });
+        const product = divisor.map((value) => value.times(coefficient));
+        const leading = formatTerm({ coefficient: remainder[i], monomial: monomialOf(variable, degree) });
+        product.forEach((value, k) => { remainder[i + k] = remainder[i + k].minus(value); });
+        const difference = remainder.slice(i + 1);
+
+        rows.push({ product: divisionCells(product, degree, n + 1, variable), difference: divisionCells(difference, degree - 1, n + 1, variable) });
+        steps.push(
+            `${steps.length + 1}. Divide the leading term ${leading} by ${formatTerm({ coefficient: divisor[0], monomial: monomialOf(variable, m) })} to get ${quotientTerm}. ` +
+            `Multiply ${quotientTerm} × (${divisorText}) = ${Polynomial.fromCoefficients([...product, ...Array(degree - m).fill(Rational.ZERO)], variable)}, then subtract to get ${Polynomial.fromCoefficients(difference, variable)}.`
+        );
+    }
+
+    return {
+        quotient: Polynomial.fromCoefficients(quotient, variable),
+        remainder: Polynomial.fromCoefficients(n < m ? dividend : remainder.slice(n - m + 1), variable),
+        steps,
+        synthetic: null,
+        longDivision: {
+            divisor: divisorText,
+            quotient: divisionCells(n < m ? [] : quotient, n - m, n + 1, variable),
+            dividend: divisionCells(dividend, n, n + 1, variable),
+            rows,
+        },
+    };
+}
+
+// Synthetic division divides by x - r. A divisor ax + b is a(x - r) with r = -b/a,
+// so the quotient from r is divided by a at the end; the remainder is unchanged.
+function syntheticDivision(dividend: Rational[], divisor: Rational[], variable: string) {
+    const [a, b] = divisor;
+    const root = b.negated().dividedBy(a);
+    const products: (Rational | null)[] = [null];
+    const sums = [dividend[0]];
+    for (let k = 1; k < dividend.length; k++) {
+        products.push(sums[k - 1].times(root));
+        sums.push(dividend[k].plus(products[k]!));
+    }
+
+    const steps = [
+        `1. The divisor ${Polynomial.fromCoefficients(divisor, variable)} is zero at ${variable} = ${root}, so ${root} goes in the box.`,
+        `2. Write the dividend's coefficients, with 0 for any missing power: ${dividend.join(', ')}.`,
+        `3. Bring down the first coefficient, ${sums[0]}.`,
+    ];
+    for (let k = 1; k < dividend.length; k++) {
+        steps.push(`${steps.length + 1}. Multiply ${sums[k - 1]} by ${root} to get ${products[k]}, and add it to ${dividend[k]} to get ${sums[k]}.`);
+    }
+
+    const reduced = Polynomial.fromCoefficients(sums.slice(0, -1), variable);
+    const remainder = Polynomial.fromCoefficients([sums[sums.length - 1]], variable);
+    steps.push(`${steps.length + 1}. The last number, ${remainder}, is the remainder. The others are the quotient's coefficients, one power lower: ${reduced}.`);
+    const quotient = reduced.scale(Rational.ONE.dividedBy(a));
+    if (!a.equals(1)) {
+        steps.push(`${steps.length + 1}. Divide that by ${a}, the leading coefficient of the divisor, to get the quotient ${quotient}.`);
+    }
+
+    return {
+        quotient,
+        remainder,
+        steps,
+        longDivision: null,
+        synthetic: {
+            root: root.toString(),
+            coefficients: dividend.map(String),
+            products: products.map((value) => (value === null ? null : value.toString())),
+            sums: sums.map(String),
+        },
+    };
+}
+
+export function dividePolynomials(dividendStr: string, divisorStr: string, method: 'long' | 'synthetic') {
+    const parsed = parsePolynomials(['Dividend', dividendStr], ['Divisor', divisorStr]);
+    if (!parsed.ok) return parsed;
+    const [dividend, divisor] = parsed.data;
+
+    if (divisor.isZero()) return failure('division_by_zero', 'The divisor cannot be 0.');
+    const variables = [...new Set([...dividend.variables, ...divisor.variables])];
+    if (variables.length > 1) {
+        return failure('out_of_domain', `Division needs both polynomials in one variable, but found ${variables.join(', ')}.`);
+    }
+    const variable = variables[0] ?? 'x';
+    if (method === 'synthetic' && divisor.degree !== 1) {
+        return failure('out_of_domain', `Synthetic division needs a linear divisor such as ${variable} - 3; use long division instead.`);
+    }
+
+    const dividendCoefficients = dividend.coefficients(variable);
+    const divisorCoefficients = divisor.coefficients(variable);
+    const division = method === 'long'
+        ? longDivision(dividendCoefficients, divisorCoefficients, variable)
+        : syntheticDivision(dividendCoefficients, divisorCoefficients, variable);
+
+    const { quotient, remainder, longDivision: layout, synthetic } = division;
+    const result = remainder.isZero()
+        ? quotient.toString()
+        : `${quotient.isZero() ? '' : `${quotient} + `}(${remainder})/(${divisor})`;
+    const steps = [...division.steps, `${division.steps.length + 1}. Write the answer as quotient + remainder/divisor: (${dividend}) ÷ (${divisor}) = ${result}`];
+
+    return success({
+        quotient: quotient.toString(),
+        remainder: remainder.toString(),
+        result,
+        steps,
+        longDivision: layout,
+        synthetic,
+    });
+}
+
+// Dense coefficient lists, highest power first, as in the division helpers above. The zero polynomial is [].
+function trimCoefficients(coefficients: Rational[]) {
+    const first = coefficients.findIndex((coefficient) => !coefficient.isZero());
+    return first === -1 ? [] : coefficients.slice(first);
+}
+
+// Horner's rule.
+const evaluateCoefficients = (coefficients: Rational[], x: Rational) =>
+    coefficients.reduce((sum, coefficient) => sum.times(x).plus(coefficient), Rational.ZERO);
+
+const derivativeCoefficients = (coefficients: Rational[]) =>
+    coefficients.slice(0, -1).map((coefficient, index) => coefficient.times(coefficients.length - 1 - index));
+
+function divideCoefficients(dividend: Rational[], divisor: Rational[]) {
+    const remainder = [...dividend];
+    const quotient: Rational[] = [];
+    for (let i = 0; i + divisor.length <= dividend.length; i++) {
+        const coefficient = remainder[i].dividedBy(divisor[0]);
+        quotient.push(coefficient);
+        divisor.forEach((value, k) => { remainder[i + k] = remainder[i + k].minus(value.times(coefficient)); });
+    }
+    return { quotient, remainder: trimCoefficients(remainder.slice(quotient.length)) };
+}
+
+/** Integer coefficients with no common factor and a positive leading coefficient, e.g. `[2, -1]` for `-x + 1/2`. */
+function primitive(coefficients: Rational[]) {
+    const content = commonFactor(coefficients);
+    const unit = coefficients[0]?.isNegative() ? content.negated() : content;
+    return coefficients.map((coefficient) => coefficient.dividedBy(unit));
+}
+
+// Euclid's algorithm; each remainder is made primitive so the integers stay small.
+function gcdCoefficients(a: Rational[], b: Rational[]) {
+    while (b.length > 0) [a, b] = [b, primitive(divideCoefficients(a, b).remainder)];
+    return primitive(a);
+}
+
+function exactSquareRoot(value: Rational) {
+    if (value.isNegative()) return null;
+    const root = Rational.from(Math.round(Math.sqrt(value.toNumber())));
+    return root.times(root).equals(value) ? root : null;
+}
+
+// Trial division; constants past 10^12 would take too long and are skipped.
+function positiveDivisors(value: Rational) {
+    const n = Math.abs(value.toNumber());
+    if (n > 1e12) return null;
+    const divisors: number[] = [];
+    for (let d = 1; d * d <= n; d++) {
+        if (n % d === 0) divisors.push(d, n / d);
+    }
+    return [...new Set(divisors)].sort((a, b) => a - b);
+}
+
+interface FactorSplit {
+    parts: Rational[][];
+    explanation: string;
+}
+
+function differenceOfSquares(coefficients: Rational[], variable: string): FactorSplit | null {
+    const degree = coefficients.length - 1;
+    const [a, ...rest] = coefficients;
+    const c = rest[rest.length - 1].negated();
+    if (degree % 2 !== 0 || !rest.slice(0, -1).every((value) => value.isZero()) || c.compare(0) <= 0) return null;
+    const rootA = exactSquareRoot(a);
+    const rootC = exactSquareRoot(c);
+    if (!rootA || !rootC) return null;
+
+    const half = Array(degree / 2 - 1).fill(Rational.ZERO);
+    const square = formatTerm({ coefficient: rootA, monomial: monomialOf(variable, degree / 2) });
+    return {
+        parts: [[rootA, ...half, rootC.negated()], [rootA, ...half, rootC]],
+        explanation: `${Polynomial.fromCoefficients(coefficients, variable)} is a difference of squares, ${square === variable ? square : `(${square})`}^2 - ${rootC}^2, and A^2 - B^2 = (A - B)(A + B).`,
+    };
+}
+
+// ax^3 + bx^2 + cx + d = x^2(ax + b) + k(ax + b) when the two pairs share a binomial, i.e. ad = bc.
+function factorByGrouping(coefficients: Rational[], variable: string): FactorSplit | null {
+    if (coefficients.length !== 4 || coefficients.some((value) => value.isZero())) return null;
+    const [a, b, c, d] = coefficients;
+    if (!a.times(d).equals(b.times(c))) return null;
+
+    const outer = commonFactor([a, b]);
+    const binomial = [a.dividedBy(outer), b.dividedBy(outer)];
+    const inner = c.dividedBy(binomial[0]);
+    const binomialText = Polynomial.fromCoefficients(binomial, variable).toString();
+    const leading = formatTerm({ coefficient: outer, monomial: monomialOf(variable, 2) });
+    return {
+        parts: [binomial, [outer, Rational.ZERO, inner]],
+        explanation:
+            `Group the terms in pairs: ${leading}(${binomialText}) ${inner.isNegative() ? '-' : '+'} ${inner.abs()}(${binomialText}). ` +
+            `Both groups share ${binomialText}, so ${Polynomial.fromCoefficients(coefficients, variable)} = (${binomialText})(${Polynomial.fromCoefficients([outer, Rational.ZERO, inner], variable)}).`,
+    };
+}
+
+const MAX_LISTED_CANDIDATES = 12;
+/** Past this many ±p/q pairs the rational root search is skipped and the factor is left as it is. */
+const MAX_ROOT_CANDIDATES = 5000;
+
+// Any rational root p/q of a polynomial with integer coefficients has p dividing the constant and q the leading coefficient.
+function rootCandidateDivisors(coefficients: Rational[]) {
+    const numerators = positiveDivisors(coefficients[coefficients.length - 1]);
+    const denominators = positiveDivisors(coefficients[0]);
+    if (!numerators || !denominators || numerators.length * denominators.length > MAX_ROOT_CANDIDATES) return null;
+    return { numerators, denominators };
+}
+
+const numberGcd = (a: number, b: number): number => (b === 0 ? a : numberGcd(b, a % b));
+
+// Candidates are made and tested one at a time, stopping at the first root.
+function* rootCandidates(numerators: number[], denominators: number[]) {
+    for (const p of numerators) {
+        for (const q of denominators) {
+            if (numberGcd(p, q) !== 1) continue;
+            const candidate = Rational.of(BigInt(p), BigInt(q));
+            yield candidate;
+            yield candidate.negated();
         }
     }
-    
-    steps.push(`3. Combine like terms (highlighted in the same color):`);
-    const sortedCombined = Array.from(combinedTerms.entries()).sort((a,b) => b[0] - a[0]);
-    for(const [exp, termStrs] of sortedCombined) {
-        if(termStrs.length > 1) {
-            steps.push(`  x^${exp}: ${termStrs.map(t => `(${t})`).join(' + ')} = ${formatPolynomial(new Map([[exp, resultTerms.get(exp)!]]))}`);
+}
+
+function rationalRoot(coefficients: Rational[], variable: string): FactorSplit | null {
+    const divisors = rootCandidateDivisors(coefficients);
+    if (!divisors) return null;
+    const { numerators, denominators } = divisors;
+    let root: Rational | undefined;
+    for (const candidate of rootCandidates(numerators, denominators)) {
+        if (evaluateCoefficients(coefficients, candidate).isZero()) {
+            root = candidate;
+            break;
         }
     }
+    if (!root) return null;
 
-    const finalAnswer = formatPolynomial(resultTerms);
-    steps.push(`4. Write the final polynomial in standard form: ${finalAnswer}`);
+    const linear = [Rational.of(root.denominator), Rational.of(-root.numerator)];
+    const quotient = primitive(divideCoefficients(coefficients, linear).quotient);
+    const listed = (values: number[]) =>
+        `${values.slice(0, MAX_LISTED_CANDIDATES).join(', ')}${values.length > MAX_LISTED_CANDIDATES ? ', …' : ''}`;
+    const polynomial = Polynomial.fromCoefficients(coefficients, variable);
+    return {
+        parts: [linear, quotient],
+        explanation:
+            `By the rational root theorem, any rational root of ${polynomial} is ±p/q with p dividing ${coefficients[coefficients.length - 1].abs()} ` +
+            `(${listed(numerators)}) and q dividing ${coefficients[0]} (${listed(denominators)}). ` +
+            `Testing them, ${variable} = ${root.toFraction()} gives 0, so ${Polynomial.fromCoefficients(linear, variable)} is a factor. ` +
+            `Dividing it out leaves ${Polynomial.fromCoefficients(quotient, variable)}.`,
+    };
+}
+
+// A factor that divides both p and p' divides p at least twice.
+function repeatedFactor(coefficients: Rational[], variable: string): FactorSplit | null {
+    const common = gcdCoefficients(coefficients, derivativeCoefficients(coefficients));
+    if (common.length < 2) return null;
+    const cofactor = primitive(divideCoefficients(coefficients, common).quotient);
+    const commonText = Polynomial.fromCoefficients(common, variable).toString();
+    return {
+        parts: [common, cofactor],
+        explanation:
+            `${Polynomial.fromCoefficients(coefficients, variable)} and its derivative share the factor ${commonText}, so that factor is repeated. ` +
+            `Dividing it out leaves ${Polynomial.fromCoefficients(cofactor, variable)}.`,
+    };
+}
+
+type Complex = [re: number, im: number];
+
+const complexTimes = ([a, b]: Complex, [c, d]: Complex): Complex => [a * c - b * d, a * d + b * c];
+const complexDividedBy = ([a, b]: Complex, [c, d]: Complex): Complex => {
+    const scale = c * c + d * d;
+    return [(a * c + b * d) / scale, (b * c - a * d) / scale];
+};
+
+/**
+ * All complex roots of a square-free polynomial by the Durand–Kerner
+ * iteration, which refines every root at once: each estimate moves by
+ * p(z) / ∏(z - other estimates). The starting points sit on a circle that
+ * encloses every root, rotated off the real axis so conjugate pairs can separate.
+ */
+function durandKerner(coefficients: number[]): Complex[] {
+    const degree = coefficients.length - 1;
+    const monic = coefficients.map((coefficient) => coefficient / coefficients[0]);
+    const radius = 1 + Math.max(...monic.slice(1).map(Math.abs));
+    const roots = Array.from({ length: degree }, (_, k): Complex => {
+        const angle = (2 * Math.PI * k) / degree + 0.4;
+        return [radius * Math.cos(angle), radius * Math.sin(angle)];
+    });
+
+    for (let iteration = 0; iteration < 1000; iteration++) {
+        let largestStep = 0;
+        roots.forEach((root, i) => {
+            const value = monic.reduce<Complex>((sum, coefficient) => {
+                const product = complexTimes(sum, root);
+                return [product[0] + coefficient, product[1]];
+            }, [0, 0]);
+            const denominator = roots.reduce<Complex>((product, other, j) => (j === i ? product : complexTimes(product, [root[0] - other[0], root[1] - other[1]])), [1, 0]);
+            const step = complexDividedBy(value, denominator);
+            roots[i] = [root[0] - step[0], root[1] - step[1]];
+            largestStep = Math.max(largestStep, Math.hypot(step[0], step[1]));
+        });
+        if (largestStep < 1e-14 * radius) break;
+    }
+    return roots;
+}
+
+function factorRoots(coefficients: Rational[]): Complex[] {
+    if (coefficients.length === 2) return [[coefficients[1].negated().dividedBy(coefficients[0]).toNumber(), 0]];
+    if (coefficients.length === 3) {
+        const [a, b, c] = coefficients.map((value) => value.toNumber());
+        const discriminant = b * b - 4 * a * c;
+        const spread = Math.sqrt(Math.abs(discriminant)) / (2 * a);
+        const center = -b / (2 * a);
+        return discriminant >= 0 ? [[center - spread, 0], [center + spread, 0]] : [[center, -spread], [center, spread]];
+    }
+    // Imaginary parts this small are rounding error on a real root.
+    return durandKerner(coefficients.map((value) => value.toNumber())).map(([re, im]) => [re, Math.abs(im) < 1e-9 * Math.max(1, Math.abs(re)) ? 0 : im]);
+}
 
-    return { box, steps, finalAnswer };
+const roundRoot = (value: number) => parseFloat(value.toPrecision(7)) || 0;
+
+function formatRoot([re, im]: Complex) {
+    if (im === 0) return `${roundRoot(re)}`;
+    const imaginary = `${Math.abs(roundRoot(im)) === 1 ? '' : Math.abs(roundRoot(im))}i`;
+    if (roundRoot(re) === 0) return `${im < 0 ? '-' : ''}${imaginary}`;
+    return `${roundRoot(re)} ${im < 0 ? '-' : '+'} ${imaginary}`;
+}
+
+export function factorPolynomial(polynomialStr: string) {
+    const parsed = parsePolynomials(['Polynomial', polynomialStr]);
+    if (!parsed.ok) return parsed;
+    const [polynomial] = parsed.data;
+
+    if (polynomial.isZero()) return failure('out_of_domain', 'Every number is a root of 0, so there is nothing to factor.');
+    if (polynomial.isConstant()) return failure('out_of_domain', 'A constant has no roots. Enter a polynomial with a variable, such as x^2 - 4.');
+    if (polynomial.variables.length > 1) {
+        return failure('out_of_domain', `Factoring needs a polynomial in one variable, but found ${polynomial.variables.join(', ')}.`);
+    }
+    const [variable] = polynomial.variables;
+    const coefficients = polynomial.coefficients(variable);
+    const steps = [`Write the polynomial in standard form: ${polynomial}.`];
+
+    // The GCF takes out the rational content, a leading minus sign and the lowest power of the variable.
+    const lowestPower = coefficients.length - 1 - coefficients.map((c) => !c.isZero()).lastIndexOf(true);
+    const content = commonFactor(coefficients);
+    const gcfCoefficient = coefficients[0].isNegative() ? content.negated() : content;
+    const remaining = primitive(coefficients.slice(0, coefficients.length - lowestPower));
+    const gcfTerm = formatTerm({ coefficient: gcfCoefficient, monomial: monomialOf(variable, lowestPower) });
+    const gcf = lowestPower === 0 && !gcfCoefficient.isInteger() ? `(${gcfTerm})` : gcfTerm;
+    if (gcf !== '1') {
+        steps.push(`Factor out the greatest common factor ${gcf}: ${polynomial} = ${gcf}(${Polynomial.fromCoefficients(remaining, variable)}).`);
+    }
+
+    const factors = new Map<string, { coefficients: Rational[]; multiplicity: number }>();
+    const keyOf = (factor: Rational[]) => Polynomial.fromCoefficients(factor, variable).toString();
+    const addFactor = (factor: Rational[], multiplicity = 1) => {
+        const key = keyOf(factor);
+        const existing = factors.get(key);
+        factors.set(key, { coefficients: factor, multiplicity: (existing?.multiplicity ?? 0) + multiplicity });
+    };
+    if (lowestPower > 0) addFactor([Rational.ONE, Rational.ZERO], lowestPower);
+
+    // Depth first, so each factor is finished before the next one is looked at.
+    let fullyFactored = true;
+    const pending = remaining.length > 1 ? [remaining] : [];
+    while (pending.length > 0) {
+        const factor = pending.shift()!;
+        // A repeat of a factor that is already finished needs no more steps.
+        if (factor.length === 2 || factors.has(keyOf(factor))) {
+            addFactor(factor);
+            continue;
+        }
+        const split = differenceOfSquares(factor, variable)
+            ?? factorByGrouping(factor, variable)
+            ?? rationalRoot(factor, variable)
+            ?? repeatedFactor(factor, variable);
+        if (split) {
+            steps.push(split.explanation);
+            pending.unshift(...split.parts.map(primitive));
+            continue;
+        }
+
+        const text = Polynomial.fromCoefficients(factor, variable);
+        if (factor.length === 3) {
+            const [a, b, c] = factor;
+            const discriminant = b.times(b).minus(a.times(c).times(4));
+            steps.push(discriminant.isNegative()
+                ? `${text} has discriminant ${discriminant} < 0, so it has no real roots and does not factor over the real numbers.`
+                : `${text} has discriminant ${discriminant}, which is not a perfect square, so its roots are irrational and it does not factor over the rationals.`);
+        } else if (!rootCandidateDivisors(factor)) {
+            fullyFactored = false;
+            steps.push(`${text} has too many candidates for the rational root theorem to test, so it may not be fully factored. Its roots are found numerically.`);
+        } else {
+            steps.push(`${text} has no rational roots, so it has no linear factors with rational coefficients. Its roots are found numerically.`);
+        }
+        addFactor(factor);
+    }
+
+    const factorList = [...factors.entries()].map(([factor, { coefficients: factorCoefficients, multiplicity }]) => ({
+        factor,
+        multiplicity,
+        coefficients: factorCoefficients,
+    }));
+    const writeFactor = ({ factor, multiplicity }: { factor: string; multiplicity: number }) => {
+        const base = factor === variable || (factorList.length === 1 && multiplicity === 1 && gcfCoefficient.equals(1)) ? factor : `(${factor})`;
+        return multiplicity > 1 ? `${base}^${multiplicity}` : base;
+    };
+    const leading = gcfCoefficient.equals(1) ? '' : gcfCoefficient.equals(-1) ? '-' : gcfCoefficient.toString().includes('/') ? `(${gcfCoefficient})` : `${gcfCoefficient}`;
+    const factored = leading + factorList.map(writeFactor).join('');
+    steps.push(`Put the factors together: ${polynomial} = ${factored}.`);
+
+    const roots = factorList.flatMap(({ coefficients: factorCoefficients, multiplicity }) => {
+        const exact = factorCoefficients.length === 2 ? factorCoefficients[1].negated().dividedBy(factorCoefficients[0]) : null;
+        return factorRoots(factorCoefficients).map((root) => ({
+            value: exact ? exact.toFraction() : formatRoot(root),
+            real: root[0],
+            imaginary: root[1],
+            multiplicity,
+            exact: exact !== null,
+        }));
+    }).sort((a, b) => Number(a.imaginary !== 0) - Number(b.imaginary !== 0) || a.real - b.real || a.imaginary - b.imaginary);
+    const describedRoots = roots.map((root) => `${variable} = ${root.value}${root.multiplicity > 1 ? ` (multiplicity ${root.multiplicity})` : ''}`);
+    steps.push(`Set each factor to zero to find the roots: ${describedRoots.join(', ')}.`);
+
+    const realParts = roots.map((root) => root.real);
+    const low = Math.min(...realParts);
+    const high = Math.max(...realParts);
+    const padding = Math.max(1, (high - low) * 0.3);
+    const values = coefficients.map((value) => value.toNumber());
+    const plot = Array.from({ length: 201 }, (_, i) => {
+        const x = parseFloat((low - padding + (i / 200) * (high - low + 2 * padding)).toFixed(4));
+        return { x, y: values.reduce((sum, coefficient) => sum * x + coefficient, 0) };
+    });
+
+    return success({
+        polynomial: polynomial.toString(),
+        factored,
+        fullyFactored,
+        degree: polynomial.degree,
+        realRootCount: roots.filter((root) => root.imaginary === 0).reduce((count, root) => count + root.multiplicity, 0),
+        factors: factorList.map(({ factor, multiplicity }) => ({ factor, multiplicity })),
+        roots,
+        steps: steps.map((step, index) => `${index + 1}. ${step}`),
+        plot,
+    });
 }
 
 // Forward recurrence relation for Bessel functions.
@@ -535,8 +2089,9 @@ export function calculateBesselJ(n: number, x: number): number {
     return j_values[n] * scale;
 }
 
-export function calculateBesselY(n: number, x: number): number | string {
-    if (x === 0.0) return "-Infinity";
+// Yₙ is unbounded at the origin and undefined for negative x; callers plotting it skip non-finite values.
+export function calculateBesselY(n: number, x: number): number {
+    if (x === 0.0) return -Infinity;
     if (x < 0) return NaN;
 
     if (n === 0) {
@@ -563,8 +2118,6 @@ export function calculateBesselY(n: number, x: number): number | string {
     // Recurrence relation
     const y0_val = calculateBesselY(0, x);
     const y1_val = calculateBesselY(1, x);
-    
-    if (typeof y0_val !== 'number' || typeof y1_val !== 'number') return NaN;
 
     let y_nm1 = y1_val;
     let y_n = y0_val;
@@ -576,3 +2129,9 @@ export function calculateBesselY(n: number, x: number): number | string {
     }
     return y_nm1;
 }
+
+export function calculateBessel(n: number, x: number) {
+    if (x === 0) return failure('singularity', 'Yₙ(x) has a singularity at x = 0 (it tends to -∞).');
+    if (x < 0) return failure('out_of_domain', 'Yₙ(x) is only defined for positive x.');
+    return success({ j: calculateBesselJ(n, x), y: calculateBesselY(n, x) }, { j: 'number', y: 'number' });
+}
@@ -0,0 +1,73 @@
+/**
+ * Minimal RFC 4180 reading and writing for batch input and exports:
+ * quoted fields, doubled quotes and line breaks inside quotes.
+ */
+
+export type Delimiter = ',' | '\t' | ';';
+
+/** Picks the delimiter that appears most often in the header line. */
+export function detectDelimiter(text: string): Delimiter {
+    const header = text.split(/\r?\n/, 1)[0] ?? '';
+    const candidates: Delimiter[] = [',', '\t', ';'];
+    const counts = candidates.map((delimiter) => header.split(delimiter).length);
+    return candidates[counts.indexOf(Math.max(...counts))];
+}
+
+export function parseDelimited(text: string, delimiter: Delimiter = detectDelimiter(text)): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    // Blank lines, such as a trailing newline, are not records.
+    return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+/** Reads a header row and returns one record per remaining row, keyed by header. */
+export function parseRecords(text: string, delimiter?: Delimiter) {
+    const [header = [], ...rows] = parseDelimited(text, delimiter);
+    const columns = header.map((name) => name.trim());
+    return {
+        columns,
+        records: rows.map((cells) => Object.fromEntries(columns.map((column, index) => [column, cells[index]?.trim() ?? '']))),
+    };
+}
+
+function escapeField(value: unknown, delimiter: Delimiter) {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toDelimited(rows: unknown[][], delimiter: Delimiter = ','): string {
+    return rows.map((row) => row.map((value) => escapeField(value, delimiter)).join(delimiter)).join('\r\n');
+}
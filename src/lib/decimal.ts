@@ -0,0 +1,163 @@
+/**
+ * Fixed-point decimal arithmetic for money.
+ *
+ * A value is a bigint count of 10^-scale units, so adding cents is exact and
+ * rounding only happens where a calculator asks for it, with an explicit mode.
+ * Intermediate results such as rates and compounding factors keep
+ * `WORKING_SCALE` digits.
+ */
+
+export type RoundingMode = 'half-even' | 'half-up';
+
+/** Banker's rounding: ties go to the even neighbour, so rounding error doesn't build up in one direction. */
+export const DEFAULT_ROUNDING_MODE: RoundingMode = 'half-even';
+
+const WORKING_SCALE = 20;
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const TEN = BigInt(10);
+
+const pow10 = (exponent: number) => TEN ** BigInt(exponent);
+
+// 'half-up' rounds ties away from zero, as in most tax and banking rules.
+function divideRounded(numerator: bigint, denominator: bigint, mode: RoundingMode) {
+    if (denominator < ZERO) {
+        numerator = -numerator;
+        denominator = -denominator;
+    }
+    const quotient = numerator / denominator;
+    const remainder = numerator % denominator;
+    if (remainder === ZERO) return quotient;
+
+    const sign = numerator < ZERO ? -ONE : ONE;
+    const twiceRemainder = (remainder < ZERO ? -remainder : remainder) * TWO;
+    if (twiceRemainder < denominator) return quotient;
+    if (twiceRemainder > denominator) return quotient + sign;
+    if (mode === 'half-up') return quotient + sign;
+    return quotient % TWO === ZERO ? quotient : quotient + sign;
+}
+
+export class Decimal {
+    private constructor(private readonly units: bigint, private readonly scale: number) {}
+
+    static readonly ZERO = new Decimal(ZERO, 0);
+
+    /** Numbers are read from their shortest round-trip form, so `0.1` is exactly one tenth. */
+    static from(value: Decimal | number | string): Decimal {
+        if (value instanceof Decimal) return value;
+        if (typeof value === 'number' && !Number.isFinite(value)) throw new RangeError(`Cannot represent ${value} as a decimal.`);
+        const match = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(String(value).trim());
+        if (!match || (!match[2] && !match[3])) throw new SyntaxError(`Invalid decimal: "${value}"`);
+
+        const [, sign, whole, fraction = '', exponent] = match;
+        let units = BigInt((whole || '0') + fraction);
+        let scale = fraction.length - (exponent ? parseInt(exponent, 10) : 0);
+        if (scale < 0) {
+            units *= pow10(-scale);
+            scale = 0;
+        }
+        return new Decimal(sign === '-' ? -units : units, scale).limit();
+    }
+
+    static sum(values: Iterable<Decimal>) {
+        let total = Decimal.ZERO;
+        for (const value of values) total = total.plus(value);
+        return total;
+    }
+
+    static min(a: Decimal, b: Decimal) {
+        return a.compare(b) <= 0 ? a : b;
+    }
+
+    static max(a: Decimal, b: Decimal) {
+        return a.compare(b) >= 0 ? a : b;
+    }
+
+    private static align(a: Decimal, b: Decimal): [bigint, bigint, number] {
+        const scale = Math.max(a.scale, b.scale);
+        return [a.units * pow10(scale - a.scale), b.units * pow10(scale - b.scale), scale];
+    }
+
+    private limit() {
+        return this.scale > WORKING_SCALE ? this.round(WORKING_SCALE) : this;
+    }
+
+    plus(other: Decimal | number) {
+        const [a, b, scale] = Decimal.align(this, Decimal.from(other));
+        return new Decimal(a + b, scale);
+    }
+
+    minus(other: Decimal | number) {
+        const [a, b, scale] = Decimal.align(this, Decimal.from(other));
+        return new Decimal(a - b, scale);
+    }
+
+    times(other: Decimal | number) {
+        const factor = Decimal.from(other);
+        return new Decimal(this.units * factor.units, this.scale + factor.scale).limit();
+    }
+
+    dividedBy(other: Decimal | number, scale = WORKING_SCALE, mode: RoundingMode = DEFAULT_ROUNDING_MODE) {
+        const divisor = Decimal.from(other);
+        if (divisor.units === ZERO) throw new RangeError('Division by zero.');
+        // units / 10^scale = (this.units / 10^this.scale) / (divisor.units / 10^divisor.scale)
+        const exponent = scale + divisor.scale - this.scale;
+        const numerator = exponent >= 0 ? this.units * pow10(exponent) : this.units;
+        const denominator = exponent >= 0 ? divisor.units : divisor.units * pow10(-exponent);
+        return new Decimal(divideRounded(numerator, denominator, mode), scale);
+    }
+
+    /** Integer powers only; negative exponents divide at the working scale. */
+    pow(exponent: number): Decimal {
+        if (!Number.isInteger(exponent)) throw new RangeError('Decimal exponents must be integers.');
+        if (exponent < 0) return new Decimal(ONE, 0).dividedBy(this.pow(-exponent));
+        let result = new Decimal(ONE, 0);
+        let base: Decimal = this;
+        for (let remaining = exponent; remaining > 0; remaining = Math.floor(remaining / 2)) {
+            if (remaining % 2 === 1) result = result.times(base);
+            base = base.times(base);
+        }
+        return result;
+    }
+
+    round(decimals = 2, mode: RoundingMode = DEFAULT_ROUNDING_MODE) {
+        if (this.scale <= decimals) return this;
+        return new Decimal(divideRounded(this.units, pow10(this.scale - decimals), mode), decimals);
+    }
+
+    negated() {
+        return new Decimal(-this.units, this.scale);
+    }
+
+    compare(other: Decimal | number) {
+        const [a, b] = Decimal.align(this, Decimal.from(other));
+        return a === b ? 0 : a < b ? -1 : 1;
+    }
+
+    isZero() {
+        return this.units === ZERO;
+    }
+
+    isPositive() {
+        return this.units > ZERO;
+    }
+
+    toString() {
+        const negative = this.units < ZERO;
+        const digits = (negative ? -this.units : this.units).toString().padStart(this.scale + 1, '0');
+        const whole = digits.slice(0, digits.length - this.scale);
+        const fraction = digits.slice(digits.length - this.scale);
+        return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+    }
+
+    toNumber() {
+        return Number(this.toString());
+    }
+}
+
+/** Rounds an amount to whole cents. */
+export function toCents(value: Decimal | number, mode: RoundingMode = DEFAULT_ROUNDING_MODE) {
+    return Decimal.from(value).round(2, mode);
+}
@@ -0,0 +1,11 @@
+/** Saves generated text as a file through a temporary link. Browser only. */
+export function downloadFile(filename: string, content: string, type = 'text/csv') {
+    const url = URL.createObjectURL(new Blob([content], { type: `${type};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
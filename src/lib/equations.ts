@@ -0,0 +1,64 @@
+/**
+ * Relationships declared once as equations, so a calculator can solve for
+ * whichever value the user leaves out.
+ *
+ * An equation is written as a residual that is zero when the values agree,
+ * with any division multiplied out, e.g. `percentage × goal − 100 × current`.
+ * Every residual here is linear in each variable on its own, so with the
+ * other values fixed it is `a·x + b`: two evaluations give `a` and `b`, and
+ * the unknown is exactly `−b / a`, with no iteration or starting guess.
+ */
+import { failure, success, type ResultUnit } from '@/lib/calculator-result';
+import { Decimal, DEFAULT_ROUNDING_MODE, type RoundingMode } from '@/lib/decimal';
+
+export interface EquationVariable {
+    label: string;
+    unit: ResultUnit;
+    /** Set for variables that divide in the original formula; the message explains why 0 is invalid. */
+    nonZero?: string;
+}
+
+export interface Equation<V extends string> {
+    variables: Record<V, EquationVariable>;
+    residual(values: Record<V, Decimal>): Decimal;
+}
+
+export type SolvedValues<V extends string> = Record<V, number> & { solvedFor: V };
+
+export function solveEquation<V extends string>(
+    equation: Equation<V>,
+    known: Partial<Record<V, number>>,
+    rounding: RoundingMode = DEFAULT_ROUNDING_MODE
+) {
+    const names = Object.keys(equation.variables) as V[];
+    const unknowns = names.filter((name) => known[name] === undefined || Number.isNaN(known[name]));
+    if (unknowns.length !== 1) {
+        return failure('out_of_domain', 'Leave exactly one value blank to solve for it.');
+    }
+    const [unknown] = unknowns;
+    const variable = equation.variables[unknown];
+
+    for (const name of names) {
+        if (name !== unknown && known[name] === 0 && equation.variables[name].nonZero) {
+            return failure('division_by_zero', equation.variables[name].nonZero!);
+        }
+    }
+
+    const values = Object.fromEntries(names.map((name) => [name, name === unknown ? Decimal.ZERO : Decimal.from(known[name]!)])) as Record<V, Decimal>;
+    const atZero = equation.residual(values);
+    const atOne = equation.residual({ ...values, [unknown]: Decimal.from(1) });
+    const slope = atOne.minus(atZero);
+    if (slope.isZero()) {
+        return atZero.isZero()
+            ? failure('out_of_domain', `Any ${variable.label.toLowerCase()} works with these values.`)
+            : failure('out_of_domain', `No ${variable.label.toLowerCase()} works with these values.`);
+    }
+
+    // Kept at full precision; results are rounded only when they are displayed.
+    const solved = atZero.negated().dividedBy(slope, undefined, rounding);
+    if (solved.isZero() && variable.nonZero) return failure('division_by_zero', variable.nonZero);
+
+    const data = Object.fromEntries(names.map((name) => [name, name === unknown ? solved.toNumber() : known[name]!])) as Record<V, number>;
+    const units = Object.fromEntries(names.map((name) => [name, equation.variables[name].unit])) as Record<V, ResultUnit>;
+    return success({ ...data, solvedFor: unknown } as SolvedValues<V>, units as Partial<Record<keyof SolvedValues<V>, ResultUnit>>);
+}
@@ -0,0 +1,79 @@
+/**
+ * Turns a calculator's inputs and result into downloadable files. CSV holds
+ * the headline results plus every table in the result, e.g. a year-by-year
+ * history or the box method grid; JSON holds everything as returned.
+ */
+import type { CalculatorResult } from '@/lib/calculator-result';
+import { summarizeOutputs } from '@/lib/calculation-history';
+import { getCalculator } from '@/lib/calculator-registry';
+import { toDelimited } from '@/lib/csv';
+import { humanizeFieldName } from '@/lib/format';
+
+type Row = unknown[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+// Cells such as the box method's { value, isDiagonal } are shown by their value.
+function cellText(value: unknown): unknown {
+    if (isRecord(value) && 'value' in value) return value.value;
+    if (Array.isArray(value)) return value.join(' – ');
+    if (isRecord(value)) return JSON.stringify(value);
+    return value;
+}
+
+/** Input values as text, e.g. a list of expenses as "Housing 1200, Food 600". */
+export function formatInputValue(value: unknown): string {
+    if (Array.isArray(value)) return value.map((item) => (isRecord(item) ? Object.values(item).join(' ') : String(item))).join(', ');
+    if (isRecord(value)) return JSON.stringify(value);
+    return value === null || value === undefined ? '' : String(value);
+}
+
+/** Rows for one table-like result field, or null for fields that are not tables. */
+function tableRows(value: unknown): Row[] | null {
+    if (Array.isArray(value) && value.length > 0) {
+        if (value.every(isRecord)) {
+            const columns = [...new Set(value.flatMap((item) => Object.keys(item)))];
+            return [columns.map(humanizeFieldName), ...value.map((item) => columns.map((column) => cellText(item[column])))];
+        }
+        if (value.every(Array.isArray)) return value.map((row) => row.map(cellText));
+        return value.map((item) => [cellText(item)]);
+    }
+    // A grid with headers, such as the box method's rows × columns of products.
+    if (isRecord(value) && Array.isArray(value.rows) && Array.isArray(value.colHeaders) && Array.isArray(value.rowHeaders)) {
+        const rowHeaders = value.rowHeaders;
+        return [
+            ['', ...value.colHeaders],
+            ...value.rows.map((row, index) => [rowHeaders[index], ...(Array.isArray(row) ? row.map(cellText) : [])]),
+        ];
+    }
+    if (isRecord(value) && Object.keys(value).length > 0) {
+        return Object.entries(value).map(([key, item]) => [humanizeFieldName(key), cellText(item)]);
+    }
+    return null;
+}
+
+export function resultToCsv(inputs: Record<string, unknown>, result: CalculatorResult<object>) {
+    const sections: Row[][] = [
+        [['Inputs'], ['Field', 'Value'], ...Object.entries(inputs).map(([key, value]) => [humanizeFieldName(key), formatInputValue(value)])],
+    ];
+
+    if (result.ok) {
+        const { outputs, units } = summarizeOutputs(result);
+        sections.push([['Results'], ['Field', 'Value', 'Unit'], ...Object.entries(outputs).map(([key, value]) => [humanizeFieldName(key), value, units?.[key] ?? ''])]);
+        for (const [key, value] of Object.entries(result.data)) {
+            if (key in outputs) continue;
+            const rows = tableRows(value);
+            if (rows) sections.push([[humanizeFieldName(key)], ...rows]);
+        }
+    } else {
+        sections.push([['Error'], [result.error.code, result.error.message]]);
+    }
+
+    // A blank line between sections keeps them apart in a spreadsheet.
+    return toDelimited(sections.flatMap((section, index) => (index === 0 ? section : [[], ...section])));
+}
+
+export function resultToJson(slug: string, inputs: Record<string, unknown>, result: CalculatorResult<object>, exportedAt = new Date()) {
+    return JSON.stringify({ calculator: slug, title: getCalculator(slug).title, exportedAt: exportedAt.toISOString(), inputs, result }, null, 2);
+}
@@ -0,0 +1,447 @@
+/**
+ * Algebraic expressions, equations and inequalities typed as free-form text.
+ *
+ * `tokenize` splits the text into numbers, single-letter variables,
+ * operators, parentheses, absolute value bars and comparison signs;
+ * `parseExpression` and `parseRelation` build an AST by recursive descent.
+ * Mistakes are reported as an `ExpressionSyntaxError` with the index into the
+ * input where the problem is.
+ *
+ * The AST is shared: the polynomial calculators expand it into a
+ * `Polynomial`, and the absolute value calculators normalize each side into
+ * a `PiecewiseLinear` function, which turns any equation or inequality that is
+ * linear apart from its absolute values into one linear case per interval.
+ */
+import { Rational } from '@/lib/rational';
+
+/** Keeps expansions such as `(x + 1)^n` to a size the page can show. */
+export const MAX_EXPONENT = 100;
+
+export class ExpressionSyntaxError extends SyntaxError {
+    constructor(message: string, readonly position: number) {
+        super(message);
+        this.name = 'ExpressionSyntaxError';
+    }
+}
+
+export type TokenType = 'number' | 'variable' | 'operator' | 'leftParen' | 'rightParen' | 'bar' | 'relation' | 'end';
+
+export interface Token {
+    type: TokenType;
+    text: string;
+    position: number;
+}
+
+// Typographic minus and multiplication signs are read as their ASCII forms, so pasted expressions work.
+const OPERATORS: Record<string, string> = { '+': '+', '-': '-', '−': '-', '*': '*', '×': '*', '·': '*', '/': '/', '^': '^' };
+
+export type RelationOperator = '=' | '<' | '<=' | '>' | '>=';
+
+const RELATIONS: Record<string, RelationOperator> = { '=': '=', '<': '<', '<=': '<=', '≤': '<=', '>': '>', '>=': '>=', '≥': '>=' };
+
+export function tokenize(input: string): Token[] {
+    const tokens: Token[] = [];
+    let index = 0;
+    while (index < input.length) {
+        const char = input[index];
+        if (/\s/.test(char)) {
+            index++;
+            continue;
+        }
+        const number = /^(?:\d+(?:\.\d*)?|\.\d+)/.exec(input.slice(index));
+        if (number) {
+            tokens.push({ type: 'number', text: number[0], position: index });
+            index += number[0].length;
+            continue;
+        }
+        const relation = /^(?:<=|>=|[=<>≤≥])/.exec(input.slice(index));
+        if (relation) {
+            tokens.push({ type: 'relation', text: RELATIONS[relation[0]], position: index });
+            index += relation[0].length;
+            continue;
+        }
+        if (/[a-zA-Z]/.test(char)) tokens.push({ type: 'variable', text: char, position: index });
+        else if (char in OPERATORS) tokens.push({ type: 'operator', text: OPERATORS[char], position: index });
+        else if (char === '(') tokens.push({ type: 'leftParen', text: char, position: index });
+        else if (char === ')') tokens.push({ type: 'rightParen', text: char, position: index });
+        else if (char === '|') tokens.push({ type: 'bar', text: char, position: index });
+        else throw new ExpressionSyntaxError(`Unrecognized character "${char}" at column ${index + 1}.`, index);
+        index++;
+    }
+    tokens.push({ type: 'end', text: '', position: input.length });
+    return tokens;
+}
+
+export type ExpressionNode =
+    | { type: 'number'; value: Rational; position: number }
+    | { type: 'variable'; name: string; position: number }
+    | { type: 'negate'; operand: ExpressionNode; position: number }
+    | { type: 'binary'; operator: '+' | '-' | '*' | '/'; left: ExpressionNode; right: ExpressionNode; position: number }
+    | { type: 'power'; base: ExpressionNode; exponent: number; position: number }
+    | { type: 'abs'; operand: ExpressionNode; position: number };
+
+export interface Relation {
+    left: ExpressionNode;
+    operator: RelationOperator;
+    right: ExpressionNode;
+}
+
+const describe = (token: Token) => (token.type === 'end' ? 'the end of the expression' : `"${token.text}" at column ${token.position + 1}`);
+
+/**
+ * Grammar, loosest binding first:
+ *
+ *     relation = sum relop sum
+ *     sum      = product (("+" | "-") product)*
+ *     product  = unary (("*" | "/")? unary)*      a missing operator means "*"
+ *     unary    = ("+" | "-") unary | power
+ *     power    = primary ("^" integer)?
+ *     primary  = number | variable | "(" sum ")" | "|" sum "|"
+ *
+ * A "|" after a term closes the innermost open absolute value, so `|x||y|` is
+ * `|x|·|y|`; inside bars a nested absolute value needs an explicit "*" after a
+ * term, as in `|2*|x| - 1|`.
+ */
+function createParser(input: string) {
+    const tokens = tokenize(input);
+    let index = 0;
+    let openBars = 0;
+    const peek = () => tokens[index];
+    const isOperator = (token: Token, ...operators: string[]) => token.type === 'operator' && operators.includes(token.text);
+
+    if (peek().type === 'end') throw new ExpressionSyntaxError('Enter an expression.', 0);
+
+    function expectOperand(after: Token) {
+        const token = peek();
+        if (token.type === 'number' || token.type === 'variable' || token.type === 'leftParen' || token.type === 'bar' || isOperator(token, '+', '-')) return;
+        throw new ExpressionSyntaxError(`Expected a term after "${after.text}" at column ${after.position + 1}, found ${describe(token)}.`, token.position);
+    }
+
+    function parseSum(): ExpressionNode {
+        let left = parseProduct();
+        while (isOperator(peek(), '+', '-')) {
+            const operator = tokens[index++];
+            expectOperand(operator);
+            left = { type: 'binary', operator: operator.text as '+' | '-', left, right: parseProduct(), position: operator.position };
+        }
+        return left;
+    }
+
+    function parseProduct(): ExpressionNode {
+        let left = parseUnary();
+        for (;;) {
+            const token = peek();
+            if (isOperator(token, '*', '/')) {
+                index++;
+                expectOperand(token);
+                left = { type: 'binary', operator: token.text as '*' | '/', left, right: parseUnary(), position: token.position };
+            } else if (token.type === 'variable' || token.type === 'leftParen' || (token.type === 'bar' && openBars === 0)) {
+                left = { type: 'binary', operator: '*', left, right: parseUnary(), position: token.position };
+            } else if (token.type === 'number') {
+                // "2 3" or "x2" is more likely a typo than a product.
+                throw new ExpressionSyntaxError(`Expected an operator before "${token.text}" at column ${token.position + 1}.`, token.position);
+            } else {
+                return left;
+            }
+        }
+    }
+
+    function parseUnary(): ExpressionNode {
+        const token = peek();
+        if (isOperator(token, '+', '-')) {
+            index++;
+            expectOperand(token);
+            const operand = parseUnary();
+            return token.text === '-' ? { type: 'negate', operand, position: token.position } : operand;
+        }
+        return parsePower();
+    }
+
+    function parsePower(): ExpressionNode {
+        const base = parsePrimary();
+        const caret = peek();
+        if (!isOperator(caret, '^')) return base;
+        index++;
+
+        const token = peek();
+        const column = token.position + 1;
+        if (isOperator(token, '-')) {
+            throw new ExpressionSyntaxError(`Negative exponents are not allowed (column ${column}).`, token.position);
+        }
+        if (token.type !== 'number') {
+            throw new ExpressionSyntaxError(`Expected a whole-number exponent after "^" at column ${caret.position + 1}, found ${describe(token)}.`, token.position);
+        }
+        if (!/^\d+$/.test(token.text)) {
+            throw new ExpressionSyntaxError(`The exponent "${token.text}" at column ${column} must be a whole number.`, token.position);
+        }
+        const exponent = parseInt(token.text, 10);
+        if (exponent > MAX_EXPONENT) {
+            throw new ExpressionSyntaxError(`The exponent at column ${column} is larger than ${MAX_EXPONENT}.`, token.position);
+        }
+        index++;
+        if (isOperator(peek(), '^')) {
+            throw new ExpressionSyntaxError(`Use parentheses for repeated powers, e.g. (x^2)^3 (column ${peek().position + 1}).`, peek().position);
+        }
+        return { type: 'power', base, exponent, position: caret.position };
+    }
+
+    function parsePrimary(): ExpressionNode {
+        const token = tokens[index++];
+        if (token.type === 'number') return { type: 'number', value: Rational.from(token.text), position: token.position };
+        if (token.type === 'variable') return { type: 'variable', name: token.text, position: token.position };
+        if (token.type === 'leftParen') {
+            expectOperand(token);
+            const inner = parseSum();
+            if (peek().type !== 'rightParen') {
+                throw new ExpressionSyntaxError(`Missing ")" for the "(" at column ${token.position + 1}.`, peek().position);
+            }
+            index++;
+            return inner;
+        }
+        if (token.type === 'bar') {
+            expectOperand(token);
+            openBars++;
+            const operand = parseSum();
+            if (peek().type !== 'bar') {
+                throw new ExpressionSyntaxError(`Missing "|" to close the "|" at column ${token.position + 1}.`, peek().position);
+            }
+            index++;
+            openBars--;
+            return { type: 'abs', operand, position: token.position };
+        }
+        throw new ExpressionSyntaxError(`Unexpected ${describe(token)}.`, token.position);
+    }
+
+    function expectEnd() {
+        if (peek().type !== 'end') throw new ExpressionSyntaxError(`Unexpected ${describe(peek())}.`, peek().position);
+    }
+
+    return { parseSum, expectEnd, expectOperand, peek, next: () => tokens[index++] };
+}
+
+export function parseExpression(input: string): ExpressionNode {
+    const parser = createParser(input);
+    const node = parser.parseSum();
+    parser.expectEnd();
+    return node;
+}
+
+/** An equation or inequality with exactly one comparison sign, e.g. `3|x + 1| >= 2x`. */
+export function parseRelation(input: string): Relation {
+    const parser = createParser(input);
+    const left = parser.parseSum();
+    const token = parser.peek();
+    if (token.type !== 'relation') {
+        throw new ExpressionSyntaxError(`Expected =, <, ≤, > or ≥ after the left side, found ${describe(token)}.`, token.position);
+    }
+    parser.next();
+    parser.expectOperand(token);
+    const right = parser.parseSum();
+    const extra = parser.peek();
+    if (extra.type === 'relation') {
+        throw new ExpressionSyntaxError(`Only one comparison is allowed, but found another "${extra.text}" at column ${extra.position + 1}.`, extra.position);
+    }
+    parser.expectEnd();
+    return { left, operator: token.text as RelationOperator, right };
+}
+
+/** Every variable that appears, in alphabetical order. */
+export function variablesOf(node: ExpressionNode): string[] {
+    const names = new Set<string>();
+    const visit = (current: ExpressionNode): void => {
+        switch (current.type) {
+            case 'variable':
+                names.add(current.name);
+                return;
+            case 'negate':
+            case 'abs':
+                return visit(current.operand);
+            case 'power':
+                return visit(current.base);
+            case 'binary':
+                visit(current.left);
+                return visit(current.right);
+        }
+    };
+    visit(node);
+    return [...names].sort();
+}
+
+export function evaluate(node: ExpressionNode, values: Record<string, number>): number {
+    switch (node.type) {
+        case 'number':
+            return node.value.toNumber();
+        case 'variable':
+            if (!(node.name in values)) throw new RangeError(`No value given for ${node.name}.`);
+            return values[node.name];
+        case 'negate':
+            return -evaluate(node.operand, values);
+        case 'abs':
+            return Math.abs(evaluate(node.operand, values));
+        case 'power':
+            return evaluate(node.base, values) ** node.exponent;
+        case 'binary': {
+            const left = evaluate(node.left, values);
+            const right = evaluate(node.right, values);
+            if (node.operator === '+') return left + right;
+            if (node.operator === '-') return left - right;
+            if (node.operator === '*') return left * right;
+            return left / right;
+        }
+    }
+}
+
+const PRECEDENCE: Record<ExpressionNode['type'], number> = { binary: 0, negate: 2, power: 3, number: 4, variable: 4, abs: 4 };
+const precedenceOf = (node: ExpressionNode) => (node.type === 'binary' ? (node.operator === '+' || node.operator === '-' ? 0 : 1) : PRECEDENCE[node.type]);
+
+/** The expression written back out with single spaces and only the parentheses it needs, e.g. `3|x + 1|`. */
+export function formatExpression(node: ExpressionNode): string {
+    const wrap = (child: ExpressionNode, minimum: number) => (precedenceOf(child) < minimum ? `(${formatExpression(child)})` : formatExpression(child));
+    switch (node.type) {
+        case 'number':
+            return node.value.toString();
+        case 'variable':
+            return node.name;
+        case 'abs':
+            return `|${formatExpression(node.operand)}|`;
+        case 'negate':
+            return `-${wrap(node.operand, 2)}`;
+        case 'power':
+            return `${wrap(node.base, 4)}^${node.exponent}`;
+        case 'binary': {
+            // A negated right operand is bracketed, so `x - -1` reads `x - (-1)`.
+            const right = node.right.type === 'negate'
+                ? `(${formatExpression(node.right)})`
+                : wrap(node.right, node.operator === '+' ? 0 : node.operator === '-' ? 1 : 2);
+            if (node.operator === '+' || node.operator === '-') return `${formatExpression(node.left)} ${node.operator} ${right}`;
+            if (node.operator === '/') return `${wrap(node.left, 1)}/${right}`;
+            // A number written before a variable, bar or bracket multiplies it, as in `2x` or `3|x|`.
+            return node.left.type === 'number' && /^[a-zA-Z|(]/.test(right) ? `${node.left.value}${right}` : `${wrap(node.left, 1)} * ${right}`;
+        }
+    }
+}
+
+export const RELATION_SYMBOLS: Record<RelationOperator, string> = { '=': '=', '<': '<', '<=': '≤', '>': '>', '>=': '≥' };
+
+export function formatRelation(relation: Relation) {
+    return `${formatExpression(relation.left)} ${RELATION_SYMBOLS[relation.operator]} ${formatExpression(relation.right)}`;
+}
+
+/** `slope·x + intercept` on `[from, to)`, where a null end is unbounded. */
+export interface LinearPiece {
+    from: Rational | null;
+    to: Rational | null;
+    slope: Rational;
+    intercept: Rational;
+}
+
+/**
+ * A continuous function of one variable made of linear pieces, sorted and
+ * covering the whole number line. Every expression built from numbers, the
+ * variable, +, −, absolute values and multiplication or division by
+ * constants has this form: `|x - 1| + 2` is `-x + 3` below 1 and `x + 1` from 1 on.
+ */
+export type PiecewiseLinear = LinearPiece[];
+
+const line = (slope: Rational, intercept: Rational): PiecewiseLinear => [{ from: null, to: null, slope, intercept }];
+
+// A point strictly inside the piece, for reading off signs.
+function samplePoint({ from, to }: { from: Rational | null; to: Rational | null }) {
+    if (from && to) return from.plus(to).dividedBy(2);
+    if (from) return from.plus(1);
+    if (to) return to.minus(1);
+    return Rational.ZERO;
+}
+
+const valueAt = (piece: LinearPiece, x: Rational) => piece.slope.times(x).plus(piece.intercept);
+
+function pieceAt(f: PiecewiseLinear, x: Rational) {
+    return f.find((piece) => (!piece.from || piece.from.compare(x) <= 0) && (!piece.to || x.compare(piece.to) < 0))!;
+}
+
+/** Breakpoints where the function changes from one linear piece to the next. */
+export const breakpointsOf = (f: PiecewiseLinear) => f.slice(0, -1).map((piece) => piece.to!);
+
+// Adjacent pieces on the same line are one piece, e.g. after |x| - |x|.
+function mergePieces(pieces: PiecewiseLinear): PiecewiseLinear {
+    const merged: PiecewiseLinear = [];
+    for (const piece of pieces) {
+        const last = merged[merged.length - 1];
+        if (last && last.slope.equals(piece.slope) && last.intercept.equals(piece.intercept)) merged[merged.length - 1] = { ...last, to: piece.to };
+        else merged.push(piece);
+    }
+    return merged;
+}
+
+// Applies `combine` to the two functions' lines on every interval between their joint breakpoints.
+function combinePieces(f: PiecewiseLinear, g: PiecewiseLinear, combine: (a: LinearPiece, b: LinearPiece) => Pick<LinearPiece, 'slope' | 'intercept'>) {
+    const cuts = [...new Map([...breakpointsOf(f), ...breakpointsOf(g)].map((x) => [x.toString(), x])).values()].sort((a, b) => a.compare(b));
+    const bounds = [null, ...cuts, null];
+    return mergePieces(bounds.slice(0, -1).map((from, i) => {
+        const interval = { from, to: bounds[i + 1] };
+        const x = samplePoint(interval);
+        return { ...interval, ...combine(pieceAt(f, x), pieceAt(g, x)) };
+    }));
+}
+
+const isConstant = (f: PiecewiseLinear) => f.length === 1 && f[0].slope.isZero();
+
+function absolute(f: PiecewiseLinear): PiecewiseLinear {
+    const pieces = f.flatMap((piece) => {
+        if (piece.slope.isZero()) return [piece];
+        const root = piece.intercept.negated().dividedBy(piece.slope);
+        const inside = (!piece.from || piece.from.compare(root) < 0) && (!piece.to || root.compare(piece.to) < 0);
+        return inside ? [{ ...piece, to: root }, { ...piece, from: root }] : [piece];
+    });
+    return mergePieces(pieces.map((piece) => (valueAt(piece, samplePoint(piece)).isNegative()
+        ? { ...piece, slope: piece.slope.negated(), intercept: piece.intercept.negated() }
+        : piece)));
+}
+
+const scalePieces = (f: PiecewiseLinear, factor: Rational) =>
+    mergePieces(f.map((piece) => ({ ...piece, slope: piece.slope.times(factor), intercept: piece.intercept.times(factor) })));
+
+/**
+ * Normalizes an expression in `variable` into a piecewise linear function.
+ * Anything else, such as `x^2` or `x·|x|`, is reported with the column where
+ * it stops being linear.
+ */
+export function toPiecewiseLinear(node: ExpressionNode, variable: string): PiecewiseLinear {
+    const notLinear = (what: string) =>
+        new ExpressionSyntaxError(`${what} at column ${node.position + 1} is not linear in ${variable}; only linear expressions and absolute values of them are supported.`, node.position);
+
+    switch (node.type) {
+        case 'number':
+            return line(Rational.ZERO, node.value);
+        case 'variable':
+            if (node.name !== variable) throw new ExpressionSyntaxError(`Unexpected variable "${node.name}" at column ${node.position + 1}; use only ${variable}.`, node.position);
+            return line(Rational.ONE, Rational.ZERO);
+        case 'negate':
+            return scalePieces(toPiecewiseLinear(node.operand, variable), Rational.ONE.negated());
+        case 'abs':
+            return absolute(toPiecewiseLinear(node.operand, variable));
+        case 'power': {
+            const base = toPiecewiseLinear(node.base, variable);
+            if (node.exponent === 0) return line(Rational.ZERO, Rational.ONE);
+            if (node.exponent === 1) return base;
+            if (!isConstant(base)) throw notLinear('The power');
+            return line(Rational.ZERO, base[0].intercept.pow(node.exponent));
+        }
+        case 'binary': {
+            const left = toPiecewiseLinear(node.left, variable);
+            const right = toPiecewiseLinear(node.right, variable);
+            if (node.operator === '+' || node.operator === '-') {
+                const sign = node.operator === '+' ? 1 : -1;
+                return combinePieces(left, right, (a, b) => ({ slope: a.slope.plus(b.slope.times(sign)), intercept: a.intercept.plus(b.intercept.times(sign)) }));
+            }
+            if (node.operator === '*') {
+                if (isConstant(left)) return scalePieces(right, left[0].intercept);
+                if (isConstant(right)) return scalePieces(left, right[0].intercept);
+                throw notLinear('The product');
+            }
+            if (!isConstant(right)) throw notLinear('The division');
+            if (right[0].intercept.isZero()) throw new ExpressionSyntaxError(`Division by zero at column ${node.position + 1}.`, node.position);
+            return scalePieces(left, Rational.ONE.dividedBy(right[0].intercept));
+        }
+    }
+}
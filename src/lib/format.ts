@@ -0,0 +1,188 @@
+/**
+ * Presentation helpers that turn raw calculator numbers into display strings.
+ * Calculators return numbers; pages format them here at render time with the
+ * reader's locale and currency (see `useFormatter`).
+ */
+import type { ResultUnit } from '@/lib/calculator-result';
+
+export const SUPPORTED_LOCALES = [
+    { value: 'en-US', label: 'English (United States)' },
+    { value: 'en-GB', label: 'English (United Kingdom)' },
+    { value: 'en-IN', label: 'English (India)' },
+    { value: 'de-DE', label: 'Deutsch (Deutschland)' },
+    { value: 'fr-FR', label: 'Français (France)' },
+    { value: 'es-ES', label: 'Español (España)' },
+    { value: 'ja-JP', label: '日本語 (日本)' },
+] as const;
+
+export const SUPPORTED_CURRENCIES = [
+    { value: 'USD', label: 'US Dollar' },
+    { value: 'EUR', label: 'Euro' },
+    { value: 'GBP', label: 'British Pound' },
+    { value: 'INR', label: 'Indian Rupee' },
+    { value: 'JPY', label: 'Japanese Yen' },
+    { value: 'CAD', label: 'Canadian Dollar' },
+    { value: 'AUD', label: 'Australian Dollar' },
+    { value: 'CHF', label: 'Swiss Franc' },
+] as const;
+
+export type CurrencyCode = (typeof SUPPORTED_CURRENCIES)[number]['value'];
+
+export interface FormatSettings {
+    locale: string;
+    /** Only changes how amounts are displayed; values are never converted. */
+    currency: CurrencyCode;
+    /** Decimal places shown for percentages. */
+    percentDecimals: number;
+    /** Significant digits for plain numbers, or null for a fixed two decimal places. */
+    significantDigits: number | null;
+}
+
+export const DEFAULT_FORMAT_SETTINGS: FormatSettings = {
+    locale: 'en-US',
+    currency: 'USD',
+    percentDecimals: 2,
+    significantDigits: null,
+};
+
+export function createFormatter(settings: FormatSettings = DEFAULT_FORMAT_SETTINGS) {
+    const { locale, currency } = settings;
+    // Intl.NumberFormat is expensive to construct, so each distinct option set is built once.
+    const cache = new Map<string, Intl.NumberFormat>();
+    const intl = (options: Intl.NumberFormatOptions) => {
+        const key = JSON.stringify(options);
+        let numberFormat = cache.get(key);
+        if (!numberFormat) {
+            numberFormat = new Intl.NumberFormat(locale, options);
+            cache.set(key, numberFormat);
+        }
+        return numberFormat;
+    };
+
+    /** Explicit decimals always win; otherwise the significant-digits setting applies. */
+    const number = (value: number, decimals?: number) => {
+        if (decimals === undefined && settings.significantDigits !== null) {
+            return intl({ maximumSignificantDigits: settings.significantDigits }).format(value);
+        }
+        const fractionDigits = decimals ?? 2;
+        return intl({ minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits }).format(value);
+    };
+
+    const integer = (value: number) => intl({ maximumFractionDigits: 0 }).format(value);
+
+    // The currency's own minor unit decides the decimals, e.g. none for JPY.
+    const currencyValue = (value: number) => intl({ style: 'currency', currency }).format(value);
+
+    /** Short form for chart axes, e.g. $1.2M. */
+    const compactCurrency = (value: number) =>
+        intl({ style: 'currency', currency, notation: 'compact', maximumFractionDigits: 1 }).format(value);
+
+    /** Takes a whole-number percentage (25 for 25%), as every calculator returns. */
+    const percent = (value: number, decimals = settings.percentDecimals) =>
+        intl({ style: 'percent', minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(value / 100);
+
+    const result = (value: unknown, unit?: ResultUnit) => {
+        if (typeof value !== 'number') return value === null || value === undefined ? '' : String(value);
+        switch (unit) {
+            case 'currency':
+                return currencyValue(value);
+            case 'percent':
+                return percent(value);
+            case 'percentagePoints':
+                return `${number(value)} pp`;
+            case 'years':
+                return `${number(value)} years`;
+            case 'months':
+                return `${integer(value)} months`;
+            case 'integer':
+                return integer(value);
+            default:
+                return number(value);
+        }
+    };
+
+    const currencySymbol = intl({ style: 'currency', currency }).formatToParts(0).find((part) => part.type === 'currency')?.value ?? currency;
+
+    return { settings, number, integer, currency: currencyValue, compactCurrency, percent, result, currencySymbol };
+}
+
+export type Formatter = ReturnType<typeof createFormatter>;
+
+// Default-locale helpers for code that runs outside a page, e.g. APIs and scripts.
+const defaultFormatter = createFormatter();
+
+export const formatNumber = defaultFormatter.number;
+export const formatCurrency = defaultFormatter.currency;
+export const formatPercent = defaultFormatter.percent;
+export const formatResultValue = defaultFormatter.result;
+
+/** Turns a field name such as `monthlyPayment` into a label such as "Monthly payment". */
+export function humanizeFieldName(key: string) {
+    const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// Kept structural so this module doesn't depend on calculators.ts.
+type IntervalLike = { lower: number | null; upper: number | null; lowerInclusive: boolean; upperInclusive: boolean };
+
+type InequalitySolutionLike =
+    | { kind: 'all' }
+    | { kind: 'none' }
+    | { kind: 'between' | 'outside'; lower: number; upper: number; inclusive: boolean }
+    | { kind: 'except'; value: number }
+    | { kind: 'intervals'; intervals: IntervalLike[] };
+
+export function formatInequalitySolution(solution: InequalitySolutionLike, formatter: Formatter = defaultFormatter, variable = 'x') {
+    const number = (value: number) => formatter.number(value, 2);
+    switch (solution.kind) {
+        case 'all':
+            return 'All real numbers';
+        case 'none':
+            return 'No solution';
+        case 'except':
+            return `${variable} ≠ ${number(solution.value)}`;
+        case 'between': {
+            const op = solution.inclusive ? '≤' : '<';
+            return `${number(solution.lower)} ${op} ${variable} ${op} ${number(solution.upper)}`;
+        }
+        case 'outside':
+            return `${variable} ${solution.inclusive ? '≤' : '<'} ${number(solution.lower)} or ${variable} ${solution.inclusive ? '≥' : '>'} ${number(solution.upper)}`;
+        case 'intervals':
+            return solution.intervals.map(({ lower, upper, lowerInclusive, upperInclusive }) => {
+                if (lower === null && upper === null) return 'All real numbers';
+                if (lower === null) return `${variable} ${upperInclusive ? '≤' : '<'} ${number(upper!)}`;
+                if (upper === null) return `${variable} ${lowerInclusive ? '≥' : '>'} ${number(lower)}`;
+                if (lower === upper) return `${variable} = ${number(lower)}`;
+                return `${number(lower)} ${lowerInclusive ? '≤' : '<'} ${variable} ${upperInclusive ? '≤' : '<'} ${number(upper)}`;
+            }).join(' or ');
+    }
+}
+
+export function formatIntervalNotation(solution: InequalitySolutionLike, formatter: Formatter = defaultFormatter) {
+    const number = (value: number) => formatter.number(value, 2);
+    // Locales that use a decimal comma separate interval endpoints with a semicolon.
+    const separator = number(0.5).includes(',') ? '; ' : ', ';
+    const interval = (open: string, lower: string, upper: string, close: string) => `${open}${lower}${separator}${upper}${close}`;
+    switch (solution.kind) {
+        case 'all':
+            return interval('(', '-∞', '∞', ')');
+        case 'none':
+            return '∅';
+        case 'except':
+            return `${interval('(', '-∞', number(solution.value), ')')} ∪ ${interval('(', number(solution.value), '∞', ')')}`;
+        case 'between':
+            return interval(solution.inclusive ? '[' : '(', number(solution.lower), number(solution.upper), solution.inclusive ? ']' : ')');
+        case 'outside':
+            return `${interval('(', '-∞', number(solution.lower), solution.inclusive ? ']' : ')')} ∪ ${interval(solution.inclusive ? '[' : '(', number(solution.upper), '∞', ')')}`;
+        case 'intervals':
+            // A single point is written as a set, e.g. [1, 3) ∪ {5}.
+            return solution.intervals.map(({ lower, upper, lowerInclusive, upperInclusive }) => (lower !== null && lower === upper
+                ? `{${number(lower)}}`
+                : interval(
+                    lower !== null && lowerInclusive ? '[' : '(',
+                    lower === null ? '-∞' : number(lower),
+                    upper === null ? '∞' : number(upper),
+                    upper !== null && upperInclusive ? ']' : ')',
+                ))).join(' ∪ ');
+    }
+}
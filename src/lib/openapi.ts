@@ -0,0 +1,132 @@
+/**
+ * Builds the OpenAPI document for `/api/calculators/{slug}` from the endpoint
+ * map and the registry, so a new calculator is documented as soon as it has
+ * an endpoint.
+ */
+import * as z from 'zod';
+import { calculatorEndpoints } from '@/lib/calculator-api';
+import { getCalculator } from '@/lib/calculator-registry';
+
+export type JsonSchema = Record<string, unknown>;
+
+// Covers the zod types the calculator schemas use. Refinements such as
+// "k cannot be greater than n" can't be expressed here and are only enforced on validation.
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+    if (schema instanceof z.ZodObject) {
+        const shape = schema.shape as Record<string, z.ZodTypeAny>;
+        const required = Object.keys(shape).filter((key) => !shape[key].isOptional());
+        return {
+            type: 'object',
+            properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+            ...(required.length > 0 && { required }),
+        };
+    }
+    if (schema instanceof z.ZodNumber) {
+        const result: JsonSchema = { type: schema.isInt ? 'integer' : 'number' };
+        for (const check of schema._def.checks) {
+            if (check.kind === 'min') result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+            if (check.kind === 'max') result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+        }
+        return result;
+    }
+    if (schema instanceof z.ZodString) {
+        const result: JsonSchema = { type: 'string' };
+        for (const check of schema._def.checks) {
+            if (check.kind === 'min') result.minLength = check.value;
+            if (check.kind === 'regex') result.pattern = check.regex.source;
+        }
+        return result;
+    }
+    if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+    if (schema instanceof z.ZodEnum) return { type: 'string', enum: schema.options };
+    if (schema instanceof z.ZodArray) return { type: 'array', items: toJsonSchema(schema.element) };
+    if (schema instanceof z.ZodOptional) return toJsonSchema(schema.unwrap());
+    if (schema instanceof z.ZodDefault) return { ...toJsonSchema(schema._def.innerType), default: schema._def.defaultValue() };
+    if (schema instanceof z.ZodEffects) return toJsonSchema(schema.innerType());
+    return {};
+}
+
+const errorResponse = (description: string) => ({
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+});
+
+export function buildOpenApiDocument() {
+    const paths = Object.fromEntries(
+        Object.entries(calculatorEndpoints).map(([slug, endpoint]) => {
+            const calc = getCalculator(slug);
+            return [`/api/calculators/${slug}`, {
+                post: {
+                    operationId: slug,
+                    summary: calc.title,
+                    description: calc.description,
+                    tags: [calc.category],
+                    requestBody: {
+                        required: true,
+                        content: { 'application/json': { schema: toJsonSchema(endpoint.schema) } },
+                    },
+                    responses: {
+                        200: {
+                            description: 'The calculation result.',
+                            content: { 'application/json': { schema: { $ref: '#/components/schemas/Result' } } },
+                        },
+                        400: errorResponse('The body is not JSON or does not match the input schema.'),
+                        404: errorResponse('There is no calculator with this slug.'),
+                        422: errorResponse('The input is valid but the calculation has no answer, e.g. a division by zero.'),
+                        500: errorResponse('The calculation failed unexpectedly.'),
+                    },
+                },
+            }];
+        })
+    );
+
+    return {
+        openapi: '3.1.0',
+        info: {
+            title: 'FinanceFriend Calculator API',
+            version: '1.0.0',
+            description: 'Runs any calculator on the site. Amounts are plain numbers in the currency of the input; percentages are whole numbers, so 25 means 25%.',
+        },
+        paths,
+        components: {
+            schemas: {
+                Result: {
+                    type: 'object',
+                    required: ['ok', 'data', 'units'],
+                    properties: {
+                        ok: { const: true },
+                        data: { type: 'object', description: 'Raw result values. Field names match the calculator page.' },
+                        units: {
+                            type: 'object',
+                            description: 'The unit of each scalar field in `data`.',
+                            additionalProperties: { enum: ['currency', 'percent', 'percentagePoints', 'years', 'months', 'number', 'integer'] },
+                        },
+                    },
+                },
+                Error: {
+                    type: 'object',
+                    required: ['ok', 'error'],
+                    properties: {
+                        ok: { const: false },
+                        error: {
+                            type: 'object',
+                            required: ['code', 'message'],
+                            properties: {
+                                code: { type: 'string', examples: ['invalid_json', 'validation_error', 'not_found', 'division_by_zero', 'internal_error'] },
+                                message: { type: 'string' },
+                                issues: {
+                                    type: 'array',
+                                    description: 'One entry per invalid field, for `validation_error`.',
+                                    items: {
+                                        type: 'object',
+                                        properties: { path: { type: 'string' }, message: { type: 'string' } },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    };
+}
@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { factorPolynomial } from '@/lib/calculators';
+
+function factor(input: string) {
+    const result = factorPolynomial(input);
+    assert.ok(result.ok, `${input} should factor`);
+    return result.data;
+}
+
+test('rational roots are written as fractions', () => {
+    const result = factor('6x^3 + 5x^2 - 2x - 1');
+    assert.equal(result.factored, '(x + 1)(2x - 1)(3x + 1)');
+    assert.deepEqual(result.roots.map((root) => root.value), ['-1', '-1/3', '1/2']);
+    assert.ok(result.roots.every((root) => root.exact));
+    assert.equal(result.fullyFactored, true);
+});
+
+// 963761198400 has 6720 divisors, so testing every ±p/q would mean about 45 million candidates.
+test('a constant with many divisors skips the rational root search', () => {
+    const start = Date.now();
+    const result = factor('963761198400x^5 + x + 963761198400');
+    assert.ok(Date.now() - start < 2000, 'the search is skipped rather than run');
+    assert.equal(result.fullyFactored, false);
+    assert.equal(result.factored, '963761198400x^5 + x + 963761198400');
+    assert.equal(result.roots.length, 5);
+    assert.match(result.steps.join('\n'), /too many candidates/);
+});
+
+test('a root is still found when the candidates are within the limit', () => {
+    const result = factor('5040x^2 - 5041x + 1');
+    assert.equal(result.factored, '(x - 1)(5040x - 1)');
+    assert.deepEqual(result.roots.map((root) => root.value), ['1/5040', '1']);
+});
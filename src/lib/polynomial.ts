@@ -0,0 +1,244 @@
+/**
+ * Polynomials in any number of variables with exact rational coefficients.
+ *
+ * Text is parsed into an AST by the shared expression parser, and
+ * `toPolynomial` expands the AST into a `Polynomial`, a sum of like terms kept
+ * in standard form. Mistakes are reported as an `ExpressionSyntaxError` with
+ * the index into the input where the problem is; those that only apply to
+ * polynomials are a `PolynomialSyntaxError`.
+ *
+ * Letters written together multiply, so `2xy` is `2·x·y` and `3a^2b` is
+ * `3·a²·b`. Exponents must be whole numbers, and division is only allowed by
+ * a non-zero constant, since anything else would not be a polynomial.
+ */
+import { ExpressionSyntaxError, MAX_EXPONENT, parseExpression, type ExpressionNode } from '@/lib/expression';
+import { Rational } from '@/lib/rational';
+
+// MAX_EXPONENT is checked one power at a time, so nested powers such as
+// ((x + 1)^100)^100 and products of powers are held to the same degree, and to
+// a number of terms, while they expand.
+export const MAX_DEGREE = MAX_EXPONENT;
+export const MAX_TERMS = 1000;
+
+export class PolynomialSyntaxError extends ExpressionSyntaxError {
+    constructor(message: string, position: number) {
+        super(message, position);
+        this.name = 'PolynomialSyntaxError';
+    }
+}
+
+/** Variable name to exponent, listing only variables with a positive exponent. */
+export type Monomial = Record<string, number>;
+
+export interface Term {
+    coefficient: Rational;
+    monomial: Monomial;
+}
+
+const monomialKey = (monomial: Monomial) =>
+    Object.keys(monomial).sort().map((name) => `${name}^${monomial[name]}`).join(' ');
+
+export const monomialDegree = (monomial: Monomial) => Object.values(monomial).reduce((sum, exponent) => sum + exponent, 0);
+
+export function multiplyMonomials(a: Monomial, b: Monomial): Monomial {
+    const product = { ...a };
+    for (const [name, exponent] of Object.entries(b)) product[name] = (product[name] ?? 0) + exponent;
+    return product;
+}
+
+// Standard form: highest total degree first, ties broken alphabetically by variable with higher powers first.
+export function compareMonomials(a: Monomial, b: Monomial) {
+    const byDegree = monomialDegree(b) - monomialDegree(a);
+    if (byDegree !== 0) return byDegree;
+    for (const name of [...new Set([...Object.keys(a), ...Object.keys(b)])].sort()) {
+        const byExponent = (b[name] ?? 0) - (a[name] ?? 0);
+        if (byExponent !== 0) return byExponent;
+    }
+    return 0;
+}
+
+/** A monomial as written, e.g. `a^2b`; the empty monomial is an empty string. */
+export function formatMonomial(monomial: Monomial) {
+    return Object.keys(monomial).sort().map((name) => (monomial[name] === 1 ? name : `${name}^${monomial[name]}`)).join('');
+}
+
+// Fractional coefficients are bracketed so `(1/3)x` cannot be read as `1/(3x)`.
+function formatMagnitude(coefficient: Rational, monomial: Monomial) {
+    const variables = formatMonomial(monomial);
+    const magnitude = coefficient.abs();
+    if (!variables) return magnitude.toString();
+    if (magnitude.equals(1)) return variables;
+    const text = magnitude.toString();
+    return text.includes('/') ? `(${text})${variables}` : `${text}${variables}`;
+}
+
+/** A single term with its sign, e.g. `-3x^2` or `(1/2)ab`. */
+export function formatTerm(term: Term) {
+    if (term.coefficient.isZero()) return '0';
+    return `${term.coefficient.isNegative() ? '-' : ''}${formatMagnitude(term.coefficient, term.monomial)}`;
+}
+
+export class Polynomial {
+    /** Like terms are keyed by their monomial; zero coefficients are never stored. */
+    private constructor(private readonly termsByKey: Map<string, Term>) {}
+
+    static readonly ZERO = new Polynomial(new Map());
+
+    static constant(value: Rational | number) {
+        return Polynomial.fromTerms([{ coefficient: Rational.from(value), monomial: {} }]);
+    }
+
+    static variable(name: string) {
+        return Polynomial.fromTerms([{ coefficient: Rational.ONE, monomial: { [name]: 1 } }]);
+    }
+
+    /** Combines like terms and drops zero coefficients. */
+    static fromTerms(terms: Iterable<Term>) {
+        const termsByKey = new Map<string, Term>();
+        for (const term of terms) {
+            const key = monomialKey(term.monomial);
+            const existing = termsByKey.get(key);
+            const coefficient = existing ? existing.coefficient.plus(term.coefficient) : term.coefficient;
+            if (coefficient.isZero()) termsByKey.delete(key);
+            else termsByKey.set(key, { coefficient, monomial: term.monomial });
+        }
+        return new Polynomial(termsByKey);
+    }
+
+    /** A polynomial in one variable from its coefficients, highest degree first. */
+    static fromCoefficients(coefficients: Rational[], variable: string) {
+        const degree = coefficients.length - 1;
+        return Polynomial.fromTerms(coefficients.map((coefficient, index) => ({
+            coefficient,
+            monomial: degree - index > 0 ? { [variable]: degree - index } : {},
+        })));
+    }
+
+    /** The terms in standard form. */
+    get terms(): Term[] {
+        return [...this.termsByKey.values()].sort((a, b) => compareMonomials(a.monomial, b.monomial));
+    }
+
+    /** Every variable that appears, in alphabetical order. */
+    get variables(): string[] {
+        return [...new Set(this.terms.flatMap((term) => Object.keys(term.monomial)))].sort();
+    }
+
+    /** The highest total degree of any term; the zero polynomial has degree -Infinity by convention. */
+    get degree() {
+        return this.isZero() ? -Infinity : Math.max(...this.terms.map((term) => monomialDegree(term.monomial)));
+    }
+
+    /** The coefficient of a monomial, or zero when it has no such term. */
+    coefficientOf(monomial: Monomial) {
+        return this.termsByKey.get(monomialKey(monomial))?.coefficient ?? Rational.ZERO;
+    }
+
+    /**
+     * Coefficients in one variable, highest degree first, with zeros for missing
+     * powers, e.g. `[1, 0, -4]` for `x^2 - 4`. Only meaningful when `variable`
+     * is the sole variable; the zero polynomial gives `[0]`.
+     */
+    coefficients(variable: string) {
+        if (this.isZero()) return [Rational.ZERO];
+        const degree = this.degree;
+        return Array.from({ length: degree + 1 }, (_, index) =>
+            this.coefficientOf(degree - index > 0 ? { [variable]: degree - index } : {})
+        );
+    }
+
+    get termCount() {
+        return this.termsByKey.size;
+    }
+
+    isZero() {
+        return this.termsByKey.size === 0;
+    }
+
+    isConstant() {
+        return this.degree <= 0;
+    }
+
+    plus(other: Polynomial) {
+        return Polynomial.fromTerms([...this.termsByKey.values(), ...other.termsByKey.values()]);
+    }
+
+    minus(other: Polynomial) {
+        return this.plus(other.negated());
+    }
+
+    negated() {
+        return this.scale(Rational.ONE.negated());
+    }
+
+    scale(factor: Rational) {
+        return Polynomial.fromTerms(this.terms.map((term) => ({ coefficient: term.coefficient.times(factor), monomial: term.monomial })));
+    }
+
+    times(other: Polynomial) {
+        return Polynomial.fromTerms(this.terms.flatMap((a) =>
+            other.terms.map((b) => ({ coefficient: a.coefficient.times(b.coefficient), monomial: multiplyMonomials(a.monomial, b.monomial) }))
+        ));
+    }
+
+    equals(other: Polynomial) {
+        return this.minus(other).isZero();
+    }
+
+    toString() {
+        const terms = this.terms;
+        if (terms.length === 0) return '0';
+        return terms.map((term, index) => {
+            const magnitude = formatMagnitude(term.coefficient, term.monomial);
+            if (index === 0) return term.coefficient.isNegative() ? `-${magnitude}` : magnitude;
+            return `${term.coefficient.isNegative() ? ' - ' : ' + '}${magnitude}`;
+        }).join('');
+    }
+}
+
+function withinLimits(polynomial: Polynomial, position: number) {
+    if (polynomial.degree > MAX_DEGREE) {
+        throw new PolynomialSyntaxError(`The expansion at column ${position + 1} has a degree above ${MAX_DEGREE}.`, position);
+    }
+    if (polynomial.termCount > MAX_TERMS) {
+        throw new PolynomialSyntaxError(`The expansion at column ${position + 1} has more than ${MAX_TERMS} terms.`, position);
+    }
+    return polynomial;
+}
+
+export function toPolynomial(node: ExpressionNode): Polynomial {
+    switch (node.type) {
+        case 'number':
+            return Polynomial.constant(node.value);
+        case 'variable':
+            return Polynomial.variable(node.name);
+        case 'negate':
+            return toPolynomial(node.operand).negated();
+        case 'power': {
+            // Each step is checked, so an oversized power stops before it has fully expanded.
+            const base = toPolynomial(node.base);
+            let result = Polynomial.constant(1);
+            for (let i = 0; i < node.exponent; i++) result = withinLimits(result.times(base), node.position);
+            return result;
+        }
+        case 'abs':
+            throw new PolynomialSyntaxError(`Absolute values are not allowed in a polynomial (column ${node.position + 1}).`, node.position);
+        case 'binary': {
+            const left = toPolynomial(node.left);
+            const right = toPolynomial(node.right);
+            if (node.operator === '+') return left.plus(right);
+            if (node.operator === '-') return left.minus(right);
+            if (node.operator === '*') return withinLimits(left.times(right), node.position);
+            if (!right.isConstant()) {
+                throw new PolynomialSyntaxError(`Only division by a number is allowed in a polynomial (column ${node.position + 1}).`, node.position);
+            }
+            if (right.isZero()) throw new PolynomialSyntaxError(`Division by zero at column ${node.position + 1}.`, node.position);
+            return left.scale(Rational.ONE.dividedBy(right.coefficientOf({})));
+        }
+    }
+}
+
+export function parsePolynomial(input: string) {
+    if (!input.trim()) throw new PolynomialSyntaxError('Enter a polynomial.', 0);
+    return toPolynomial(parseExpression(input));
+}
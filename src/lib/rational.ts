@@ -0,0 +1,154 @@
+/**
+ * Exact fractions for algebra.
+ *
+ * A value is a bigint numerator over a positive bigint denominator in lowest
+ * terms, so `1/3 + 1/6` is exactly `1/2` and coefficients never pick up
+ * floating point noise while polynomials are combined or divided.
+ */
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const FIVE = BigInt(5);
+const TEN = BigInt(10);
+
+const abs = (value: bigint) => (value < ZERO ? -value : value);
+
+function gcd(a: bigint, b: bigint) {
+    a = abs(a);
+    b = abs(b);
+    while (b !== ZERO) [a, b] = [b, a % b];
+    return a;
+}
+
+export class Rational {
+    private constructor(readonly numerator: bigint, readonly denominator: bigint) {}
+
+    static readonly ZERO = new Rational(ZERO, ONE);
+    static readonly ONE = new Rational(ONE, ONE);
+
+    static of(numerator: bigint, denominator: bigint = ONE) {
+        if (denominator === ZERO) throw new RangeError('Division by zero.');
+        if (denominator < ZERO) {
+            numerator = -numerator;
+            denominator = -denominator;
+        }
+        const divisor = gcd(numerator, denominator);
+        return divisor > ONE ? new Rational(numerator / divisor, denominator / divisor) : new Rational(numerator, denominator);
+    }
+
+    /** Numbers are read from their shortest round-trip form, so `0.1` is exactly one tenth. */
+    static from(value: Rational | number | string): Rational {
+        if (value instanceof Rational) return value;
+        if (typeof value === 'number' && !Number.isFinite(value)) throw new RangeError(`Cannot represent ${value} as a fraction.`);
+        const match = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(String(value).trim());
+        if (!match || (!match[2] && !match[3])) throw new SyntaxError(`Invalid number: "${value}"`);
+
+        const [, sign, whole, fraction = '', exponent] = match;
+        const numerator = BigInt((sign === '-' ? '-' : '') + ((whole || '0') + fraction));
+        const scale = fraction.length - (exponent ? parseInt(exponent, 10) : 0);
+        return scale >= 0 ? Rational.of(numerator, TEN ** BigInt(scale)) : Rational.of(numerator * TEN ** BigInt(-scale));
+    }
+
+    plus(other: Rational | number) {
+        const value = Rational.from(other);
+        return Rational.of(this.numerator * value.denominator + value.numerator * this.denominator, this.denominator * value.denominator);
+    }
+
+    minus(other: Rational | number) {
+        return this.plus(Rational.from(other).negated());
+    }
+
+    times(other: Rational | number) {
+        const value = Rational.from(other);
+        return Rational.of(this.numerator * value.numerator, this.denominator * value.denominator);
+    }
+
+    dividedBy(other: Rational | number) {
+        const value = Rational.from(other);
+        if (value.isZero()) throw new RangeError('Division by zero.');
+        return Rational.of(this.numerator * value.denominator, this.denominator * value.numerator);
+    }
+
+    /** Integer powers only. */
+    pow(exponent: number): Rational {
+        if (!Number.isInteger(exponent)) throw new RangeError('Fraction exponents must be integers.');
+        if (exponent < 0) return Rational.ONE.dividedBy(this.pow(-exponent));
+        const power = BigInt(exponent);
+        return Rational.of(this.numerator ** power, this.denominator ** power);
+    }
+
+    negated() {
+        return new Rational(-this.numerator, this.denominator);
+    }
+
+    abs() {
+        return this.numerator < ZERO ? this.negated() : this;
+    }
+
+    compare(other: Rational | number) {
+        const value = Rational.from(other);
+        const difference = this.numerator * value.denominator - value.numerator * this.denominator;
+        return difference === ZERO ? 0 : difference < ZERO ? -1 : 1;
+    }
+
+    equals(other: Rational | number) {
+        return this.compare(other) === 0;
+    }
+
+    isZero() {
+        return this.numerator === ZERO;
+    }
+
+    isNegative() {
+        return this.numerator < ZERO;
+    }
+
+    isInteger() {
+        return this.denominator === ONE;
+    }
+
+    /** True when the value has a finite decimal expansion, i.e. its denominator only has factors of 2 and 5. */
+    isTerminating() {
+        let denominator = this.denominator;
+        while (denominator % TWO === ZERO) denominator /= TWO;
+        while (denominator % FIVE === ZERO) denominator /= FIVE;
+        return denominator === ONE;
+    }
+
+    /** Terminating values print as decimals such as `2.5`; the rest as fractions such as `-1/3`. */
+    toString() {
+        if (this.isInteger()) return this.numerator.toString();
+        if (!this.isTerminating()) return `${this.numerator}/${this.denominator}`;
+
+        let scale = 0;
+        while (TEN ** BigInt(scale) % this.denominator !== ZERO) scale++;
+        const units = abs(this.numerator) * (TEN ** BigInt(scale) / this.denominator);
+        const digits = units.toString().padStart(scale + 1, '0');
+        return `${this.isNegative() ? '-' : ''}${digits.slice(0, -scale)}.${digits.slice(-scale)}`;
+    }
+
+    /** Always a fraction such as `-1/2`, or an integer, whether or not the decimal terminates. */
+    toFraction() {
+        return this.isInteger() ? this.numerator.toString() : `${this.numerator}/${this.denominator}`;
+    }
+
+    toNumber() {
+        return Number(this.numerator) / Number(this.denominator);
+    }
+}
+
+/**
+ * The largest positive fraction that divides every value to an integer, e.g.
+ * 2/3 for `[4/3, 2]`: the gcd of the numerators over the lcm of the denominators.
+ * All zeros give 1.
+ */
+export function commonFactor(values: Rational[]) {
+    let numerator = ZERO;
+    let denominator = ONE;
+    for (const value of values) {
+        numerator = gcd(numerator, value.numerator);
+        denominator = (denominator / gcd(denominator, value.denominator)) * value.denominator;
+    }
+    return numerator === ZERO ? Rational.ONE : Rational.of(numerator, denominator);
+}
@@ -0,0 +1,156 @@
+/**
+ * Scenario comparison: several named sets of inputs for one calculator, run
+ * side by side and compared against a chosen baseline.
+ */
+import type { CalculatorEndpoint } from '@/lib/calculator-api';
+import type { ResultUnit } from '@/lib/calculator-result';
+import { summarizeOutputs, type HistoryEntry } from '@/lib/calculation-history';
+import { calculateBesselJ } from '@/lib/calculators';
+
+export interface Scenario {
+    id: string;
+    name: string;
+    inputs: Record<string, unknown>;
+}
+
+export interface ScenarioOutcome {
+    scenario: Scenario;
+    /** The full result data, for charts; null when the scenario failed. */
+    data: Record<string, unknown> | null;
+    outputs: HistoryEntry['outputs'];
+    units: Record<string, ResultUnit>;
+    error: string | null;
+}
+
+export interface ComparisonCell {
+    value: string | number | boolean | null;
+    /** Difference from the baseline, for numeric outputs of non-baseline scenarios. */
+    delta: number | null;
+    /** The difference as a percentage of the baseline; null when the baseline is zero. */
+    relativeDelta: number | null;
+}
+
+export interface ComparisonRow {
+    key: string;
+    unit: ResultUnit | undefined;
+    cells: ComparisonCell[];
+}
+
+export function runScenario(endpoint: CalculatorEndpoint, scenario: Scenario): ScenarioOutcome {
+    const parsed = endpoint.schema.safeParse(scenario.inputs);
+    if (!parsed.success) {
+        return { scenario, data: null, outputs: {}, units: {}, error: parsed.error.issues.map((issue) => issue.message).join(' ') };
+    }
+    // A throwing calculator shows as a failed column rather than breaking the whole comparison.
+    try {
+        const result = endpoint.run(parsed.data);
+        if (!result.ok) return { scenario, data: null, outputs: {}, units: {}, error: result.error.message };
+        const { outputs, units = {} } = summarizeOutputs(result);
+        return { scenario, data: result.data as Record<string, unknown>, outputs, units, error: null };
+    } catch (error) {
+        return { scenario, data: null, outputs: {}, units: {}, error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+/** One row per output, in first-seen order, with each scenario's value and its delta from the baseline. */
+export function compareOutcomes(outcomes: ScenarioOutcome[], baselineId: string): ComparisonRow[] {
+    const baseline = outcomes.find((outcome) => outcome.scenario.id === baselineId) ?? outcomes[0];
+    const keys = [...new Set(outcomes.flatMap((outcome) => Object.keys(outcome.outputs)))];
+    return keys.map((key) => {
+        const base = baseline?.outputs[key];
+        return {
+            key,
+            unit: outcomes.find((outcome) => outcome.units[key])?.units[key],
+            cells: outcomes.map((outcome) => {
+                const value = outcome.outputs[key] ?? null;
+                const comparable = outcome !== baseline && typeof value === 'number' && typeof base === 'number';
+                return {
+                    value,
+                    delta: comparable ? value - base : null,
+                    relativeDelta: comparable && base !== 0 ? ((value - base) / Math.abs(base)) * 100 : null,
+                };
+            }),
+        };
+    });
+}
+
+export interface ComparisonChart {
+    title: string;
+    xLabel: string;
+    unit: ResultUnit;
+    points(inputs: Record<string, unknown>, data: Record<string, unknown>): { x: number; y: number }[];
+}
+
+// Calculators whose page charts a series over a numeric axis get an overlaid chart here. The auto loan
+// cost breakdown and the average percentage rows are charted by category, so there is no shared axis to overlay.
+export const comparisonCharts: Record<string, ComparisonChart> = {
+    'compounding-increase-calculator': {
+        title: 'Growth Over Time',
+        xLabel: 'Period',
+        unit: 'currency',
+        points: (_, data) => (data.history as { period: number; value: number }[]).map((row) => ({ x: row.period, y: row.value })),
+    },
+    'mortgage-calculator': {
+        title: 'Remaining Balance',
+        xLabel: 'Year',
+        unit: 'currency',
+        points: (_, data) => (data.yearly as { year: number; balance: number }[]).map((row) => ({ x: row.year, y: row.balance })),
+    },
+    'savings-calculator': {
+        title: 'Balance by Year',
+        xLabel: 'Year',
+        unit: 'currency',
+        points: (_, data) => (data.history as { year: number; balance: number }[]).map((row) => ({ x: row.year, y: row.balance })),
+    },
+    'retirement-calculator': {
+        title: "Balance in Today's Dollars",
+        xLabel: 'Age',
+        unit: 'currency',
+        points: (_, data) => (data.history as { age: number; realBalance: number }[]).map((row) => ({ x: row.age, y: row.realBalance })),
+    },
+    'monte-carlo-calculator': {
+        title: 'Median Outcome',
+        xLabel: 'Year',
+        unit: 'currency',
+        points: (_, data) => (data.bands as { year: number; p50: number }[]).map((row) => ({ x: row.year, y: row.p50 })),
+    },
+    'investment-calculator': {
+        title: 'Balance by Year',
+        xLabel: 'Year',
+        unit: 'currency',
+        points: (_, data) => (data.history as { year: number; balance: number }[]).map((row) => ({ x: row.year, y: row.balance })),
+    },
+    // The result is a single point, so the curve is drawn from the order, over the same range as the page's chart.
+    'bessel-function-calculator': {
+        title: 'Bessel Function Jₙ(x)',
+        xLabel: 'x',
+        unit: 'number',
+        points: (inputs) => {
+            const order = Number(inputs.order);
+            const maxX = Math.max(20, Number(inputs.xValue) * 1.5);
+            return Array.from({ length: 101 }, (_, i) => {
+                const x = parseFloat(((i / 100) * maxX).toFixed(2));
+                return { x, y: calculateBesselJ(order, x) };
+            });
+        },
+    },
+    'polynomial-factoring-calculator': {
+        title: 'Polynomial Graph',
+        xLabel: 'x',
+        unit: 'number',
+        points: (_, data) => data.plot as { x: number; y: number }[],
+    },
+};
+
+/** Merges each scenario's points into recharts rows keyed by x, with one `s<index>` field per scenario. */
+export function mergeSeries(series: { x: number; y: number }[][]) {
+    const rows = new Map<number, Record<string, number>>();
+    series.forEach((points, index) => {
+        for (const { x, y } of points) {
+            const row = rows.get(x) ?? { x };
+            row[`s${index}`] = y;
+            rows.set(x, row);
+        }
+    });
+    return [...rows.values()].sort((a, b) => a.x - b.x);
+}
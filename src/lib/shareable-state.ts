@@ -0,0 +1,47 @@
+/**
+ * Encodes calculator form values as URL query parameters and back, so a
+ * calculation can be shared as a link.
+ *
+ * Scalars are written as plain strings and left for each page's zod
+ * `formSchema` to coerce; arrays and objects (e.g. field arrays) are written
+ * as JSON.
+ */
+
+export function serializeFormValues(values: Record<string, unknown>) {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(values)) {
+        if (value === undefined || value === null || value === '') continue;
+        if (typeof value === 'object') {
+            params.set(key, JSON.stringify(value));
+        } else {
+            params.set(key, String(value));
+        }
+    }
+    return params;
+}
+
+/**
+ * Reads back only the keys present in `defaults`, using each default's type to
+ * decide how to decode it. Values that can't be decoded are dropped so the
+ * default is kept.
+ */
+export function deserializeFormValues<T extends Record<string, unknown>>(params: URLSearchParams, defaults: T): Partial<T> {
+    const values: Record<string, unknown> = {};
+    for (const key of Object.keys(defaults)) {
+        const raw = params.get(key);
+        if (raw === null) continue;
+        const fallback = defaults[key];
+        if (typeof fallback === 'boolean') {
+            values[key] = raw === 'true';
+        } else if (typeof fallback === 'object' && fallback !== null) {
+            try {
+                values[key] = JSON.parse(raw);
+            } catch {
+                continue;
+            }
+        } else {
+            values[key] = raw;
+        }
+    }
+    return values as Partial<T>;
+}